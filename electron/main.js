@@ -1,5 +1,9 @@
-import { app, BrowserWindow } from 'electron';
-import { join } from 'path';
+import { app, BrowserWindow, dialog, ipcMain } from 'electron';
+import { writeFile } from 'fs/promises';
+import { basename, dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
 
 function createWindow() {
   const win = new BrowserWindow({
@@ -8,6 +12,9 @@ function createWindow() {
     webPreferences: {
       nodeIntegration: false,
       contextIsolation: true,
+      // 沙箱中的预加载脚本只能是CommonJS
+      preload: join(__dirname, 'preload.cjs'),
+      sandbox: true,
     },
   });
   const isDev = !app.isPackaged;
@@ -20,6 +27,26 @@ function createWindow() {
   }
 }
 
+// 用户在对话框中选择的导出目录, 渲染进程只能写入这个目录
+let exportDirectory = null;
+
+// 选择导出目录
+ipcMain.handle('dialog:selectDirectory', async () => {
+  const result = await dialog.showOpenDialog({ properties: ['openDirectory', 'createDirectory'] });
+  exportDirectory = result.canceled ? null : resolve(result.filePaths[0]);
+  return exportDirectory;
+});
+
+// 批量写入导出文件, 目录必须是最近一次选择的导出目录, 文件名只取basename
+ipcMain.handle('fs:writeFiles', async (_event, directory, files) => {
+  if (exportDirectory === null || typeof directory !== 'string' || resolve(directory) !== exportDirectory) {
+    throw new Error('只能写入通过对话框选择的导出目录');
+  }
+  for (const file of files) {
+    await writeFile(join(directory, basename(file.name)), file.data);
+  }
+});
+
 app.whenReady().then(createWindow);
 
 app.on('window-all-closed', () => {
@@ -1,10 +1,12 @@
-import { contextBridge, ipcRenderer } from 'electron';
+const { contextBridge, ipcRenderer } = require('electron');
 
 // 暴露安全的API给渲染进程
 contextBridge.exposeInMainWorld('electronAPI', {
   // 文件操作
   openFile: () => ipcRenderer.invoke('dialog:openFile'),
   saveFile: (data) => ipcRenderer.invoke('dialog:saveFile', data),
+  selectDirectory: () => ipcRenderer.invoke('dialog:selectDirectory'),
+  writeFiles: (directory, files) => ipcRenderer.invoke('fs:writeFiles', directory, files),
   
   // 窗口操作
   minimizeWindow: () => ipcRenderer.send('window:minimize'),
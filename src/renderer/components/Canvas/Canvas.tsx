@@ -1,23 +1,117 @@
-import React, { useRef, useEffect, useCallback } from 'react';
+import React, { useRef, useEffect, useCallback, useMemo } from 'react';
 import { useEditorStore } from '@store/useEditorStore';
+import { usePlayback } from '@store/usePlayback';
+import { toEngineShape, fromEngineShape, toEngineAnimation } from '@engine/shape-document';
+import { cloneShapeTree } from '@engine/animation-frame';
+import { Path, type Shape, type Vector2 } from '@engine/riv-editor-engine';
+import { applyAffine, invertAffine, matrixScale, type AffineTuple } from '@engine/matrix';
+import { serializeContours, transformContours, type PathContour } from '@engine/path-model';
+import {
+  appendVertex,
+  closeContour,
+  deleteVertices,
+  findHandle,
+  findSegment,
+  findVertex,
+  insertVertex,
+  moveHandle,
+  moveVertices,
+  sameVertexRef,
+  startContour,
+  toggleVertexSmooth,
+  type HandleMode,
+  type HandleSide,
+  type VertexRef
+} from '@engine/path-editing';
+import { hitTestAll } from '@engine/hit-test';
+import { readFontFile, readImageFile, readSvgFile } from '@utils/index';
 
 interface CanvasProps {
   width?: number;
   height?: number;
 }
 
+/**
+ * 编辑中的路径: 引擎图形与局部坐标换算矩阵
+ */
+interface PathTarget {
+  shape: Path;
+  matrix: AffineTuple;
+  inverse: AffineTuple;
+  scale: number; // 局部坐标到画布坐标的平均缩放
+}
+
+/**
+ * 鼠标按下后的拖动状态, 拖动中的修改不记录历史, 松开时记录一次
+ */
+type PathDrag =
+  | { kind: 'vertices'; shapeId: string; contours: PathContour[]; refs: VertexRef[]; start: Vector2 }
+  | { kind: 'handle'; shapeId: string; contours: PathContour[]; ref: VertexRef; side: HandleSide; mode: HandleMode; finishPen?: boolean };
+
+// 锚点/控制柄在屏幕上的半径(像素)
+const HANDLE_SIZE = 4;
+
+// 选择工具的命中容差(像素)
+const HIT_TOLERANCE = 3;
+
 export const Canvas: React.FC<CanvasProps> = ({ width = 800, height = 600 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
+  const pathDragRef = useRef<{ drag: PathDrag; changed: boolean } | null>(null);
+  
   const { 
     currentTool, 
     shapes, 
     selectedShapes,
+    assets,
     addShape,
+    updateShape,
+    addAsset,
+    selectShape,
+    clearSelection,
     zoom,
-    pan
+    pan,
+    penPathId,
+    setPenPathId,
+    selectedVertices,
+    setSelectedVertices,
+    setPathContours,
+    pushHistory,
+    animations,
+    activeAnimationId,
+    notices,
+    addNotice,
+    dismissNotice
   } = useEditorStore();
+  const playbackTime = usePlayback(state => state.time);
+
+  // 转换为引擎图形用于绘制, 图形数据不变时复用
+  const engineShapes = useMemo(() => shapes.map(shape => toEngineShape(shape, assets)), [shapes, assets]);
+
+  // 播放头时刻的图形: 当前动画作用于图形副本, 绘制、拾取与编辑都使用这组图形
+  const activeAnimation = animations.find(a => a.id === activeAnimationId);
+  const engineAnimation = useMemo(() => activeAnimation && toEngineAnimation(activeAnimation), [activeAnimation]);
+  const frameShapes = useMemo(() => {
+    if (!engineAnimation) return engineShapes;
+    const copies = engineShapes.map(shape => shape && cloneShapeTree(shape));
+    engineAnimation.applyToTree(copies.filter((shape): shape is Shape => shape !== null), playbackTime);
+    return copies;
+  }, [engineShapes, engineAnimation, playbackTime]);
+
+  // 顶点编辑模式作用于唯一选中的路径
+  const vertexEditId = currentTool === 'vertex' && selectedShapes.length === 1 ? selectedShapes[0] : null;
+
+  // 路径形状由当前动画驱动时, 画面上的顶点与静止状态的数据不一致, 不能直接编辑
+  const getPathTarget = useCallback((id: string | null): PathTarget | null => {
+    if (!id || engineAnimation?.getTrack('pathData', id)) return null;
+    const shape = frameShapes[shapes.findIndex(s => s.id === id)];
+    if (!(shape instanceof Path)) return null;
+    const matrix = shape.getWorldMatrix();
+    const inverse = invertAffine(matrix);
+    if (!inverse) return null;
+    return { shape, matrix, inverse, scale: matrixScale(matrix) };
+  }, [shapes, frameShapes, engineAnimation]);
 
   // 渲染画布内容
   const render = useCallback(() => {
@@ -43,20 +137,33 @@ export const Canvas: React.FC<CanvasProps> = ({ width = 800, height = 600 }) =>
     drawGrid(ctx, canvas.width / zoom, canvas.height / zoom);
 
     // 绘制所有图形
-    shapes.forEach((shape) => {
-      drawShape(ctx, shape);
+    frameShapes.forEach((shape) => {
+      shape?.render(ctx);
     });
 
-    // 绘制选中框
+    // 绘制选中框, 顶点编辑中的路径只显示顶点
+    const vertexTarget = getPathTarget(vertexEditId);
     selectedShapes.forEach((shapeId) => {
-      const shape = shapes.find(s => s.id === shapeId);
-      if (shape) {
+      const shape = frameShapes[shapes.findIndex(s => s.id === shapeId)];
+      if (shape && !(vertexTarget && shapeId === vertexEditId)) {
         drawSelectionBox(ctx, shape);
       }
     });
 
+    // 绘制钢笔路径与顶点编辑的锚点
+    const penTarget = getPathTarget(penPathId);
+    if (penTarget) {
+      const contours = penTarget.shape.getContours();
+      const last = contours.length - 1;
+      const lastVertex = { contour: last, vertex: (contours[last]?.vertices.length ?? 1) - 1 };
+      drawPathEditor(ctx, penTarget, [lastVertex], zoom);
+    }
+    if (vertexTarget) {
+      drawPathEditor(ctx, vertexTarget, selectedVertices, zoom);
+    }
+
     ctx.restore();
-  }, [shapes, selectedShapes, zoom, pan]);
+  }, [shapes, frameShapes, selectedShapes, zoom, pan, penPathId, vertexEditId, selectedVertices, getPathTarget]);
 
   // 绘制网格
   const drawGrid = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
@@ -81,74 +188,16 @@ export const Canvas: React.FC<CanvasProps> = ({ width = 800, height = 600 }) =>
     }
   };
 
-  // 绘制图形
-  const drawShape = (ctx: CanvasRenderingContext2D, shape: any) => {
-    ctx.save();
-
-    ctx.translate(shape.x, shape.y);
-    ctx.rotate(shape.rotation || 0);
-
-    switch (shape.type) {
-      case 'rect':
-        ctx.fillStyle = shape.fill || '#4a9eff';
-        ctx.fillRect(-shape.width / 2, -shape.height / 2, shape.width, shape.height);
-        break;
-
-      case 'ellipse':
-        ctx.fillStyle = shape.fill || '#ff6b9d';
-        ctx.beginPath();
-        ctx.ellipse(0, 0, shape.radiusX, shape.radiusY, 0, 0, Math.PI * 2);
-        ctx.fill();
-        break;
-
-      case 'path':
-        if (shape.pathData) {
-          const path = new Path2D(shape.pathData);
-          ctx.fillStyle = shape.fill || '#7b61ff';
-          ctx.fill(path);
-        }
-        break;
-    }
-
-    // 绘制描边
-    if (shape.stroke) {
-      ctx.strokeStyle = shape.stroke.color || '#ffffff';
-      ctx.lineWidth = shape.stroke.width || 2;
-      ctx.stroke();
-    }
-
-    ctx.restore();
-  };
-
   // 绘制选中框
-  const drawSelectionBox = (ctx: CanvasRenderingContext2D, shape: any) => {
+  const drawSelectionBox = (ctx: CanvasRenderingContext2D, shape: Shape) => {
     ctx.save();
     
     ctx.strokeStyle = '#4a9eff';
     ctx.lineWidth = 2;
     ctx.setLineDash([5, 5]);
 
-    let bounds = { x: 0, y: 0, width: 0, height: 0 };
-
-    switch (shape.type) {
-      case 'rect':
-        bounds = {
-          x: shape.x - shape.width / 2,
-          y: shape.y - shape.height / 2,
-          width: shape.width,
-          height: shape.height,
-        };
-        break;
-
-      case 'ellipse':
-        bounds = {
-          x: shape.x - shape.radiusX,
-          y: shape.y - shape.radiusY,
-          width: shape.radiusX * 2,
-          height: shape.radiusY * 2,
-        };
-        break;
-    }
+    // 含旋转/缩放的紧包围盒
+    const bounds = shape.getBounds();
 
     ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
 
@@ -168,6 +217,168 @@ export const Canvas: React.FC<CanvasProps> = ({ width = 800, height = 600 }) =>
     ctx.restore();
   };
 
+  // 画布坐标 -> 路径局部坐标, 拾取半径同样换算到局部坐标
+  const toPathLocal = (target: PathTarget, world: Vector2) => ({
+    point: applyAffine(target.inverse, world),
+    tolerance: (HANDLE_SIZE + 2) / zoom / (target.scale || 1)
+  });
+
+  // 选择: 单击选中最上层图形(组内图形选中其顶层组), Shift多选, Alt依次选择下层图形
+  const handleSelectDown = (world: Vector2, e: React.MouseEvent<HTMLCanvasElement>) => {
+    const hits = hitTestAll(
+      frameShapes.filter((shape): shape is Shape => shape !== null),
+      world,
+      { tolerance: HIT_TOLERANCE / zoom }
+    );
+    const ids = Array.from(new Set(hits.map(hit => (hit.ancestors[0] ?? hit.shape).id)));
+
+    if (ids.length === 0) {
+      if (!e.shiftKey) clearSelection();
+      return;
+    }
+
+    let id = ids[0];
+    if (e.altKey) {
+      const current = ids.findIndex(candidate => selectedShapes.includes(candidate));
+      id = ids[(current + 1) % ids.length];
+    }
+    selectShape(id, e.shiftKey);
+  };
+
+  // 钢笔: 单击添加角点, 拖动拉出控制柄, 单击起点闭合
+  const handlePenDown = (world: Vector2) => {
+    const target = getPathTarget(penPathId);
+
+    if (!target) {
+      const id = `path_${Date.now()}`;
+      addShape({
+        id,
+        type: 'path',
+        name: '路径',
+        x: world.x,
+        y: world.y,
+        pathData: 'M0 0',
+        stroke: { color: { r: 74, g: 158, b: 255, a: 1 }, width: 2 },
+        rotation: 0,
+        opacity: 1,
+        visible: true,
+        locked: false,
+      }, false);
+      setPenPathId(id);
+      const contours = startContour([], { x: 0, y: 0 });
+      pathDragRef.current = {
+        drag: { kind: 'handle', shapeId: id, contours, ref: { contour: 0, vertex: 0 }, side: 'out', mode: 'mirror' },
+        changed: true
+      };
+      return;
+    }
+
+    const { point, tolerance } = toPathLocal(target, world);
+    const current = target.shape.getContours();
+    const contourIndex = current.length - 1;
+    const vertices = current[contourIndex]?.vertices ?? [];
+
+    if (vertices.length > 1 && findVertex([current[contourIndex]], point, tolerance)?.vertex === 0) {
+      // 在起点上拖动调整闭合处的控制柄
+      const contours = closeContour(current, contourIndex);
+      setPathContours(target.shape.id, contours, false);
+      pathDragRef.current = {
+        drag: { kind: 'handle', shapeId: target.shape.id, contours, ref: { contour: contourIndex, vertex: 0 }, side: 'out', mode: 'mirror', finishPen: true },
+        changed: true
+      };
+      return;
+    }
+
+    const contours = appendVertex(current, contourIndex, point);
+    setPathContours(target.shape.id, contours, false);
+    pathDragRef.current = {
+      drag: { kind: 'handle', shapeId: target.shape.id, contours, ref: { contour: contourIndex, vertex: vertices.length }, side: 'out', mode: 'mirror' },
+      changed: true
+    };
+  };
+
+  // 顶点编辑: 拖动锚点/控制柄, Alt拖动控制柄断开对称, Alt单击锚点切换角点/平滑点, 单击线段插入顶点
+  const handleVertexDown = (world: Vector2, e: React.MouseEvent<HTMLCanvasElement>) => {
+    const target = getPathTarget(vertexEditId);
+    if (!target) return;
+
+    const { point, tolerance } = toPathLocal(target, world);
+    const contours = target.shape.getContours();
+    const shapeId = target.shape.id;
+
+    const handle = findHandle(contours, selectedVertices, point, tolerance);
+    if (handle) {
+      pathDragRef.current = {
+        drag: { kind: 'handle', shapeId, contours, ref: handle.vertex, side: handle.side, mode: e.altKey ? 'break' : 'mirror' },
+        changed: false
+      };
+      return;
+    }
+
+    const vertex = findVertex(contours, point, tolerance);
+    if (vertex) {
+      const selected = selectedVertices.some(ref => sameVertexRef(ref, vertex));
+      let refs = selectedVertices;
+      if (e.shiftKey) {
+        refs = selected ? selectedVertices.filter(ref => !sameVertexRef(ref, vertex)) : [...selectedVertices, vertex];
+      } else if (!selected) {
+        refs = [vertex];
+      }
+      setSelectedVertices(refs);
+
+      if (e.altKey) {
+        setPathContours(shapeId, toggleVertexSmooth(contours, vertex));
+        return;
+      }
+      pathDragRef.current = {
+        drag: { kind: 'vertices', shapeId, contours, refs, start: point },
+        changed: false
+      };
+      return;
+    }
+
+    const segment = findSegment(contours, point, tolerance);
+    if (segment) {
+      const { contours: inserted, inserted: ref } = insertVertex(contours, segment.segment, segment.t);
+      setPathContours(shapeId, inserted);
+      setSelectedVertices([ref]);
+      return;
+    }
+
+    setSelectedVertices([]);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const state = pathDragRef.current;
+    const canvas = canvasRef.current;
+    if (!state || !canvas) return;
+
+    const { drag } = state;
+    const target = getPathTarget(drag.shapeId);
+    if (!target) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const { point } = toPathLocal(target, {
+      x: (e.clientX - rect.left - pan.x) / zoom,
+      y: (e.clientY - rect.top - pan.y) / zoom
+    });
+
+    const contours = drag.kind === 'vertices'
+      ? moveVertices(drag.contours, drag.refs, { x: point.x - drag.start.x, y: point.y - drag.start.y })
+      : moveHandle(drag.contours, drag.ref, drag.side, point, drag.mode);
+    setPathContours(drag.shapeId, contours, false);
+    state.changed = true;
+  };
+
+  const handleMouseUp = () => {
+    const state = pathDragRef.current;
+    if (!state) return;
+    pathDragRef.current = null;
+
+    if (state.changed) pushHistory();
+    if (state.drag.kind === 'handle' && state.drag.finishPen) setPenPathId(null);
+  };
+
   // 鼠标事件处理
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
@@ -178,16 +389,24 @@ export const Canvas: React.FC<CanvasProps> = ({ width = 800, height = 600 }) =>
     const y = (e.clientY - rect.top - pan.y) / zoom;
 
     switch (currentTool) {
+      case 'select':
+        handleSelectDown({ x, y }, e);
+        break;
+
       case 'rect':
         addShape({
           id: `rect_${Date.now()}`,
           type: 'rect',
           x,
           y,
+          name: '矩形',
           width: 100,
           height: 100,
           fill: '#4a9eff',
           rotation: 0,
+          opacity: 1,
+          visible: true,
+          locked: false,
         });
         break;
 
@@ -199,13 +418,148 @@ export const Canvas: React.FC<CanvasProps> = ({ width = 800, height = 600 }) =>
           y,
           radiusX: 50,
           radiusY: 50,
+          name: '椭圆',
           fill: '#ff6b9d',
           rotation: 0,
+          opacity: 1,
+          visible: true,
+          locked: false,
         });
         break;
+
+      case 'text':
+        addShape({
+          id: `text_${Date.now()}`,
+          type: 'text',
+          x,
+          y,
+          name: '文本',
+          content: '文本',
+          fontSize: 24,
+          fontFamily: 'sans-serif',
+          fill: '#ffffff',
+          rotation: 0,
+          opacity: 1,
+          visible: true,
+          locked: false,
+        });
+        break;
+
+      case 'path':
+        handlePenDown({ x, y });
+        break;
+
+      case 'vertex':
+        handleVertexDown({ x, y }, e);
+        break;
+    }
+  };
+
+  // 拖入SVG、图片与字体文件导入
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (Array.from(e.dataTransfer.items).some(item => item.kind === 'file')) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
     }
   };
 
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const x = (e.clientX - rect.left - pan.x) / zoom;
+    const y = (e.clientY - rect.top - pan.y) / zoom;
+
+    const files = Array.from(e.dataTransfer.files);
+    const svgFiles = files.filter(file => file.type === 'image/svg+xml' || /\.svg$/i.test(file.name));
+    const imageFiles = files.filter(file => /^image\/(png|jpeg|webp)$/.test(file.type) || /\.(png|jpe?g|webp)$/i.test(file.name));
+    const fontFiles = files.filter(file => /^font\/(ttf|sfnt)$/.test(file.type) || /\.ttf$/i.test(file.name));
+
+    for (const file of svgFiles) {
+      try {
+        const { root, warnings } = await readSvgFile(file);
+        warnings.forEach(warning => addNotice('warning', `SVG导入 ${file.name}: ${warning}`));
+
+        // 以放置点作为SVG左上角
+        root.transform.position = {
+          x: root.transform.position.x + x,
+          y: root.transform.position.y + y
+        };
+        addShape(fromEngineShape(root));
+      } catch (error) {
+        addNotice('error', `SVG导入 ${file.name} 失败: ${(error as Error).message}`);
+      }
+    }
+
+    for (const file of imageFiles) {
+      try {
+        const { asset, image } = await readImageFile(file, useEditorStore.getState().assets);
+        addAsset(asset);
+
+        // 以放置点作为图片中心
+        image.transform.position = { x, y };
+        addShape(fromEngineShape(image));
+      } catch (error) {
+        addNotice('error', `图片导入 ${file.name} 失败: ${(error as Error).message}`);
+      }
+    }
+
+    for (const file of fontFiles) {
+      try {
+        const { asset } = await readFontFile(file, useEditorStore.getState().assets);
+        addAsset(asset);
+
+        // 字体加入资源列表, 同时应用到选中的文本
+        shapes
+          .filter(shape => shape.type === 'text' && selectedShapes.includes(shape.id))
+          .forEach(shape => updateShape(shape.id, { assetId: asset.id }));
+      } catch (error) {
+        addNotice('error', `字体导入 ${file.name} 失败: ${(error as Error).message}`);
+      }
+    }
+  };
+
+  // 切换工具时结束钢笔绘制
+  useEffect(() => {
+    if (currentTool !== 'path') finishPenPath();
+  }, [currentTool]);
+
+  // Esc结束钢笔绘制/退出顶点编辑, Delete删除选中顶点
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const element = e.target as HTMLElement | null;
+      if (element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.isContentEditable)) return;
+
+      const state = useEditorStore.getState();
+      if (e.key === 'Escape') {
+        if (state.penPathId) {
+          finishPenPath();
+        } else if (state.currentTool === 'vertex') {
+          state.setSelectedVertices([]);
+          state.setCurrentTool('select');
+        }
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && state.currentTool === 'vertex' && state.selectedVertices.length > 0) {
+        const shape = state.shapes.find(s => s.id === state.selectedShapes[0]);
+        const path = shape && toEngineShape(shape);
+        if (!(path instanceof Path)) return;
+        e.preventDefault();
+
+        const contours = deleteVertices(path.getContours(), state.selectedVertices);
+        state.setSelectedVertices([]);
+        if (contours.length === 0) {
+          state.deleteShape(path.id);
+        } else {
+          state.setPathContours(path.id, contours);
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   // 初始化和渲染循环
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -239,13 +593,41 @@ export const Canvas: React.FC<CanvasProps> = ({ width = 800, height = 600 }) =>
     <div 
       ref={containerRef}
       className="relative w-full h-full bg-gray-800 overflow-hidden"
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
     >
       <canvas
         ref={canvasRef}
         className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 cursor-crosshair"
         onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
       />
       
+      {/* 提示 */}
+      {notices.length > 0 && (
+        <div className="absolute top-4 right-4 w-80 flex flex-col gap-2">
+          {notices.map(notice => (
+            <div
+              key={notice.id}
+              className={`flex items-start gap-2 px-3 py-2 rounded text-xs shadow-lg ${
+                notice.level === 'error' ? 'bg-red-900 text-red-100' : 'bg-yellow-900 text-yellow-100'
+              }`}
+            >
+              <span className="flex-1 break-words">{notice.message}</span>
+              <button
+                onClick={() => dismissNotice(notice.id)}
+                className="opacity-70 hover:opacity-100 transition"
+                title="关闭"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* 状态栏 */}
       <div className="absolute bottom-4 right-4 bg-black bg-opacity-60 px-3 py-1 rounded text-xs font-mono text-gray-400">
         缩放: {Math.round(zoom * 100)}% | 工具: {currentTool}
@@ -253,3 +635,60 @@ export const Canvas: React.FC<CanvasProps> = ({ width = 800, height = 600 }) =>
     </div>
   );
 };
+
+/**
+ * 结束钢笔绘制, 不足两个顶点的路径直接删除
+ */
+function finishPenPath(): void {
+  const state = useEditorStore.getState();
+  const shape = state.shapes.find(s => s.id === state.penPathId);
+  if (!shape) return;
+
+  state.setPenPathId(null);
+  const path = toEngineShape(shape);
+  const vertexCount = path instanceof Path
+    ? path.getContours().reduce((count, contour) => count + contour.vertices.length, 0)
+    : 0;
+  if (vertexCount < 2) state.deleteShape(shape.id);
+}
+
+/**
+ * 绘制路径轮廓、锚点与选中顶点的控制柄, 尺寸不随缩放变化
+ */
+function drawPathEditor(ctx: CanvasRenderingContext2D, target: PathTarget, activeVertices: VertexRef[], zoom: number): void {
+  const contours = transformContours(target.shape.getContours(), target.matrix);
+  const size = HANDLE_SIZE / zoom;
+
+  ctx.save();
+  ctx.strokeStyle = '#4a9eff';
+  ctx.lineWidth = 1 / zoom;
+  ctx.stroke(new Path2D(serializeContours(contours)));
+
+  activeVertices.forEach(ref => {
+    const vertex = contours[ref.contour]?.vertices[ref.vertex];
+    if (!vertex) return;
+    [vertex.in, vertex.out].forEach(handle => {
+      if (handle.x === vertex.point.x && handle.y === vertex.point.y) return;
+      ctx.beginPath();
+      ctx.moveTo(vertex.point.x, vertex.point.y);
+      ctx.lineTo(handle.x, handle.y);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc(handle.x, handle.y, size * 0.75, 0, Math.PI * 2);
+      ctx.fillStyle = '#ffffff';
+      ctx.fill();
+      ctx.stroke();
+    });
+  });
+
+  contours.forEach((contour, c) => {
+    contour.vertices.forEach((vertex, v) => {
+      const active = activeVertices.some(ref => sameVertexRef(ref, { contour: c, vertex: v }));
+      ctx.fillStyle = active ? '#4a9eff' : '#ffffff';
+      ctx.fillRect(vertex.point.x - size, vertex.point.y - size, size * 2, size * 2);
+      ctx.strokeRect(vertex.point.x - size, vertex.point.y - size, size * 2, size * 2);
+    });
+  });
+
+  ctx.restore();
+}
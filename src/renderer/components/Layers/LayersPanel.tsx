@@ -14,6 +14,8 @@ const LayerItem: React.FC<LayerItemProps> = ({ layer, isSelected, onSelect }) =>
       case 'ellipse': return '○';
       case 'path': return '✏';
       case 'text': return 'T';
+      case 'image': return '🖼';
+      case 'group': return '▣';
       default: return '■';
     }
   };
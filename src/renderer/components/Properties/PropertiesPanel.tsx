@@ -1,8 +1,12 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import { useEditorStore } from '@store/useEditorStore';
+import { BLEND_MODES, BLEND_MODE_NAMES, EFFECT_NAMES, createEffect, type EffectType } from '@engine/effects';
+import { hexToRgb, readFontFile, rgbToHex } from '@utils/index';
+import type { Effect } from '../../types';
 
 export const PropertiesPanel: React.FC = () => {
-  const { shapes, selectedShapes, updateShape } = useEditorStore();
+  const { shapes, selectedShapes, updateShape, assets, addAsset, addNotice } = useEditorStore();
+  const fontInputRef = useRef<HTMLInputElement>(null);
 
   const selectedShape = selectedShapes.length === 1 
     ? shapes.find(s => s.id === selectedShapes[0])
@@ -13,6 +17,33 @@ export const PropertiesPanel: React.FC = () => {
     updateShape(selectedShape.id, { [property]: value });
   };
 
+  // 效果列表整体替换, 顺序即叠加顺序
+  const effects = selectedShape?.effects ?? [];
+  const updateEffect = (index: number, patch: Partial<Effect>) => {
+    handlePropertyChange('effects', effects.map((effect, i) => (i === index ? { ...effect, ...patch } as Effect : effect)));
+  };
+  const moveEffect = (index: number, delta: number) => {
+    const next = effects.slice();
+    const [effect] = next.splice(index, 1);
+    next.splice(index + delta, 0, effect);
+    handlePropertyChange('effects', next);
+  };
+
+  // 载入字体文件, 加入资源列表并应用到当前文本
+  const fontAssets = assets.filter((asset) => asset.type === 'font');
+  const handleFontFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { asset } = await readFontFile(file, useEditorStore.getState().assets);
+      addAsset(asset);
+      handlePropertyChange('assetId', asset.id);
+    } catch (error) {
+      addNotice('error', `字体导入 ${file.name} 失败: ${(error as Error).message}`);
+    }
+  };
+
   if (!selectedShape) {
     return (
       <div className="w-72 h-full bg-gray-900 border-l border-gray-700 flex items-center justify-center">
@@ -68,7 +99,7 @@ export const PropertiesPanel: React.FC = () => {
           </div>
 
           {/* 尺寸 */}
-          {selectedShape.type === 'rect' && (
+          {(selectedShape.type === 'rect' || selectedShape.type === 'image') && (
             <div className="grid grid-cols-2 gap-2">
               <div>
                 <label className="text-xs text-gray-500 mb-1 block">宽度</label>
@@ -91,6 +122,22 @@ export const PropertiesPanel: React.FC = () => {
             </div>
           )}
 
+          {selectedShape.type === 'image' && (
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">适应方式</label>
+              <select
+                value={selectedShape.fit ?? 'contain'}
+                onChange={(e) => handlePropertyChange('fit', e.target.value)}
+                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+              >
+                <option value="fill">拉伸填满</option>
+                <option value="contain">完整显示</option>
+                <option value="cover">裁切铺满</option>
+                <option value="none">原始尺寸</option>
+              </select>
+            </div>
+          )}
+
           {selectedShape.type === 'ellipse' && (
             <div className="grid grid-cols-2 gap-2">
               <div>
@@ -114,6 +161,75 @@ export const PropertiesPanel: React.FC = () => {
             </div>
           )}
 
+          {selectedShape.type === 'text' && (
+            <>
+              <div>
+                {/* 编辑内容时合并为单个文本段 */}
+                <label className="text-xs text-gray-500 mb-1 block">内容</label>
+                <textarea
+                  value={selectedShape.content}
+                  rows={3}
+                  onChange={(e) => updateShape(selectedShape.id, { content: e.target.value, runs: undefined })}
+                  className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none focus:border-blue-500 resize-none"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="text-xs text-gray-500 mb-1 block">字号</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={selectedShape.fontSize}
+                    onChange={(e) => handlePropertyChange('fontSize', parseFloat(e.target.value))}
+                    className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500 mb-1 block">对齐</label>
+                  <select
+                    value={selectedShape.textAlign ?? 'left'}
+                    onChange={(e) => handlePropertyChange('textAlign', e.target.value)}
+                    className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+                  >
+                    <option value="left">左对齐</option>
+                    <option value="center">居中</option>
+                    <option value="right">右对齐</option>
+                  </select>
+                </div>
+              </div>
+              <div>
+                {/* 没有字体资源时按预览字体绘制, 导出时需要字体资源 */}
+                <label className="text-xs text-gray-500 mb-1 block">字体</label>
+                <div className="flex gap-2">
+                  <select
+                    value={selectedShape.assetId ?? ''}
+                    onChange={(e) => handlePropertyChange('assetId', e.target.value || undefined)}
+                    className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+                  >
+                    <option value="">无 (预览: {selectedShape.fontFamily})</option>
+                    {fontAssets.map((asset) => (
+                      <option key={asset.id} value={asset.id}>{asset.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => fontInputRef.current?.click()}
+                    className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-xs text-gray-300 hover:border-blue-500"
+                    title="载入TTF字体"
+                  >
+                    载入
+                  </button>
+                  <input
+                    ref={fontInputRef}
+                    type="file"
+                    accept=".ttf,font/ttf"
+                    onChange={handleFontFile}
+                    className="hidden"
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
           {/* 旋转 */}
           <div>
             <label className="text-xs text-gray-500 mb-1 block">旋转 (度)</label>
@@ -124,6 +240,28 @@ export const PropertiesPanel: React.FC = () => {
               className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none focus:border-blue-500"
             />
           </div>
+
+          {/* 斜切 */}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">斜切 X (度)</label>
+              <input
+                type="number"
+                value={Math.round((selectedShape.skewX || 0) * 180 / Math.PI)}
+                onChange={(e) => handlePropertyChange('skewX', parseFloat(e.target.value) * Math.PI / 180)}
+                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">斜切 Y (度)</label>
+              <input
+                type="number"
+                value={Math.round((selectedShape.skewY || 0) * 180 / Math.PI)}
+                onChange={(e) => handlePropertyChange('skewY', parseFloat(e.target.value) * Math.PI / 180)}
+                className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+          </div>
         </div>
       </div>
 
@@ -153,6 +291,18 @@ export const PropertiesPanel: React.FC = () => {
             </div>
           </div>
 
+          {/* 裁切 */}
+          {selectedShape.clipSources && selectedShape.clipSources.length > 0 && (
+            <label className="flex items-center gap-2 text-xs text-gray-500">
+              <input
+                type="checkbox"
+                checked={selectedShape.clipInverse ?? false}
+                onChange={(e) => handlePropertyChange('clipInverse', e.target.checked)}
+              />
+              反向裁切
+            </label>
+          )}
+
           {/* 不透明度 */}
           <div>
             <label className="text-xs text-gray-500 mb-1 block">不透明度</label>
@@ -168,6 +318,136 @@ export const PropertiesPanel: React.FC = () => {
               {Math.round((selectedShape.opacity || 1) * 100)}%
             </div>
           </div>
+
+          {/* 混合模式 */}
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">混合模式</label>
+            <select
+              value={selectedShape.blendMode ?? 'normal'}
+              onChange={(e) => handlePropertyChange('blendMode', e.target.value)}
+              className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+            >
+              {BLEND_MODES.map((mode) => (
+                <option key={mode} value={mode}>{BLEND_MODE_NAMES[mode]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* 效果 */}
+      <div className="p-4 border-b border-gray-700">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
+            效果
+          </h4>
+          <select
+            value=""
+            onChange={(e) => handlePropertyChange('effects', [...effects, createEffect(e.target.value as EffectType)])}
+            className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-300 focus:outline-none focus:border-blue-500"
+          >
+            <option value="" disabled>+ 添加</option>
+            {(Object.keys(EFFECT_NAMES) as EffectType[]).map((type) => (
+              <option key={type} value={type}>{EFFECT_NAMES[type]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-3">
+          {effects.map((effect, index) => (
+            <div key={index} className="bg-gray-800 rounded p-2 space-y-2">
+              <div className="flex items-center gap-2 text-xs text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={effect.visible}
+                  onChange={(e) => updateEffect(index, { visible: e.target.checked })}
+                  title="启用"
+                />
+                <span className="flex-1">{EFFECT_NAMES[effect.type]}</span>
+                <button
+                  onClick={() => moveEffect(index, -1)}
+                  disabled={index === 0}
+                  className="text-gray-500 hover:text-gray-300 disabled:opacity-30"
+                  title="上移"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => moveEffect(index, 1)}
+                  disabled={index === effects.length - 1}
+                  className="text-gray-500 hover:text-gray-300 disabled:opacity-30"
+                  title="下移"
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() => handlePropertyChange('effects', effects.filter((_, i) => i !== index))}
+                  className="text-gray-500 hover:text-red-400"
+                  title="删除"
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <label className="text-xs text-gray-500 mb-1 block">模糊</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={effect.blur}
+                    onChange={(e) => updateEffect(index, { blur: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+                  />
+                </div>
+                {(effect.type === 'drop-shadow' || effect.type === 'inner-shadow') && (
+                  <>
+                    <div>
+                      <label className="text-xs text-gray-500 mb-1 block">X</label>
+                      <input
+                        type="number"
+                        value={effect.offset.x}
+                        onChange={(e) => updateEffect(index, { offset: { ...effect.offset, x: parseFloat(e.target.value) || 0 } })}
+                        className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs text-gray-500 mb-1 block">Y</label>
+                      <input
+                        type="number"
+                        value={effect.offset.y}
+                        onChange={(e) => updateEffect(index, { offset: { ...effect.offset, y: parseFloat(e.target.value) || 0 } })}
+                        className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {(effect.type === 'drop-shadow' || effect.type === 'inner-shadow') && (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={rgbToHex(effect.color)}
+                    onChange={(e) => {
+                      const color = hexToRgb(e.target.value);
+                      if (color) updateEffect(index, { color: { ...color, a: effect.color.a } });
+                    }}
+                    className="w-8 h-6 bg-transparent"
+                  />
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    value={Math.round(effect.color.a * 100)}
+                    onChange={(e) => updateEffect(index, { color: { ...effect.color, a: parseFloat(e.target.value) / 100 } })}
+                    className="flex-1"
+                    title="不透明度"
+                  />
+                </div>
+              )}
+            </div>
+          ))}
         </div>
       </div>
 
@@ -186,12 +466,77 @@ export const PropertiesPanel: React.FC = () => {
               max="20"
               value={selectedShape.stroke?.width || 0}
               onChange={(e) => handlePropertyChange('stroke', {
+                color: { r: 255, g: 255, b: 255, a: 1 },
                 ...selectedShape.stroke,
                 width: parseFloat(e.target.value)
               })}
               className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none focus:border-blue-500"
             />
           </div>
+
+          {selectedShape.stroke && (
+            <>
+              {selectedShape.stroke.dashArray && selectedShape.stroke.dashArray.length > 0 && (
+                <div>
+                  <label className="text-xs text-gray-500 mb-1 block">虚线偏移</label>
+                  <input
+                    type="number"
+                    value={selectedShape.stroke.dashOffset ?? 0}
+                    onChange={(e) => handlePropertyChange('stroke', { ...selectedShape.stroke, dashOffset: parseFloat(e.target.value) || 0 })}
+                    className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+                  />
+                </div>
+              )}
+
+              {/* 裁剪路径 */}
+              <label className="flex items-center gap-2 text-xs text-gray-500">
+                <input
+                  type="checkbox"
+                  checked={!!selectedShape.stroke.trim}
+                  onChange={(e) => handlePropertyChange('stroke', {
+                    ...selectedShape.stroke,
+                    trim: e.target.checked ? { start: 0, end: 1, offset: 0, mode: 'sequential' } : undefined
+                  })}
+                />
+                裁剪路径
+              </label>
+              {selectedShape.stroke.trim && (
+                <>
+                  <div className="grid grid-cols-3 gap-2">
+                    {(['start', 'end', 'offset'] as const).map((key) => (
+                      <div key={key}>
+                        <label className="text-xs text-gray-500 mb-1 block">
+                          {{ start: '起点', end: '终点', offset: '偏移' }[key]} (%)
+                        </label>
+                        <input
+                          type="number"
+                          min={key === 'offset' ? undefined : 0}
+                          max={key === 'offset' ? undefined : 100}
+                          value={Math.round(selectedShape.stroke!.trim![key] * 100)}
+                          onChange={(e) => handlePropertyChange('stroke', {
+                            ...selectedShape.stroke,
+                            trim: { ...selectedShape.stroke!.trim, [key]: (parseFloat(e.target.value) || 0) / 100 }
+                          })}
+                          className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <select
+                    value={selectedShape.stroke.trim.mode}
+                    onChange={(e) => handlePropertyChange('stroke', {
+                      ...selectedShape.stroke,
+                      trim: { ...selectedShape.stroke!.trim, mode: e.target.value }
+                    })}
+                    className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none focus:border-blue-500"
+                  >
+                    <option value="sequential">整体裁剪</option>
+                    <option value="synchronized">逐条子路径裁剪</option>
+                  </select>
+                </>
+              )}
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import {
+  CUBIC_EASINGS,
+  DEFAULT_BACK_OVERSHOOT,
+  DEFAULT_ELASTIC_AMPLITUDE,
+  DEFAULT_ELASTIC_PERIOD
+} from '@engine/easing';
+import type { EasingDirection, EasingFunction, StepJump } from '../../types';
+
+/**
+ * 关键帧缓动: 缓动函数, 或定格到下一关键帧
+ */
+export type KeyframeEasing = EasingFunction | 'hold';
+
+type EasingKind = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'bezier' | 'back' | 'elastic' | 'bounce' | 'steps' | 'hold';
+
+interface EasingEditorProps {
+  value: KeyframeEasing | null; // null表示选中的关键帧缓动不一致
+  disabled?: boolean;
+  onChange: (value: KeyframeEasing) => void;
+}
+
+/**
+ * 缓动编辑: 类型选择 + 对应参数(贝塞尔控制点与预设、back回弹量、elastic振幅与周期、方向、steps阶数)
+ */
+export const EasingEditor: React.FC<EasingEditorProps> = ({ value, disabled = false, onChange }) => {
+  const kind = value === null ? null : easingKind(value);
+  const easing = value === null || value === 'hold' ? null : value;
+
+  const handleKindChange = (next: EasingKind) => {
+    onChange(defaultEasing(next, easing));
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <select
+        value={kind ?? ''}
+        onChange={(e) => handleKindChange(e.target.value as EasingKind)}
+        disabled={disabled}
+        className="px-1 py-1 rounded bg-gray-800 text-gray-300 disabled:opacity-40"
+        title="缓动"
+      >
+        <option value="" disabled>缓动</option>
+        {EASING_KINDS.map(([k, label]) => (
+          <option key={k} value={k}>{label}</option>
+        ))}
+      </select>
+
+      {easing !== null && typeof easing === 'object' && !disabled && (
+        <>
+          {'bezier' in easing && (
+            <>
+              <select
+                value={bezierPresetName(easing.bezier)}
+                onChange={(e) => onChange({ bezier: BEZIER_PRESETS[e.target.value] })}
+                className="px-1 py-1 rounded bg-gray-800 text-gray-300"
+                title="贝塞尔预设"
+              >
+                <option value="" disabled>自定义</option>
+                {Object.keys(BEZIER_PRESETS).map((name) => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+              {easing.bezier.map((point, i) => (
+                <NumberField
+                  key={i}
+                  value={point}
+                  step={0.01}
+                  title={BEZIER_LABELS[i]}
+                  onCommit={(v) => {
+                    const bezier = [...easing.bezier] as [number, number, number, number];
+                    // x坐标限制在[0, 1], 保证时间单调
+                    bezier[i] = i % 2 === 0 ? Math.min(1, Math.max(0, v)) : v;
+                    onChange({ bezier });
+                  }}
+                />
+              ))}
+            </>
+          )}
+
+          {'back' in easing && (
+            <>
+              <DirectionSelect value={easing.back} onChange={(back) => onChange({ ...easing, back })} />
+              <NumberField
+                value={easing.overshoot ?? DEFAULT_BACK_OVERSHOOT}
+                step={0.1}
+                min={0}
+                title="回弹量"
+                onCommit={(overshoot) => onChange({ ...easing, overshoot })}
+              />
+            </>
+          )}
+
+          {'elastic' in easing && (
+            <>
+              <DirectionSelect value={easing.elastic} onChange={(elastic) => onChange({ ...easing, elastic })} />
+              <NumberField
+                value={easing.amplitude ?? DEFAULT_ELASTIC_AMPLITUDE}
+                step={0.1}
+                min={1}
+                title="振幅"
+                onCommit={(amplitude) => onChange({ ...easing, amplitude })}
+              />
+              <NumberField
+                value={easing.period ?? DEFAULT_ELASTIC_PERIOD}
+                step={0.05}
+                min={0.05}
+                title="周期"
+                onCommit={(period) => onChange({ ...easing, period })}
+              />
+            </>
+          )}
+
+          {'bounce' in easing && (
+            <DirectionSelect value={easing.bounce} onChange={(bounce) => onChange({ bounce })} />
+          )}
+
+          {'steps' in easing && (
+            <>
+              <NumberField
+                value={easing.steps}
+                step={1}
+                min={1}
+                title="阶数"
+                onCommit={(steps) => onChange({ ...easing, steps: Math.round(steps) })}
+              />
+              <select
+                value={easing.jump ?? 'end'}
+                onChange={(e) => onChange({ ...easing, jump: e.target.value as StepJump })}
+                className="px-1 py-1 rounded bg-gray-800 text-gray-300"
+                title="跳变位置"
+              >
+                {STEP_JUMPS.map(([jump, label]) => (
+                  <option key={jump} value={jump}>{label}</option>
+                ))}
+              </select>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+const DirectionSelect: React.FC<{ value: EasingDirection; onChange: (value: EasingDirection) => void }> = ({ value, onChange }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as EasingDirection)}
+    className="px-1 py-1 rounded bg-gray-800 text-gray-300"
+    title="方向"
+  >
+    {EASING_DIRECTIONS.map(([direction, label]) => (
+      <option key={direction} value={direction}>{label}</option>
+    ))}
+  </select>
+);
+
+/**
+ * 数值输入: 输入中只修改草稿, 失焦或回车时提交, 无效值还原
+ */
+const NumberField: React.FC<{
+  value: number;
+  step: number;
+  min?: number;
+  title: string;
+  onCommit: (value: number) => void;
+}> = ({ value, step, min = -Infinity, title, onCommit }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    setDraft(null);
+    const next = Number(draft);
+    if (draft.trim() === '' || !Number.isFinite(next) || next < min || next === value) return;
+    onCommit(next);
+  };
+
+  return (
+    <input
+      type="number"
+      value={draft ?? value}
+      step={step}
+      min={Number.isFinite(min) ? min : undefined}
+      title={title}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+      className="w-12 px-1 py-0.5 rounded bg-gray-800 text-gray-300"
+    />
+  );
+};
+
+// ========== 内部工具 ==========
+
+const EASING_KINDS: Array<[EasingKind, string]> = [
+  ['linear', '线性'],
+  ['ease-in', '缓入'],
+  ['ease-out', '缓出'],
+  ['ease-in-out', '缓入缓出'],
+  ['bezier', '贝塞尔'],
+  ['back', '回弹'],
+  ['elastic', '弹性'],
+  ['bounce', '弹跳'],
+  ['steps', '阶梯'],
+  ['hold', '定格'],
+];
+
+const EASING_DIRECTIONS: Array<[EasingDirection, string]> = [
+  ['in', '入'],
+  ['out', '出'],
+  ['in-out', '入出'],
+];
+
+const STEP_JUMPS: Array<[StepJump, string]> = [
+  ['end', '末尾'],
+  ['start', '开头'],
+  ['both', '两端'],
+  ['none', '不跳变'],
+];
+
+const BEZIER_LABELS = ['x1', 'y1', 'x2', 'y2'];
+
+// 常用的三次贝塞尔预设
+const BEZIER_PRESETS: Record<string, [number, number, number, number]> = {
+  ease: [0.25, 0.1, 0.25, 1],
+  'ease-in': CUBIC_EASINGS['ease-in'],
+  'ease-out': CUBIC_EASINGS['ease-out'],
+  'ease-in-out': CUBIC_EASINGS['ease-in-out'],
+  'in-sine': [0.12, 0, 0.39, 0],
+  'out-sine': [0.61, 1, 0.88, 1],
+  'in-cubic': [0.32, 0, 0.67, 0],
+  'out-cubic': [0.33, 1, 0.68, 1],
+  'in-out-cubic': [0.65, 0, 0.35, 1],
+  'in-expo': [0.7, 0, 0.84, 0],
+  'out-expo': [0.16, 1, 0.3, 1],
+  'in-out-expo': [0.87, 0, 0.13, 1],
+  'in-back': [0.36, 0, 0.66, -0.56],
+  'out-back': [0.34, 1.56, 0.64, 1],
+  'in-out-back': [0.68, -0.6, 0.32, 1.6],
+};
+
+function easingKind(value: KeyframeEasing): EasingKind {
+  // 命名的bounce与elastic归入对应类型, 重新选择类型后可编辑参数
+  if (typeof value === 'string') return value;
+  if ('bezier' in value) return 'bezier';
+  if ('back' in value) return 'back';
+  if ('elastic' in value) return 'elastic';
+  if ('bounce' in value) return 'bounce';
+  return 'steps';
+}
+
+/**
+ * 切换缓动类型时的初始值; 切到贝塞尔时沿用命名缓动的控制点
+ */
+function defaultEasing(kind: EasingKind, current: EasingFunction | null): KeyframeEasing {
+  switch (kind) {
+    case 'bezier':
+      return { bezier: typeof current === 'string' && CUBIC_EASINGS[current] ? [...CUBIC_EASINGS[current]] : [...BEZIER_PRESETS.ease] };
+    case 'back':
+      return { back: 'out' };
+    case 'elastic':
+      return { elastic: 'out' };
+    case 'bounce':
+      return { bounce: 'out' };
+    case 'steps':
+      return { steps: 4 };
+    default:
+      return kind;
+  }
+}
+
+function bezierPresetName(bezier: [number, number, number, number]): string {
+  return Object.keys(BEZIER_PRESETS).find((name) => BEZIER_PRESETS[name].every((v, i) => v === bezier[i])) ?? '';
+}
@@ -1,82 +1,517 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { useEditorStore } from '@store/useEditorStore';
+import { playback, usePlayback } from '@store/usePlayback';
+import type { PlaybackLoop } from '@engine/playback';
+import { toEngineShape } from '@engine/shape-document';
+import { readShapeProperty } from '@engine/animation-frame';
+import { COLOR_SPACES, COLOR_SPACE_NAMES, colorInterpolator, resolveInterpolator } from '@engine/interpolation';
+import { describeEasing } from '@engine/easing';
+import {
+  copyKeyframes,
+  deleteKeyframes,
+  moveKeyframes,
+  pasteKeyframes,
+  sameKeyframeRef,
+  setKeyframe,
+  setKeyframeEasing,
+  type CopiedKeyframe,
+  type KeyframeRef
+} from '@engine/keyframe-editing';
+import type { Animation, AnimationTrack, Asset, ColorSpace, Shape } from '../../types';
+import { EasingEditor, type KeyframeEasing } from './EasingEditor';
 
-interface Track {
-  id: string;
+/**
+ * 时间轴上按图形分组的轨道
+ */
+interface TrackGroup {
+  targetId?: string;
   name: string;
-  keyframes: number[];
+  tracks: Array<{ index: number; track: AnimationTrack }>;
+}
+
+/**
+ * 关键帧拖动状态, 拖动中的修改不记录历史, 松开时记录一次
+ */
+interface KeyframeDrag {
+  origin: Animation;
+  refs: KeyframeRef[];
+  startX: number;
+  moved: boolean;
+}
+
+/**
+ * 框选区域, 坐标相对于轨道区域
+ */
+interface SelectionBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  additive: boolean;
 }
 
 export const Timeline: React.FC = () => {
-  const { isPlaying, setIsPlaying, currentFrame, setCurrentFrame } = useEditorStore();
-  const [tracks] = useState<Track[]>([
-    { id: '1', name: 'X 位置', keyframes: [0, 30, 60, 90] },
-    { id: '2', name: 'Y 位置', keyframes: [0, 60] },
-    { id: '3', name: '旋转', keyframes: [0, 40, 80] },
-    { id: '4', name: '缩放', keyframes: [0, 30, 90] },
-  ]);
+  const {
+    shapes,
+    selectedShapes,
+    assets,
+    animations,
+    activeAnimationId,
+    setActiveAnimation,
+    addAnimation,
+    updateAnimation,
+    selectedKeyframes,
+    setSelectedKeyframes,
+    pushHistory
+  } = useEditorStore();
+  const { playing, time, frame: currentFrame, fps, speed, loop, duration, workArea } = usePlayback();
+
+  const [frameWidth, setFrameWidth] = useState(5); // 每帧的宽度(像素)
+  const [box, setBox] = useState<SelectionBox | null>(null);
+  const [durationDraft, setDurationDraft] = useState<string | null>(null); // 时长输入框中未提交的秒数
+  const tracksRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<KeyframeDrag | null>(null);
+  const clipboardRef = useRef<CopiedKeyframe[]>([]);
+
+  const animation = animations.find((a) => a.id === activeAnimationId) ?? null;
+  const groups = animation ? groupTracks(animation, shapes) : [];
+
+  const maxFrame = playback.frameAt(duration);
+  const workAreaIn = playback.frameAt(workArea.in);
+  const workAreaOut = playback.frameAt(workArea.out);
+  const fullWorkArea = workArea.in === 0 && workArea.out === duration;
+  const timeToX = (t: number) => (t / 1000) * fps * frameWidth;
+  const labelStep = frameWidth >= 5 ? 10 : frameWidth >= 2 ? 30 : 60;
+
+  // 指针位置 -> 帧, 以事件所在元素的左边缘为第0帧
+  const frameAtPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.round((e.clientX - rect.left) / frameWidth);
+  };
+
+  // ========== 播放头 ==========
+
+  // 在标尺上按下并拖动播放头, 拖动期间暂停播放
+  const handleScrubStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    playback.beginScrub();
+    playback.scrub(playback.timeOfFrame(Math.max(0, frameAtPointer(e))));
+  };
+
+  const handleScrubMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!playback.getState().scrubbing) return;
+    playback.scrub(playback.timeOfFrame(Math.max(0, frameAtPointer(e))));
+  };
+
+  const handleScrubEnd = () => {
+    playback.endScrub();
+  };
+
+  // 工作区入点/出点设为播放头位置
+  const setWorkAreaIn = () => {
+    playback.setWorkArea({ in: time, out: Math.max(workArea.out, time) });
+  };
+
+  const setWorkAreaOut = () => {
+    playback.setWorkArea({ in: Math.min(workArea.in, time), out: time });
+  };
+
+  // 有当前动画时循环方式写入动画, 随动画导出
+  const handleLoopChange = (value: PlaybackLoop) => {
+    if (animation) updateAnimation({ ...animation, loop: value });
+    else playback.setLoop(value);
+  };
+
+  // 帧率同样写入动画, 导出时按动画帧率取帧
+  const handleFpsChange = (value: number) => {
+    if (animation) updateAnimation({ ...animation, fps: value });
+    else playback.setFps(value);
+  };
+
+  // ========== 关键帧编辑 ==========
+
+  // 选中图形已有的轨道在播放头处添加关键帧, 值为图形当前的属性值
+  const addKeyframesAtPlayhead = () => {
+    if (!animation) return;
+    let next = animation;
+    const refs: KeyframeRef[] = [];
+    animation.tracks.forEach((track) => {
+      if (!track.targetId || !selectedShapes.includes(track.targetId)) return;
+      const value = currentPropertyValue(shapes, assets, track.targetId, track.property);
+      if (value === undefined) return;
+      const result = setKeyframe(next, track.targetId, track.property, time, value);
+      next = result.animation;
+      refs.push(result.ref);
+    });
+    if (refs.length === 0) return;
+    updateAnimation(next);
+    setSelectedKeyframes(refs);
+  };
+
+  // 为第一个选中图形的属性新建轨道, 在播放头处添加关键帧
+  const addPropertyTrack = (property: string) => {
+    const targetId = selectedShapes[0];
+    if (!animation || !targetId) return;
+    const value = currentPropertyValue(shapes, assets, targetId, property);
+    if (value === undefined) return;
+    const result = setKeyframe(animation, targetId, property, time, value);
+    updateAnimation(result.animation);
+    setSelectedKeyframes([result.ref]);
+  };
+
+  const deleteSelectedKeyframes = () => {
+    if (!animation || selectedKeyframes.length === 0) return;
+    updateAnimation(deleteKeyframes(animation, selectedKeyframes));
+    setSelectedKeyframes([]);
+  };
+
+  const copySelectedKeyframes = () => {
+    if (!animation) return;
+    const copied = copyKeyframes(animation, selectedKeyframes);
+    if (copied.length > 0) clipboardRef.current = copied;
+  };
+
+  // 粘贴到播放头位置
+  const pasteCopiedKeyframes = () => {
+    if (!animation || clipboardRef.current.length === 0) return;
+    const result = pasteKeyframes(animation, clipboardRef.current, time);
+    if (result.refs.length === 0) return;
+    updateAnimation(result.animation);
+    setSelectedKeyframes(result.refs);
+  };
+
+  const handleEasingChange = (value: KeyframeEasing) => {
+    if (!animation || selectedKeyframes.length === 0) return;
+    const next = value === 'hold'
+      ? setKeyframeEasing(animation, selectedKeyframes, null, 'hold')
+      : setKeyframeEasing(animation, selectedKeyframes, value);
+    updateAnimation(next);
+  };
+
+  // 颜色轨道的插值色彩空间
+  const handleColorSpaceChange = (index: number, colorSpace: ColorSpace) => {
+    if (!animation) return;
+    updateAnimation({
+      ...animation,
+      tracks: animation.tracks.map((track, i) => (i === index ? { ...track, colorSpace } : track)),
+    });
+  };
+
+  // 输入中只修改草稿, 失焦或回车时提交一次, 只记录一条历史
+  const commitDuration = () => {
+    if (durationDraft === null) return;
+    setDurationDraft(null);
+    const value = Math.round(Number(durationDraft) * 1000);
+    if (!animation || !(value > 0) || value === animation.duration) return;
+    updateAnimation({ ...animation, duration: value });
+  };
 
-  const maxFrame = 120;
-  const frameWidth = 5; // 每帧的宽度(像素)
+  const handleDurationKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') e.currentTarget.blur();
+    if (e.key === 'Escape') setDurationDraft(null);
+  };
 
-  const togglePlayback = () => {
-    setIsPlaying(!isPlaying);
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+    const modifier = e.ctrlKey || e.metaKey;
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      deleteSelectedKeyframes();
+    } else if (modifier && e.key.toLowerCase() === 'c') {
+      e.preventDefault();
+      copySelectedKeyframes();
+    } else if (modifier && e.key.toLowerCase() === 'v') {
+      e.preventDefault();
+      pasteCopiedKeyframes();
+    } else if (e.key === 'Escape') {
+      setSelectedKeyframes([]);
+    }
   };
 
-  const handleSeek = (frame: number) => {
-    setCurrentFrame(Math.max(0, Math.min(frame, maxFrame)));
+  // ========== 拖动与框选 ==========
+
+  // 按下关键帧: 选中(shift切换)并开始拖动, 选中的关键帧一起平移, 时间对齐到帧
+  const handleKeyframePointerDown = (e: React.PointerEvent<HTMLDivElement>, ref: KeyframeRef) => {
+    if (!animation) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    tracksRef.current?.focus();
+    const isSelected = selectedKeyframes.some((r) => sameKeyframeRef(r, ref));
+    let refs = selectedKeyframes;
+    if (e.shiftKey) {
+      refs = isSelected ? selectedKeyframes.filter((r) => !sameKeyframeRef(r, ref)) : [...selectedKeyframes, ref];
+    } else if (!isSelected) {
+      refs = [ref];
+    }
+    setSelectedKeyframes(refs);
+    dragRef.current = e.shiftKey && isSelected ? null : { origin: animation, refs, startX: e.clientX, moved: false };
   };
 
-  const handleTimelineClick = (e: React.MouseEvent<HTMLDivElement>) => {
+  const handleKeyframePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const frames = Math.round((e.clientX - drag.startX) / frameWidth);
+    if (frames === 0 && !drag.moved) return;
+    const result = moveKeyframes(drag.origin, drag.refs, (frames * 1000) / fps);
+    drag.moved = true;
+    updateAnimation(result.animation, false);
+    setSelectedKeyframes(result.refs);
+  };
+
+  const handleKeyframePointerUp = () => {
+    if (dragRef.current?.moved) pushHistory();
+    dragRef.current = null;
+  };
+
+  // 在轨道空白处按下开始框选, 没有拖出框时定位播放头
+  const handleTracksPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.currentTarget.focus();
     const rect = e.currentTarget.getBoundingClientRect();
-    const x = e.clientX - rect.left - 120; // 减去轨道标签宽度
-    const frame = Math.round(x / frameWidth);
-    handleSeek(frame);
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    setBox({ x0: x, y0: y, x1: x, y1: y, additive: e.shiftKey });
   };
 
+  const handleTracksPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!box) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setBox({ ...box, x1: e.clientX - rect.left, y1: e.clientY - rect.top });
+  };
+
+  const handleTracksPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!box) return;
+    setBox(null);
+    if (Math.abs(box.x1 - box.x0) < 3 && Math.abs(box.y1 - box.y0) < 3) {
+      playback.seekFrame(Math.max(0, Math.min(frameAtPointer(e), maxFrame)));
+      if (!box.additive) setSelectedKeyframes([]);
+      return;
+    }
+
+    const container = e.currentTarget.getBoundingClientRect();
+    const left = container.left + Math.min(box.x0, box.x1);
+    const right = container.left + Math.max(box.x0, box.x1);
+    const top = container.top + Math.min(box.y0, box.y1);
+    const bottom = container.top + Math.max(box.y0, box.y1);
+    const hits: KeyframeRef[] = [];
+    tracksRef.current?.querySelectorAll<HTMLElement>('[data-track]').forEach((element) => {
+      const r = element.getBoundingClientRect();
+      const cx = r.left + r.width / 2;
+      const cy = r.top + r.height / 2;
+      if (cx >= left && cx <= right && cy >= top && cy <= bottom) {
+        hits.push({ track: Number(element.dataset.track), keyframe: Number(element.dataset.keyframe) });
+      }
+    });
+    const base = box.additive ? selectedKeyframes.filter((r) => !hits.some((hit) => sameKeyframeRef(hit, r))) : [];
+    setSelectedKeyframes([...base, ...hits]);
+  };
+
+  // ========== 显示 ==========
+
+  const selectedShape = selectedShapes.length > 0 ? findShape(shapes, selectedShapes[0]) : null;
+  const availableProperties = selectedShape
+    ? KEYFRAME_PROPERTIES.filter(([property]) => currentPropertyValue(shapes, assets, selectedShape.id, property) !== undefined)
+    : [];
+  const selectedEasing = animation ? commonEasing(animation, selectedKeyframes) : null;
+
   return (
-    <div className="h-52 bg-gray-900 border-t border-gray-700 flex flex-col">
+    <div
+      className="h-52 bg-gray-900 border-t border-gray-700 flex flex-col outline-none"
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+    >
       {/* 控制栏 */}
-      <div className="h-10 px-4 flex items-center gap-3 border-b border-gray-700">
+      <div className="h-10 px-4 flex items-center gap-3 border-b border-gray-700 overflow-x-auto">
+        {/* 动画 */}
+        <select
+          value={activeAnimationId ?? ''}
+          onChange={(e) => setActiveAnimation(e.target.value || null)}
+          className="px-1 py-1 text-xs rounded bg-gray-800 text-gray-300"
+          title="当前动画"
+        >
+          <option value="">无动画</option>
+          {animations.map((a) => (
+            <option key={a.id} value={a.id}>{a.name}</option>
+          ))}
+        </select>
+
+        <button
+          onClick={() => addAnimation()}
+          className="px-2 py-1 text-xs rounded bg-gray-800 hover:bg-gray-700 transition"
+          title="新建动画"
+        >
+          ＋ 动画
+        </button>
+
+        <div className="w-px h-6 bg-gray-700" />
+
         {/* 播放控制 */}
         <button
-          onClick={togglePlayback}
+          onClick={() => playback.stop()}
+          className="px-1.5 py-1 text-xs rounded bg-gray-800 hover:bg-gray-700 transition"
+          title="停止"
+        >
+          ⏹
+        </button>
+
+        <button
+          onClick={() => playback.step(-1)}
+          className="px-1.5 py-1 text-xs rounded bg-gray-800 hover:bg-gray-700 transition"
+          title="上一帧"
+        >
+          ⏮
+        </button>
+
+        <button
+          onClick={() => playback.toggle()}
           className="w-8 h-8 rounded-full bg-blue-600 hover:bg-blue-700 flex items-center justify-center transition"
-          title={isPlaying ? '暂停' : '播放'}
+          title={playing ? '暂停' : '播放'}
         >
-          {isPlaying ? (
+          {playing ? (
             <span className="text-white text-sm">⏸</span>
           ) : (
             <span className="text-white text-sm">▶</span>
           )}
         </button>
 
-        {/* 时间显示 */}
+        <button
+          onClick={() => playback.step(1)}
+          className="px-1.5 py-1 text-xs rounded bg-gray-800 hover:bg-gray-700 transition"
+          title="下一帧"
+        >
+          ⏭
+        </button>
+
+        {/* 时间显示: 秒:帧 */}
         <div className="text-xs font-mono text-gray-400">
-          {String(Math.floor(currentFrame / 60)).padStart(2, '0')}:
-          {String(currentFrame % 60).padStart(2, '0')}
+          {String(Math.floor(currentFrame / fps)).padStart(2, '0')}:
+          {String(Math.floor(currentFrame % fps)).padStart(2, '0')}
         </div>
 
         <div className="w-px h-6 bg-gray-700" />
 
-        {/* 关键帧操作 */}
+        {/* 播放设置 */}
+        <select
+          value={loop}
+          onChange={(e) => handleLoopChange(e.target.value as PlaybackLoop)}
+          className="px-1 py-1 text-xs rounded bg-gray-800 text-gray-300"
+          title="循环方式"
+        >
+          <option value="once">单次</option>
+          <option value="loop">循环</option>
+          <option value="pingpong">往复</option>
+        </select>
+
+        <select
+          value={speed}
+          onChange={(e) => playback.setSpeed(Number(e.target.value))}
+          className="px-1 py-1 text-xs rounded bg-gray-800 text-gray-300"
+          title="播放速度"
+        >
+          {PLAYBACK_SPEEDS.map((value) => (
+            <option key={value} value={value}>{value}x</option>
+          ))}
+        </select>
+
         <button
+          onClick={setWorkAreaIn}
           className="px-2 py-1 text-xs rounded bg-gray-800 hover:bg-gray-700 transition"
-          title="添加关键帧"
+          title="工作区入点设为当前帧"
         >
-          ◆ 关键帧
+          [
         </button>
 
         <button
+          onClick={setWorkAreaOut}
           className="px-2 py-1 text-xs rounded bg-gray-800 hover:bg-gray-700 transition"
+          title="工作区出点设为当前帧"
+        >
+          ]
+        </button>
+
+        {!fullWorkArea && (
+          <button
+            onClick={() => playback.setWorkArea(null)}
+            className="px-2 py-1 text-xs rounded bg-gray-800 hover:bg-gray-700 transition"
+            title="清除工作区"
+          >
+            ✕ 工作区
+          </button>
+        )}
+
+        <div className="w-px h-6 bg-gray-700" />
+
+        {/* 关键帧操作 */}
+        <button
+          onClick={addKeyframesAtPlayhead}
+          disabled={!animation}
+          className="px-2 py-1 text-xs rounded bg-gray-800 hover:bg-gray-700 disabled:opacity-40 transition"
+          title="在播放头处为选中图形的轨道添加关键帧"
+        >
+          ◆ 关键帧
+        </button>
+
+        <select
+          value=""
+          onChange={(e) => addPropertyTrack(e.target.value)}
+          disabled={!animation || availableProperties.length === 0}
+          className="px-1 py-1 text-xs rounded bg-gray-800 text-gray-300 disabled:opacity-40"
+          title="为选中图形的属性添加轨道"
+        >
+          <option value="">＋ 属性</option>
+          {availableProperties.map(([property, label]) => (
+            <option key={property} value={property}>{label}</option>
+          ))}
+        </select>
+
+        <EasingEditor
+          value={selectedEasing}
+          disabled={selectedKeyframes.length === 0}
+          onChange={handleEasingChange}
+        />
+
+        <button
+          onClick={deleteSelectedKeyframes}
+          disabled={selectedKeyframes.length === 0}
+          className="px-2 py-1 text-xs rounded bg-gray-800 hover:bg-gray-700 disabled:opacity-40 transition"
           title="删除关键帧"
         >
           🗑
         </button>
 
         {/* 右侧信息 */}
-        <div className="ml-auto text-xs text-gray-500">
-          总帧数: {maxFrame} | FPS: 60
+        <div className="ml-auto flex items-center gap-1 text-xs text-gray-500 whitespace-nowrap">
+          时长:
+          <input
+            type="number"
+            min={0.1}
+            step={0.1}
+            value={durationDraft ?? duration / 1000}
+            disabled={!animation}
+            onChange={(e) => setDurationDraft(e.target.value)}
+            onBlur={commitDuration}
+            onKeyDown={handleDurationKeyDown}
+            className="w-14 px-1 py-0.5 rounded bg-gray-800 text-gray-300 disabled:opacity-40"
+          />
+          秒 | 总帧数: {maxFrame} | FPS:
+          <select
+            value={fps}
+            onChange={(e) => handleFpsChange(Number(e.target.value))}
+            className="px-1 py-0.5 rounded bg-gray-800 text-gray-300"
+          >
+            {(PROJECT_FPS.includes(fps) ? PROJECT_FPS : [...PROJECT_FPS, fps]).map((value) => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+          | 缩放:
+          <input
+            type="range"
+            min={1}
+            max={20}
+            value={frameWidth}
+            onChange={(e) => setFrameWidth(Number(e.target.value))}
+            className="w-20"
+          />
         </div>
       </div>
 
@@ -88,23 +523,62 @@ export const Timeline: React.FC = () => {
           <div className="h-8 border-b border-gray-700" />
 
           {/* 轨道标签 */}
-          {tracks.map((track) => (
-            <div
-              key={track.id}
-              className="h-10 px-3 flex items-center text-xs text-gray-400 border-b border-gray-800 hover:bg-gray-800 transition"
-            >
-              {track.name}
-            </div>
+          {groups.map((group) => (
+            <React.Fragment key={group.targetId ?? ''}>
+              <div className="h-6 px-2 flex items-center text-xs text-gray-300 bg-gray-800 border-b border-gray-700 truncate">
+                {group.name}
+              </div>
+              {group.tracks.map(({ index, track }) => (
+                <div
+                  key={index}
+                  className="h-10 px-3 flex flex-col justify-center text-xs text-gray-400 border-b border-gray-800 hover:bg-gray-800 transition"
+                >
+                  <span className="truncate">{propertyLabel(track.property)}</span>
+                  {resolveInterpolator(track.property) === colorInterpolator && (
+                    <select
+                      value={track.colorSpace ?? 'srgb'}
+                      onChange={(e) => handleColorSpaceChange(index, e.target.value as ColorSpace)}
+                      className="mt-0.5 px-0.5 rounded bg-gray-800 text-gray-300"
+                      title="颜色插值色彩空间"
+                    >
+                      {COLOR_SPACES.map((colorSpace) => (
+                        <option key={colorSpace} value={colorSpace}>{COLOR_SPACE_NAMES[colorSpace]}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              ))}
+            </React.Fragment>
           ))}
+          {!animation && (
+            <div className="px-3 py-2 text-xs text-gray-500">新建或选择动画</div>
+          )}
         </div>
 
         {/* 时间轴区域 */}
         <div className="flex-1 overflow-x-auto overflow-y-auto">
-          <div className="relative" style={{ width: `${maxFrame * frameWidth}px` }}>
+          <div className="relative" style={{ width: `${maxFrame * frameWidth + 10}px` }}>
             {/* 标尺 */}
-            <div className="h-8 bg-gray-800 border-b border-gray-700 relative">
-              {Array.from({ length: Math.ceil(maxFrame / 10) + 1 }).map((_, i) => {
-                const frame = i * 10;
+            <div
+              className="h-8 bg-gray-800 border-b border-gray-700 relative cursor-ew-resize select-none"
+              onPointerDown={handleScrubStart}
+              onPointerMove={handleScrubMove}
+              onPointerUp={handleScrubEnd}
+              onPointerCancel={handleScrubEnd}
+            >
+              {/* 工作区 */}
+              {!fullWorkArea && (
+                <div
+                  className="absolute top-0 bottom-0 bg-blue-500 opacity-20 pointer-events-none"
+                  style={{
+                    left: `${workAreaIn * frameWidth}px`,
+                    width: `${(workAreaOut - workAreaIn) * frameWidth}px`,
+                  }}
+                />
+              )}
+
+              {Array.from({ length: Math.floor(maxFrame / labelStep) + 1 }).map((_, i) => {
+                const frame = i * labelStep;
                 return (
                   <div
                     key={i}
@@ -119,55 +593,96 @@ export const Timeline: React.FC = () => {
               {/* 播放头 */}
               <div
                 className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-10"
-                style={{ left: `${currentFrame * frameWidth}px` }}
+                style={{ left: `${timeToX(time)}px` }}
               >
                 <div className="absolute top-0 left-1/2 transform -translate-x-1/2 w-3 h-3 bg-red-500 rounded-full" />
               </div>
             </div>
 
             {/* 轨道 */}
-            <div onClick={handleTimelineClick}>
-              {tracks.map((track) => (
-                <div
-                  key={track.id}
-                  className="h-10 border-b border-gray-800 relative"
-                  style={{
-                    backgroundImage: `repeating-linear-gradient(
-                      to right,
-                      transparent 0,
-                      transparent ${frameWidth * 5 - 1}px,
-                      #2a2a2a ${frameWidth * 5 - 1}px,
-                      #2a2a2a ${frameWidth * 5}px
-                    )`,
-                  }}
-                >
-                  {/* 关键帧 */}
-                  {track.keyframes.map((frame, i) => (
+            <div
+              ref={tracksRef}
+              className="relative select-none outline-none"
+              style={{ minHeight: '40px' }}
+              tabIndex={-1}
+              onPointerDown={handleTracksPointerDown}
+              onPointerMove={handleTracksPointerMove}
+              onPointerUp={handleTracksPointerUp}
+            >
+              {groups.map((group) => (
+                <React.Fragment key={group.targetId ?? ''}>
+                  <div className="h-6 bg-gray-800 border-b border-gray-700" />
+                  {group.tracks.map(({ index, track }) => (
                     <div
-                      key={i}
-                      className="absolute top-1/2 transform -translate-y-1/2 w-2 h-2 bg-blue-500 rounded-sm cursor-pointer hover:bg-blue-400 transition shadow-lg"
-                      style={{ left: `${frame * frameWidth - 4}px` }}
-                      title={`关键帧 ${frame}`}
-                    />
-                  ))}
+                      key={index}
+                      className="h-10 border-b border-gray-800 relative"
+                      style={{
+                        backgroundImage: `repeating-linear-gradient(
+                          to right,
+                          transparent 0,
+                          transparent ${frameWidth * 5 - 1}px,
+                          #2a2a2a ${frameWidth * 5 - 1}px,
+                          #2a2a2a ${frameWidth * 5}px
+                        )`,
+                      }}
+                    >
+                      {/* 关键帧之间的连线, 定格段不画 */}
+                      {track.keyframes.slice(0, -1).map((keyframe, i) => (
+                        keyframe.interpolation !== 'hold' && (
+                          <div
+                            key={`line-${i}`}
+                            className="absolute top-1/2 h-0.5 bg-blue-700 opacity-50"
+                            style={{
+                              left: `${timeToX(keyframe.time)}px`,
+                              width: `${timeToX(track.keyframes[i + 1].time - keyframe.time)}px`,
+                            }}
+                          />
+                        )
+                      ))}
 
-                  {/* 关键帧之间的连线 */}
-                  {track.keyframes.slice(0, -1).map((frame, i) => {
-                    const nextFrame = track.keyframes[i + 1];
-                    const width = (nextFrame - frame) * frameWidth;
-                    return (
-                      <div
-                        key={`line-${i}`}
-                        className="absolute top-1/2 h-0.5 bg-blue-700 opacity-50"
-                        style={{
-                          left: `${frame * frameWidth}px`,
-                          width: `${width}px`,
-                        }}
-                      />
-                    );
-                  })}
-                </div>
+                      {/* 关键帧 */}
+                      {track.keyframes.map((keyframe, i) => {
+                        const ref = { track: index, keyframe: i };
+                        const selected = selectedKeyframes.some((r) => sameKeyframeRef(r, ref));
+                        return (
+                          <div
+                            key={i}
+                            data-track={index}
+                            data-keyframe={i}
+                            className={`absolute top-1/2 transform -translate-y-1/2 rotate-45 w-2.5 h-2.5 cursor-pointer transition shadow-lg ${
+                              selected ? 'bg-yellow-400' : 'bg-blue-500 hover:bg-blue-400'
+                            }`}
+                            style={{ left: `${timeToX(keyframe.time) - 5}px` }}
+                            title={`关键帧 ${playback.frameAt(keyframe.time)}`}
+                            onPointerDown={(e) => handleKeyframePointerDown(e, ref)}
+                            onPointerMove={handleKeyframePointerMove}
+                            onPointerUp={handleKeyframePointerUp}
+                          />
+                        );
+                      })}
+                    </div>
+                  ))}
+                </React.Fragment>
               ))}
+
+              {/* 播放头 */}
+              <div
+                className="absolute top-0 bottom-0 w-px bg-red-500 opacity-60 pointer-events-none"
+                style={{ left: `${timeToX(time)}px` }}
+              />
+
+              {/* 框选 */}
+              {box && (
+                <div
+                  className="absolute border border-blue-400 bg-blue-400 bg-opacity-10 pointer-events-none"
+                  style={{
+                    left: `${Math.min(box.x0, box.x1)}px`,
+                    top: `${Math.min(box.y0, box.y1)}px`,
+                    width: `${Math.abs(box.x1 - box.x0)}px`,
+                    height: `${Math.abs(box.y1 - box.y0)}px`,
+                  }}
+                />
+              )}
             </div>
           </div>
         </div>
@@ -175,3 +690,87 @@ export const Timeline: React.FC = () => {
     </div>
   );
 };
+
+// ========== 内部工具 ==========
+
+// 播放速度选项(倍数)
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2];
+
+// 项目帧率选项
+const PROJECT_FPS = [24, 25, 30, 60];
+
+// 可添加轨道的属性, 按选中图形实际拥有的属性过滤
+const KEYFRAME_PROPERTIES: Array<[string, string]> = [
+  ['transform.position.x', 'X 位置'],
+  ['transform.position.y', 'Y 位置'],
+  ['transform.rotation', '旋转'],
+  ['transform.scale.x', 'X 缩放'],
+  ['transform.scale.y', 'Y 缩放'],
+  ['opacity', '不透明度'],
+  ['fill.color', '填充颜色'],
+  ['stroke.color', '描边颜色'],
+  ['stroke.width', '描边宽度'],
+  ['width', '宽度'],
+  ['height', '高度'],
+  ['cornerRadius', '圆角'],
+  ['radiusX', 'X 半径'],
+  ['radiusY', 'Y 半径'],
+  ['pathData', '路径'],
+];
+
+function propertyLabel(property: string): string {
+  return KEYFRAME_PROPERTIES.find(([p]) => p === property)?.[1] ?? property;
+}
+
+function findShape(shapes: Shape[], id: string): Shape | null {
+  for (const shape of shapes) {
+    if (shape.id === id) return shape;
+    const nested = [...(shape.type === 'group' ? shape.children : []), ...(shape.clipSources ?? [])];
+    const found = findShape(nested, id);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * 轨道按目标图形分组, 分组顺序与轨道首次出现的顺序一致
+ */
+function groupTracks(animation: Animation, shapes: Shape[]): TrackGroup[] {
+  const groups: TrackGroup[] = [];
+  animation.tracks.forEach((track, index) => {
+    let group = groups.find((g) => g.targetId === track.targetId);
+    if (!group) {
+      const name = track.targetId ? findShape(shapes, track.targetId)?.name ?? `已删除的图形 ${track.targetId}` : '未指定图形';
+      group = { targetId: track.targetId, name, tracks: [] };
+      groups.push(group);
+    }
+    group.tracks.push({ index, track });
+  });
+  return groups;
+}
+
+/**
+ * 图形当前(未应用动画)的属性值, 只接受数值、颜色与路径数据
+ */
+function currentPropertyValue(shapes: Shape[], assets: Asset[], targetId: string, property: string): unknown {
+  const data = findShape(shapes, targetId);
+  const shape = data && toEngineShape(data, assets);
+  if (!shape) return undefined;
+  const value = readShapeProperty(shape, property);
+  if (typeof value === 'number') return value;
+  if (property === 'pathData') return typeof value === 'string' && value ? value : undefined;
+  if (value && typeof value === 'object' && 'r' in value) return structuredClone(value);
+  return undefined;
+}
+
+/**
+ * 选中关键帧共同的缓动, 不一致时为null
+ */
+function commonEasing(animation: Animation, refs: KeyframeRef[]): KeyframeEasing | null {
+  const values: KeyframeEasing[] = refs
+    .map((ref) => animation.tracks[ref.track]?.keyframes[ref.keyframe])
+    .filter(Boolean)
+    .map((keyframe) => (keyframe.interpolation === 'hold' ? 'hold' : keyframe.easing));
+  const key = (value: KeyframeEasing) => (value === 'hold' ? value : describeEasing(value));
+  return values.length > 0 && values.every((value) => key(value) === key(values[0])) ? values[0] : null;
+}
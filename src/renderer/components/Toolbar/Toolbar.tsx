@@ -1,5 +1,6 @@
 import React from 'react';
 import { useEditorStore } from '@store/useEditorStore';
+import type { BooleanOperation } from '../../types';
 
 interface Tool {
   id: string;
@@ -14,11 +15,31 @@ const TOOLS: Tool[] = [
   { id: 'rect', name: '矩形', icon: '▭', shortcut: 'R' },
   { id: 'ellipse', name: '椭圆', icon: '○', shortcut: 'E' },
   { id: 'path', name: '路径', icon: '✏', shortcut: 'P' },
+  { id: 'vertex', name: '顶点编辑', icon: '◇', shortcut: 'A' },
   { id: 'text', name: '文本', icon: 'T', shortcut: 'T' },
 ];
 
+const BOOLEAN_TOOLS: Array<{ operation: BooleanOperation; name: string; icon: string }> = [
+  { operation: 'union', name: '合并', icon: '∪' },
+  { operation: 'subtract', name: '减去', icon: '∖' },
+  { operation: 'intersect', name: '相交', icon: '∩' },
+  { operation: 'exclude', name: '排除', icon: '⊻' },
+];
+
 export const Toolbar: React.FC = () => {
-  const { currentTool, setCurrentTool, undo, redo, canUndo, canRedo } = useEditorStore();
+  const {
+    currentTool,
+    setCurrentTool,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    selectedShapes,
+    applyBooleanOperation,
+    flattenSelection,
+    createClipGroup
+  } = useEditorStore();
+  const canCombine = selectedShapes.length >= 2;
 
   const handleToolClick = (toolId: string) => {
     setCurrentTool(toolId);
@@ -93,6 +114,63 @@ export const Toolbar: React.FC = () => {
         </button>
       </div>
 
+      <div className="w-px h-6 bg-gray-700" />
+
+      {/* 布尔运算: 单击生成可编辑的布尔组, Alt+单击直接拼合为路径 */}
+      <div className="flex gap-1">
+        {BOOLEAN_TOOLS.map((tool) => (
+          <button
+            key={tool.operation}
+            onClick={(e) => applyBooleanOperation(tool.operation, !e.altKey)}
+            disabled={!canCombine}
+            className={`
+              w-9 h-9 rounded flex items-center justify-center
+              transition-all duration-150 text-lg
+              ${
+                canCombine
+                  ? 'text-gray-400 hover:bg-gray-800 hover:text-white'
+                  : 'text-gray-600 cursor-not-allowed'
+              }
+            `}
+            title={`${tool.name} (Alt: 直接拼合)`}
+          >
+            {tool.icon}
+          </button>
+        ))}
+        <button
+          onClick={flattenSelection}
+          disabled={selectedShapes.length === 0}
+          className={`
+            px-2 h-9 rounded flex items-center justify-center
+            transition-all duration-150 text-sm
+            ${
+              selectedShapes.length > 0
+                ? 'text-gray-400 hover:bg-gray-800 hover:text-white'
+                : 'text-gray-600 cursor-not-allowed'
+            }
+          `}
+          title="拼合为路径"
+        >
+          拼合
+        </button>
+        <button
+          onClick={(e) => createClipGroup(e.altKey)}
+          disabled={!canCombine}
+          className={`
+            px-2 h-9 rounded flex items-center justify-center
+            transition-all duration-150 text-sm
+            ${
+              canCombine
+                ? 'text-gray-400 hover:bg-gray-800 hover:text-white'
+                : 'text-gray-600 cursor-not-allowed'
+            }
+          `}
+          title="以最上层图形裁切其余图形 (Alt: 反向裁切)"
+        >
+          裁切
+        </button>
+      </div>
+
       {/* 右侧操作 */}
       <div className="ml-auto flex gap-2">
         <button
@@ -0,0 +1,298 @@
+// ============================================
+// RIV Editor - 资源管理
+// 内容哈希去重、分块Base64编码、资源交付方式与未使用资源检查
+// ============================================
+
+import { Group, type Asset, type AssetDelivery, type RivProject, type Shape } from './riv-editor-engine';
+import type { ArchiveFile } from './zip-archive';
+
+export class AssetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AssetError';
+  }
+}
+
+export interface AssetDuplicate {
+  original: Asset; // 保留的资源
+  duplicates: Asset[]; // 内容与类型相同, 去重时被合并的资源
+}
+
+export interface AssetReport {
+  unused: Asset[]; // 没有图形引用的资源
+  duplicates: AssetDuplicate[];
+  missingCdnUuid: Asset[]; // delivery为cdn但缺少有效UUID, 导出会失败
+}
+
+export interface UniqueAssets {
+  assets: Asset[]; // 去重后的资源, 顺序即.riv中的资源序号
+  indexOf: Map<string, number>; // 资源ID -> 去重后的序号, 重复资源指向同一序号
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Rive运行时把16字节UUID按此顺序格式化为字符串
+const UUID_BYTE_ORDER = [3, 2, 1, 0, 5, 4, 7, 6, 9, 8, 15, 14, 13, 12, 11, 10];
+
+// 3的整数倍, 分块编码后直接拼接仍是合法的Base64
+const BASE64_CHUNK_SIZE = 0x6000;
+
+// ========== 内容哈希 ==========
+
+const hashCache = new WeakMap<ArrayBuffer, Promise<string>>();
+
+/**
+ * 计算资源数据的SHA-256, 返回十六进制字符串; 同一ArrayBuffer只计算一次
+ */
+export function hashAssetData(data: ArrayBuffer): Promise<string> {
+  let hash = hashCache.get(data);
+  if (!hash) {
+    hash = crypto.subtle.digest('SHA-256', data).then(digest =>
+      Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+    );
+    hashCache.set(data, hash);
+  }
+  return hash;
+}
+
+/**
+ * 按内容去重, 类型不同的资源即使内容相同也分开保留
+ */
+export async function uniqueAssets(assets: Asset[]): Promise<UniqueAssets> {
+  const unique: Asset[] = [];
+  const indexOf = new Map<string, number>();
+  const byHash = new Map<string, number>();
+
+  for (const asset of assets) {
+    const key = `${asset.type}:${await hashAssetData(asset.data)}`;
+    let index = byHash.get(key);
+    if (index === undefined) {
+      index = unique.length;
+      unique.push(asset);
+      byHash.set(key, index);
+    }
+    indexOf.set(asset.id, index);
+  }
+  return { assets: unique, indexOf };
+}
+
+/**
+ * 创建资源; existing中已有同类型同内容的资源时直接返回已有资源, created为false
+ * 资源ID由类型与内容哈希生成, 同一内容在不同项目中ID一致
+ */
+export async function findOrCreateAsset(
+  existing: Asset[],
+  name: string,
+  type: Asset['type'],
+  data: ArrayBuffer,
+  delivery: AssetDelivery = 'embedded'
+): Promise<{ asset: Asset; created: boolean }> {
+  const hash = await hashAssetData(data);
+  for (const asset of existing) {
+    if (asset.type === type && (await hashAssetData(asset.data)) === hash) {
+      return { asset, created: false };
+    }
+  }
+  return { asset: { id: `${type}_${hash.slice(0, 12)}`, name, type, data, delivery }, created: true };
+}
+
+// ========== Base64 ==========
+
+/**
+ * 分块生成Base64文本, 大文件不会因展开参数导致栈溢出
+ */
+export function* encodeBase64Chunks(bytes: Uint8Array): Generator<string> {
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK_SIZE) {
+    yield btoa(String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK_SIZE)));
+  }
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let result = '';
+  for (const chunk of encodeBase64Chunks(bytes)) {
+    result += chunk;
+  }
+  return result;
+}
+
+export function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// ========== CDN UUID ==========
+
+export function isValidCdnUuid(uuid: string | undefined): uuid is string {
+  return uuid !== undefined && UUID_PATTERN.test(uuid);
+}
+
+/**
+ * UUID字符串转为.riv中cdnUuid字段的16字节
+ */
+export function cdnUuidToBytes(uuid: string): Uint8Array {
+  if (!isValidCdnUuid(uuid)) {
+    throw new AssetError(`无效的CDN UUID: ${uuid}`);
+  }
+  const hex = uuid.replace(/-/g, '');
+  const bytes = new Uint8Array(16);
+  UUID_BYTE_ORDER.forEach((byteIndex, i) => {
+    bytes[byteIndex] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  });
+  return bytes;
+}
+
+export function cdnUuidFromBytes(bytes: Uint8Array): string | null {
+  if (bytes.length !== 16) return null;
+  const hex = UUID_BYTE_ORDER.map(byteIndex => bytes[byteIndex].toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// ========== 宿主提供的资源 ==========
+
+/**
+ * 宿主加载资源时使用的文件名, 与Rive运行时的 name-assetId.ext 约定一致
+ * index为资源在.riv中的序号
+ */
+export function assetFileName(asset: Asset, index: number): string {
+  const extension = detectExtension(asset);
+  const base = asset.name.replace(/\.[^.]*$/, '') || 'asset';
+  return `${base}-${index}.${extension}`;
+}
+
+// ========== 资源管理器 ==========
+
+export class AssetManager {
+  constructor(private readonly project: RivProject) {}
+
+  /**
+   * 添加资源; 已有同类型同内容的资源时直接返回已有资源
+   */
+  async addAsset(name: string, type: Asset['type'], data: ArrayBuffer, delivery: AssetDelivery = 'embedded'): Promise<Asset> {
+    const { asset, created } = await findOrCreateAsset(this.project.assets, name, type, data, delivery);
+    if (created) this.project.assets.push(asset);
+    return asset;
+  }
+
+  /**
+   * 设置资源的交付方式, cdn需要提供UUID
+   */
+  setDelivery(assetId: string, delivery: AssetDelivery, cdn?: { uuid: string; baseUrl?: string }): void {
+    const asset = this.getAsset(assetId);
+    if (delivery === 'cdn') {
+      if (!cdn || !isValidCdnUuid(cdn.uuid)) {
+        throw new AssetError(`资源 "${asset.name}" 使用CDN时需要有效的UUID`);
+      }
+      asset.cdnUuid = cdn.uuid;
+      asset.cdnBaseUrl = cdn.baseUrl;
+    } else {
+      delete asset.cdnUuid;
+      delete asset.cdnBaseUrl;
+    }
+    asset.delivery = delivery;
+  }
+
+  async findDuplicates(): Promise<AssetDuplicate[]> {
+    const { assets, indexOf } = await uniqueAssets(this.project.assets);
+    const groups = assets.map((original): AssetDuplicate => ({ original, duplicates: [] }));
+    this.project.assets.forEach(asset => {
+      const group = groups[indexOf.get(asset.id)!];
+      if (group.original !== asset) group.duplicates.push(asset);
+    });
+    return groups.filter(group => group.duplicates.length > 0);
+  }
+
+  /**
+   * 合并重复资源并把图形引用改为保留的资源, 返回移除的资源
+   */
+  async deduplicate(): Promise<Asset[]> {
+    const duplicates = await this.findDuplicates();
+    const replacement = new Map<string, string>();
+    duplicates.forEach(group => group.duplicates.forEach(asset => replacement.set(asset.id, group.original.id)));
+    if (replacement.size === 0) return [];
+
+    forEachAssetReference(this.project, shape => {
+      const target = replacement.get(shape.assetId);
+      if (target) shape.assetId = target;
+    });
+    const removed = this.project.assets.filter(asset => replacement.has(asset.id));
+    this.project.assets = this.project.assets.filter(asset => !replacement.has(asset.id));
+    return removed;
+  }
+
+  findUnusedAssets(): Asset[] {
+    const used = new Set<string>();
+    forEachAssetReference(this.project, shape => used.add(shape.assetId));
+    return this.project.assets.filter(asset => !used.has(asset.id));
+  }
+
+  removeUnusedAssets(): Asset[] {
+    const unused = new Set(this.findUnusedAssets());
+    this.project.assets = this.project.assets.filter(asset => !unused.has(asset));
+    return Array.from(unused);
+  }
+
+  /**
+   * 导出前检查: 未使用、重复与CDN配置不完整的资源
+   */
+  async report(): Promise<AssetReport> {
+    return {
+      unused: this.findUnusedAssets(),
+      duplicates: await this.findDuplicates(),
+      missingCdnUuid: this.project.assets.filter(
+        asset => asset.delivery === 'cdn' && !isValidCdnUuid(asset.cdnUuid)
+      )
+    };
+  }
+
+  /**
+   * 需要随.riv一起交给宿主应用的资源文件(delivery为host), 文件名与.riv中的序号对应
+   */
+  async hostSuppliedFiles(): Promise<ArchiveFile[]> {
+    const { assets } = await uniqueAssets(this.project.assets);
+    return assets.flatMap((asset, index) =>
+      asset.delivery === 'host' ? [{ name: assetFileName(asset, index), data: new Uint8Array(asset.data) }] : []
+    );
+  }
+
+  private getAsset(assetId: string): Asset {
+    const asset = this.project.assets.find(candidate => candidate.id === assetId);
+    if (!asset) throw new AssetError(`资源不存在: ${assetId}`);
+    return asset;
+  }
+}
+
+// ========== 内部工具 ==========
+
+type AssetReferencingShape = Shape & { assetId: string };
+
+/**
+ * 遍历引用资源的图形(带assetId字段的图形, 如图片和文字), 含裁切图形
+ */
+function forEachAssetReference(project: RivProject, visit: (shape: AssetReferencingShape) => void): void {
+  const walk = (shape: Shape) => {
+    const assetId = (shape as Partial<AssetReferencingShape>).assetId;
+    if (typeof assetId === 'string') visit(shape as AssetReferencingShape);
+    shape.clipSources.forEach(walk);
+    if (shape instanceof Group) shape.children.forEach(walk);
+  };
+  project.artboards.forEach(artboard => artboard.shapes.forEach(walk));
+}
+
+function detectExtension(asset: Asset): string {
+  const bytes = new Uint8Array(asset.data, 0, Math.min(12, asset.data.byteLength));
+  const starts = (...signature: number[]) => signature.every((value, i) => bytes[i] === value);
+  if (starts(0x89, 0x50, 0x4e, 0x47)) return 'png';
+  if (starts(0xff, 0xd8, 0xff)) return 'jpg';
+  if (starts(0x52, 0x49, 0x46, 0x46) && bytes[8] === 0x57 && bytes[9] === 0x45) return 'webp';
+  if (starts(0x77, 0x4f, 0x46, 0x32)) return 'woff2';
+  if (starts(0x77, 0x4f, 0x46, 0x46)) return 'woff';
+  if (starts(0x4f, 0x54, 0x54, 0x4f)) return 'otf';
+  if (starts(0x00, 0x01, 0x00, 0x00) || starts(0x74, 0x72, 0x75, 0x65)) return 'ttf';
+
+  const fromName = /\.([a-z0-9]+)$/i.exec(asset.name)?.[1];
+  return fromName?.toLowerCase() ?? (asset.type === 'image' ? 'png' : 'ttf');
+}
@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import { CubicBezier, cubicBezier, describeEasing, evaluateEasing } from './easing';
+import type { EasingFunction } from './riv-editor-engine';
+
+const SAMPLES = Array.from({ length: 201 }, (_, i) => i / 200);
+
+const ALL_EASINGS: EasingFunction[] = [
+  'linear',
+  'ease-in',
+  'ease-out',
+  'ease-in-out',
+  'bounce',
+  'elastic',
+  { bezier: [0.25, 0.1, 0.25, 1] },
+  { bezier: [0.68, -0.55, 0.265, 1.55] },
+  { bezier: [1, 0, 0, 1] },
+  { back: 'in' },
+  { back: 'out' },
+  { back: 'in-out', overshoot: 3 },
+  { elastic: 'in' },
+  { elastic: 'out', amplitude: 2, period: 0.5 },
+  { elastic: 'in-out', amplitude: 0.5 },
+  { bounce: 'in' },
+  { bounce: 'out' },
+  { bounce: 'in-out' },
+  { steps: 4 },
+  { steps: 4, jump: 'end' },
+  { steps: 3, jump: 'none' },
+  { steps: 1, jump: 'none' }
+];
+
+// 值域不超出[0, 1]的缓动, 输出应随时间单调不减
+const MONOTONIC_EASINGS: EasingFunction[] = [
+  'linear',
+  'ease-in',
+  'ease-out',
+  'ease-in-out',
+  { bezier: [0.25, 0.1, 0.25, 1] },
+  { bezier: [1, 0, 0, 1] },
+  { bezier: [0, 1, 1, 0] },
+  { steps: 5 },
+  { steps: 5, jump: 'start' },
+  { steps: 5, jump: 'both' },
+  { steps: 5, jump: 'none' }
+];
+
+function bezierX(curve: CubicBezier, t: number): number {
+  const u = 1 - t;
+  return 3 * u * u * t * curve.x1 + 3 * u * t * t * curve.x2 + t * t * t;
+}
+
+describe('evaluateEasing', () => {
+  describe.each(ALL_EASINGS.map(easing => [describeEasing(easing), easing] as const))('%s', (_, easing) => {
+    it('端点精确为0与1', () => {
+      expect(evaluateEasing(easing, 0)).toBe(0);
+      expect(evaluateEasing(easing, 1)).toBe(1);
+    });
+
+    it('超出区间的进度按端点处理', () => {
+      expect(evaluateEasing(easing, -0.5)).toBe(0);
+      expect(evaluateEasing(easing, 1.5)).toBe(1);
+    });
+
+    it('区间内输出为有限数值', () => {
+      SAMPLES.forEach(t => expect(Number.isFinite(evaluateEasing(easing, t))).toBe(true));
+    });
+  });
+
+  describe.each(MONOTONIC_EASINGS.map(easing => [describeEasing(easing), easing] as const))('%s', (_, easing) => {
+    it('随时间单调不减', () => {
+      const values = SAMPLES.map(t => evaluateEasing(easing, t));
+      values.slice(1).forEach((value, i) => expect(value).toBeGreaterThanOrEqual(values[i] - 1e-12));
+    });
+  });
+
+  it('命名缓动与对应的CSS贝塞尔曲线一致', () => {
+    SAMPLES.forEach(t => {
+      expect(evaluateEasing('ease-in-out', t)).toBeCloseTo(cubicBezier(0.42, 0, 0.58, 1).valueAt(t), 12);
+    });
+    expect(evaluateEasing('ease-in', 0.5)).toBeCloseTo(0.3153, 3);
+    expect(evaluateEasing('ease-out', 0.5)).toBeCloseTo(0.6847, 3);
+  });
+
+  it('字符串bounce与elastic等同于out方向的默认参数', () => {
+    SAMPLES.forEach(t => {
+      expect(evaluateEasing('bounce', t)).toBe(evaluateEasing({ bounce: 'out' }, t));
+      expect(evaluateEasing('elastic', t)).toBe(evaluateEasing({ elastic: 'out' }, t));
+    });
+  });
+
+  it('elastic在起点附近不越过0', () => {
+    [1e-6, 1e-4, 1e-3].forEach(t => {
+      expect(Math.abs(evaluateEasing('elastic', t))).toBeLessThan(0.01);
+    });
+  });
+
+  it('in方向与out方向关于中心对称', () => {
+    const directions = [
+      [{ back: 'in' }, { back: 'out' }],
+      [{ elastic: 'in' }, { elastic: 'out' }],
+      [{ bounce: 'in' }, { bounce: 'out' }]
+    ] as const;
+    directions.forEach(([easeIn, easeOut]) => {
+      SAMPLES.forEach(t => {
+        expect(evaluateEasing(easeIn, t)).toBeCloseTo(1 - evaluateEasing(easeOut, 1 - t), 12);
+      });
+    });
+  });
+
+  it('in-out在中点为0.5', () => {
+    (['back', 'elastic', 'bounce'] as const).forEach(kind => {
+      const easing = { [kind]: 'in-out' } as EasingFunction;
+      expect(evaluateEasing(easing, 0.5)).toBeCloseTo(0.5, 12);
+    });
+  });
+
+  it('back越过终点, overshoot越大越过越多', () => {
+    const peak = (overshoot: number) => Math.max(...SAMPLES.map(t => evaluateEasing({ back: 'out', overshoot }, t)));
+    expect(peak(1.70158)).toBeGreaterThan(1);
+    expect(peak(3)).toBeGreaterThan(peak(1.70158));
+    expect(peak(0)).toBeLessThanOrEqual(1);
+  });
+
+  it('elastic振幅越大越过终点越多', () => {
+    const peak = (amplitude: number) => Math.max(...SAMPLES.map(t => evaluateEasing({ elastic: 'out', amplitude }, t)));
+    expect(peak(2)).toBeGreaterThan(peak(1));
+  });
+});
+
+describe('steps', () => {
+  it('jump-end在区间结尾跳变', () => {
+    expect(evaluateEasing({ steps: 4 }, 0.2)).toBe(0);
+    expect(evaluateEasing({ steps: 4 }, 0.25)).toBe(0.25);
+    expect(evaluateEasing({ steps: 4 }, 0.99)).toBe(0.75);
+  });
+
+  it('jump-start在区间开头跳变', () => {
+    expect(evaluateEasing({ steps: 4, jump: 'start' }, 0)).toBe(0.25);
+    expect(evaluateEasing({ steps: 4, jump: 'start' }, 0.5)).toBe(0.75);
+    expect(evaluateEasing({ steps: 4, jump: 'start' }, 1)).toBe(1);
+  });
+
+  it('jump-both两端都跳变', () => {
+    expect(evaluateEasing({ steps: 3, jump: 'both' }, 0)).toBe(0.25);
+    expect(evaluateEasing({ steps: 3, jump: 'both' }, 0.5)).toBe(0.5);
+    expect(evaluateEasing({ steps: 3, jump: 'both' }, 1)).toBe(1);
+  });
+
+  it('jump-none两端都不跳变', () => {
+    expect(evaluateEasing({ steps: 3, jump: 'none' }, 0.2)).toBe(0);
+    expect(evaluateEasing({ steps: 3, jump: 'none' }, 0.5)).toBe(0.5);
+    expect(evaluateEasing({ steps: 3, jump: 'none' }, 0.9)).toBe(1);
+  });
+});
+
+describe('CubicBezier', () => {
+  const curves = [
+    new CubicBezier(0.42, 0, 0.58, 1),
+    new CubicBezier(0.68, -0.55, 0.265, 1.55),
+    new CubicBezier(1, 0, 0, 1),
+    new CubicBezier(0, 1, 1, 0),
+    new CubicBezier(0.9, 0.1, 0.9, 0.1)
+  ];
+
+  it.each(curves.map(curve => [`${curve.x1}, ${curve.y1}, ${curve.x2}, ${curve.y2}`, curve] as const))(
+    '(%s) 时间映射单调且精确求解',
+    (_, curve) => {
+      const parameters = SAMPLES.map(x => curve.parameterAt(x));
+      expect(parameters[0]).toBe(0);
+      expect(parameters[parameters.length - 1]).toBe(1);
+      parameters.slice(1).forEach((t, i) => expect(t).toBeGreaterThan(parameters[i]));
+      parameters.forEach((t, i) => expect(bezierX(curve, t)).toBeCloseTo(SAMPLES[i], 8));
+    }
+  );
+
+  it('控制点x收拢到[0, 1]', () => {
+    const curve = new CubicBezier(-1, 0, 2, 1);
+    expect(curve.x1).toBe(0);
+    expect(curve.x2).toBe(1);
+  });
+
+  it('对角线控制点为线性', () => {
+    SAMPLES.forEach(x => expect(new CubicBezier(0.3, 0.3, 0.7, 0.7).valueAt(x)).toBe(x));
+  });
+
+  it('相同控制点共用同一条曲线', () => {
+    expect(cubicBezier(0.1, 0.2, 0.3, 0.4)).toBe(cubicBezier(0.1, 0.2, 0.3, 0.4));
+  });
+});
+
+describe('describeEasing', () => {
+  it('参数缺省时按默认值描述', () => {
+    expect(describeEasing({ back: 'out' })).toBe(describeEasing({ back: 'out', overshoot: 1.70158 }));
+    expect(describeEasing({ steps: 2 })).toBe('steps(2, jump-end)');
+    expect(describeEasing({ bezier: [0.42, 0, 1, 1] })).toBe('cubic-bezier(0.42, 0, 1, 1)');
+  });
+});
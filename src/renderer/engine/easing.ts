@@ -0,0 +1,222 @@
+// ============================================
+// RIV Editor - 缓动函数
+// 三次贝塞尔求解(采样表 + 牛顿迭代, 二分兜底)与参数化缓动: back、elastic、bounce、steps
+// ============================================
+
+import type { EasingDirection, EasingFunction, StepJump } from './riv-editor-engine';
+
+// 命名缓动对应的三次贝塞尔控制点(与CSS定义一致)
+export const CUBIC_EASINGS: Record<string, [number, number, number, number]> = {
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+export const DEFAULT_BACK_OVERSHOOT = 1.70158;
+export const DEFAULT_ELASTIC_AMPLITUDE = 1;
+export const DEFAULT_ELASTIC_PERIOD = 0.3;
+
+/**
+ * CSS cubic-bezier(x1, y1, x2, y2): 起点(0, 0), 终点(1, 1)
+ * x1、x2超出[0, 1]时收拢到区间内, 保证时间映射单调
+ */
+export class CubicBezier {
+  readonly x1: number;
+  readonly y1: number;
+  readonly x2: number;
+  readonly y2: number;
+  private samples = new Float64Array(SAMPLE_COUNT);
+
+  constructor(x1: number, y1: number, x2: number, y2: number) {
+    this.x1 = clamp01(x1);
+    this.y1 = y1;
+    this.x2 = clamp01(x2);
+    this.y2 = y2;
+    for (let i = 0; i < SAMPLE_COUNT; i++) {
+      this.samples[i] = bezierCoordinate(i * SAMPLE_STEP, this.x1, this.x2);
+    }
+  }
+
+  /**
+   * 时间进度x对应的曲线参数
+   */
+  parameterAt(x: number): number {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+
+    // 采样表定位区间, 区间内线性插值作为初值
+    let index = 0;
+    while (index < SAMPLE_COUNT - 2 && this.samples[index + 1] <= x) index++;
+    const start = index * SAMPLE_STEP;
+    const span = this.samples[index + 1] - this.samples[index];
+    let t = span > 0 ? start + ((x - this.samples[index]) / span) * SAMPLE_STEP : start;
+
+    for (let i = 0; i < NEWTON_ITERATIONS; i++) {
+      const slope = bezierSlope(t, this.x1, this.x2);
+      if (slope < NEWTON_MIN_SLOPE) break;
+      const error = bezierCoordinate(t, this.x1, this.x2) - x;
+      if (Math.abs(error) < SOLVE_PRECISION) return t;
+      t = Math.min(1, Math.max(0, t - error / slope));
+    }
+    if (Math.abs(bezierCoordinate(t, this.x1, this.x2) - x) < SOLVE_PRECISION) return t;
+
+    // 斜率过小或未收敛: 在采样区间内二分
+    let low = start;
+    let high = start + SAMPLE_STEP;
+    for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+      t = (low + high) / 2;
+      const error = bezierCoordinate(t, this.x1, this.x2) - x;
+      if (Math.abs(error) < SOLVE_PRECISION) break;
+      if (error > 0) high = t;
+      else low = t;
+    }
+    return t;
+  }
+
+  /**
+   * 时间进度x对应的缓动值
+   */
+  valueAt(x: number): number {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+    if (this.x1 === this.y1 && this.x2 === this.y2) return x;
+    return bezierCoordinate(this.parameterAt(x), this.y1, this.y2);
+  }
+}
+
+/**
+ * 相同控制点共用一条曲线及其采样表
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): CubicBezier {
+  const key = `${x1},${y1},${x2},${y2}`;
+  let curve = bezierCache.get(key);
+  if (!curve) {
+    curve = new CubicBezier(x1, y1, x2, y2);
+    bezierCache.set(key, curve);
+  }
+  return curve;
+}
+
+/**
+ * 进度t(0-1)经缓动后的值; 端点精确返回0与1, 只有steps的jump-start/both在t=0时为第一阶的值
+ */
+export function evaluateEasing(easing: EasingFunction, t: number): number {
+  const progress = clamp01(t);
+  if (typeof easing === 'string') {
+    switch (easing) {
+      case 'linear':
+        return progress;
+      case 'bounce':
+        return directional('out', bounceOut, progress);
+      case 'elastic':
+        return directional('out', u => elasticOut(u, DEFAULT_ELASTIC_AMPLITUDE, DEFAULT_ELASTIC_PERIOD), progress);
+      default:
+        return cubicBezier(...CUBIC_EASINGS[easing]).valueAt(progress);
+    }
+  }
+  if ('bezier' in easing) return cubicBezier(...easing.bezier).valueAt(progress);
+  if ('back' in easing) {
+    const overshoot = easing.overshoot ?? DEFAULT_BACK_OVERSHOOT;
+    return directional(easing.back, u => backOut(u, overshoot), progress);
+  }
+  if ('elastic' in easing) {
+    const amplitude = easing.amplitude ?? DEFAULT_ELASTIC_AMPLITUDE;
+    const period = easing.period ?? DEFAULT_ELASTIC_PERIOD;
+    return directional(easing.elastic, u => elasticOut(u, amplitude, period), progress);
+  }
+  if ('bounce' in easing) return directional(easing.bounce, bounceOut, progress);
+  return steps(easing.steps, easing.jump ?? 'end', progress);
+}
+
+/**
+ * 缓动的可读描述, 如 cubic-bezier(0.42, 0, 1, 1)、back-out(1.70158)、steps(4, jump-end)
+ * 描述相同即缓动相同
+ */
+export function describeEasing(easing: EasingFunction): string {
+  if (typeof easing === 'string') return easing;
+  if ('bezier' in easing) return `cubic-bezier(${easing.bezier.join(', ')})`;
+  if ('back' in easing) return `back-${easing.back}(${easing.overshoot ?? DEFAULT_BACK_OVERSHOOT})`;
+  if ('elastic' in easing) {
+    const amplitude = easing.amplitude ?? DEFAULT_ELASTIC_AMPLITUDE;
+    return `elastic-${easing.elastic}(${amplitude}, ${easing.period ?? DEFAULT_ELASTIC_PERIOD})`;
+  }
+  if ('bounce' in easing) return `bounce-${easing.bounce}`;
+  return `steps(${easing.steps}, jump-${easing.jump ?? 'end'})`;
+}
+
+// ========== 内部工具 ==========
+
+const SAMPLE_COUNT = 11;
+const SAMPLE_STEP = 1 / (SAMPLE_COUNT - 1);
+const NEWTON_ITERATIONS = 8;
+const NEWTON_MIN_SLOPE = 1e-3;
+const BISECTION_ITERATIONS = 40;
+const SOLVE_PRECISION = 1e-9;
+
+const bezierCache = new Map<string, CubicBezier>();
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * 端点为0与1的一维三次贝塞尔在参数t处的坐标, p1、p2为两个控制点的对应坐标
+ */
+function bezierCoordinate(t: number, p1: number, p2: number): number {
+  const u = 1 - t;
+  return 3 * u * u * t * p1 + 3 * u * t * t * p2 + t * t * t;
+}
+
+function bezierSlope(t: number, p1: number, p2: number): number {
+  const u = 1 - t;
+  return 3 * u * u * p1 + 6 * u * t * (p2 - p1) + 3 * t * t * (1 - p2);
+}
+
+/**
+ * 由out形式派生三个方向: in(t) = 1 - out(1 - t), in-out前半段为in、后半段为out
+ */
+function directional(direction: EasingDirection, out: (t: number) => number, t: number): number {
+  if (t <= 0) return 0;
+  if (t >= 1) return 1;
+  switch (direction) {
+    case 'out':
+      return out(t);
+    case 'in':
+      return 1 - out(1 - t);
+    case 'in-out':
+      return t < 0.5 ? (1 - out(1 - 2 * t)) / 2 : (1 + out(2 * t - 1)) / 2;
+  }
+}
+
+function backOut(t: number, overshoot: number): number {
+  const u = t - 1;
+  return 1 + (overshoot + 1) * u * u * u + overshoot * u * u;
+}
+
+/**
+ * Penner弹性: amplitude不小于1, period为占整段时长的比例; 相位使t=0时恰为0
+ */
+function elasticOut(t: number, amplitude: number, period: number): number {
+  const a = Math.max(1, amplitude);
+  const p = Math.max(period, 1e-3);
+  const phase = (p / (2 * Math.PI)) * Math.asin(1 / a);
+  return a * Math.pow(2, -10 * t) * Math.sin(((t - phase) * 2 * Math.PI) / p) + 1;
+}
+
+function bounceOut(t: number): number {
+  if (t < 1 / 2.75) return 7.5625 * t * t;
+  if (t < 2 / 2.75) return 7.5625 * (t - 1.5 / 2.75) ** 2 + 0.75;
+  if (t < 2.5 / 2.75) return 7.5625 * (t - 2.25 / 2.75) ** 2 + 0.9375;
+  return 7.5625 * (t - 2.625 / 2.75) ** 2 + 0.984375;
+}
+
+/**
+ * 与CSS steps(n, jump)一致: start在区间开头跳变, end在结尾, both两端都跳, none两端都不跳
+ */
+function steps(count: number, jump: StepJump, t: number): number {
+  const n = Math.max(1, Math.floor(count));
+  const jumps = jump === 'both' ? n + 1 : jump === 'none' ? Math.max(1, n - 1) : n;
+  let step = Math.floor(t * n);
+  if (jump === 'start' || jump === 'both') step++;
+  return Math.min(step, jumps) / jumps;
+}
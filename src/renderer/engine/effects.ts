@@ -0,0 +1,268 @@
+// ============================================
+// RIV Editor - 混合模式与图层效果
+// 投影、内阴影、图层模糊、背景模糊, 图形先绘制到独立图层再合成
+// ============================================
+
+import type { Color, Vector2 } from './riv-editor-engine';
+
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity';
+
+export const BLEND_MODES: BlendMode[] = [
+  'normal',
+  'multiply',
+  'screen',
+  'overlay',
+  'darken',
+  'lighten',
+  'color-dodge',
+  'color-burn',
+  'hard-light',
+  'soft-light',
+  'difference',
+  'exclusion',
+  'hue',
+  'saturation',
+  'color',
+  'luminosity'
+];
+
+export const BLEND_MODE_NAMES: Record<BlendMode, string> = {
+  normal: '正常',
+  multiply: '正片叠底',
+  screen: '滤色',
+  overlay: '叠加',
+  darken: '变暗',
+  lighten: '变亮',
+  'color-dodge': '颜色减淡',
+  'color-burn': '颜色加深',
+  'hard-light': '强光',
+  'soft-light': '柔光',
+  difference: '差值',
+  exclusion: '排除',
+  hue: '色相',
+  saturation: '饱和度',
+  color: '颜色',
+  luminosity: '明度'
+};
+
+/**
+ * 投影与内阴影; offset与blur位于图形的父级坐标系, 不随图形自身旋转缩放
+ * blur与CSS blur()一致, 即高斯模糊的标准差
+ */
+export interface ShadowEffect {
+  type: 'drop-shadow' | 'inner-shadow';
+  visible: boolean;
+  color: Color;
+  offset: Vector2;
+  blur: number;
+}
+
+/**
+ * 图层模糊模糊图形自身, 背景模糊模糊图形覆盖区域内已绘制的内容
+ */
+export interface BlurEffect {
+  type: 'layer-blur' | 'background-blur';
+  visible: boolean;
+  blur: number;
+}
+
+export type Effect = ShadowEffect | BlurEffect;
+
+export type EffectType = Effect['type'];
+
+export const EFFECT_NAMES: Record<EffectType, string> = {
+  'drop-shadow': '投影',
+  'inner-shadow': '内阴影',
+  'layer-blur': '图层模糊',
+  'background-blur': '背景模糊'
+};
+
+/**
+ * 新建效果的默认参数
+ */
+export function createEffect(type: EffectType): Effect {
+  switch (type) {
+    case 'drop-shadow':
+      return { type, visible: true, color: { r: 0, g: 0, b: 0, a: 0.25 }, offset: { x: 0, y: 4 }, blur: 4 };
+    case 'inner-shadow':
+      return { type, visible: true, color: { r: 0, g: 0, b: 0, a: 0.25 }, offset: { x: 0, y: 2 }, blur: 2 };
+    case 'layer-blur':
+      return { type, visible: true, blur: 4 };
+    case 'background-blur':
+      return { type, visible: true, blur: 8 };
+  }
+}
+
+/**
+ * 需要走图层合成: 非正常混合或有启用的效果
+ */
+export function needsLayer(blendMode: BlendMode, effects: Effect[]): boolean {
+  return blendMode !== 'normal' || effects.some(effect => effect.visible);
+}
+
+/**
+ * 把draw绘制的内容作为一个图层合成到ctx
+ * 合成顺序: 背景模糊 → 投影 → 图形(叠加内阴影, 应用图层模糊), 整体按混合模式合成
+ */
+export function renderWithEffects(
+  ctx: CanvasRenderingContext2D,
+  blendMode: BlendMode,
+  effects: Effect[],
+  draw: (ctx: CanvasRenderingContext2D) => void
+): void {
+  const { width, height } = ctx.canvas;
+  if (width === 0 || height === 0) return;
+
+  // 父级变换: 效果参数按它换算到画布像素
+  const parent = ctx.getTransform();
+  const scale = Math.sqrt(Math.abs(parent.a * parent.d - parent.b * parent.c));
+  const toCanvas = (offset: Vector2) => ({
+    x: parent.a * offset.x + parent.c * offset.y,
+    y: parent.b * offset.x + parent.d * offset.y
+  });
+  const blurFilter = (blur: number) => (blur > 0 ? `blur(${blur * scale}px)` : 'none');
+  const active = effects.filter(effect => effect.visible);
+
+  // 本次合成取用的图层, 合成结束后归还图层池; draw中嵌套的合成取用其他空闲图层
+  const used: Layer[] = [];
+  const createLayer = () => {
+    const layer = acquireLayer(width, height);
+    used.push(layer);
+    return layer;
+  };
+
+  const layer = createLayer();
+  layer.ctx.setTransform(parent);
+  layer.ctx.globalAlpha = ctx.globalAlpha;
+  draw(layer.ctx);
+
+  const composite = createLayer();
+  active.forEach(effect => {
+    if (effect.type !== 'drop-shadow') return;
+    const offset = toCanvas(effect.offset);
+    composite.ctx.filter = blurFilter(effect.blur);
+    composite.ctx.drawImage(silhouette(createLayer(), layer.canvas, effect.color), offset.x, offset.y);
+  });
+
+  let content = layer.canvas;
+  const innerShadows = active.filter((effect): effect is ShadowEffect => effect.type === 'inner-shadow');
+  if (innerShadows.length > 0) {
+    const shaded = createLayer();
+    shaded.ctx.drawImage(layer.canvas, 0, 0);
+    shaded.ctx.globalCompositeOperation = 'source-atop';
+    innerShadows.forEach(effect => {
+      // 图形之外的区域填色后平移、模糊, 只保留落在图形内的部分
+      const outside = createLayer();
+      outside.ctx.fillStyle = toRgba(effect.color);
+      outside.ctx.fillRect(0, 0, width, height);
+      outside.ctx.globalCompositeOperation = 'destination-out';
+      const offset = toCanvas(effect.offset);
+      outside.ctx.drawImage(layer.canvas, offset.x, offset.y);
+      shaded.ctx.filter = blurFilter(effect.blur);
+      shaded.ctx.drawImage(outside.canvas, 0, 0);
+    });
+    content = shaded.canvas;
+  }
+
+  // 多个图层模糊依次叠加, 等价于标准差平方和开方的一次模糊
+  const layerBlur = Math.sqrt(
+    active.reduce((sum, effect) => (effect.type === 'layer-blur' ? sum + effect.blur ** 2 : sum), 0)
+  );
+  composite.ctx.filter = blurFilter(layerBlur);
+  composite.ctx.drawImage(content, 0, 0);
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = 1;
+  active.forEach(effect => {
+    if (effect.type !== 'background-blur') return;
+    const backdrop = createLayer();
+    backdrop.ctx.filter = blurFilter(effect.blur);
+    backdrop.ctx.drawImage(ctx.canvas, 0, 0);
+    backdrop.ctx.filter = 'none';
+    backdrop.ctx.globalCompositeOperation = 'destination-in';
+    backdrop.ctx.drawImage(layer.canvas, 0, 0);
+    ctx.drawImage(backdrop.canvas, 0, 0);
+  });
+  ctx.globalCompositeOperation = blendMode === 'normal' ? 'source-over' : blendMode;
+  ctx.drawImage(composite.canvas, 0, 0);
+  ctx.restore();
+
+  used.forEach(releaseLayer);
+}
+
+// ========== 内部工具 ==========
+
+interface Layer {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+}
+
+// 空闲图层按尺寸分组复用, 只保留最近用到的几种尺寸
+const MAX_POOLED_SIZES = 4;
+const layerPool = new Map<string, Layer[]>();
+
+/**
+ * 取出一个清空的图层, 上下文为默认状态
+ */
+function acquireLayer(width: number, height: number): Layer {
+  const key = `${width}x${height}`;
+  const free = layerPool.get(key) ?? [];
+  // 重新插入, Map按插入顺序淘汰最久未用的尺寸
+  layerPool.delete(key);
+  layerPool.set(key, free);
+  while (layerPool.size > MAX_POOLED_SIZES) {
+    layerPool.delete(layerPool.keys().next().value!);
+  }
+
+  let layer = free.pop();
+  if (!layer) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    layer = { canvas, ctx: canvas.getContext('2d')! };
+  }
+  layer.ctx.clearRect(0, 0, width, height);
+  layer.ctx.save();
+  return layer;
+}
+
+/**
+ * 归还图层并恢复上下文状态, 所属尺寸已被淘汰时直接丢弃
+ */
+function releaseLayer(layer: Layer): void {
+  layer.ctx.restore();
+  layerPool.get(`${layer.canvas.width}x${layer.canvas.height}`)?.push(layer);
+}
+
+/**
+ * 图层的不透明区域填充为单色
+ */
+function silhouette(target: Layer, source: HTMLCanvasElement, color: Color): HTMLCanvasElement {
+  const { canvas, ctx } = target;
+  ctx.drawImage(source, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = toRgba(color);
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+function toRgba(color: Color): string {
+  return `rgba(${color.r}, ${color.g}, ${color.b}, ${color.a})`;
+}
@@ -0,0 +1,435 @@
+// ============================================
+// RIV Editor - 字体解析
+// 读取TrueType字体的字符映射、度量与字形轮廓, 文字按轮廓绘制以保证各机器输出一致
+// ============================================
+
+import type { Asset, Vector2 } from './riv-editor-engine';
+import type { PathContour, PathVertex } from './path-model';
+
+export class FontError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FontError';
+  }
+}
+
+// 简单字形的点标记
+const ON_CURVE = 0x01;
+const X_SHORT = 0x02;
+const Y_SHORT = 0x04;
+const REPEAT = 0x08;
+const X_SAME_OR_POSITIVE = 0x10;
+const Y_SAME_OR_POSITIVE = 0x20;
+
+// 复合字形的组件标记
+const ARGS_ARE_WORDS = 0x0001;
+const ARGS_ARE_XY_VALUES = 0x0002;
+const HAS_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const HAS_X_AND_Y_SCALE = 0x0040;
+const HAS_TWO_BY_TWO = 0x0080;
+
+// 复合字形嵌套的最大深度, 防止损坏的字体循环引用
+const MAX_COMPONENT_DEPTH = 8;
+
+interface GlyphPoint extends Vector2 {
+  onCurve: boolean;
+}
+
+/**
+ * 已解析的TrueType字体, 度量与轮廓均为字体单位(Y轴向上)
+ */
+export class Font {
+  readonly unitsPerEm: number;
+  readonly ascender: number;
+  readonly descender: number; // 通常为负数
+  readonly lineGap: number;
+  readonly numGlyphs: number;
+
+  private readonly view: DataView;
+  private readonly tables: Map<string, { offset: number; length: number }>;
+  private readonly glyphOffsets: number[];
+  private readonly advances: number[];
+  private readonly cmap: (codePoint: number) => number;
+  private readonly contourCache = new Map<number, PathContour[]>();
+
+  constructor(data: ArrayBuffer) {
+    if (data.byteLength < 12) throw new FontError('字体数据不完整');
+    this.view = new DataView(data);
+
+    const signature = this.view.getUint32(0);
+    if (signature === 0x4f54544f) throw new FontError('暂不支持CFF轮廓的OpenType字体, 请使用TrueType字体');
+    if (signature === 0x774f4646 || signature === 0x774f4632) throw new FontError('不支持WOFF压缩字体, 请使用TTF文件');
+    if (signature !== 0x00010000 && signature !== 0x74727565) throw new FontError('不是TrueType字体');
+
+    this.tables = new Map();
+    const numTables = this.view.getUint16(4);
+    for (let i = 0; i < numTables; i++) {
+      const record = 12 + i * 16;
+      this.tables.set(this.tag(record), {
+        offset: this.view.getUint32(record + 8),
+        length: this.view.getUint32(record + 12)
+      });
+    }
+
+    const head = this.table('head');
+    const hhea = this.table('hhea');
+    this.unitsPerEm = this.view.getUint16(head + 18);
+    this.ascender = this.view.getInt16(hhea + 4);
+    this.descender = this.view.getInt16(hhea + 6);
+    this.lineGap = this.view.getInt16(hhea + 8);
+    this.numGlyphs = this.view.getUint16(this.table('maxp') + 4);
+    if (this.unitsPerEm === 0) throw new FontError('字体的unitsPerEm为0');
+
+    this.advances = this.readAdvances(this.view.getUint16(hhea + 34));
+    this.glyphOffsets = this.readGlyphOffsets(this.view.getInt16(head + 50) === 1);
+    this.cmap = this.readCmap();
+  }
+
+  /**
+   * 字符对应的字形序号, 字体中没有该字符时返回0(.notdef)
+   */
+  glyphIndex(codePoint: number): number {
+    const glyph = this.cmap(codePoint);
+    return glyph < this.numGlyphs ? glyph : 0;
+  }
+
+  advanceWidth(glyph: number): number {
+    return this.advances[glyph] ?? this.advances[this.advances.length - 1] ?? 0;
+  }
+
+  /**
+   * 单个字符的步进宽度, 供排版使用
+   */
+  advance(char: string): number {
+    return this.advanceWidth(this.glyphIndex(char.codePointAt(0) ?? 0));
+  }
+
+  /**
+   * 单个字符的字形轮廓
+   */
+  charContours(char: string): PathContour[] {
+    return this.glyphContours(this.glyphIndex(char.codePointAt(0) ?? 0));
+  }
+
+  /**
+   * 字形轮廓(二次曲线转换为三次), 按字形缓存; 返回值不要直接修改
+   */
+  glyphContours(glyph: number): PathContour[] {
+    let contours = this.contourCache.get(glyph);
+    if (!contours) {
+      contours = this.readGlyph(glyph, 0);
+      this.contourCache.set(glyph, contours);
+    }
+    return contours;
+  }
+
+  // ========== 表读取 ==========
+
+  private tag(offset: number): string {
+    return String.fromCharCode(
+      this.view.getUint8(offset),
+      this.view.getUint8(offset + 1),
+      this.view.getUint8(offset + 2),
+      this.view.getUint8(offset + 3)
+    );
+  }
+
+  private table(tag: string): number {
+    const table = this.tables.get(tag);
+    if (!table) throw new FontError(`字体缺少${tag}表`);
+    if (table.offset + table.length > this.view.byteLength) throw new FontError(`字体的${tag}表超出文件范围`);
+    return table.offset;
+  }
+
+  private readAdvances(numberOfHMetrics: number): number[] {
+    const hmtx = this.table('hmtx');
+    const advances: number[] = [];
+    for (let i = 0; i < numberOfHMetrics; i++) {
+      advances.push(this.view.getUint16(hmtx + i * 4));
+    }
+    return advances;
+  }
+
+  private readGlyphOffsets(longFormat: boolean): number[] {
+    const loca = this.table('loca');
+    const glyf = this.table('glyf');
+    const offsets: number[] = [];
+    for (let i = 0; i <= this.numGlyphs; i++) {
+      const offset = longFormat ? this.view.getUint32(loca + i * 4) : this.view.getUint16(loca + i * 2) * 2;
+      offsets.push(glyf + offset);
+    }
+    return offsets;
+  }
+
+  /**
+   * 选择Unicode字符映射, 优先完整Unicode的格式12, 其次BMP的格式4
+   */
+  private readCmap(): (codePoint: number) => number {
+    const cmap = this.table('cmap');
+    const numTables = this.view.getUint16(cmap + 2);
+    let format4: number | null = null;
+
+    for (let i = 0; i < numTables; i++) {
+      const record = cmap + 4 + i * 8;
+      const platform = this.view.getUint16(record);
+      const encoding = this.view.getUint16(record + 2);
+      const subtable = cmap + this.view.getUint32(record + 4);
+      const isUnicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+      if (!isUnicode) continue;
+
+      const format = this.view.getUint16(subtable);
+      if (format === 12) return this.readCmapFormat12(subtable);
+      if (format === 4 && format4 === null) format4 = subtable;
+    }
+
+    if (format4 === null) throw new FontError('字体没有Unicode字符映射');
+    return this.readCmapFormat4(format4);
+  }
+
+  private readCmapFormat4(subtable: number): (codePoint: number) => number {
+    const view = this.view;
+    const segCount = view.getUint16(subtable + 6) / 2;
+    const endCodes = subtable + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+
+    return codePoint => {
+      if (codePoint > 0xffff) return 0;
+      for (let i = 0; i < segCount; i++) {
+        if (codePoint > view.getUint16(endCodes + i * 2)) continue;
+        const start = view.getUint16(startCodes + i * 2);
+        if (codePoint < start) return 0;
+
+        const delta = view.getUint16(idDeltas + i * 2);
+        const rangeOffsetPosition = idRangeOffsets + i * 2;
+        const rangeOffset = view.getUint16(rangeOffsetPosition);
+        if (rangeOffset === 0) return (codePoint + delta) & 0xffff;
+
+        const glyph = view.getUint16(rangeOffsetPosition + rangeOffset + (codePoint - start) * 2);
+        return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+      }
+      return 0;
+    };
+  }
+
+  private readCmapFormat12(subtable: number): (codePoint: number) => number {
+    const view = this.view;
+    const groupCount = view.getUint32(subtable + 12);
+
+    return codePoint => {
+      // 分组按起始字符升序排列, 二分查找
+      let low = 0;
+      let high = groupCount - 1;
+      while (low <= high) {
+        const mid = (low + high) >> 1;
+        const group = subtable + 16 + mid * 12;
+        const start = view.getUint32(group);
+        const end = view.getUint32(group + 4);
+        if (codePoint < start) {
+          high = mid - 1;
+        } else if (codePoint > end) {
+          low = mid + 1;
+        } else {
+          return view.getUint32(group + 8) + codePoint - start;
+        }
+      }
+      return 0;
+    };
+  }
+
+  // ========== 字形 ==========
+
+  private readGlyph(glyph: number, depth: number): PathContour[] {
+    if (glyph >= this.numGlyphs || depth > MAX_COMPONENT_DEPTH) return [];
+    const offset = this.glyphOffsets[glyph];
+    // 空字形(如空格)没有数据
+    if (offset === this.glyphOffsets[glyph + 1]) return [];
+
+    const contourCount = this.view.getInt16(offset);
+    return contourCount >= 0
+      ? this.readSimpleGlyph(offset, contourCount)
+      : this.readCompositeGlyph(offset, depth);
+  }
+
+  private readSimpleGlyph(offset: number, contourCount: number): PathContour[] {
+    const view = this.view;
+    let position = offset + 10;
+
+    const endPoints: number[] = [];
+    for (let i = 0; i < contourCount; i++) {
+      endPoints.push(view.getUint16(position));
+      position += 2;
+    }
+    const pointCount = contourCount > 0 ? endPoints[contourCount - 1] + 1 : 0;
+    position += 2 + view.getUint16(position); // 跳过指令
+
+    const flags: number[] = [];
+    while (flags.length < pointCount) {
+      const flag = view.getUint8(position++);
+      flags.push(flag);
+      if (flag & REPEAT) {
+        const count = view.getUint8(position++);
+        for (let i = 0; i < count; i++) flags.push(flag);
+      }
+    }
+
+    const readCoordinates = (shortFlag: number, sameFlag: number): number[] => {
+      const values: number[] = [];
+      let value = 0;
+      flags.forEach(flag => {
+        if (flag & shortFlag) {
+          const delta = view.getUint8(position++);
+          value += flag & sameFlag ? delta : -delta;
+        } else if (!(flag & sameFlag)) {
+          value += view.getInt16(position);
+          position += 2;
+        }
+        values.push(value);
+      });
+      return values;
+    };
+    const xs = readCoordinates(X_SHORT, X_SAME_OR_POSITIVE);
+    const ys = readCoordinates(Y_SHORT, Y_SAME_OR_POSITIVE);
+
+    const contours: PathContour[] = [];
+    let start = 0;
+    endPoints.forEach(end => {
+      const points: GlyphPoint[] = [];
+      for (let i = start; i <= end; i++) {
+        points.push({ x: xs[i], y: ys[i], onCurve: (flags[i] & ON_CURVE) !== 0 });
+      }
+      const contour = quadraticContour(points);
+      if (contour) contours.push(contour);
+      start = end + 1;
+    });
+    return contours;
+  }
+
+  private readCompositeGlyph(offset: number, depth: number): PathContour[] {
+    const view = this.view;
+    let position = offset + 10;
+    const contours: PathContour[] = [];
+
+    let flags: number;
+    do {
+      flags = view.getUint16(position);
+      const component = view.getUint16(position + 2);
+      position += 4;
+
+      let dx = 0;
+      let dy = 0;
+      if (flags & ARGS_ARE_WORDS) {
+        dx = view.getInt16(position);
+        dy = view.getInt16(position + 2);
+        position += 4;
+      } else {
+        dx = view.getInt8(position);
+        dy = view.getInt8(position + 1);
+        position += 2;
+      }
+      // 按锚点对齐的组件不常见, 按零偏移处理
+      if (!(flags & ARGS_ARE_XY_VALUES)) {
+        dx = 0;
+        dy = 0;
+      }
+
+      let [a, b, c, d] = [1, 0, 0, 1];
+      const f2dot14 = (at: number) => view.getInt16(at) / 16384;
+      if (flags & HAS_SCALE) {
+        a = d = f2dot14(position);
+        position += 2;
+      } else if (flags & HAS_X_AND_Y_SCALE) {
+        a = f2dot14(position);
+        d = f2dot14(position + 2);
+        position += 4;
+      } else if (flags & HAS_TWO_BY_TWO) {
+        a = f2dot14(position);
+        b = f2dot14(position + 2);
+        c = f2dot14(position + 4);
+        d = f2dot14(position + 6);
+        position += 8;
+      }
+
+      const apply = (p: Vector2): Vector2 => ({ x: a * p.x + c * p.y + dx, y: b * p.x + d * p.y + dy });
+      this.readGlyph(component, depth + 1).forEach(contour => {
+        contours.push({
+          closed: contour.closed,
+          vertices: contour.vertices.map(v => ({ point: apply(v.point), in: apply(v.in), out: apply(v.out) }))
+        });
+      });
+    } while (flags & MORE_COMPONENTS);
+
+    return contours;
+  }
+}
+
+// ========== 字体资源 ==========
+
+const fontCache = new WeakMap<ArrayBuffer, Font>();
+
+/**
+ * 解析字体资源, 同一ArrayBuffer只解析一次
+ */
+export function fontFromAsset(asset: Asset): Font {
+  if (asset.type !== 'font') throw new FontError(`资源 "${asset.name}" 不是字体`);
+  let font = fontCache.get(asset.data);
+  if (!font) {
+    try {
+      font = new Font(asset.data);
+    } catch (error) {
+      // 表偏移越界时DataView抛出RangeError
+      if (error instanceof RangeError) throw new FontError('字体数据损坏');
+      throw error;
+    }
+    fontCache.set(asset.data, font);
+  }
+  return font;
+}
+
+// ========== 内部工具 ==========
+
+/**
+ * TrueType二次曲线轮廓转为三次贝塞尔顶点
+ * 相邻两个控制点之间隐含一个位于中点的曲线上点
+ */
+function quadraticContour(points: GlyphPoint[]): PathContour | null {
+  if (points.length < 2) return null;
+
+  const expanded: GlyphPoint[] = [];
+  points.forEach((point, i) => {
+    const prev = points[(i + points.length - 1) % points.length];
+    if (!point.onCurve && !prev.onCurve) {
+      expanded.push({ x: (prev.x + point.x) / 2, y: (prev.y + point.y) / 2, onCurve: true });
+    }
+    expanded.push(point);
+  });
+
+  // 从曲线上的点开始
+  const start = expanded.findIndex(point => point.onCurve);
+  const ordered = [...expanded.slice(start), ...expanded.slice(0, start)];
+
+  const vertices: PathVertex[] = [];
+  let pendingIn: Vector2 | null = null;
+  ordered.forEach((point, i) => {
+    if (point.onCurve) {
+      const p = { x: point.x, y: point.y };
+      vertices.push({ point: p, in: pendingIn ?? { ...p }, out: { ...p } });
+      pendingIn = null;
+      return;
+    }
+    // 二次控制点C对应的三次控制柄: P + 2/3·(C - P)
+    const prev = vertices[vertices.length - 1];
+    const next = ordered[(i + 1) % ordered.length];
+    prev.out = towards(prev.point, point, 2 / 3);
+    pendingIn = towards(next, point, 2 / 3);
+  });
+  if (pendingIn) vertices[0].in = pendingIn;
+
+  return { vertices, closed: true };
+}
+
+function towards(from: Vector2, to: Vector2, t: number): Vector2 {
+  return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+}
@@ -0,0 +1,240 @@
+import { describe, it, expect } from 'vitest';
+import { ColorHistogram, GifEncodeError, GifEncoder } from './gif-encoder';
+
+interface DecodedFrame {
+  delay: number;
+  transparentIndex: number | null;
+  localPalette: Uint8Array | null;
+  indices: number[];
+}
+
+interface DecodedGif {
+  width: number;
+  height: number;
+  globalPalette: Uint8Array | null;
+  loopCount: number | null;
+  frames: DecodedFrame[];
+}
+
+/**
+ * 参照GIF89a规范的最小解码器, 用于校验编码结果
+ */
+function decodeGif(bytes: Uint8Array): DecodedGif {
+  expect(String.fromCharCode(...bytes.subarray(0, 6))).toBe('GIF89a');
+  const u16 = (offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+  const width = u16(6);
+  const height = u16(8);
+  let offset = 13;
+  let globalPalette: Uint8Array | null = null;
+  if (bytes[10] & 0x80) {
+    const size = 3 * (1 << ((bytes[10] & 0x07) + 1));
+    globalPalette = bytes.slice(offset, offset + size);
+    offset += size;
+  }
+
+  const readSubBlocks = (): Uint8Array => {
+    const parts: number[] = [];
+    while (bytes[offset] !== 0) {
+      const length = bytes[offset];
+      parts.push(...bytes.subarray(offset + 1, offset + 1 + length));
+      offset += length + 1;
+    }
+    offset++;
+    return new Uint8Array(parts);
+  };
+
+  const gif: DecodedGif = { width, height, globalPalette, loopCount: null, frames: [] };
+  let control = { delay: 0, transparentIndex: null as number | null };
+  for (;;) {
+    const introducer = bytes[offset++];
+    if (introducer === 0x3b) break;
+    if (introducer === 0x21) {
+      const label = bytes[offset++];
+      const data = readSubBlocks();
+      if (label === 0xf9) {
+        control = { delay: data[1] | (data[2] << 8), transparentIndex: data[0] & 1 ? data[3] : null };
+      } else if (label === 0xff && data[11] === 1) {
+        gif.loopCount = data[12] | (data[13] << 8);
+      }
+      continue;
+    }
+    expect(introducer).toBe(0x2c);
+    const packed = bytes[offset + 8];
+    offset += 9;
+    let localPalette: Uint8Array | null = null;
+    if (packed & 0x80) {
+      const size = 3 * (1 << ((packed & 0x07) + 1));
+      localPalette = bytes.slice(offset, offset + size);
+      offset += size;
+    }
+    const minCodeSize = bytes[offset++];
+    const indices = lzwDecode(readSubBlocks(), minCodeSize);
+    gif.frames.push({ ...control, localPalette, indices });
+  }
+  return gif;
+}
+
+function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let dictionary: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bitPosition = 0;
+
+  const reset = () => {
+    dictionary = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  while (bitPosition + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let bit = 0; bit < codeSize; bit++, bitPosition++) {
+      code |= ((data[bitPosition >> 3] >> (bitPosition & 7)) & 1) << bit;
+    }
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) return output;
+
+    const prefix: number[] | null = previous;
+    let entry: number[];
+    if (code < dictionary.length) {
+      entry = dictionary[code];
+    } else if (code === dictionary.length && prefix) {
+      entry = [...prefix, prefix[0]];
+    } else {
+      throw new Error(`无效的LZW码 ${code}`);
+    }
+    output.push(...entry);
+    if (prefix && dictionary.length < 4096) {
+      dictionary.push([...prefix, entry[0]]);
+      if (dictionary.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = entry;
+  }
+  throw new Error('缺少结束码');
+}
+
+/**
+ * 255种互不相同的颜色, 像素取调色板颜色时索引可以精确还原
+ */
+function createPalette(count = 255): Uint8Array {
+  const palette = new Uint8Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    palette.set([i, 255 - i, (i * 97) & 0xff], i * 3);
+  }
+  return palette;
+}
+
+function pixelsFromIndices(indices: number[], palette: Uint8Array, transparent = -1): Uint8Array {
+  const rgba = new Uint8Array(indices.length * 4);
+  indices.forEach((index, p) => {
+    if (index === transparent) return;
+    rgba.set([palette[index * 3], palette[index * 3 + 1], palette[index * 3 + 2], 255], p * 4);
+  });
+  return rgba;
+}
+
+/**
+ * 可复现的伪随机序列(线性同余)
+ */
+function randomIndices(count: number, colors: number, seed = 1): number[] {
+  let state = seed;
+  return Array.from({ length: count }, () => {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    return (state >> 16) % colors;
+  });
+}
+
+function encodeSingleFrame(width: number, height: number, indices: number[], palette = createPalette()): DecodedGif {
+  const encoder = new GifEncoder(width, height);
+  encoder.setGlobalPalette(palette);
+  encoder.addFrame(pixelsFromIndices(indices, palette), { delay: 5 });
+  return decodeGif(encoder.finish());
+}
+
+describe('GifEncoder LZW压缩', () => {
+  it('单个像素', () => {
+    expect(encodeSingleFrame(1, 1, [7]).frames[0].indices).toEqual([7]);
+  });
+
+  it('重复像素压缩后解码不变', () => {
+    const indices = new Array(64 * 64).fill(3);
+    const gif = encodeSingleFrame(64, 64, indices);
+    expect(gif.frames[0].indices).toEqual(indices);
+  });
+
+  it('码表写满后发送清除码, 解码结果不变', () => {
+    const indices = randomIndices(160 * 160, 255);
+    expect(encodeSingleFrame(160, 160, indices).frames[0].indices).toEqual(indices);
+  });
+
+  it('小调色板使用较短的初始码长', () => {
+    const palette = createPalette(3);
+    const indices = randomIndices(40 * 30, 3, 7);
+    const encoder = new GifEncoder(40, 30);
+    encoder.addFrame(pixelsFromIndices(indices, palette), { delay: 5, palette });
+    const [frame] = decodeGif(encoder.finish()).frames;
+    expect(frame.localPalette?.subarray(0, 9)).toEqual(palette);
+    expect(frame.indices).toEqual(indices);
+  });
+});
+
+describe('GifEncoder 文件结构', () => {
+  it('写入尺寸、全局调色板、循环次数与每帧延迟', () => {
+    const palette = createPalette(4);
+    const encoder = new GifEncoder(3, 2, { loopCount: 2 });
+    encoder.setGlobalPalette(palette);
+    encoder.addFrame(pixelsFromIndices([0, 1, 2, 3, 2, 1], palette), { delay: 4 });
+    encoder.addFrame(pixelsFromIndices([3, 3, 3, 0, 0, 0], palette), { delay: 7 });
+    const gif = decodeGif(encoder.finish());
+
+    expect([gif.width, gif.height, gif.loopCount]).toEqual([3, 2, 2]);
+    expect(gif.globalPalette?.subarray(0, 12)).toEqual(palette);
+    expect(gif.frames.map(frame => [frame.delay, frame.indices])).toEqual([
+      [4, [0, 1, 2, 3, 2, 1]],
+      [7, [3, 3, 3, 0, 0, 0]]
+    ]);
+  });
+
+  it('loopCount为null时不写循环扩展', () => {
+    const encoder = new GifEncoder(1, 1, { loopCount: null });
+    encoder.setGlobalPalette(createPalette(2));
+    encoder.addFrame(new Uint8Array([0, 255, 0, 255]), { delay: 1 });
+    expect(decodeGif(encoder.finish()).loopCount).toBeNull();
+  });
+
+  it('透明像素使用调色板之后的保留索引', () => {
+    const palette = createPalette(4);
+    const encoder = new GifEncoder(2, 2);
+    encoder.setGlobalPalette(palette);
+    encoder.addFrame(pixelsFromIndices([0, -1, 2, -1], palette, -1), { delay: 2, transparent: true });
+    const [frame] = decodeGif(encoder.finish()).frames;
+    expect(frame.transparentIndex).toBe(4);
+    expect(frame.indices).toEqual([0, 4, 2, 4]);
+  });
+
+  it('缺少调色板或帧数据长度不对时抛出GifEncodeError', () => {
+    expect(() => new GifEncoder(2, 2).addFrame(new Uint8Array(16), { delay: 1 })).toThrow(GifEncodeError);
+    const encoder = new GifEncoder(2, 2);
+    encoder.setGlobalPalette(createPalette(2));
+    expect(() => encoder.addFrame(new Uint8Array(12), { delay: 1 })).toThrow('帧数据长度应为 16, 实际为 12');
+    expect(() => new GifEncoder(0, 10)).toThrow('无效的GIF尺寸: 0x10');
+  });
+});
+
+describe('ColorHistogram', () => {
+  it('颜色数不超过上限时调色板即全部颜色', () => {
+    const palette = createPalette(4);
+    const histogram = new ColorHistogram();
+    histogram.add(pixelsFromIndices(randomIndices(400, 4, 3), palette));
+    const colors = (bytes: Uint8Array) =>
+      Array.from({ length: bytes.length / 3 }, (_, i) => bytes.subarray(i * 3, i * 3 + 3).join(',')).sort();
+    expect(colors(histogram.buildPalette(16))).toEqual(colors(palette));
+  });
+});
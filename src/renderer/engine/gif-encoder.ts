@@ -0,0 +1,443 @@
+// ============================================
+// RIV Editor - GIF 编码器
+// 纯TypeScript实现的GIF89a编码: 中位切分调色板、Floyd-Steinberg抖动、LZW压缩
+// ============================================
+
+export interface GifEncoderOptions {
+  loopCount: number | null; // 0为无限循环, null为不写循环扩展(只播放一次)
+}
+
+export interface GifFrameOptions {
+  delay: number; // 厘秒(1/100秒)
+  palette?: Uint8Array; // RGB三元组, 为空时使用全局调色板
+  dither?: boolean;
+  transparent?: boolean; // alpha低于128的像素输出为透明
+}
+
+export class GifEncodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GifEncodeError';
+  }
+}
+
+// 直方图每个通道保留的位数
+const HISTOGRAM_BITS = 5;
+const HISTOGRAM_SHIFT = 8 - HISTOGRAM_BITS;
+const MAX_LZW_CODE = 4096;
+
+// ========== 调色板量化 ==========
+
+/**
+ * 累积RGBA像素的颜色直方图, 用于生成调色板
+ * sampleStep为像素采样间隔, 越大越快但颜色越粗糙
+ */
+export class ColorHistogram {
+  private counts = new Uint32Array(1 << (HISTOGRAM_BITS * 3));
+  private sums = new Float64Array((1 << (HISTOGRAM_BITS * 3)) * 3);
+
+  add(rgba: Uint8ClampedArray | Uint8Array, sampleStep = 1): void {
+    const step = Math.max(1, Math.floor(sampleStep)) * 4;
+    for (let i = 0; i < rgba.length; i += step) {
+      if (rgba[i + 3] < 128) continue;
+      const r = rgba[i], g = rgba[i + 1], b = rgba[i + 2];
+      const bin = ((r >> HISTOGRAM_SHIFT) << (HISTOGRAM_BITS * 2)) | ((g >> HISTOGRAM_SHIFT) << HISTOGRAM_BITS) | (b >> HISTOGRAM_SHIFT);
+      this.counts[bin]++;
+      this.sums[bin * 3] += r;
+      this.sums[bin * 3 + 1] += g;
+      this.sums[bin * 3 + 2] += b;
+    }
+  }
+
+  /**
+   * 中位切分: 反复沿像素数最多且跨度最大的盒子的最长轴在中位数处切开
+   */
+  buildPalette(maxColors: number): Uint8Array {
+    interface Box {
+      bins: number[];
+      count: number;
+    }
+
+    const channel = (bin: number, axis: number) =>
+      (bin >> (HISTOGRAM_BITS * (2 - axis))) & ((1 << HISTOGRAM_BITS) - 1);
+
+    const used: number[] = [];
+    let total = 0;
+    this.counts.forEach((count, bin) => {
+      if (count > 0) {
+        used.push(bin);
+        total += count;
+      }
+    });
+    if (used.length === 0) return new Uint8Array([0, 0, 0]);
+
+    const boxes: Box[] = [{ bins: used, count: total }];
+    const range = (box: Box) => {
+      let best = { axis: 0, span: -1 };
+      for (let axis = 0; axis < 3; axis++) {
+        let min = Infinity, max = -Infinity;
+        box.bins.forEach(bin => {
+          const value = channel(bin, axis);
+          if (value < min) min = value;
+          if (value > max) max = value;
+        });
+        if (max - min > best.span) best = { axis, span: max - min };
+      }
+      return best;
+    };
+
+    while (boxes.length < maxColors) {
+      // 选择像素数×跨度最大的可切分盒子
+      let target = -1;
+      let targetScore = 0;
+      let targetAxis = 0;
+      boxes.forEach((box, i) => {
+        if (box.bins.length < 2) return;
+        const { axis, span } = range(box);
+        const score = box.count * (span + 1);
+        if (span > 0 && score > targetScore) {
+          target = i;
+          targetScore = score;
+          targetAxis = axis;
+        }
+      });
+      if (target < 0) break;
+
+      const box = boxes[target];
+      box.bins.sort((a, b) => channel(a, targetAxis) - channel(b, targetAxis));
+      let accumulated = 0;
+      let split = 1;
+      for (let i = 0; i < box.bins.length - 1; i++) {
+        accumulated += this.counts[box.bins[i]];
+        split = i + 1;
+        if (accumulated >= box.count / 2) break;
+      }
+
+      const left = box.bins.slice(0, split);
+      const right = box.bins.slice(split);
+      const leftCount = left.reduce((sum, bin) => sum + this.counts[bin], 0);
+      boxes.splice(target, 1, { bins: left, count: leftCount }, { bins: right, count: box.count - leftCount });
+    }
+
+    const palette = new Uint8Array(boxes.length * 3);
+    boxes.forEach((box, i) => {
+      let r = 0, g = 0, b = 0;
+      box.bins.forEach(bin => {
+        r += this.sums[bin * 3];
+        g += this.sums[bin * 3 + 1];
+        b += this.sums[bin * 3 + 2];
+      });
+      palette[i * 3] = Math.round(r / box.count);
+      palette[i * 3 + 1] = Math.round(g / box.count);
+      palette[i * 3 + 2] = Math.round(b / box.count);
+    });
+    return palette;
+  }
+}
+
+/**
+ * 最近颜色查找, 按6位精度缓存结果
+ */
+class PaletteMatcher {
+  private cache = new Int16Array(1 << 18).fill(-1);
+
+  constructor(private palette: Uint8Array) {}
+
+  match(r: number, g: number, b: number): number {
+    const key = ((r >> 2) << 12) | ((g >> 2) << 6) | (b >> 2);
+    const cached = this.cache[key];
+    if (cached >= 0) return cached;
+
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < this.palette.length; i += 3) {
+      const dr = this.palette[i] - r;
+      const dg = this.palette[i + 1] - g;
+      const db = this.palette[i + 2] - b;
+      const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i / 3;
+      }
+    }
+    this.cache[key] = best;
+    return best;
+  }
+}
+
+// ========== GIF编码器 ==========
+
+export class GifEncoder {
+  private chunks: Uint8Array[] = [];
+  private globalPalette: Uint8Array | null = null;
+  private globalMatcher: PaletteMatcher | null = null;
+  private headerWritten = false;
+  private finished = false;
+
+  constructor(
+    private width: number,
+    private height: number,
+    private options: GifEncoderOptions = { loopCount: 0 }
+  ) {
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1 || width > 65535 || height > 65535) {
+      throw new GifEncodeError(`无效的GIF尺寸: ${width}x${height}`);
+    }
+  }
+
+  /**
+   * 设置全局调色板, 必须在第一帧之前调用
+   * 最后一个索引保留给透明色, 因此最多255种颜色
+   */
+  setGlobalPalette(palette: Uint8Array): void {
+    if (this.headerWritten) throw new GifEncodeError('全局调色板必须在添加帧之前设置');
+    this.globalPalette = palette.slice(0, 255 * 3);
+    this.globalMatcher = new PaletteMatcher(this.globalPalette);
+  }
+
+  /**
+   * 添加一帧RGBA像素
+   */
+  addFrame(rgba: Uint8ClampedArray | Uint8Array, frame: GifFrameOptions): void {
+    if (this.finished) throw new GifEncodeError('编码已结束');
+    if (rgba.length !== this.width * this.height * 4) {
+      throw new GifEncodeError(`帧数据长度应为 ${this.width * this.height * 4}, 实际为 ${rgba.length}`);
+    }
+    this.writeHeader();
+
+    let palette: Uint8Array;
+    let matcher: PaletteMatcher;
+    if (frame.palette) {
+      palette = frame.palette.slice(0, 255 * 3);
+      matcher = new PaletteMatcher(palette);
+    } else if (this.globalPalette && this.globalMatcher) {
+      palette = this.globalPalette;
+      matcher = this.globalMatcher;
+    } else {
+      throw new GifEncodeError('缺少调色板: 请设置全局调色板或为帧指定调色板');
+    }
+
+    const colorCount = palette.length / 3;
+    const transparentIndex = frame.transparent ? colorCount : -1;
+    const indices = frame.dither
+      ? ditherPixels(rgba, this.width, this.height, palette, matcher, transparentIndex)
+      : mapPixels(rgba, matcher, transparentIndex);
+
+    const tableBits = tableSizeBits(colorCount + (frame.transparent ? 1 : 0));
+
+    // 图形控制扩展: 有透明像素时每帧恢复背景, 避免上一帧透出
+    const disposal = frame.transparent ? 2 : 1;
+    const delay = Math.max(0, Math.min(65535, Math.round(frame.delay)));
+    this.push([
+      0x21, 0xf9, 0x04,
+      (disposal << 2) | (frame.transparent ? 1 : 0),
+      delay & 0xff, delay >> 8,
+      transparentIndex >= 0 ? transparentIndex : 0,
+      0x00
+    ]);
+
+    // 图像描述符
+    const local = frame.palette !== undefined;
+    this.push([
+      0x2c,
+      0, 0, 0, 0,
+      this.width & 0xff, this.width >> 8,
+      this.height & 0xff, this.height >> 8,
+      local ? 0x80 | (tableBits - 1) : 0
+    ]);
+    if (local) this.chunks.push(colorTable(palette, tableBits));
+
+    this.chunks.push(lzwEncode(indices, Math.max(2, tableBits)));
+  }
+
+  /**
+   * 写入结束符并返回完整的GIF文件
+   */
+  finish(): Uint8Array {
+    if (!this.finished) {
+      this.writeHeader();
+      this.push([0x3b]);
+      this.finished = true;
+    }
+
+    const total = this.chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const result = new Uint8Array(total);
+    let offset = 0;
+    this.chunks.forEach(chunk => {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return result;
+  }
+
+  private writeHeader(): void {
+    if (this.headerWritten) return;
+    this.headerWritten = true;
+
+    this.push([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // GIF89a
+
+    // 逻辑屏幕描述符, 全局调色板同样为透明色保留一个索引
+    const globalBits = this.globalPalette ? tableSizeBits(this.globalPalette.length / 3 + 1) : 0;
+    this.push([
+      this.width & 0xff, this.width >> 8,
+      this.height & 0xff, this.height >> 8,
+      this.globalPalette ? 0x80 | 0x70 | (globalBits - 1) : 0x70,
+      0, 0
+    ]);
+    if (this.globalPalette) this.chunks.push(colorTable(this.globalPalette, globalBits));
+
+    // NETSCAPE2.0 循环扩展
+    if (this.options.loopCount !== null) {
+      const loops = Math.max(0, Math.min(65535, this.options.loopCount));
+      this.push([
+        0x21, 0xff, 0x0b,
+        ...Array.from('NETSCAPE2.0', c => c.charCodeAt(0)),
+        0x03, 0x01, loops & 0xff, loops >> 8, 0x00
+      ]);
+    }
+  }
+
+  private push(bytes: number[]): void {
+    this.chunks.push(new Uint8Array(bytes));
+  }
+}
+
+// ========== 内部工具 ==========
+
+function tableSizeBits(colorCount: number): number {
+  let bits = 1;
+  while (1 << bits < colorCount) bits++;
+  return Math.min(8, bits);
+}
+
+function colorTable(palette: Uint8Array, bits: number): Uint8Array {
+  const table = new Uint8Array((1 << bits) * 3);
+  table.set(palette.subarray(0, table.length));
+  return table;
+}
+
+function mapPixels(rgba: Uint8ClampedArray | Uint8Array, matcher: PaletteMatcher, transparentIndex: number): Uint8Array {
+  const indices = new Uint8Array(rgba.length / 4);
+  for (let i = 0, p = 0; p < indices.length; i += 4, p++) {
+    indices[p] = transparentIndex >= 0 && rgba[i + 3] < 128
+      ? transparentIndex
+      : matcher.match(rgba[i], rgba[i + 1], rgba[i + 2]);
+  }
+  return indices;
+}
+
+/**
+ * Floyd-Steinberg误差扩散, 透明像素不参与扩散
+ */
+function ditherPixels(
+  rgba: Uint8ClampedArray | Uint8Array,
+  width: number,
+  height: number,
+  palette: Uint8Array,
+  matcher: PaletteMatcher,
+  transparentIndex: number
+): Uint8Array {
+  const indices = new Uint8Array(width * height);
+  const errors = new Float32Array((width + 2) * 2 * 3); // 当前行与下一行的误差
+  const clamp = (n: number) => (n < 0 ? 0 : n > 255 ? 255 : n);
+
+  for (let y = 0; y < height; y++) {
+    const current = (y % 2) * (width + 2) * 3;
+    const next = ((y + 1) % 2) * (width + 2) * 3;
+    errors.fill(0, next, next + (width + 2) * 3);
+
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const i = p * 4;
+      if (transparentIndex >= 0 && rgba[i + 3] < 128) {
+        indices[p] = transparentIndex;
+        continue;
+      }
+
+      const e = current + (x + 1) * 3;
+      const r = clamp(rgba[i] + errors[e]);
+      const g = clamp(rgba[i + 1] + errors[e + 1]);
+      const b = clamp(rgba[i + 2] + errors[e + 2]);
+      const index = matcher.match(r | 0, g | 0, b | 0);
+      indices[p] = index;
+
+      const er = r - palette[index * 3];
+      const eg = g - palette[index * 3 + 1];
+      const eb = b - palette[index * 3 + 2];
+      const spread = (offset: number, weight: number) => {
+        errors[offset] += er * weight;
+        errors[offset + 1] += eg * weight;
+        errors[offset + 2] += eb * weight;
+      };
+      spread(e + 3, 7 / 16);
+      spread(next + x * 3, 3 / 16);
+      spread(next + (x + 1) * 3, 5 / 16);
+      spread(next + (x + 2) * 3, 1 / 16);
+    }
+  }
+  return indices;
+}
+
+/**
+ * GIF变长LZW压缩, 输出带长度前缀的数据子块
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const output: number[] = [minCodeSize];
+  const block: number[] = [];
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    output.push(block.length, ...block);
+    block.length = 0;
+  };
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      if (block.length === 255) flushBlock();
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  if (indices.length > 0) {
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const k = indices[i];
+      const key = (prefix << 8) | k;
+      const existing = table.get(key);
+      if (existing !== undefined) {
+        prefix = existing;
+        continue;
+      }
+
+      emit(prefix);
+      if (nextCode === MAX_LZW_CODE) {
+        // 码表已满, 发送清除码重新开始
+        emit(clearCode);
+        table = new Map();
+        codeSize = minCodeSize + 1;
+        nextCode = endCode + 1;
+      } else {
+        if (nextCode >= 1 << codeSize) codeSize++;
+        table.set(key, nextCode++);
+      }
+      prefix = k;
+    }
+    emit(prefix);
+  }
+  emit(endCode);
+
+  if (bitCount > 0) block.push(bitBuffer & 0xff);
+  if (block.length > 0) flushBlock();
+  output.push(0x00);
+  return new Uint8Array(output);
+}
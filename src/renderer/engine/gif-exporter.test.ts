@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_GIF_FPS, gifFrameDelays } from './gif-exporter';
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe('gifFrameDelays', () => {
+  it('帧间隔为整厘秒时每帧延迟相同', () => {
+    expect(gifFrameDelays(5, 25)).toEqual([4, 4, 4, 4, 4]);
+    expect(gifFrameDelays(4, 10)).toEqual([10, 10, 10, 10]);
+  });
+
+  it('非整厘秒的延迟按累计时间取整, 总时长不漂移', () => {
+    const delays = gifFrameDelays(30, 30);
+    expect(new Set(delays)).toEqual(new Set([3, 4]));
+    expect(sum(delays)).toBe(100);
+  });
+
+  it.each([50, 60, 120, 240])('%s fps 的每帧延迟不少于2厘秒', fps => {
+    const delays = gifFrameDelays(100, fps);
+    expect(Math.min(...delays)).toBeGreaterThanOrEqual(2);
+    expect(sum(delays)).toBe(100 * (100 / MAX_GIF_FPS));
+  });
+
+  it.each([24, 33, 41, 49])('%s fps 的每帧延迟不少于2厘秒', fps => {
+    expect(Math.min(...gifFrameDelays(fps * 3, fps))).toBeGreaterThanOrEqual(2);
+  });
+});
@@ -0,0 +1,103 @@
+// ============================================
+// RIV Editor - GIF 导出器
+// 逐帧渲染画板动画并编码为GIF动画
+// ============================================
+
+import type { Animation, Artboard, Color } from './riv-editor-engine';
+import { frameTimes, renderArtboardFrame } from './animation-frame';
+import { ColorHistogram, GifEncoder, GifEncodeError } from './gif-encoder';
+
+export interface GifExportOptions {
+  fps?: number; // 默认取Animation.fps, 超过MAX_GIF_FPS时按MAX_GIF_FPS取帧
+  quality?: number; // 1-100, 越高调色板采样越细, 默认80
+  dither?: boolean; // Floyd-Steinberg抖动, 默认关闭
+  palette?: 'global' | 'frame'; // 全部帧共用一个调色板, 或每帧单独量化, 默认global
+  scale?: number; // 输出尺寸相对画板的倍数, 默认1
+  background?: 'transparent' | 'solid'; // solid使用Artboard.backgroundColor, 未设置时为白色
+}
+
+const DEFAULT_BACKGROUND: Color = { r: 255, g: 255, b: 255, a: 1 };
+
+// 浏览器把小于2厘秒的帧延迟当作10厘秒播放, 帧率上限为100 / 2
+export const MAX_GIF_FPS = 50;
+
+/**
+ * count帧按fps播放时每帧的延迟(厘秒), 按累计时间取整避免舍入误差累积
+ * fps超过MAX_GIF_FPS时按MAX_GIF_FPS计算, 每帧不少于2厘秒
+ */
+export function gifFrameDelays(count: number, fps: number): number[] {
+  const frameDelay = 100 / Math.min(fps, MAX_GIF_FPS);
+  return Array.from({ length: count }, (_, i) => Math.round((i + 1) * frameDelay) - Math.round(i * frameDelay));
+}
+
+// ========== GIF导出器 ==========
+
+export class GifExporter {
+  /**
+   * 导出GIF文件
+   * 循环方式取自Animation.loop: once只播放一次, loop无限循环, pingpong展开为往返帧后无限循环
+   */
+  exportAnimation(artboard: Artboard, animation: Animation, options: GifExportOptions): Uint8Array {
+    const scale = options.scale ?? 1;
+    if (!(scale > 0) || !Number.isFinite(scale)) {
+      throw new GifEncodeError(`缩放倍数必须为正数: ${scale}`);
+    }
+    const quality = Math.max(1, Math.min(100, options.quality ?? 80));
+    const sampleStep = 1 + Math.round((100 - quality) / 10);
+
+    const width = Math.max(1, Math.round(artboard.width * scale));
+    const height = Math.max(1, Math.round(artboard.height * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new GifEncodeError('无法创建2D绘图上下文');
+
+    const transparent = options.background !== 'solid';
+    const background = transparent ? null : artboard.backgroundColor ?? DEFAULT_BACKGROUND;
+    // 高帧率重新取样到MAX_GIF_FPS, 丢弃的中间帧不渲染
+    const fps = Math.min(options.fps ?? animation.fps, MAX_GIF_FPS);
+    const times = this.playbackTimes(animation, fps);
+    const renderFrame = (time: number) => {
+      renderArtboardFrame(ctx, artboard, animation, time, scale, background);
+      return ctx.getImageData(0, 0, width, height).data;
+    };
+
+    const encoder = new GifEncoder(width, height, { loopCount: animation.loop === 'once' ? null : 0 });
+    const perFrame = options.palette === 'frame';
+
+    if (!perFrame) {
+      // 第一遍: 汇总所有帧的颜色生成全局调色板
+      const histogram = new ColorHistogram();
+      times.forEach(time => histogram.add(renderFrame(time), sampleStep));
+      encoder.setGlobalPalette(histogram.buildPalette(255));
+    }
+
+    const delays = gifFrameDelays(times.length, fps);
+    times.forEach((time, i) => {
+      const pixels = renderFrame(time);
+      let palette: Uint8Array | undefined;
+      if (perFrame) {
+        const histogram = new ColorHistogram();
+        histogram.add(pixels, sampleStep);
+        palette = histogram.buildPalette(255);
+      }
+
+      encoder.addFrame(pixels, {
+        delay: delays[i],
+        palette,
+        dither: options.dither ?? false,
+        transparent
+      });
+    });
+
+    return encoder.finish();
+  }
+
+  private playbackTimes(animation: Animation, fps: number): number[] {
+    const times = frameTimes(animation.duration, fps);
+    if (animation.loop !== 'pingpong') return times;
+    // 往返播放: 去掉首尾重复帧后倒序追加
+    return [...times, ...times.slice(1, -1).reverse()];
+  }
+}
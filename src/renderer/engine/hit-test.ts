@@ -0,0 +1,187 @@
+// ============================================
+// RIV Editor - 命中测试
+// 把画布坐标经图形的世界矩阵逆变换到局部坐标, 按真实填充区域与描边轮廓判断是否命中
+// ============================================
+
+import {
+  Shape,
+  Rectangle,
+  Ellipse,
+  Path,
+  Group,
+  BooleanGroup,
+  Image,
+  type FillRule,
+  type Vector2
+} from './riv-editor-engine';
+import { applyAffine, invertAffine, matrixScale, IDENTITY_MATRIX } from './matrix';
+import { flattenContours, type PathContour } from './path-model';
+
+export interface HitTestOptions {
+  tolerance?: number; // 画布坐标下的容差, 通常取 若干像素 / 缩放比例
+  includeLocked?: boolean; // 锁定的图形(含锁定组的子图形)也参与命中
+}
+
+export interface HitResult {
+  shape: Shape; // 命中的图形, 布尔组作为整体命中
+  ancestors: Group[]; // 从顶层到直接父级的组
+  part: 'fill' | 'stroke';
+}
+
+/**
+ * 最上层命中的可见图形, 没有命中时返回null
+ */
+export function hitTest(shapes: Shape[], point: Vector2, options: HitTestOptions = {}): HitResult | null {
+  return hitTestAll(shapes, point, options)[0] ?? null;
+}
+
+/**
+ * 全部命中的图形, 从上层到下层排列, 用于"选择下层图形"
+ */
+export function hitTestAll(shapes: Shape[], point: Vector2, options: HitTestOptions = {}): HitResult[] {
+  const results: HitResult[] = [];
+  collectHits(shapes, point, [], options, results);
+  return results;
+}
+
+// ========== 内部工具 ==========
+
+function collectHits(
+  shapes: Shape[],
+  point: Vector2,
+  ancestors: Group[],
+  options: HitTestOptions,
+  results: HitResult[]
+): void {
+  // 后绘制的图形在上层
+  for (let i = shapes.length - 1; i >= 0; i--) {
+    const shape = shapes[i];
+    if (!shape.visible || (shape.locked && !options.includeLocked)) continue;
+    // 裁切区域之外的部分不可点击, 组的裁切同样作用于子图形
+    if (!isInsideClip(shape, point)) continue;
+
+    if (shape instanceof Group && !(shape instanceof BooleanGroup)) {
+      collectHits(shape.children, point, [...ancestors, shape], options, results);
+      continue;
+    }
+
+    const part = hitShape(shape, point, options.tolerance ?? 0);
+    if (part) results.push({ shape, ancestors, part });
+  }
+}
+
+function isInsideClip(shape: Shape, point: Vector2): boolean {
+  const region = shape.getClipRegion();
+  if (!region) return true;
+  const inverse = invertAffine(shape.getWorldMatrix());
+  if (!inverse) return false;
+  const inside = isInsidePolylines(flattenContours(region.contours), applyAffine(inverse, point), region.fillRule);
+  return inside !== shape.clipInverse;
+}
+
+function hitShape(shape: Shape, point: Vector2, tolerance: number): HitResult['part'] | null {
+  const matrix = shape.getWorldMatrix();
+  const inverse = invertAffine(matrix);
+  if (!inverse) return null;
+
+  const local = applyAffine(inverse, point);
+  const scale = matrixScale(matrix);
+  const localTolerance = scale > 0 ? tolerance / scale : 0;
+  const outline = outlineContours(shape);
+  // 图片框整体可点击, 与是否设置填充无关
+  const filled = shape.fill.type !== 'none' || shape instanceof Image;
+
+  // 描边绘制在填充之上, 先判断描边
+  if (outline) {
+    const distance = distanceToPolylines(flattenContours(outline), local);
+    if (shape.stroke && shape.stroke.width > 0 && distance <= shape.stroke.width / 2 + localTolerance) {
+      return 'stroke';
+    }
+    if (filled && distance <= localTolerance) return 'fill';
+  }
+
+  if (filled && isInsideFill(shape, local)) return 'fill';
+  return null;
+}
+
+/**
+ * 局部坐标下的几何轮廓, 没有路径几何的图形返回null
+ */
+function outlineContours(shape: Shape): PathContour[] | null {
+  if (shape instanceof Rectangle || shape instanceof Ellipse || shape instanceof Path || shape instanceof BooleanGroup) {
+    return shape.getContours();
+  }
+  return null;
+}
+
+function isInsideFill(shape: Shape, point: Vector2): boolean {
+  if (shape instanceof Ellipse) {
+    if (shape.radiusX <= 0 || shape.radiusY <= 0) return false;
+    const center = shape.getCenter();
+    return ((point.x - center.x) / shape.radiusX) ** 2 + ((point.y - center.y) / shape.radiusY) ** 2 <= 1;
+  }
+
+  if (shape instanceof Rectangle) {
+    const left = -shape.width * shape.transform.pivot.x;
+    const top = -shape.height * shape.transform.pivot.y;
+    const x = point.x - left;
+    const y = point.y - top;
+    if (x < 0 || y < 0 || x > shape.width || y > shape.height) return false;
+
+    // 圆角: 落在角上的正方形区域时检查到圆心的距离
+    const r = Math.min(shape.cornerRadius, shape.width / 2, shape.height / 2);
+    if (r <= 0) return true;
+    const dx = Math.max(r - x, x - (shape.width - r), 0);
+    const dy = Math.max(r - y, y - (shape.height - r), 0);
+    return dx * dx + dy * dy <= r * r;
+  }
+
+  if (shape instanceof Path || shape instanceof BooleanGroup) {
+    const fillRule = shape instanceof Path ? shape.fillRule : 'nonzero';
+    return isInsidePolylines(flattenContours(shape.getContours()), point, fillRule);
+  }
+
+  // 其他图形按局部包围盒判断
+  const bounds = shape.getTransformedBounds(IDENTITY_MATRIX);
+  return point.x >= bounds.x && point.x <= bounds.x + bounds.width &&
+    point.y >= bounds.y && point.y <= bounds.y + bounds.height;
+}
+
+/**
+ * 环绕数判断, 开放折线按首尾相连处理(与画布填充一致)
+ */
+function isInsidePolylines(polylines: Vector2[][], point: Vector2, fillRule: FillRule): boolean {
+  let winding = 0;
+  polylines.forEach(points => {
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      const side = (b.x - a.x) * (point.y - a.y) - (point.x - a.x) * (b.y - a.y);
+      if (a.y <= point.y) {
+        if (b.y > point.y && side > 0) winding++;
+      } else if (b.y <= point.y && side < 0) {
+        winding--;
+      }
+    }
+  });
+  return fillRule === 'evenodd' ? winding % 2 !== 0 : winding !== 0;
+}
+
+function distanceToPolylines(polylines: Vector2[][], point: Vector2): number {
+  let best = Infinity;
+  polylines.forEach(points => {
+    if (points.length === 1) best = Math.min(best, Math.hypot(point.x - points[0].x, point.y - points[0].y));
+    for (let i = 1; i < points.length; i++) {
+      best = Math.min(best, distanceToSegment(point, points[i - 1], points[i]));
+    }
+  });
+  return best;
+}
+
+function distanceToSegment(p: Vector2, a: Vector2, b: Vector2): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + dx * t), p.y - (a.y + dy * t));
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { COLOR_SPACES, colorInterpolator, resolveInterpolator, type ColorSpace } from './interpolation';
+import { toEngineAnimation } from './shape-document';
+import type { Color } from './riv-editor-engine';
+
+const RED: Color = { r: 255, g: 0, b: 0, a: 1 };
+const BLUE: Color = { r: 0, g: 0, b: 255, a: 0 };
+const BLACK: Color = { r: 0, g: 0, b: 0, a: 1 };
+const WHITE: Color = { r: 255, g: 255, b: 255, a: 1 };
+const GRAY: Color = { r: 128, g: 128, b: 128, a: 1 };
+
+function mix(from: Color, to: Color, progress: number, colorSpace: ColorSpace): Color {
+  return colorInterpolator(from, to, progress, { colorSpace });
+}
+
+function expectColor(actual: Color, expected: Color, precision = 1): void {
+  expect(actual.r).toBeCloseTo(expected.r, precision);
+  expect(actual.g).toBeCloseTo(expected.g, precision);
+  expect(actual.b).toBeCloseTo(expected.b, precision);
+  expect(actual.a).toBeCloseTo(expected.a, precision);
+}
+
+describe('colorInterpolator', () => {
+  describe.each(COLOR_SPACES)('%s', colorSpace => {
+    it('端点还原为关键帧颜色', () => {
+      expectColor(mix(RED, BLUE, 0, colorSpace), RED);
+      expectColor(mix(RED, BLUE, 1, colorSpace), BLUE);
+    });
+
+    it('透明度线性插值', () => {
+      expect(mix(RED, BLUE, 0.25, colorSpace).a).toBeCloseTo(0.75);
+    });
+
+    it('中间色的通道值在[0, 255]内', () => {
+      [0.25, 0.5, 0.75].forEach(progress => {
+        const color = mix(RED, BLUE, progress, colorSpace);
+        [color.r, color.g, color.b].forEach(channel => {
+          expect(channel).toBeGreaterThanOrEqual(0);
+          expect(channel).toBeLessThanOrEqual(255);
+        });
+      });
+    });
+  });
+
+  it('sRGB逐通道线性插值', () => {
+    expectColor(mix(RED, BLUE, 0.5, 'srgb'), { r: 127.5, g: 0, b: 127.5, a: 0.5 });
+  });
+
+  it('线性RGB在线性光强下取中点, 中间色比sRGB更亮', () => {
+    // 线性光强0.5编码回sRGB约为0.7354
+    expectColor(mix(RED, BLUE, 0.5, 'linear-rgb'), { r: 187.5, g: 0, b: 187.5, a: 0.5 }, 0);
+  });
+
+  it('HSL色相沿较短方向经过品红', () => {
+    expectColor(mix(RED, BLUE, 0.5, 'hsl'), { r: 255, g: 0, b: 255, a: 0.5 });
+  });
+
+  it('HSL一端为无彩色时沿用另一端的色相', () => {
+    const color = mix(GRAY, RED, 0.5, 'hsl');
+    expect(color.r).toBeGreaterThan(color.g);
+    expect(color.g).toBeCloseTo(color.b);
+  });
+
+  it('OKLab的黑白中点为感知中灰', () => {
+    // L = 0.5 对应线性光强0.125, sRGB约为0.3889
+    expectColor(mix(BLACK, WHITE, 0.5, 'oklab'), { r: 99.2, g: 99.2, b: 99.2, a: 1 }, 0);
+  });
+
+  it('颜色属性路径使用颜色插值器', () => {
+    expect(resolveInterpolator('fill.color')).toBe(colorInterpolator);
+    expect(resolveInterpolator('stroke.color')).toBe(colorInterpolator);
+    expect(resolveInterpolator('effects.0.color')).toBe(colorInterpolator);
+  });
+});
+
+describe('轨道色彩空间', () => {
+  it('纯数据轨道的colorSpace作用于引擎插值', () => {
+    const animation = toEngineAnimation({
+      id: 'a',
+      name: 'A',
+      duration: 1000,
+      loop: 'once',
+      tracks: [{
+        property: 'fill.color',
+        targetId: 'shape',
+        colorSpace: 'hsl',
+        keyframes: [
+          { time: 0, value: RED, easing: 'linear' },
+          { time: 1000, value: BLUE, easing: 'linear' }
+        ]
+      }]
+    });
+    const track = Array.from(animation.tracks.values())[0];
+    expect(track.colorSpace).toBe('hsl');
+    expectColor(track.getValueAtTime(500) as Color, { r: 255, g: 0, b: 255, a: 0.5 });
+  });
+});
@@ -0,0 +1,267 @@
+// ============================================
+// RIV Editor - 关键帧插值
+// 按属性路径注册的类型化插值器: 数值、颜色(可选色彩空间)、向量、角度、路径、布尔与字符串
+// ============================================
+
+import type { Color, Vector2 } from './riv-editor-engine';
+import { PathDataError } from './path-data';
+import { morphPathData, type MorphCorrespondence } from './path-morph';
+
+/**
+ * 关键帧到下一关键帧之间的插值方式
+ * hold: 保持当前值直到下一关键帧; linear: 忽略缓动线性插值; curve: 按缓动插值
+ */
+export type KeyframeInterpolation = 'hold' | 'linear' | 'curve';
+
+export type ColorSpace = 'srgb' | 'linear-rgb' | 'hsl' | 'oklab';
+
+export const COLOR_SPACES: ColorSpace[] = ['srgb', 'linear-rgb', 'hsl', 'oklab'];
+
+export const COLOR_SPACE_NAMES: Record<ColorSpace, string> = {
+  srgb: 'sRGB',
+  'linear-rgb': '线性RGB',
+  hsl: 'HSL',
+  oklab: 'OKLab'
+};
+
+export interface InterpolationOptions {
+  colorSpace: ColorSpace;
+  morph?: MorphCorrespondence[]; // 路径变形的手动对应关系
+}
+
+/**
+ * progress为缓动后的进度, 可能略超出[0, 1](如back、elastic)
+ */
+export type Interpolator<T = unknown> = (from: T, to: T, progress: number, options: InterpolationOptions) => T;
+
+export const numberInterpolator: Interpolator<number> = (from, to, progress) => from + (to - from) * progress;
+
+export const vectorInterpolator: Interpolator<Vector2> = (from, to, progress) => ({
+  x: from.x + (to.x - from.x) * progress,
+  y: from.y + (to.y - from.y) * progress
+});
+
+/**
+ * 弧度, 沿较短方向旋转; 多圈旋转需要用中间关键帧分段
+ */
+export const angleInterpolator: Interpolator<number> = (from, to, progress) =>
+  from + wrapAngle(to - from) * progress;
+
+/**
+ * 颜色通道在选定的色彩空间中插值, 透明度始终线性插值
+ */
+export const colorInterpolator: Interpolator<Color> = (from, to, progress, options) => {
+  const a = from.a + (to.a - from.a) * progress;
+  switch (options.colorSpace) {
+    case 'srgb':
+      return {
+        r: from.r + (to.r - from.r) * progress,
+        g: from.g + (to.g - from.g) * progress,
+        b: from.b + (to.b - from.b) * progress,
+        a
+      };
+    case 'linear-rgb': {
+      const start = toLinearRgb(from);
+      const end = toLinearRgb(to);
+      return { ...fromLinearRgb(start.map((value, i) => value + (end[i] - value) * progress)), a };
+    }
+    case 'hsl':
+      return { ...fromHsl(mixHsl(toHsl(from), toHsl(to), progress)), a };
+    case 'oklab': {
+      const start = linearRgbToOklab(toLinearRgb(from));
+      const end = linearRgbToOklab(toLinearRgb(to));
+      return { ...fromLinearRgb(oklabToLinearRgb(start.map((value, i) => value + (end[i] - value) * progress))), a };
+    }
+  }
+};
+
+/**
+ * 布尔与字符串等离散值: 保持起始值直到下一关键帧
+ */
+export const discreteInterpolator: Interpolator<unknown> = (from, to, progress) => (progress >= 1 ? to : from);
+
+/**
+ * 路径数据逐顶点变形, 顶点结构不同时自动转为兼容结构; 路径数据无效时按离散值处理
+ */
+export const pathDataInterpolator: Interpolator<string> = (from, to, progress, options) => {
+  if (progress <= 0) return from;
+  if (progress >= 1) return to;
+  try {
+    return morphPathData(from, to, progress, options.morph);
+  } catch (error) {
+    if (!(error instanceof PathDataError)) throw error;
+    return discreteInterpolator(from, to, progress, options) as string;
+  }
+};
+
+/**
+ * 注册属性路径的插值器, 路径中的*匹配任意一段; 后注册的优先
+ */
+export function registerInterpolator<T>(pattern: string, interpolator: Interpolator<T>): void {
+  registry.push({ segments: pattern.split('.'), interpolator: interpolator as Interpolator });
+}
+
+/**
+ * 属性路径对应的插值器, 未注册的路径按数值插值
+ * 返回值类型未知, 调用方按属性的值类型收窄
+ */
+export function resolveInterpolator(property: string): Interpolator {
+  const parts = property.split('.');
+  for (let i = registry.length - 1; i >= 0; i--) {
+    const { segments, interpolator } = registry[i];
+    if (segments.length === parts.length && segments.every((segment, j) => segment === '*' || segment === parts[j])) {
+      return interpolator;
+    }
+  }
+  return numberInterpolator as Interpolator;
+}
+
+/**
+ * 角度关键帧值展开为连续值, 相邻差值不超过π; 供只能逐值线性插值的导出格式使用
+ */
+export function unwrapAngles(values: number[]): number[] {
+  const result: number[] = [];
+  values.forEach((value, i) => {
+    result.push(i === 0 ? value : result[i - 1] + wrapAngle(value - values[i - 1]));
+  });
+  return result;
+}
+
+/**
+ * 相邻角度差值超过半圈: 按较短方向插值时旋转方向或圈数与逐值插值不同
+ */
+export function exceedsHalfTurn(values: number[]): boolean {
+  return values.some((value, i) => i > 0 && Math.abs(value - values[i - 1]) > Math.PI);
+}
+
+// ========== 内部工具 ==========
+
+interface RegisteredInterpolator {
+  segments: string[];
+  interpolator: Interpolator;
+}
+
+const registry: RegisteredInterpolator[] = [];
+
+// 内置的属性路径
+registerInterpolator('transform.rotation', angleInterpolator);
+registerInterpolator('transform.position', vectorInterpolator);
+registerInterpolator('transform.scale', vectorInterpolator);
+registerInterpolator('transform.skew', vectorInterpolator);
+registerInterpolator('fill.color', colorInterpolator);
+registerInterpolator('stroke.color', colorInterpolator);
+registerInterpolator('fill.gradient.start', vectorInterpolator);
+registerInterpolator('fill.gradient.end', vectorInterpolator);
+registerInterpolator('fill.gradient.center', vectorInterpolator);
+registerInterpolator('effects.*.color', colorInterpolator);
+registerInterpolator('effects.*.offset', vectorInterpolator);
+registerInterpolator('effects.*.visible', discreteInterpolator);
+registerInterpolator('pathData', pathDataInterpolator);
+registerInterpolator('visible', discreteInterpolator);
+registerInterpolator('clipInverse', discreteInterpolator);
+registerInterpolator('content', discreteInterpolator);
+registerInterpolator('blendMode', discreteInterpolator);
+registerInterpolator('stroke.trim.mode', discreteInterpolator);
+
+function wrapAngle(delta: number): number {
+  const turn = 2 * Math.PI;
+  const wrapped = (((delta + Math.PI) % turn) + turn) % turn - Math.PI;
+  // 恰好半圈时保持原方向
+  return wrapped === -Math.PI && delta > 0 ? Math.PI : wrapped;
+}
+
+function clampChannel(value: number): number {
+  return Math.min(255, Math.max(0, value));
+}
+
+function toLinearRgb(color: Color): number[] {
+  return [color.r, color.g, color.b].map(channel => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+}
+
+function fromLinearRgb([r, g, b]: number[]): Omit<Color, 'a'> {
+  const encode = (c: number) => {
+    const value = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.max(c, 0) ** (1 / 2.4) - 0.055;
+    return clampChannel(value * 255);
+  };
+  return { r: encode(r), g: encode(g), b: encode(b) };
+}
+
+function linearRgbToOklab([r, g, b]: number[]): number[] {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s
+  ];
+}
+
+function oklabToLinearRgb([lightness, a, b]: number[]): number[] {
+  const l = (lightness + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (lightness - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (lightness - 0.0894841775 * a - 1.291485548 * b) ** 3;
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s
+  ];
+}
+
+interface Hsl {
+  h: number; // 度, 无彩色时为NaN
+  s: number;
+  l: number;
+}
+
+function toHsl(color: Color): Hsl {
+  const r = color.r / 255;
+  const g = color.g / 255;
+  const b = color.b / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return { h: NaN, s: 0, l };
+
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === r) h = ((g - b) / d) % 6;
+  else if (max === g) h = (b - r) / d + 2;
+  else h = (r - g) / d + 4;
+  return { h: (h * 60 + 360) % 360, s, l };
+}
+
+function fromHsl({ h, s, l }: Hsl): Omit<Color, 'a'> {
+  const hue = Number.isNaN(h) ? 0 : h;
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = l - c / 2;
+  const [r, g, b] =
+    hue < 60 ? [c, x, 0] :
+    hue < 120 ? [x, c, 0] :
+    hue < 180 ? [0, c, x] :
+    hue < 240 ? [0, x, c] :
+    hue < 300 ? [x, 0, c] :
+    [c, 0, x];
+  return { r: clampChannel((r + m) * 255), g: clampChannel((g + m) * 255), b: clampChannel((b + m) * 255) };
+}
+
+/**
+ * 色相沿较短方向插值; 一端为无彩色时沿用另一端的色相
+ */
+function mixHsl(from: Hsl, to: Hsl, progress: number): Hsl {
+  const fromHue = Number.isNaN(from.h) ? to.h : from.h;
+  const toHue = Number.isNaN(to.h) ? from.h : to.h;
+  let delta = toHue - fromHue;
+  if (delta > 180) delta -= 360;
+  if (delta < -180) delta += 360;
+  return {
+    h: Number.isNaN(fromHue) ? NaN : (((fromHue + delta * progress) % 360) + 360) % 360,
+    s: from.s + (to.s - from.s) * progress,
+    l: from.l + (to.l - from.l) * progress
+  };
+}
@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import {
+  copyKeyframes,
+  deleteKeyframes,
+  moveKeyframes,
+  pasteKeyframes,
+  setKeyframe,
+  setKeyframeEasing
+} from './keyframe-editing';
+import type { Animation, Keyframe } from '../types';
+
+function createAnimation(): Animation {
+  return {
+    id: 'a',
+    name: 'A',
+    duration: 1000,
+    loop: 'once',
+    tracks: [
+      {
+        property: 'opacity',
+        targetId: 'rect',
+        keyframes: [
+          { time: 0, value: 0, easing: 'linear' },
+          { time: 500, value: 0.5, easing: 'ease-in' },
+          { time: 1000, value: 1, easing: 'linear' }
+        ]
+      },
+      {
+        property: 'transform.position.x',
+        targetId: 'rect',
+        keyframes: [
+          { time: 200, value: 10, easing: { bezier: [0.25, 0.1, 0.25, 1] } },
+          { time: 800, value: 90, easing: 'linear', interpolation: 'hold' }
+        ]
+      }
+    ]
+  };
+}
+
+function times(animation: Animation, track: number): number[] {
+  return animation.tracks[track].keyframes.map(k => k.time);
+}
+
+describe('setKeyframe', () => {
+  it('轨道不存在时新建轨道', () => {
+    const animation = createAnimation();
+    const result = setKeyframe(animation, 'rect', 'transform.position.y', 300, 42);
+    expect(result.ref).toEqual({ track: 2, keyframe: 0 });
+    expect(result.animation.tracks[2]).toEqual({
+      property: 'transform.position.y',
+      targetId: 'rect',
+      keyframes: [{ time: 300, value: 42, easing: 'linear' }]
+    });
+    expect(animation.tracks).toHaveLength(2);
+  });
+
+  it('新关键帧按时间插入', () => {
+    const result = setKeyframe(createAnimation(), 'rect', 'opacity', 250, 0.2);
+    expect(result.ref).toEqual({ track: 0, keyframe: 1 });
+    expect(times(result.animation, 0)).toEqual([0, 250, 500, 1000]);
+  });
+
+  it('同一时刻已有关键帧时只替换值', () => {
+    const result = setKeyframe(createAnimation(), 'rect', 'opacity', 500, 0.8);
+    expect(result.ref).toEqual({ track: 0, keyframe: 1 });
+    expect(result.animation.tracks[0].keyframes[1]).toEqual({ time: 500, value: 0.8, easing: 'ease-in' });
+  });
+});
+
+describe('moveKeyframes', () => {
+  it('平移选中的关键帧并返回新引用', () => {
+    const animation = createAnimation();
+    const result = moveKeyframes(animation, [{ track: 1, keyframe: 0 }], 100);
+    expect(times(result.animation, 1)).toEqual([300, 800]);
+    expect(result.refs).toEqual([{ track: 1, keyframe: 0 }]);
+    expect(times(animation, 1)).toEqual([200, 800]);
+  });
+
+  it('整体限制在动画时长内', () => {
+    const result = moveKeyframes(createAnimation(), [{ track: 1, keyframe: 0 }, { track: 1, keyframe: 1 }], 900);
+    expect(times(result.animation, 1)).toEqual([400, 1000]);
+  });
+
+  it('整体限制在0之后', () => {
+    const result = moveKeyframes(createAnimation(), [{ track: 1, keyframe: 0 }, { track: 1, keyframe: 1 }], -500);
+    expect(times(result.animation, 1)).toEqual([0, 600]);
+  });
+
+  it('移到已有关键帧的时刻时覆盖原关键帧', () => {
+    const result = moveKeyframes(createAnimation(), [{ track: 0, keyframe: 0 }], 500);
+    expect(result.animation.tracks[0].keyframes).toEqual([
+      { time: 500, value: 0, easing: 'linear' },
+      { time: 1000, value: 1, easing: 'linear' }
+    ]);
+    expect(result.refs).toEqual([{ track: 0, keyframe: 0 }]);
+  });
+
+  it('移动后顺序改变时引用跟随关键帧', () => {
+    const result = moveKeyframes(createAnimation(), [{ track: 1, keyframe: 0 }], 700);
+    expect(times(result.animation, 1)).toEqual([800, 900]);
+    expect(result.animation.tracks[1].keyframes[1].value).toBe(10);
+    expect(result.refs).toEqual([{ track: 1, keyframe: 1 }]);
+  });
+
+  it('没有有效引用时原样返回', () => {
+    const animation = createAnimation();
+    const result = moveKeyframes(animation, [{ track: 5, keyframe: 0 }], 100);
+    expect(result.animation).toBe(animation);
+    expect(result.refs).toEqual([]);
+  });
+});
+
+describe('deleteKeyframes', () => {
+  it('删除选中的关键帧', () => {
+    const result = deleteKeyframes(createAnimation(), [{ track: 0, keyframe: 1 }]);
+    expect(times(result, 0)).toEqual([0, 1000]);
+    expect(times(result, 1)).toEqual([200, 800]);
+  });
+
+  it('没有关键帧的轨道一并删除', () => {
+    const result = deleteKeyframes(createAnimation(), [{ track: 1, keyframe: 0 }, { track: 1, keyframe: 1 }]);
+    expect(result.tracks.map(t => t.property)).toEqual(['opacity']);
+  });
+});
+
+describe('setKeyframeEasing', () => {
+  it('设置曲线缓动并去掉定格', () => {
+    const result = setKeyframeEasing(createAnimation(), [{ track: 1, keyframe: 1 }], { steps: 4, jump: 'start' });
+    expect(result.tracks[1].keyframes[1]).toEqual({ time: 800, value: 90, easing: { steps: 4, jump: 'start' } });
+  });
+
+  it('定格时保留原缓动', () => {
+    const result = setKeyframeEasing(createAnimation(), [{ track: 0, keyframe: 1 }], null, 'hold');
+    expect(result.tracks[0].keyframes[1]).toEqual({ time: 500, value: 0.5, easing: 'ease-in', interpolation: 'hold' });
+  });
+
+  it('不修改未选中的关键帧', () => {
+    const animation = createAnimation();
+    const result = setKeyframeEasing(animation, [{ track: 0, keyframe: 0 }], { back: 'out', overshoot: 2 });
+    expect(result.tracks[0].keyframes[0].easing).toEqual({ back: 'out', overshoot: 2 });
+    expect(result.tracks[0].keyframes[1]).toBe(animation.tracks[0].keyframes[1]);
+    expect(animation.tracks[0].keyframes[0].easing).toBe('linear');
+  });
+});
+
+describe('copyKeyframes / pasteKeyframes', () => {
+  it('复制时记录相对最早关键帧的偏移', () => {
+    const copied = copyKeyframes(createAnimation(), [{ track: 0, keyframe: 1 }, { track: 1, keyframe: 0 }]);
+    expect(copied).toEqual([
+      { targetId: 'rect', property: 'opacity', offset: 300, keyframe: { time: 500, value: 0.5, easing: 'ease-in' } },
+      {
+        targetId: 'rect',
+        property: 'transform.position.x',
+        offset: 0,
+        keyframe: { time: 200, value: 10, easing: { bezier: [0.25, 0.1, 0.25, 1] } }
+      }
+    ]);
+  });
+
+  it('按偏移粘贴到指定时刻并返回引用', () => {
+    const animation = createAnimation();
+    const copied = copyKeyframes(animation, [{ track: 0, keyframe: 0 }, { track: 0, keyframe: 1 }]);
+    const result = pasteKeyframes(animation, copied, 400);
+    expect(times(result.animation, 0)).toEqual([0, 400, 500, 900, 1000]);
+    expect(result.refs).toEqual([{ track: 0, keyframe: 1 }, { track: 0, keyframe: 3 }]);
+  });
+
+  it('粘贴保留缓动与插值方式, 覆盖同一时刻的关键帧', () => {
+    const animation = createAnimation();
+    const copied = copyKeyframes(animation, [{ track: 1, keyframe: 1 }]);
+    const result = pasteKeyframes(animation, copied, 200);
+    const expected: Keyframe = { time: 200, value: 90, easing: 'linear', interpolation: 'hold' };
+    expect(result.animation.tracks[1].keyframes).toEqual([expected, animation.tracks[1].keyframes[1]]);
+    expect(result.refs).toEqual([{ track: 1, keyframe: 0 }]);
+  });
+
+  it('超出动画时长的关键帧被丢弃', () => {
+    const animation = createAnimation();
+    const copied = copyKeyframes(animation, [{ track: 1, keyframe: 0 }, { track: 1, keyframe: 1 }]);
+    const result = pasteKeyframes(animation, copied, 700);
+    expect(times(result.animation, 1)).toEqual([200, 700, 800]);
+    expect(result.refs).toEqual([{ track: 1, keyframe: 1 }]);
+  });
+
+  it('粘贴到其他动画时新建轨道, 不修改复制源', () => {
+    const source = createAnimation();
+    const copied = copyKeyframes(source, [{ track: 1, keyframe: 0 }]);
+    const target: Animation = { id: 'b', name: 'B', duration: 500, loop: 'once', tracks: [] };
+    const result = pasteKeyframes(target, copied, 100);
+    expect(result.animation.tracks).toEqual([{
+      property: 'transform.position.x',
+      targetId: 'rect',
+      keyframes: [{ time: 100, value: 10, easing: { bezier: [0.25, 0.1, 0.25, 1] } }]
+    }]);
+    expect(target.tracks).toEqual([]);
+    expect(source.tracks[1].keyframes[0].time).toBe(200);
+  });
+});
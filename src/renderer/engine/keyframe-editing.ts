@@ -0,0 +1,196 @@
+// ============================================
+// RIV Editor - 关键帧编辑
+// 时间轴使用的纯数据动画操作, 均返回新的动画, 不修改输入; 时间单位为毫秒
+// ============================================
+
+import type {
+  Animation as AnimationData,
+  AnimationTrack as TrackData,
+  EasingFunction,
+  Keyframe,
+  KeyframeInterpolation
+} from '../types';
+
+/**
+ * 关键帧引用: 轨道序号 + 轨道内关键帧序号
+ */
+export interface KeyframeRef {
+  track: number;
+  keyframe: number;
+}
+
+/**
+ * 复制的关键帧, offset为相对最早一个关键帧的时间
+ */
+export interface CopiedKeyframe {
+  targetId?: string;
+  property: string;
+  offset: number;
+  keyframe: Keyframe;
+}
+
+/**
+ * 在time处设置关键帧: 轨道不存在时新建, 该时刻已有关键帧时只替换值
+ */
+export function setKeyframe(
+  animation: AnimationData,
+  targetId: string | undefined,
+  property: string,
+  time: number,
+  value: unknown
+): { animation: AnimationData; ref: KeyframeRef } {
+  const tracks = cloneTracks(animation.tracks);
+  let track = tracks.findIndex(t => t.targetId === targetId && t.property === property);
+  if (track === -1) {
+    tracks.push({ property, ...(targetId !== undefined && { targetId }), keyframes: [] });
+    track = tracks.length - 1;
+  }
+
+  const keyframes = tracks[track].keyframes;
+  const existing = keyframes.findIndex(k => k.time === time);
+  if (existing !== -1) {
+    keyframes[existing] = { ...keyframes[existing], value };
+    return { animation: { ...animation, tracks }, ref: { track, keyframe: existing } };
+  }
+  const keyframe: Keyframe = { time, value, easing: 'linear' };
+  keyframes.push(keyframe);
+  sortKeyframes(keyframes);
+  return { animation: { ...animation, tracks }, ref: { track, keyframe: keyframes.indexOf(keyframe) } };
+}
+
+/**
+ * 平移关键帧时间, 整体限制在0到动画时长之间; 移到其他关键帧所在时刻时覆盖原关键帧
+ * 返回移动后关键帧的新引用
+ */
+export function moveKeyframes(
+  animation: AnimationData,
+  refs: KeyframeRef[],
+  delta: number
+): { animation: AnimationData; refs: KeyframeRef[] } {
+  const selected = validRefs(animation, refs);
+  if (selected.length === 0) return { animation, refs: [] };
+
+  const times = selected.map(ref => animation.tracks[ref.track].keyframes[ref.keyframe].time);
+  const shift = Math.min(Math.max(delta, -Math.min(...times)), animation.duration - Math.max(...times));
+
+  const tracks = cloneTracks(animation.tracks);
+  const moved = new Map<Keyframe, number>(); // 移动后的关键帧 -> 轨道序号
+  tracks.forEach((track, trackIndex) => {
+    const indices = selected.filter(ref => ref.track === trackIndex).map(ref => ref.keyframe);
+    if (indices.length === 0) return;
+    const movedKeyframes = indices.map(index => ({ ...track.keyframes[index], time: track.keyframes[index].time + shift }));
+    const movedTimes = new Set(movedKeyframes.map(k => k.time));
+    track.keyframes = track.keyframes
+      .filter((k, index) => !indices.includes(index) && !movedTimes.has(k.time))
+      .concat(movedKeyframes);
+    sortKeyframes(track.keyframes);
+    movedKeyframes.forEach(k => moved.set(k, trackIndex));
+  });
+
+  return {
+    animation: { ...animation, tracks },
+    refs: Array.from(moved, ([keyframe, track]) => ({ track, keyframe: tracks[track].keyframes.indexOf(keyframe) }))
+  };
+}
+
+/**
+ * 删除关键帧, 没有关键帧的轨道一并删除
+ */
+export function deleteKeyframes(animation: AnimationData, refs: KeyframeRef[]): AnimationData {
+  const selected = validRefs(animation, refs);
+  const tracks = animation.tracks
+    .map((track, trackIndex) => ({
+      ...track,
+      keyframes: track.keyframes.filter((_, index) => !selected.some(ref => ref.track === trackIndex && ref.keyframe === index))
+    }))
+    .filter(track => track.keyframes.length > 0);
+  return { ...animation, tracks };
+}
+
+/**
+ * 设置关键帧到下一关键帧的缓动; hold时缓动不起作用, 保留原缓动
+ */
+export function setKeyframeEasing(
+  animation: AnimationData,
+  refs: KeyframeRef[],
+  easing: EasingFunction | null,
+  interpolation: KeyframeInterpolation = 'curve'
+): AnimationData {
+  const selected = validRefs(animation, refs);
+  const tracks = cloneTracks(animation.tracks);
+  selected.forEach(ref => {
+    const keyframe: Keyframe = { ...tracks[ref.track].keyframes[ref.keyframe] };
+    if (easing !== null) keyframe.easing = easing;
+    delete keyframe.interpolation;
+    if (interpolation !== 'curve') keyframe.interpolation = interpolation;
+    tracks[ref.track].keyframes[ref.keyframe] = keyframe;
+  });
+  return { ...animation, tracks };
+}
+
+export function copyKeyframes(animation: AnimationData, refs: KeyframeRef[]): CopiedKeyframe[] {
+  const selected = validRefs(animation, refs);
+  if (selected.length === 0) return [];
+  const start = Math.min(...selected.map(ref => animation.tracks[ref.track].keyframes[ref.keyframe].time));
+  return selected.map(ref => {
+    const track = animation.tracks[ref.track];
+    const keyframe = track.keyframes[ref.keyframe];
+    return {
+      ...(track.targetId !== undefined && { targetId: track.targetId }),
+      property: track.property,
+      offset: keyframe.time - start,
+      keyframe: structuredClone(keyframe)
+    };
+  });
+}
+
+/**
+ * 以time为起点粘贴关键帧, 超出动画时长的关键帧被丢弃; 返回粘贴后关键帧的引用
+ */
+export function pasteKeyframes(
+  animation: AnimationData,
+  copied: CopiedKeyframe[],
+  time: number
+): { animation: AnimationData; refs: KeyframeRef[] } {
+  let result = animation;
+  const pasted: Array<{ targetId?: string; property: string; time: number }> = [];
+  copied.forEach(({ targetId, property, offset, keyframe }) => {
+    const at = time + offset;
+    if (at > animation.duration) return;
+    // 先占位再整体替换, 保留缓动与插值方式
+    const { animation: next, ref } = setKeyframe(result, targetId, property, at, null);
+    next.tracks[ref.track].keyframes[ref.keyframe] = { ...structuredClone(keyframe), time: at };
+    result = next;
+    pasted.push({ targetId, property, time: at });
+  });
+
+  const refs = pasted.map(({ targetId, property, time: at }) => {
+    const track = result.tracks.findIndex(t => t.targetId === targetId && t.property === property);
+    return { track, keyframe: result.tracks[track].keyframes.findIndex(k => k.time === at) };
+  });
+  return { animation: result, refs };
+}
+
+export function sameKeyframeRef(a: KeyframeRef, b: KeyframeRef): boolean {
+  return a.track === b.track && a.keyframe === b.keyframe;
+}
+
+// ========== 内部工具 ==========
+
+function cloneTracks(tracks: TrackData[]): TrackData[] {
+  return tracks.map(track => ({ ...track, keyframes: [...track.keyframes] }));
+}
+
+function sortKeyframes(keyframes: Keyframe[]): void {
+  keyframes.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * 去掉越界与重复的引用
+ */
+function validRefs(animation: AnimationData, refs: KeyframeRef[]): KeyframeRef[] {
+  return refs.filter((ref, index) =>
+    animation.tracks[ref.track]?.keyframes[ref.keyframe] !== undefined &&
+    refs.findIndex(other => sameKeyframeRef(other, ref)) === index
+  );
+}
@@ -0,0 +1,898 @@
+// ============================================
+// RIV Editor - Lottie 导出器
+// 把画板与动画转换为Lottie (Bodymovin JSON), 无法表示的内容记录到导出报告
+// ============================================
+
+import {
+  Animation,
+  BooleanGroup,
+  Ellipse,
+  Group,
+  Image,
+  Path,
+  Rectangle,
+  Text,
+  type AnimationTrack,
+  type Artboard,
+  type Color,
+  type EasingFunction,
+  type Keyframe,
+  type Fill,
+  type Gradient,
+  type RivProject,
+  type Shape,
+  type Stroke,
+  type TrimPath,
+  type Vector2
+} from './riv-editor-engine';
+import { frameTimes } from './animation-frame';
+import { CUBIC_EASINGS, describeEasing } from './easing';
+import {
+  COLOR_SPACE_NAMES,
+  angleInterpolator,
+  colorInterpolator,
+  resolveInterpolator,
+  unwrapAngles
+} from './interpolation';
+import { EFFECT_NAMES, type BlendMode } from './effects';
+import { PathDataError } from './path-data';
+import { parseContours, type PathContour } from './path-model';
+
+// ========== Lottie数据结构 ==========
+
+export interface LottieKeyframe {
+  t: number; // 帧
+  s: number[];
+  o?: { x: number[]; y: number[] }; // 出点缓动
+  i?: { x: number[]; y: number[] }; // 入点缓动
+  h?: 1; // 定格, 保持到下一关键帧
+}
+
+export interface LottieProperty {
+  a: 0 | 1;
+  k: number | number[] | LottieKeyframe[];
+}
+
+export interface LottieBezierShape {
+  i: number[][]; // 入切线, 相对顶点
+  o: number[][]; // 出切线, 相对顶点
+  v: number[][];
+  c: boolean;
+}
+
+// 图形项(gr/rc/el/sh/fl/gf/st/tr), 字段随ty变化
+export type LottieShapeItem = { ty: string; nm?: string; hd?: boolean } & Record<string, unknown>;
+
+export interface LottieTransform {
+  a: LottieProperty;
+  p: LottieProperty;
+  s: LottieProperty; // 百分比
+  r: LottieProperty; // 角度
+  o: LottieProperty; // 0-100
+  sk?: LottieProperty; // 斜切角度
+  sa?: LottieProperty; // 斜切轴角度
+}
+
+export interface LottieLayer {
+  ddd: 0;
+  ind: number;
+  ty: 4; // 形状图层
+  nm: string;
+  sr: 1;
+  ks: LottieTransform;
+  ao: 0;
+  shapes: LottieShapeItem[];
+  ip: number;
+  op: number;
+  st: 0;
+  bm: number; // 混合模式
+  hd?: boolean;
+  td?: 1; // 作为下一图层的遮罩
+  tt?: 1 | 2; // 使用上一图层作为遮罩: 1 alpha, 2 反向alpha
+}
+
+export interface LottieAnimation {
+  v: string;
+  fr: number;
+  ip: number;
+  op: number;
+  w: number;
+  h: number;
+  nm: string;
+  ddd: 0;
+  assets: unknown[];
+  layers: LottieLayer[];
+  markers: unknown[];
+}
+
+// ========== 导出报告 ==========
+
+export type LottieReportFeature =
+  | 'state-machine'
+  | 'asset'
+  | 'opaque-object'
+  | 'loop-mode'
+  | 'easing'
+  | 'track'
+  | 'path-data'
+  | 'gradient'
+  | 'skew'
+  | 'text'
+  | 'image'
+  | 'clip'
+  | 'blend-mode'
+  | 'effect';
+
+/**
+ * 导出报告条目, path指向项目中对应的字段(格式与RivExportError一致)
+ */
+export interface LottieReportEntry {
+  feature: LottieReportFeature;
+  path: string;
+  message: string;
+}
+
+export interface LottieExportOptions {
+  fps?: number; // 关键帧时间换算与缓动烘焙的帧率, 默认取Animation.fps, 没有动画时为60
+}
+
+export interface LottieComposition {
+  artboardId: string;
+  animationId: string | null; // 没有动画的画板导出为静态合成
+  data: LottieAnimation;
+}
+
+export interface LottieExportResult {
+  compositions: LottieComposition[];
+  report: LottieReportEntry[];
+}
+
+const LOTTIE_VERSION = '5.7.4';
+const DEFAULT_FPS = 60;
+
+const IDENTITY_TRANSFORM: LottieTransform = {
+  a: { a: 0, k: [0, 0] },
+  p: { a: 0, k: [0, 0] },
+  s: { a: 0, k: [100, 100] },
+  r: { a: 0, k: 0 },
+  o: { a: 0, k: 100 }
+};
+
+const LOTTIE_BLEND_MODES: Record<BlendMode, number> = {
+  normal: 0,
+  multiply: 1,
+  screen: 2,
+  overlay: 3,
+  darken: 4,
+  lighten: 5,
+  'color-dodge': 6,
+  'color-burn': 7,
+  'hard-light': 8,
+  'soft-light': 9,
+  difference: 10,
+  exclusion: 11,
+  hue: 12,
+  saturation: 13,
+  color: 14,
+  luminosity: 15
+};
+
+// ========== Lottie导出器 ==========
+
+export class LottieExporter {
+  /**
+   * 导出整个项目: 每个动画生成一个合成, 没有动画的画板生成静态合成
+   * 动画所属画板由轨道的targetId决定, 与.riv导出一致
+   */
+  exportProject(project: RivProject, options: LottieExportOptions = {}): LottieExportResult {
+    const report: LottieReportEntry[] = [];
+    const compositions: LottieComposition[] = [];
+    const animated = new Set<Artboard>();
+
+    project.animations.forEach((animation, index) => {
+      const path = `animations[${index}]`;
+      const artboard = this.findAnimationArtboard(project, animation, path, report);
+      if (!artboard) return;
+      animated.add(artboard);
+      compositions.push(this.buildComposition(artboard, animation, path, options, report));
+    });
+
+    project.artboards.forEach((artboard, index) => {
+      if (!animated.has(artboard)) {
+        compositions.push(this.buildComposition(artboard, null, `artboards[${index}]`, options, report));
+      }
+      artboard.opaqueObjects?.forEach((_, opaqueIndex) => report.push({
+        feature: 'opaque-object',
+        path: `artboards[${index}].opaqueObjects[${opaqueIndex}]`,
+        message: '从.riv导入的未识别组件无法导出到Lottie'
+      }));
+    });
+
+    project.stateMachines.forEach((stateMachine, index) => report.push({
+      feature: 'state-machine',
+      path: `stateMachines[${index}]`,
+      message: `Lottie不支持状态机, "${stateMachine.name}" 的状态与过渡未导出`
+    }));
+    project.assets.forEach((asset, index) => report.push({
+      feature: 'asset',
+      path: `assets[${index}]`,
+      message: `资源 "${asset.name}" (${asset.type}) 未导出`
+    }));
+    project.opaqueObjects?.forEach((_, index) => report.push({
+      feature: 'opaque-object',
+      path: `opaqueObjects[${index}]`,
+      message: '从.riv导入的未识别对象无法导出到Lottie'
+    }));
+
+    return { compositions, report };
+  }
+
+  /**
+   * 导出单个画板, animation为空时导出静态合成
+   */
+  exportComposition(
+    artboard: Artboard,
+    animation: Animation | null,
+    options: LottieExportOptions = {}
+  ): { data: LottieAnimation; report: LottieReportEntry[] } {
+    const report: LottieReportEntry[] = [];
+    const data = this.buildComposition(artboard, animation, animation ? 'animation' : 'artboard', options, report);
+    return { data: data.data, report };
+  }
+
+  private buildComposition(
+    artboard: Artboard,
+    animation: Animation | null,
+    path: string,
+    options: LottieExportOptions,
+    report: LottieReportEntry[]
+  ): LottieComposition {
+    const fps = options.fps ?? animation?.fps ?? DEFAULT_FPS;
+    if (!(fps > 0) || !Number.isFinite(fps)) {
+      throw new RangeError(`帧率必须为正数: ${fps}`);
+    }
+
+    const builder = new CompositionBuilder(animation, fps, path, report);
+    const data = builder.build(artboard);
+    return { artboardId: artboard.id, animationId: animation?.id ?? null, data };
+  }
+
+  private findAnimationArtboard(
+    project: RivProject,
+    animation: Animation,
+    path: string,
+    report: LottieReportEntry[]
+  ): Artboard | null {
+    const owners = new Set<Artboard>();
+    animation.tracks.forEach(track => {
+      if (!track.targetId) return;
+      const owner = project.artboards.find(artboard => findShape(artboard.shapes, track.targetId!));
+      if (owner) owners.add(owner);
+    });
+
+    if (owners.size > 1) {
+      report.push({ feature: 'track', path, message: '动画的轨道跨越了多个画板, 只导出第一个画板上的轨道' });
+    }
+    if (owners.size > 0) {
+      return owners.values().next().value!;
+    }
+    if (project.artboards.length === 0) {
+      report.push({ feature: 'track', path, message: '项目中没有画板可以容纳该动画' });
+      return null;
+    }
+    return project.artboards[0];
+  }
+}
+
+// ========== 合成构建 ==========
+
+// 属性的一个分量: 有轨道时取轨道关键帧值, 否则取当前静态值
+interface Channel {
+  track?: AnimationTrack;
+  read: (value: unknown) => number;
+  value: number;
+}
+
+class CompositionBuilder {
+  private readonly tracks = new Map<string, Map<string, AnimationTrack>>();
+  private readonly consumed = new Set<AnimationTrack>();
+  private readonly trackPaths = new Map<AnimationTrack, string>();
+
+  constructor(
+    private readonly animation: Animation | null,
+    private readonly fps: number,
+    private readonly path: string,
+    private readonly report: LottieReportEntry[]
+  ) {
+    animation?.tracks.forEach((track, key) => {
+      this.trackPaths.set(track, `${path}.tracks["${key}"]`);
+      if (!track.targetId) {
+        this.note('track', track, '缺少目标图形的轨道无法导出');
+        return;
+      }
+      if (track.keyframes.length === 0) return;
+      if (!this.tracks.has(track.targetId)) this.tracks.set(track.targetId, new Map());
+      this.tracks.get(track.targetId)!.set(track.property, track);
+    });
+  }
+
+  build(artboard: Artboard): LottieAnimation {
+    const op = this.animation ? Math.max(1, Math.round(this.toFrame(this.animation.duration))) : 1;
+
+    // Lottie的图层列表第一个在最上层, 与绘制顺序相反
+    // 顶层图形的裁切导出为紧挨在其上方的遮罩图层, 混合模式写在图层上
+    const layers: LottieLayer[] = [];
+    [...artboard.shapes].reverse().forEach(shape => {
+      const layer = (nm: string, ks: LottieTransform, shapes: LottieShapeItem[]): LottieLayer => ({
+        ddd: 0,
+        ind: layers.length + 1,
+        ty: 4,
+        nm,
+        sr: 1,
+        ks,
+        ao: 0,
+        shapes,
+        ip: 0,
+        op,
+        st: 0,
+        bm: 0
+      });
+      const clipped = shape.clipSources.length > 0;
+      if (clipped) {
+        layers.push({ ...layer(`${shape.name} 裁切`, this.matteTransform(shape), this.matteItems(shape.clipSources)), td: 1 });
+      }
+      this.reportEffects(shape);
+      const content = layer(shape.name, this.transform(shape), isPlainGroup(shape) ? this.childItems(shape) : this.contentItems(shape));
+      content.bm = LOTTIE_BLEND_MODES[shape.blendMode];
+      if (clipped) content.tt = shape.clipInverse ? 2 : 1;
+      if (!shape.visible) content.hd = true;
+      layers.push(content);
+    });
+
+    if (this.animation) {
+      this.animation.tracks.forEach(track => {
+        if (!track.targetId || track.keyframes.length === 0 || this.consumed.has(track)) return;
+        const message = findShape(artboard.shapes, track.targetId)
+          ? `属性 "${track.property}" 无法导出到Lottie`
+          : `目标图形 "${track.targetId}" 不在画板 "${artboard.name}" 中`;
+        this.note('track', track, message);
+      });
+      if (this.animation.loop !== 'loop') {
+        this.report.push({
+          feature: 'loop-mode',
+          path: `${this.path}.loop`,
+          message: `Lottie文件不保存循环方式, "${this.animation.loop}" 需要在播放器中设置`
+        });
+      }
+    }
+
+    return {
+      v: LOTTIE_VERSION,
+      fr: this.fps,
+      ip: 0,
+      op,
+      w: artboard.width,
+      h: artboard.height,
+      nm: this.animation?.name ?? artboard.name,
+      ddd: 0,
+      assets: [],
+      layers,
+      markers: []
+    };
+  }
+
+  // ========== 图形 ==========
+
+  private childItems(group: Group): LottieShapeItem[] {
+    return [...group.children].reverse().map(child => this.groupItem(child));
+  }
+
+  private groupItem(shape: Shape): LottieShapeItem {
+    if (shape.clipSources.length > 0) {
+      this.report.push({
+        feature: 'clip',
+        path: `shapes["${shape.id}"].clipSources`,
+        message: 'Lottie只能以遮罩图层裁切顶层图形, 组内图形的裁切已忽略'
+      });
+    }
+    if (shape.blendMode !== 'normal') {
+      this.report.push({
+        feature: 'blend-mode',
+        path: `shapes["${shape.id}"].blendMode`,
+        message: 'Lottie的混合模式只能设置在图层上, 组内图形的混合模式已忽略'
+      });
+    }
+    this.reportEffects(shape);
+    const items = isPlainGroup(shape) ? this.childItems(shape) : this.contentItems(shape);
+    const item: LottieShapeItem = {
+      ty: 'gr',
+      nm: shape.name,
+      it: [...items, { ty: 'tr', nm: 'Transform', ...this.transform(shape) }]
+    };
+    if (!shape.visible) item.hd = true;
+    return item;
+  }
+
+  private reportEffects(shape: Shape): void {
+    shape.effects.forEach((effect, index) => {
+      if (!effect.visible) return;
+      this.report.push({
+        feature: 'effect',
+        path: `shapes["${shape.id}"].effects[${index}]`,
+        message: `${EFFECT_NAMES[effect.type]}无法导出到Lottie, 已忽略`
+      });
+    });
+  }
+
+  /**
+   * 遮罩内容: 裁切图形的几何以不透明白色填充, 与裁切只取填充区域一致
+   */
+  private matteItems(sources: Shape[]): LottieShapeItem[] {
+    return [...sources].reverse().map(source => {
+      const items = isPlainGroup(source)
+        ? this.matteItems(source.children)
+        : [...this.geometry(source), { ty: 'fl', nm: 'Fill', c: { a: 0, k: [1, 1, 1, 1] }, o: { a: 0, k: 100 }, r: fillRuleValue(source), bm: 0 }];
+      const item: LottieShapeItem = {
+        ty: 'gr',
+        nm: source.name,
+        it: [...items, { ty: 'tr', nm: 'Transform', ...this.matteTransform(source) }]
+      };
+      if (!source.visible) item.hd = true;
+      return item;
+    });
+  }
+
+  /**
+   * 遮罩不受不透明度影响
+   */
+  private matteTransform(shape: Shape): LottieTransform {
+    return { ...this.transform(shape), o: { a: 0, k: 100 } };
+  }
+
+  /**
+   * 几何在前, 描边在填充之前(Lottie中靠前的项绘制在上层)
+   */
+  private contentItems(shape: Shape): LottieShapeItem[] {
+    const items = this.geometry(shape);
+    if (shape.stroke?.trim) {
+      // Lottie的裁剪路径同样作用于填充, 描边与填充各自带一份几何放入两个并列的组
+      const group = (nm: string, it: LottieShapeItem[]): LottieShapeItem =>
+        ({ ty: 'gr', nm, it: [...it, { ty: 'tr', nm: 'Transform', ...IDENTITY_TRANSFORM }] });
+      const fill = this.fill(shape, shape.fill);
+      return [
+        group('Stroke', [...items, this.trim(shape, shape.stroke.trim), this.stroke(shape, shape.stroke)]),
+        ...(fill ? [group('Fill', [...items, fill])] : [])
+      ];
+    }
+    if (shape.stroke) items.push(this.stroke(shape, shape.stroke));
+    const fill = this.fill(shape, shape.fill);
+    if (fill) items.push(fill);
+    return items;
+  }
+
+  private geometry(shape: Shape): LottieShapeItem[] {
+    if (shape instanceof Rectangle) {
+      const width = this.channel(shape, 'width', shape.width);
+      const height = this.channel(shape, 'height', shape.height);
+      const pivot = shape.transform.pivot;
+      // 矩形按轴心偏移绘制, Lottie的rc以p为中心
+      return [{
+        ty: 'rc',
+        nm: 'Rectangle Path',
+        d: 1,
+        p: this.property([
+          { ...width, read: v => (0.5 - pivot.x) * width.read(v), value: (0.5 - pivot.x) * shape.width },
+          { ...height, read: v => (0.5 - pivot.y) * height.read(v), value: (0.5 - pivot.y) * shape.height }
+        ]),
+        s: this.property([width, height]),
+        r: this.property([this.channel(shape, 'cornerRadius', shape.cornerRadius)])
+      }];
+    }
+
+    if (shape instanceof Ellipse) {
+      const scaled = (channel: Channel, factor: number): Channel => ({
+        ...channel,
+        read: v => channel.read(v) * factor,
+        value: channel.value * factor
+      });
+      const radiusX = this.channel(shape, 'radiusX', shape.radiusX);
+      const radiusY = this.channel(shape, 'radiusY', shape.radiusY);
+      const pivot = shape.transform.pivot;
+      // 椭圆按轴心偏移绘制, Lottie的el以p为圆心
+      return [{
+        ty: 'el',
+        nm: 'Ellipse Path',
+        d: 1,
+        p: this.property([scaled(radiusX, (0.5 - pivot.x) * 2), scaled(radiusY, (0.5 - pivot.y) * 2)]),
+        s: this.property([scaled(radiusX, 2), scaled(radiusY, 2)])
+      }];
+    }
+
+    if (shape instanceof Path || shape instanceof BooleanGroup) {
+      return this.pathShapes(shape).map((bezier, index): LottieShapeItem => ({
+        ty: 'sh',
+        nm: `Path ${index + 1}`,
+        ks: { a: 0, k: bezier }
+      }));
+    }
+
+    if (shape instanceof Text) return this.textShapes(shape);
+
+    if (shape instanceof Image) {
+      this.report.push({ feature: 'image', path: `shapes["${shape.id}"]`, message: '图片无法导出到Lottie, 已跳过' });
+      return [];
+    }
+
+    return [];
+  }
+
+  /**
+   * 文字按当前内容的字形轮廓导出, 内容与字号的动画不会导出
+   */
+  private textShapes(shape: Text): LottieShapeItem[] {
+    const path = `shapes["${shape.id}"]`;
+    if (!shape.font) {
+      this.report.push({ feature: 'text', path: `${path}.assetId`, message: '文本没有可用的字体资源, 已跳过' });
+      return [];
+    }
+    if (shape.runs.some(run => run.fill)) {
+      this.report.push({ feature: 'text', path: `${path}.runs`, message: '文本段的单独填充无法导出, 统一使用文本的填充' });
+    }
+    return shape.getContours().map((contour, index): LottieShapeItem => ({
+      ty: 'sh',
+      nm: `Glyph ${index + 1}`,
+      ks: { a: 0, k: toBezierShape(contour) }
+    }));
+  }
+
+  private pathShapes(shape: Path | BooleanGroup): LottieBezierShape[] {
+    // 布尔组按当前结果拼合, 子图形的动画不会导出
+    if (shape instanceof BooleanGroup) return shape.getContours().map(toBezierShape);
+    if (!shape.pathData) return [];
+    try {
+      return parseContours(shape.pathData).map(toBezierShape);
+    } catch (error) {
+      if (!(error instanceof PathDataError)) throw error;
+      this.report.push({
+        feature: 'path-data',
+        path: `shapes["${shape.id}"].pathData`,
+        message: `路径数据无法解析, 已跳过: ${error.message}`
+      });
+      return [];
+    }
+  }
+
+  // ========== 变换与样式 ==========
+
+  private transform(shape: Shape): LottieTransform {
+    const t = shape.transform;
+    const percent = (channel: Channel): Channel => ({
+      ...channel,
+      read: v => channel.read(v) * 100,
+      value: channel.value * 100
+    });
+    const transform: LottieTransform = {
+      a: { a: 0, k: [0, 0] },
+      p: this.property([
+        this.channel(shape, 'transform.position.x', t.position.x),
+        this.channel(shape, 'transform.position.y', t.position.y)
+      ]),
+      s: this.property([
+        percent(this.channel(shape, 'transform.scale.x', t.scale.x)),
+        percent(this.channel(shape, 'transform.scale.y', t.scale.y))
+      ]),
+      r: this.property([{
+        ...this.channel(shape, 'transform.rotation', t.rotation),
+        read: v => (Number(v) * 180) / Math.PI,
+        value: (t.rotation * 180) / Math.PI
+      }]),
+      o: this.property([percent(this.channel(shape, 'opacity', shape.opacity))])
+    };
+
+    // Lottie只有沿单一轴的斜切, 斜切轴为0时 sk = -skew.x; Y方向斜切无法表示
+    const skewX = this.channel(shape, 'transform.skew.x', t.skew.x);
+    if (skewX.track || t.skew.x !== 0) {
+      transform.sk = this.property([{
+        ...skewX,
+        read: v => (-Number(v) * 180) / Math.PI,
+        value: (-t.skew.x * 180) / Math.PI
+      }]);
+      transform.sa = { a: 0, k: 0 };
+    }
+    if (t.skew.y !== 0) {
+      this.report.push({
+        feature: 'skew',
+        path: `shapes["${shape.id}"].transform.skew.y`,
+        message: 'Lottie不支持Y方向斜切, 已忽略'
+      });
+    }
+    return transform;
+  }
+
+  private fill(shape: Shape, fill: Fill): LottieShapeItem | null {
+    if (fill.type === 'solid' && fill.color) {
+      const [color, opacity] = this.colorProperties(shape, 'fill.color', fill.color);
+      return { ty: 'fl', nm: 'Fill', c: color, o: opacity, r: fillRuleValue(shape), bm: 0 };
+    }
+    if (fill.type === 'gradient' && fill.gradient) {
+      return this.gradientFill(shape, fill.gradient);
+    }
+    return null;
+  }
+
+  private gradientFill(shape: Shape, gradient: Gradient): LottieShapeItem | null {
+    let start: [number, number];
+    let end: [number, number];
+    if (gradient.type === 'linear' && gradient.start && gradient.end) {
+      start = [gradient.start.x, gradient.start.y];
+      end = [gradient.end.x, gradient.end.y];
+    } else if (gradient.type === 'radial' && gradient.center && gradient.radius) {
+      // Lottie径向渐变的终点到圆心的距离即半径
+      start = [gradient.center.x, gradient.center.y];
+      end = [gradient.center.x + gradient.radius, gradient.center.y];
+    } else {
+      this.report.push({
+        feature: 'gradient',
+        path: `shapes["${shape.id}"].fill.gradient`,
+        message: '渐变缺少端点或半径, 已跳过'
+      });
+      return null;
+    }
+
+    const stops = [...gradient.stops].sort((a, b) => a.offset - b.offset);
+    const values: number[] = [];
+    stops.forEach(stop => values.push(stop.offset, stop.color.r / 255, stop.color.g / 255, stop.color.b / 255));
+    // 有半透明色标时追加 [offset, alpha] 序列
+    if (stops.some(stop => stop.color.a < 1)) {
+      stops.forEach(stop => values.push(stop.offset, stop.color.a));
+    }
+
+    return {
+      ty: 'gf',
+      nm: 'Gradient Fill',
+      o: { a: 0, k: 100 },
+      r: fillRuleValue(shape),
+      bm: 0,
+      t: gradient.type === 'linear' ? 1 : 2,
+      s: { a: 0, k: start },
+      e: { a: 0, k: end },
+      g: { p: stops.length, k: { a: 0, k: values } },
+      h: { a: 0, k: 0 },
+      a: { a: 0, k: 0 }
+    };
+  }
+
+  private stroke(shape: Shape, stroke: Stroke): LottieShapeItem {
+    const [color, opacity] = this.colorProperties(shape, 'stroke.color', stroke.color);
+    const item: LottieShapeItem = {
+      ty: 'st',
+      nm: 'Stroke',
+      c: color,
+      o: opacity,
+      w: this.property([this.channel(shape, 'stroke.width', stroke.width)]),
+      lc: { butt: 1, round: 2, square: 3 }[stroke.cap],
+      lj: { miter: 1, round: 2, bevel: 3 }[stroke.join],
+      ml: 4,
+      bm: 0
+    };
+
+    if (stroke.dashArray && stroke.dashArray.length > 0) {
+      // 与SVG一致, 奇数个数值重复一次
+      const dashes = stroke.dashArray.length % 2 === 0 ? stroke.dashArray : [...stroke.dashArray, ...stroke.dashArray];
+      item.d = [
+        ...dashes.map((value, index) => ({
+          n: index % 2 === 0 ? 'd' : 'g',
+          nm: index % 2 === 0 ? 'dash' : 'gap',
+          v: { a: 0, k: value }
+        })),
+        { n: 'o', nm: 'offset', v: this.property([this.channel(shape, 'stroke.dashOffset', stroke.dashOffset ?? 0)]) }
+      ];
+    }
+    return item;
+  }
+
+  /**
+   * 裁剪路径: start与end换算为百分比, offset换算为角度; synchronized对应同时裁剪(m=1), sequential对应依次裁剪(m=2)
+   */
+  private trim(shape: Shape, trim: TrimPath): LottieShapeItem {
+    const scaled = (property: string, value: number, factor: number): Channel => {
+      const channel = this.channel(shape, property, value);
+      return { ...channel, read: v => channel.read(v) * factor, value: value * factor };
+    };
+    return {
+      ty: 'tm',
+      nm: 'Trim Paths',
+      s: this.property([scaled('stroke.trim.start', trim.start, 100)]),
+      e: this.property([scaled('stroke.trim.end', trim.end, 100)]),
+      o: this.property([scaled('stroke.trim.offset', trim.offset, 360)]),
+      m: trim.mode === 'synchronized' ? 1 : 2
+    };
+  }
+
+  /**
+   * 颜色拆为RGB(0-1)与不透明度(0-100)两个属性, 共用同一条颜色轨道
+   */
+  private colorProperties(shape: Shape, property: string, color: Color): [LottieProperty, LottieProperty] {
+    const track = this.track(shape, property);
+    const component = (key: keyof Color, factor: number): Channel => ({
+      track,
+      read: v => colorComponent(v, key) * factor,
+      value: color[key] * factor
+    });
+    return [
+      this.property([component('r', 1 / 255), component('g', 1 / 255), component('b', 1 / 255), component('a', 1)]),
+      this.property([component('a', 100)])
+    ];
+  }
+
+  // ========== 动画属性 ==========
+
+  private track(shape: Shape, property: string): AnimationTrack | undefined {
+    return this.tracks.get(shape.id)?.get(property);
+  }
+
+  private channel(shape: Shape, property: string, value: number): Channel {
+    return { track: this.track(shape, property), read: v => Number(v), value };
+  }
+
+  /**
+   * 各分量的轨道关键帧时间与插值方式一致时直接映射(定格关键帧对应h),
+   * 否则按帧率逐帧采样; 无法用贝塞尔表示的缓动与非sRGB的颜色插值逐帧烘焙
+   */
+  private property(channels: Channel[]): LottieProperty {
+    const tracks = [...new Set(channels.map(channel => channel.track).filter(Boolean))] as AnimationTrack[];
+    if (tracks.length === 0) {
+      const values = channels.map(channel => channel.value);
+      return { a: 0, k: values.length === 1 ? values[0] : values };
+    }
+    tracks.forEach(track => this.consumed.add(track));
+
+    // 角度轨道按展开后的关键帧值导出, 烘焙区间内的采样值随所在区间平移
+    const unwrapped = new Map(tracks.map(track => [track, keyframeValues(track)]));
+    const sample = (time: number, segment?: number) => channels.map(channel => {
+      if (!channel.track) return channel.value;
+      const value = channel.track.getValueAtTime(time);
+      if (segment === undefined || typeof value !== 'number') return channel.read(value);
+      const shift = (unwrapped.get(channel.track)![segment] as number) - channel.track.keyframes[segment].value;
+      return channel.read(value + shift);
+    });
+    const dims = channels.length;
+    const keyframes: LottieKeyframe[] = [];
+    const pushLinear = (time: number, segment?: number) => keyframes.push({
+      t: this.toFrame(time),
+      s: sample(time, segment),
+      o: { x: Array(dims).fill(0), y: Array(dims).fill(0) },
+      i: { x: Array(dims).fill(1), y: Array(dims).fill(1) }
+    });
+
+    const reference = tracks[0];
+    const aligned = tracks.every(track =>
+      track.keyframes.length === reference.keyframes.length &&
+      track.keyframes.every((kf, i) =>
+        kf.time === reference.keyframes[i].time && sameTiming(kf, reference.keyframes[i])
+      )
+    );
+
+    if (!aligned) {
+      tracks.forEach(track => this.note('track', track, '与同一Lottie属性的其他轨道关键帧不一致, 已按帧采样'));
+      frameTimes(this.animation!.duration, this.fps).forEach(time => pushLinear(time));
+    } else {
+      // Lottie颜色只在sRGB中插值
+      const recolored = tracks.filter(track =>
+        resolveInterpolator(track.property) === colorInterpolator && track.colorSpace !== 'srgb'
+      );
+      reference.keyframes.forEach((keyframe, index) => {
+        const next = reference.keyframes[index + 1];
+        const t = this.toFrame(keyframe.time);
+        const values = channels.map(channel => channel.track ? channel.read(unwrapped.get(channel.track)![index]) : channel.value);
+        if (!next) {
+          keyframes.push({ t, s: values });
+          return;
+        }
+        if (keyframe.interpolation === 'hold') {
+          keyframes.push({ t, s: values, h: 1 });
+          return;
+        }
+        const bezier = keyframe.interpolation === 'linear' ? easingToBezier('linear') : easingToBezier(keyframe.easing);
+        if (bezier && recolored.length === 0) {
+          keyframes.push({
+            t,
+            s: values,
+            o: { x: Array(dims).fill(bezier[0]), y: Array(dims).fill(bezier[1]) },
+            i: { x: Array(dims).fill(bezier[2]), y: Array(dims).fill(bezier[3]) }
+          });
+          return;
+        }
+
+        // bounce/elastic 等缓动与非sRGB颜色插值在区间内逐帧线性采样
+        if (!bezier) {
+          tracks.forEach(track => this.note('easing', track, `缓动 "${describeEasing(keyframe.easing)}" 已按帧烘焙`, index));
+        }
+        recolored.forEach(track =>
+          this.note('track', track, `颜色按${COLOR_SPACE_NAMES[track.colorSpace]}插值, 已按帧烘焙`, index)
+        );
+        const step = 1000 / this.fps;
+        for (let time = keyframe.time; time < next.time - 1e-6; time += step) {
+          pushLinear(time, index);
+        }
+      });
+    }
+
+    return { a: 1, k: keyframes };
+  }
+
+  private toFrame(time: number): number {
+    return (time / 1000) * this.fps;
+  }
+
+  private note(feature: LottieReportFeature, track: AnimationTrack, message: string, keyframe?: number): void {
+    const trackPath = this.trackPaths.get(track) ?? this.path;
+    this.report.push({
+      feature,
+      path: keyframe === undefined ? trackPath : `${trackPath}.keyframes[${keyframe}]`,
+      message
+    });
+  }
+}
+
+// ========== 内部工具 ==========
+
+function isPlainGroup(shape: Shape): shape is Group {
+  return shape instanceof Group && !(shape instanceof BooleanGroup);
+}
+
+// Lottie填充规则: 1 nonzero, 2 evenodd
+function fillRuleValue(shape: Shape): number {
+  return shape instanceof Path && shape.fillRule === 'evenodd' ? 2 : 1;
+}
+
+function findShape(shapes: Shape[], id: string): Shape | null {
+  for (const shape of shapes) {
+    if (shape.id === id) return shape;
+    const source = findShape(shape.clipSources, id);
+    if (source) return source;
+    if (shape instanceof Group) {
+      const found = findShape(shape.children, id);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+function easingToBezier(easing: EasingFunction): [number, number, number, number] | null {
+  if (easing === 'linear') return [0, 0, 1, 1];
+  if (typeof easing === 'object') return 'bezier' in easing ? easing.bezier : null;
+  return CUBIC_EASINGS[easing] ?? null;
+}
+
+function sameTiming(a: Keyframe, b: Keyframe): boolean {
+  return (a.interpolation ?? 'curve') === (b.interpolation ?? 'curve') && describeEasing(a.easing) === describeEasing(b.easing);
+}
+
+/**
+ * 角度轨道的关键帧值展开为连续值, Lottie在相邻关键帧之间逐值线性插值
+ */
+function keyframeValues(track: AnimationTrack): unknown[] {
+  const values = track.keyframes.map(keyframe => keyframe.value);
+  return resolveInterpolator(track.property) === angleInterpolator ? unwrapAngles(values) : values;
+}
+
+function colorComponent(value: unknown, key: keyof Color): number {
+  if (value && typeof value === 'object' && typeof (value as Color)[key] === 'number') {
+    return (value as Color)[key];
+  }
+  return key === 'a' ? 1 : 0;
+}
+
+/**
+ * 顶点轮廓转为Lottie贝塞尔形状, 切线相对于顶点
+ */
+function toBezierShape(contour: PathContour): LottieBezierShape {
+  const relative = (handle: Vector2, point: Vector2) => [handle.x - point.x, handle.y - point.y];
+  return {
+    i: contour.vertices.map(v => relative(v.in, v.point)),
+    o: contour.vertices.map(v => relative(v.out, v.point)),
+    v: contour.vertices.map(v => [v.point.x, v.point.y]),
+    c: contour.closed
+  };
+}
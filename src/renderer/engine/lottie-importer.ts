@@ -0,0 +1,883 @@
+// ============================================
+// RIV Editor - Lottie 导入器
+// 将Lottie (Bodymovin JSON) 合成转换为画板、图形与动画轨道
+// ============================================
+
+import {
+  Animation,
+  Ellipse,
+  Group,
+  Path,
+  Rectangle,
+  type Artboard,
+  type Color,
+  type EasingFunction,
+  type Fill,
+  type Shape,
+  type Stroke
+} from './riv-editor-engine';
+import { serializePathData, type PathCommand } from './path-data';
+import { serializeContours, type PathContour } from './path-model';
+import { angleInterpolator, exceedsHalfTurn, resolveInterpolator } from './interpolation';
+
+// ========== 导入结果 ==========
+
+export interface LottieImportOptions {
+  name?: string; // 画板名称, 默认取合成的nm
+  idPrefix?: string; // 生成的图形ID前缀
+}
+
+export interface LottieImportResult {
+  artboard: Artboard;
+  animation: Animation | null; // 没有动画属性时为空
+  warnings: string[]; // 被忽略或近似处理的特性
+}
+
+export class LottieImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LottieImportError';
+  }
+}
+
+// ========== Lottie数据结构 ==========
+
+// 只声明导入用到的字段, 其余字段按原样忽略
+interface LottieKeyframe {
+  t: number;
+  s?: number | number[];
+  e?: number | number[]; // 5.5之前的格式: 终值写在前一个关键帧上
+  o?: { x: number | number[]; y: number | number[] };
+  i?: { x: number | number[]; y: number | number[] };
+  h?: number;
+  to?: number[];
+  ti?: number[];
+}
+
+interface LottieProperty {
+  a?: number;
+  k: number | number[] | LottieKeyframe[] | LottieBezier | Array<{ t: number; s?: LottieBezier[] }>;
+  x?: string; // 表达式
+}
+
+interface LottieSplitPosition {
+  s: true;
+  x: LottieProperty;
+  y: LottieProperty;
+}
+
+interface LottieBezier {
+  i: number[][];
+  o: number[][];
+  v: number[][];
+  c: boolean;
+}
+
+interface LottieTransform {
+  a?: LottieProperty;
+  p?: LottieProperty | LottieSplitPosition;
+  s?: LottieProperty;
+  r?: LottieProperty;
+  rz?: LottieProperty;
+  rx?: LottieProperty;
+  ry?: LottieProperty;
+  o?: LottieProperty;
+  sk?: LottieProperty;
+  sa?: LottieProperty;
+}
+
+interface LottieShapeItem extends LottieTransform {
+  ty: string;
+  nm?: string;
+  hd?: boolean;
+  it?: LottieShapeItem[];
+  ks?: LottieProperty; // sh的路径
+  c?: LottieProperty;
+  w?: LottieProperty;
+  lc?: number;
+  lj?: number;
+  d?: number | Array<{ n: string; v: LottieProperty }>;
+  t?: number;
+  e?: LottieProperty;
+  g?: { p: number; k: LottieProperty };
+  h?: LottieProperty;
+  sy?: number;
+  pt?: LottieProperty;
+  or?: LottieProperty;
+  ir?: LottieProperty;
+  os?: LottieProperty;
+  is?: LottieProperty;
+}
+
+interface LottieLayer {
+  ty: number;
+  nm?: string;
+  ind?: number;
+  parent?: number;
+  ks?: LottieTransform;
+  ip: number;
+  op: number;
+  st?: number;
+  sr?: number;
+  hd?: boolean;
+  ddd?: number;
+  bm?: number;
+  tt?: number;
+  td?: number;
+  hasMask?: boolean;
+  masksProperties?: unknown[];
+  ef?: unknown[];
+  tm?: LottieProperty;
+  shapes?: LottieShapeItem[];
+  refId?: string;
+  sc?: string;
+  sw?: number;
+  sh?: number;
+}
+
+interface LottieAsset {
+  id: string;
+  layers?: LottieLayer[];
+}
+
+interface LottieRoot {
+  nm?: string;
+  fr: number;
+  ip: number;
+  op: number;
+  w: number;
+  h: number;
+  ddd?: number;
+  layers: LottieLayer[];
+  assets?: LottieAsset[];
+}
+
+// 规范化后的关键帧: 时间已换算为毫秒
+interface ImportedKeyframe {
+  time: number;
+  value: number[];
+  out?: { x: number | number[]; y: number | number[] };
+  in?: { x: number | number[]; y: number | number[] };
+  hold: boolean;
+}
+
+// 一个分量到一条轨道的映射
+interface ChannelTarget {
+  property: string;
+  dim: number;
+  map?: (value: number) => number;
+}
+
+// 作用于几何的样式项, 按Lottie列表顺序排列(靠前的在上层)
+type StyleItem = LottieShapeItem & { ty: 'fl' | 'st' | 'gf' | 'gs' };
+
+const GEOMETRY_TYPES = new Set(['rc', 'el', 'sh', 'sr']);
+const STYLE_TYPES = new Set(['fl', 'st', 'gf', 'gs']);
+const MODIFIER_NAMES: Record<string, string> = {
+  tm: '修剪路径',
+  rd: '圆角',
+  mm: '合并路径',
+  rp: '中继器',
+  op: '偏移路径',
+  pb: '收缩与膨胀',
+  tw: '扭转',
+  zz: '锯齿'
+};
+const LAYER_TYPE_NAMES: Record<number, string> = {
+  2: '图片',
+  5: '文字',
+  6: '音频',
+  13: '摄像机',
+  15: '数据'
+};
+
+// ========== Lottie导入器 ==========
+
+export class LottieImporter {
+  private warnings = new Set<string>();
+  private assets = new Map<string, LottieAsset>();
+  private activePrecomps = new Set<string>();
+  private animation: Animation | null = null;
+  private frameRate = 60;
+  private startFrame = 0;
+  private duration = 0;
+  private idPrefix = 'lottie';
+  private idCounter = 0;
+
+  /**
+   * 解析Lottie JSON文本
+   */
+  importFromString(text: string, options: LottieImportOptions = {}): LottieImportResult {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new LottieImportError(`JSON解析失败: ${(error as Error).message}`);
+    }
+    return this.importFromJson(data, options);
+  }
+
+  /**
+   * 导入已解析的Lottie对象, 主合成生成一个画板, 预合成展开为嵌套组
+   */
+  importFromJson(data: unknown, options: LottieImportOptions = {}): LottieImportResult {
+    const root = data as LottieRoot;
+    if (!root || typeof root !== 'object' || !Array.isArray(root.layers)) {
+      throw new LottieImportError('不是有效的Lottie文件: 缺少layers');
+    }
+    ['fr', 'ip', 'op', 'w', 'h'].forEach(key => {
+      if (typeof (root as unknown as Record<string, unknown>)[key] !== 'number') {
+        throw new LottieImportError(`不是有效的Lottie文件: 缺少${key}`);
+      }
+    });
+    if (!(root.fr > 0)) {
+      throw new LottieImportError(`帧率必须为正数: ${root.fr}`);
+    }
+
+    this.warnings.clear();
+    this.assets = new Map((root.assets ?? []).map(asset => [asset.id, asset]));
+    this.activePrecomps.clear();
+    this.idPrefix = options.idPrefix ?? `lottie_${Date.now().toString(36)}`;
+    this.idCounter = 0;
+    this.frameRate = root.fr;
+    this.startFrame = root.ip;
+    this.duration = this.toTime(root.op, 0);
+
+    const name = options.name || root.nm || 'Lottie';
+    this.animation = new Animation(this.nextId(), name, this.duration);
+    this.animation.fps = root.fr;
+    if (root.ddd) this.warn('不支持3D图层, 已按2D处理');
+
+    const artboard: Artboard = {
+      id: this.nextId(),
+      name,
+      width: root.w,
+      height: root.h,
+      shapes: this.importLayers(root.layers, 0)
+    };
+
+    const animation = this.animation.tracks.size > 0 ? this.animation : null;
+    this.animation = null;
+    return { artboard, animation, warnings: Array.from(this.warnings) };
+  }
+
+  // ========== 图层 ==========
+
+  /**
+   * 导入图层列表, 返回按绘制顺序排列的图形(Lottie列表第一个在最上层)
+   * offset为该列表的时间在主合成中的起始帧
+   */
+  private importLayers(layers: LottieLayer[], offset: number): Shape[] {
+    const byIndex = new Map<number, LottieLayer>();
+    layers.forEach(layer => {
+      if (layer.ind !== undefined) byIndex.set(layer.ind, layer);
+    });
+
+    const shapes: Shape[] = [];
+    [...layers].reverse().forEach(layer => {
+      const shape = this.importLayer(layer, offset, byIndex);
+      if (shape) shapes.push(shape);
+    });
+    return shapes;
+  }
+
+  private importLayer(layer: LottieLayer, offset: number, byIndex: Map<number, LottieLayer>): Shape | null {
+    const name = layer.nm || '图层';
+    if (layer.ty === 3) return null; // 空对象只作为父级变换
+    if (LAYER_TYPE_NAMES[layer.ty]) {
+      this.warn(`不支持${LAYER_TYPE_NAMES[layer.ty]}图层, 已跳过`);
+      return null;
+    }
+    if (![0, 1, 4].includes(layer.ty)) {
+      this.warn(`未知图层类型 ${layer.ty}, 已跳过`);
+      return null;
+    }
+
+    this.warnLayerFeatures(layer);
+    const layerOffset = offset + (layer.st ?? 0);
+
+    const group = new Group(this.nextId(), name);
+    const content = this.applyTransform(group, layer.ks ?? {}, layerOffset, true);
+    if (layer.hd || layer.td) group.visible = false;
+
+    if (layer.ty === 4) {
+      this.importItems(layer.shapes ?? [], content, [], layerOffset);
+    } else if (layer.ty === 1) {
+      content.addChild(this.importSolid(layer));
+    } else {
+      this.importPrecomp(layer, content, layerOffset);
+    }
+
+    // 父级图层只传递变换, 不传递不透明度
+    let outer: Group = group;
+    const visited = new Set<LottieLayer>([layer]);
+    let parent = layer.parent !== undefined ? byIndex.get(layer.parent) : undefined;
+    while (parent && !visited.has(parent)) {
+      visited.add(parent);
+      const wrapper = new Group(this.nextId(), `${parent.nm || '父级'} (父级)`);
+      this.applyTransform(wrapper, parent.ks ?? {}, offset + (parent.st ?? 0), false).addChild(outer);
+      outer = wrapper;
+      parent = parent.parent !== undefined ? byIndex.get(parent.parent) : undefined;
+    }
+    if (parent) this.warn(`图层 "${name}" 的父级存在循环引用`);
+
+    return this.applyLayerRange(layer, outer, offset);
+  }
+
+  private importPrecomp(layer: LottieLayer, content: Group, offset: number): void {
+    const asset = layer.refId ? this.assets.get(layer.refId) : undefined;
+    if (!asset?.layers) {
+      this.warn(`预合成 ${layer.refId ?? ''} 不存在, 已跳过`);
+      return;
+    }
+    if (this.activePrecomps.has(asset.id)) {
+      this.warn(`预合成 ${asset.id} 存在循环引用`);
+      return;
+    }
+    if (layer.tm) this.warn('不支持时间重映射, 已忽略');
+    if (layer.sr !== undefined && layer.sr !== 1) this.warn('不支持图层时间拉伸, 已忽略');
+
+    this.activePrecomps.add(asset.id);
+    this.importLayers(asset.layers, offset).forEach(shape => content.addChild(shape));
+    this.activePrecomps.delete(asset.id);
+  }
+
+  private importSolid(layer: LottieLayer): Rectangle {
+    const rect = new Rectangle(this.nextId(), layer.nm || '纯色', layer.sw ?? 0, layer.sh ?? 0);
+    rect.transform.pivot = { x: 0, y: 0 };
+    rect.fill = { type: 'solid', color: this.parseHexColor(layer.sc ?? '#000000') };
+    return rect;
+  }
+
+  /**
+   * 图层只在 [ip, op) 帧内显示: 超出合成范围时外包一层用不透明度切换显隐的组
+   * 显隐切换用定格关键帧
+   */
+  private applyLayerRange(layer: LottieLayer, shape: Group, offset: number): Group {
+    const start = this.toTime(layer.ip, offset);
+    const end = this.toTime(layer.op, offset);
+    const showsLate = start > 0;
+    const hidesEarly = end < this.duration;
+    if (!showsLate && !hidesEarly) return shape;
+
+    const wrapper = new Group(this.nextId(), layer.nm || '图层');
+    wrapper.addChild(shape);
+    const track = this.animation!.addTrack('opacity', wrapper.id);
+    track.addKeyframe(0, showsLate ? 0 : 1, 'linear', 'hold');
+    if (showsLate) track.addKeyframe(start, 1, 'linear', 'hold');
+    if (hidesEarly) track.addKeyframe(end, 0, 'linear', 'hold');
+    wrapper.opacity = track.keyframes[0].value;
+    return wrapper;
+  }
+
+  private warnLayerFeatures(layer: LottieLayer): void {
+    if (layer.ddd) this.warn('不支持3D图层, 已按2D处理');
+    if (layer.hasMask || (layer.masksProperties?.length ?? 0) > 0) this.warn('不支持蒙版, 已忽略');
+    if (layer.tt) this.warn('不支持轨道遮罩, 已忽略');
+    if (layer.td) this.warn('遮罩图层已导入为隐藏图层');
+    if ((layer.ef?.length ?? 0) > 0) this.warn('不支持图层效果, 已忽略');
+    if (layer.bm) this.warn('不支持混合模式, 已按正常处理');
+  }
+
+  // ========== 图形项 ==========
+
+  /**
+   * 导入图形项列表
+   * 样式作用于列表中位于其之前的几何, 以及外层列表中组之后的样式
+   */
+  private importItems(items: LottieShapeItem[], parent: Group, inherited: StyleItem[], offset: number): void {
+    const shapes: Shape[] = [];
+    items.forEach((item, index) => {
+      const styles = [
+        ...items.slice(index + 1).filter((next): next is StyleItem => STYLE_TYPES.has(next.ty) && !next.hd),
+        ...inherited
+      ];
+
+      if (item.ty === 'gr') {
+        const group = new Group(this.nextId(), item.nm || '组');
+        const transform = (item.it ?? []).find(child => child.ty === 'tr');
+        const content = transform ? this.applyTransform(group, transform, offset, true) : group;
+        if (item.hd) group.visible = false;
+        this.importItems(item.it ?? [], content, styles, offset);
+        shapes.push(group);
+      } else if (GEOMETRY_TYPES.has(item.ty)) {
+        const shape = this.importGeometry(item, offset);
+        if (!shape) return;
+        if (item.hd) shape.visible = false;
+        this.applyStyles(shape, styles, offset);
+        shapes.push(shape);
+      } else if (MODIFIER_NAMES[item.ty]) {
+        this.warn(`不支持${MODIFIER_NAMES[item.ty]}, 已忽略`);
+      } else if (!STYLE_TYPES.has(item.ty) && item.ty !== 'tr') {
+        this.warn(`未知图形项 ${item.ty}, 已跳过`);
+      }
+    });
+
+    // 列表中靠前的项在上层, 引擎中后添加的子图形在上层
+    shapes.reverse().forEach(shape => parent.addChild(shape));
+  }
+
+  private importGeometry(item: LottieShapeItem, offset: number): Shape | null {
+    if (item.ty === 'rc') {
+      const size = this.staticValue(item.s);
+      const rect = new Rectangle(this.nextId(), item.nm || '矩形', size[0] ?? 0, size[1] ?? 0);
+      rect.transform.pivot = { x: 0.5, y: 0.5 };
+      const position = this.staticValue(item.p as LottieProperty | undefined);
+      rect.transform.position = { x: position[0] ?? 0, y: position[1] ?? 0 };
+      rect.cornerRadius = this.staticValue(item.r)[0] ?? 0;
+      this.animate(item.p as LottieProperty | undefined, rect, offset, [
+        { property: 'transform.position.x', dim: 0 },
+        { property: 'transform.position.y', dim: 1 }
+      ]);
+      this.animate(item.s, rect, offset, [{ property: 'width', dim: 0 }, { property: 'height', dim: 1 }]);
+      this.animate(item.r, rect, offset, [{ property: 'cornerRadius', dim: 0 }]);
+      return rect;
+    }
+
+    if (item.ty === 'el') {
+      const size = this.staticValue(item.s);
+      const ellipse = new Ellipse(this.nextId(), item.nm || '椭圆', (size[0] ?? 0) / 2, (size[1] ?? 0) / 2);
+      const position = this.staticValue(item.p as LottieProperty | undefined);
+      ellipse.transform.position = { x: position[0] ?? 0, y: position[1] ?? 0 };
+      const half = (value: number) => value / 2;
+      this.animate(item.p as LottieProperty | undefined, ellipse, offset, [
+        { property: 'transform.position.x', dim: 0 },
+        { property: 'transform.position.y', dim: 1 }
+      ]);
+      this.animate(item.s, ellipse, offset, [
+        { property: 'radiusX', dim: 0, map: half },
+        { property: 'radiusY', dim: 1, map: half }
+      ]);
+      return ellipse;
+    }
+
+    if (item.ty === 'sh') {
+      const bezier = this.staticBezier(item.ks);
+      if (!bezier) return null;
+      return new Path(this.nextId(), item.nm || '路径', serializeContours([bezierToContour(bezier)]));
+    }
+
+    return this.importPolystar(item);
+  }
+
+  /**
+   * 星形/多边形转换为静态路径
+   */
+  private importPolystar(item: LottieShapeItem): Path {
+    const animated = [item.p, item.pt, item.r, item.or, item.ir].some(prop => this.isAnimated(prop as LottieProperty));
+    if (animated) this.warn('星形/多边形的动画已忽略, 使用第一帧的形状');
+    if ((this.staticValue(item.os)[0] ?? 0) !== 0 || (this.staticValue(item.is)[0] ?? 0) !== 0) {
+      this.warn('不支持星形/多边形的顶点圆度, 已忽略');
+    }
+
+    const star = item.sy === 1;
+    const points = Math.max(3, Math.round(this.staticValue(item.pt)[0] ?? 5));
+    const [cx, cy] = this.staticValue(item.p as LottieProperty | undefined);
+    const outer = this.staticValue(item.or)[0] ?? 0;
+    const inner = this.staticValue(item.ir)[0] ?? 0;
+    const rotation = ((this.staticValue(item.r)[0] ?? 0) * Math.PI) / 180;
+
+    const count = star ? points * 2 : points;
+    const commands: PathCommand[] = [];
+    for (let i = 0; i < count; i++) {
+      const radius = star && i % 2 === 1 ? inner : outer;
+      const angle = -Math.PI / 2 + rotation + (i * Math.PI * 2) / count;
+      commands.push({
+        type: i === 0 ? 'M' : 'L',
+        x: (cx ?? 0) + radius * Math.cos(angle),
+        y: (cy ?? 0) + radius * Math.sin(angle)
+      });
+    }
+    commands.push({ type: 'Z' });
+    return new Path(this.nextId(), item.nm || (star ? '星形' : '多边形'), serializePathData(commands));
+  }
+
+  // ========== 样式 ==========
+
+  /**
+   * 取最上层的填充与描边, 引擎图形只有一个填充和一个描边
+   */
+  private applyStyles(shape: Shape, styles: StyleItem[], offset: number): void {
+    const fills = styles.filter(style => style.ty === 'fl' || style.ty === 'gf');
+    const strokes = styles.filter(style => style.ty === 'st' || style.ty === 'gs');
+    if (fills.length > 1 || strokes.length > 1) this.warn('同一图形有多个填充或描边, 只保留最上层的一个');
+
+    shape.fill = fills[0] ? this.importFill(fills[0], shape, offset) : { type: 'none' };
+    shape.stroke = strokes[0] ? this.importStroke(strokes[0], shape, offset) : null;
+  }
+
+  private importFill(item: StyleItem, shape: Shape, offset: number): Fill {
+    if ((item.r as unknown) === 2) this.warn('不支持evenodd填充规则, 已按nonzero填充');
+    if (item.ty === 'gf') return this.importGradient(item);
+
+    this.animateColor(item.c, item.o, shape, 'fill.color', offset);
+    return { type: 'solid', color: this.staticColor(item.c, item.o) };
+  }
+
+  private importGradient(item: StyleItem): Fill {
+    if ([item.s, item.e, item.g?.k].some(prop => this.isAnimated(prop))) {
+      this.warn('渐变的动画已忽略, 使用第一帧的值');
+    }
+    if ((this.staticValue(item.h)[0] ?? 0) !== 0) this.warn('不支持径向渐变的高光偏移, 已忽略');
+
+    const [sx, sy] = this.staticValue(item.s);
+    const [ex, ey] = this.staticValue(item.e);
+    const stops = this.gradientStops(item);
+    if (item.t === 2) {
+      return {
+        type: 'gradient',
+        gradient: {
+          type: 'radial',
+          stops,
+          center: { x: sx ?? 0, y: sy ?? 0 },
+          radius: Math.hypot((ex ?? 0) - (sx ?? 0), (ey ?? 0) - (sy ?? 0))
+        }
+      };
+    }
+    return {
+      type: 'gradient',
+      gradient: { type: 'linear', stops, start: { x: sx ?? 0, y: sy ?? 0 }, end: { x: ex ?? 0, y: ey ?? 0 } }
+    };
+  }
+
+  /**
+   * 色标数据为 [offset, r, g, b]*p, 其后可选 [offset, alpha]*n
+   */
+  private gradientStops(item: StyleItem): Array<{ offset: number; color: Color }> {
+    const count = item.g?.p ?? 0;
+    const values = item.g ? this.staticValue(item.g.k) : [];
+    const opacity = (this.staticValue(item.o)[0] ?? 100) / 100;
+    const alphas: Array<[number, number]> = [];
+    for (let i = count * 4; i + 1 < values.length; i += 2) {
+      alphas.push([values[i], values[i + 1]]);
+    }
+
+    const stops: Array<{ offset: number; color: Color }> = [];
+    for (let i = 0; i < count && i * 4 + 3 < values.length; i++) {
+      const offset = values[i * 4];
+      stops.push({
+        offset,
+        color: {
+          r: Math.round(values[i * 4 + 1] * 255),
+          g: Math.round(values[i * 4 + 2] * 255),
+          b: Math.round(values[i * 4 + 3] * 255),
+          a: interpolateAlpha(alphas, offset) * opacity
+        }
+      });
+    }
+    return stops;
+  }
+
+  private importStroke(item: StyleItem, shape: Shape, offset: number): Stroke {
+    let color: Color;
+    if (item.ty === 'gs') {
+      this.warn('描边不支持渐变, 已使用第一个色标的颜色');
+      color = this.gradientStops(item)[0]?.color ?? { r: 0, g: 0, b: 0, a: 1 };
+    } else {
+      color = this.staticColor(item.c, item.o);
+      this.animateColor(item.c, item.o, shape, 'stroke.color', offset);
+    }
+    this.animate(item.w, shape, offset, [{ property: 'stroke.width', dim: 0 }]);
+
+    const stroke: Stroke = {
+      color,
+      width: this.staticValue(item.w)[0] ?? 1,
+      cap: (['butt', 'round', 'square'] as const)[(item.lc ?? 1) - 1] ?? 'butt',
+      join: (['miter', 'round', 'bevel'] as const)[(item.lj ?? 1) - 1] ?? 'miter'
+    };
+
+    if (Array.isArray(item.d)) {
+      const dashes = item.d.filter(entry => entry.n === 'd' || entry.n === 'g');
+      if (item.d.some(entry => this.isAnimated(entry.v))) this.warn('虚线的动画已忽略, 使用第一帧的值');
+      if (item.d.some(entry => entry.n === 'o' && (this.staticValue(entry.v)[0] ?? 0) !== 0)) {
+        this.warn('不支持虚线偏移, 已忽略');
+      }
+      if (dashes.length > 0) {
+        stroke.dashArray = dashes.map(entry => this.staticValue(entry.v)[0] ?? 0);
+      }
+    }
+    return stroke;
+  }
+
+  // ========== 变换 ==========
+
+  /**
+   * 写入位置/旋转/缩放/斜切/不透明度, 返回内容应添加到的组
+   * 锚点不为零时插入一个反向平移的内层组
+   */
+  private applyTransform(group: Group, ks: LottieTransform, offset: number, withOpacity: boolean): Group {
+    if (ks.rx || ks.ry) this.warn('不支持3D旋转, 已忽略X/Y轴旋转');
+
+    const position = ks.p;
+    if (position && 's' in position && position.s === true) {
+      group.transform.position = {
+        x: this.staticValue(position.x)[0] ?? 0,
+        y: this.staticValue(position.y)[0] ?? 0
+      };
+      this.animate(position.x, group, offset, [{ property: 'transform.position.x', dim: 0 }]);
+      this.animate(position.y, group, offset, [{ property: 'transform.position.y', dim: 0 }]);
+    } else {
+      const prop = position as LottieProperty | undefined;
+      const [x, y] = this.staticValue(prop);
+      group.transform.position = { x: x ?? 0, y: y ?? 0 };
+      this.animate(prop, group, offset, [
+        { property: 'transform.position.x', dim: 0 },
+        { property: 'transform.position.y', dim: 1 }
+      ]);
+    }
+
+    const percent = (value: number) => value / 100;
+    const [sx, sy] = this.staticValue(ks.s);
+    group.transform.scale = { x: percent(sx ?? 100), y: percent(sy ?? 100) };
+    this.animate(ks.s, group, offset, [
+      { property: 'transform.scale.x', dim: 0, map: percent },
+      { property: 'transform.scale.y', dim: 1, map: percent }
+    ]);
+
+    const rotation = ks.r ?? ks.rz;
+    const radians = (value: number) => (value * Math.PI) / 180;
+    group.transform.rotation = radians(this.staticValue(rotation)[0] ?? 0);
+    this.animate(rotation, group, offset, [{ property: 'transform.rotation', dim: 0, map: radians }]);
+
+    // 斜切轴为0时Lottie的斜切即沿X轴错切, 方向与引擎相反
+    if ((this.staticValue(ks.sk)[0] ?? 0) !== 0 || this.isAnimated(ks.sk)) {
+      if ((this.staticValue(ks.sa)[0] ?? 0) !== 0 || this.isAnimated(ks.sa)) {
+        this.warn('不支持非零斜切轴, 已忽略斜切');
+      } else {
+        const skew = (value: number) => -radians(value);
+        group.transform.skew = { x: skew(this.staticValue(ks.sk)[0] ?? 0), y: 0 };
+        this.animate(ks.sk, group, offset, [{ property: 'transform.skew.x', dim: 0, map: skew }]);
+      }
+    }
+
+    if (withOpacity) {
+      group.opacity = percent(this.staticValue(ks.o)[0] ?? 100);
+      this.animate(ks.o, group, offset, [{ property: 'opacity', dim: 0, map: percent }]);
+    }
+
+    const [ax, ay] = this.staticValue(ks.a);
+    if (!this.isAnimated(ks.a) && !ax && !ay) return group;
+
+    const anchor = new Group(this.nextId(), '锚点');
+    anchor.transform.position = { x: -(ax ?? 0), y: -(ay ?? 0) };
+    const negate = (value: number) => -value;
+    this.animate(ks.a, anchor, offset, [
+      { property: 'transform.position.x', dim: 0, map: negate },
+      { property: 'transform.position.y', dim: 1, map: negate }
+    ]);
+    group.addChild(anchor);
+    return anchor;
+  }
+
+  // ========== 动画属性 ==========
+
+  /**
+   * 把动画属性的每个分量转为一条轨道, 贝塞尔缓动取对应分量的控制点
+   */
+  private animate(prop: LottieProperty | undefined, shape: Shape, offset: number, targets: ChannelTarget[]): void {
+    if (!prop) return;
+    if (prop.x) this.warn('不支持表达式, 已使用关键帧的值');
+    const keyframes = this.readKeyframes(prop, offset);
+    if (keyframes.length === 0) return;
+
+    targets.forEach(target => {
+      const track = this.animation!.addTrack(target.property, shape.id);
+      keyframes.forEach(keyframe => {
+        const value = keyframe.value[target.dim] ?? keyframe.value[0] ?? 0;
+        track.addKeyframe(
+          keyframe.time,
+          target.map ? target.map(value) : value,
+          this.easingOf(keyframe, target.dim),
+          keyframe.hold ? 'hold' : 'curve'
+        );
+      });
+      if (
+        resolveInterpolator(target.property) === angleInterpolator &&
+        exceedsHalfTurn(track.keyframes.map(keyframe => keyframe.value))
+      ) {
+        this.warn('旋转关键帧之间超过半圈, 已按较短方向插值');
+      }
+    });
+  }
+
+  /**
+   * 颜色与不透明度合并为一条Color轨道, 关键帧取两者时间的并集
+   */
+  private animateColor(
+    color: LottieProperty | undefined,
+    opacity: LottieProperty | undefined,
+    shape: Shape,
+    property: string,
+    offset: number
+  ): void {
+    if (color?.x || opacity?.x) this.warn('不支持表达式, 已使用关键帧的值');
+    const colorKeys = color ? this.readKeyframes(color, offset) : [];
+    const opacityKeys = opacity ? this.readKeyframes(opacity, offset) : [];
+    if (colorKeys.length === 0 && opacityKeys.length === 0) return;
+
+    const staticColor = this.staticColor(color, opacity);
+    const primary = colorKeys.length > 0 ? colorKeys : opacityKeys;
+    const times = new Set(primary.map(keyframe => keyframe.time));
+    const secondary = colorKeys.length > 0 ? opacityKeys : [];
+    if (secondary.some(keyframe => !times.has(keyframe.time))) {
+      this.warn('颜色与不透明度的关键帧时间不一致, 已合并为线性近似');
+    }
+    secondary.forEach(keyframe => times.add(keyframe.time));
+
+    const track = this.animation!.addTrack(property, shape.id);
+    [...times].sort((a, b) => a - b).forEach(time => {
+      const rgb = colorKeys.length > 0 ? sampleKeyframes(colorKeys, time) : null;
+      const alpha = opacityKeys.length > 0 ? sampleKeyframes(opacityKeys, time)[0] / 100 : staticColor.a;
+      const value: Color = rgb
+        ? { r: Math.round(rgb[0] * 255), g: Math.round(rgb[1] * 255), b: Math.round(rgb[2] * 255), a: alpha }
+        : { ...staticColor, a: alpha };
+      const keyframe = primary.find(key => key.time === time);
+      track.addKeyframe(time, value, keyframe ? this.easingOf(keyframe, 0) : 'linear', keyframe?.hold ? 'hold' : 'curve');
+    });
+  }
+
+  private readKeyframes(prop: LottieProperty, offset: number): ImportedKeyframe[] {
+    if (!this.isAnimated(prop)) return [];
+    const source = prop.k as LottieKeyframe[];
+    const keyframes: ImportedKeyframe[] = [];
+    let previousEnd: number[] | undefined;
+
+    source.forEach(keyframe => {
+      const value = keyframe.s !== undefined ? toArray(keyframe.s) : previousEnd;
+      previousEnd = keyframe.e !== undefined ? toArray(keyframe.e) : value;
+      if (!value) return;
+      if ((keyframe.to ?? []).some(v => v !== 0) || (keyframe.ti ?? []).some(v => v !== 0)) {
+        this.warn('不支持运动路径曲线, 位置已按直线插值');
+      }
+      keyframes.push({
+        time: this.toTime(keyframe.t, offset),
+        value,
+        out: keyframe.o,
+        in: keyframe.i,
+        hold: keyframe.h === 1
+      });
+    });
+    return keyframes;
+  }
+
+  private easingOf(keyframe: ImportedKeyframe, dim: number): EasingFunction {
+    if (keyframe.hold || !keyframe.out || !keyframe.in) return 'linear';
+    const pick = (value: number | number[]) => (Array.isArray(value) ? value[dim] ?? value[0] : value);
+    return {
+      bezier: [pick(keyframe.out.x), pick(keyframe.out.y), pick(keyframe.in.x), pick(keyframe.in.y)]
+    };
+  }
+
+  private isAnimated(prop: LottieProperty | undefined): boolean {
+    if (!prop || !Array.isArray(prop.k) || prop.k.length === 0) return false;
+    const first = prop.k[0];
+    return typeof first === 'object' && first !== null && 't' in first;
+  }
+
+  /**
+   * 静态值, 动画属性取第一个关键帧
+   */
+  private staticValue(prop: LottieProperty | undefined): number[] {
+    if (!prop) return [];
+    if (this.isAnimated(prop)) {
+      const first = (prop.k as LottieKeyframe[])[0];
+      return toArray(first.s ?? first.e ?? []);
+    }
+    return typeof prop.k === 'number' || Array.isArray(prop.k) ? toArray(prop.k as number | number[]) : [];
+  }
+
+  private staticBezier(prop: LottieProperty | undefined): LottieBezier | null {
+    if (!prop) return null;
+    if (this.isAnimated(prop)) {
+      this.warn('不支持路径形状动画, 使用第一帧的形状');
+      const first = (prop.k as Array<{ s?: LottieBezier[] }>)[0];
+      return first.s?.[0] ?? null;
+    }
+    const bezier = prop.k as LottieBezier;
+    return Array.isArray(bezier.v) ? bezier : null;
+  }
+
+  private staticColor(color: LottieProperty | undefined, opacity: LottieProperty | undefined): Color {
+    const [r, g, b] = this.staticValue(color);
+    return {
+      r: Math.round((r ?? 0) * 255),
+      g: Math.round((g ?? 0) * 255),
+      b: Math.round((b ?? 0) * 255),
+      a: (this.staticValue(opacity)[0] ?? 100) / 100
+    };
+  }
+
+  private parseHexColor(value: string): Color {
+    const match = /^#?([0-9a-f]{6})/i.exec(value);
+    if (!match) {
+      this.warn(`无法识别的颜色 "${value}", 已使用黑色`);
+      return { r: 0, g: 0, b: 0, a: 1 };
+    }
+    const n = parseInt(match[1], 16);
+    return { r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255, a: 1 };
+  }
+
+  /**
+   * 帧换算为动画时间(毫秒), offset为所在合成相对主合成的起始帧
+   */
+  private toTime(frame: number, offset: number): number {
+    return ((frame + offset - this.startFrame) / this.frameRate) * 1000;
+  }
+
+  private nextId(): string {
+    return `${this.idPrefix}_${this.idCounter++}`;
+  }
+
+  private warn(message: string): void {
+    this.warnings.add(message);
+  }
+}
+
+// ========== 内部工具 ==========
+
+function toArray(value: number | number[]): number[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * 在关键帧之间线性取值, 用于合并时间不一致的颜色与不透明度
+ */
+function sampleKeyframes(keyframes: ImportedKeyframe[], time: number): number[] {
+  const after = keyframes.findIndex(keyframe => keyframe.time >= time);
+  if (after === -1) return keyframes[keyframes.length - 1].value;
+  if (after === 0 || keyframes[after].time === time) return keyframes[after].value;
+
+  const from = keyframes[after - 1];
+  const to = keyframes[after];
+  if (from.hold) return from.value;
+  const progress = (time - from.time) / (to.time - from.time);
+  return from.value.map((value, i) => value + ((to.value[i] ?? value) - value) * progress);
+}
+
+function interpolateAlpha(alphas: Array<[number, number]>, offset: number): number {
+  if (alphas.length === 0) return 1;
+  const after = alphas.findIndex(([position]) => position >= offset);
+  if (after === -1) return alphas[alphas.length - 1][1];
+  if (after === 0) return alphas[0][1];
+  const [p0, a0] = alphas[after - 1];
+  const [p1, a1] = alphas[after];
+  return p1 === p0 ? a1 : a0 + ((a1 - a0) * (offset - p0)) / (p1 - p0);
+}
+
+/**
+ * Lottie贝塞尔轮廓(切线相对顶点)转为顶点轮廓
+ */
+function bezierToContour(bezier: LottieBezier): PathContour {
+  const absolute = (handle: number[] | undefined, x: number, y: number) => ({
+    x: x + (handle?.[0] ?? 0),
+    y: y + (handle?.[1] ?? 0)
+  });
+  return {
+    closed: bezier.c,
+    vertices: bezier.v.map(([x, y], index) => ({
+      point: { x, y },
+      in: absolute(bezier.i[index], x, y),
+      out: absolute(bezier.o[index], x, y)
+    }))
+  };
+}
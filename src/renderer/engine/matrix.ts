@@ -0,0 +1,111 @@
+// ============================================
+// RIV Editor - 仿射矩阵
+// 2x3仿射矩阵的组合、求逆与变换分量的合成/分解
+// ============================================
+
+import type { Vector2 } from './riv-editor-engine';
+
+/**
+ * 2x3仿射矩阵 [a, b, c, d, e, f], 对应 x' = a*x + c*y + e, y' = b*x + d*y + f
+ */
+export type AffineTuple = [number, number, number, number, number, number];
+
+/**
+ * 可合成为矩阵的变换分量, 合成顺序: 平移 · 旋转 · 斜切 · 缩放
+ */
+export interface MatrixComponents {
+  position: Vector2;
+  rotation: number; // 弧度
+  scale: Vector2;
+  skew: Vector2; // 弧度, x同SVG skewX(沿X轴错切), y同SVG skewY
+}
+
+export const IDENTITY_MATRIX: AffineTuple = [1, 0, 0, 1, 0, 0];
+
+/**
+ * 矩阵乘法 m1 · m2 (先应用m2)
+ */
+export function multiplyAffine(m1: AffineTuple, m2: AffineTuple): AffineTuple {
+  const [a1, b1, c1, d1, e1, f1] = m1;
+  const [a2, b2, c2, d2, e2, f2] = m2;
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1
+  ];
+}
+
+/**
+ * 逆矩阵, 不可逆(缩放为0)时返回null
+ */
+export function invertAffine(m: AffineTuple): AffineTuple | null {
+  const [a, b, c, d, e, f] = m;
+  const det = a * d - b * c;
+  if (Math.abs(det) < 1e-12) return null;
+  return [d / det, -b / det, -c / det, a / det, (c * f - d * e) / det, (b * e - a * f) / det];
+}
+
+/**
+ * 用仿射矩阵变换单个点
+ */
+export function applyAffine(m: AffineTuple, p: { x: number; y: number }): { x: number; y: number } {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] };
+}
+
+export function translationMatrix(x: number, y: number): AffineTuple {
+  return [1, 0, 0, 1, x, y];
+}
+
+/**
+ * 面积缩放的平方根, 用于把描边宽度、拾取容差换算到另一坐标系
+ */
+export function matrixScale(m: AffineTuple): number {
+  return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
+
+/**
+ * 由变换分量合成矩阵: 平移 · 旋转 · 斜切 · 缩放
+ */
+export function composeMatrix({ position, rotation, scale, skew }: MatrixComponents): AffineTuple {
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const tanX = Math.tan(skew.x);
+  const tanY = Math.tan(skew.y);
+
+  // 斜切 · 缩放 的列向量
+  const ax = scale.x;
+  const ay = tanY * scale.x;
+  const cx = tanX * scale.y;
+  const cy = scale.y;
+
+  return [
+    cos * ax - sin * ay,
+    sin * ax + cos * ay,
+    cos * cx - sin * cy,
+    sin * cx + cos * cy,
+    position.x,
+    position.y
+  ];
+}
+
+/**
+ * 分解为变换分量, 斜切统一归到X轴(skew.y为0), 镜像体现为scale.y为负
+ * 不可逆的矩阵返回null
+ */
+export function decomposeMatrix(m: AffineTuple): MatrixComponents | null {
+  const [a, b, c, d, e, f] = m;
+  const scaleX = Math.hypot(a, b);
+  const det = a * d - b * c;
+  if (scaleX < 1e-9 || Math.abs(det) < 1e-12) return null;
+
+  const scaleY = det / scaleX;
+  return {
+    position: { x: e, y: f },
+    rotation: Math.atan2(b, a),
+    scale: { x: scaleX, y: scaleY },
+    skew: { x: Math.atan((a * c + b * d) / (scaleX * scaleY)), y: 0 }
+  };
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { booleanContours, type BooleanOperand } from './path-boolean';
+import {
+  ellipseContour,
+  flattenContours,
+  isStraightVertex,
+  parseContours,
+  rectangleContour,
+  serializeContours,
+  type PathContour
+} from './path-model';
+
+function square(x: number, y: number, size: number): BooleanOperand {
+  return { contours: [rectangleContour(x, y, size, size, 0)], fillRule: 'nonzero' };
+}
+
+function circle(cx: number, cy: number, radius: number): BooleanOperand {
+  return { contours: [ellipseContour(cx, cy, radius, radius)], fillRule: 'nonzero' };
+}
+
+/**
+ * 带符号面积之和: 外轮廓与孔洞方向相反, 孔洞自动扣除
+ */
+function area(contours: PathContour[]): number {
+  return flattenContours(contours, 0.01).reduce((total, points) => {
+    let sum = 0;
+    points.forEach((p, i) => {
+      const q = points[(i + 1) % points.length];
+      sum += p.x * q.y - q.x * p.y;
+    });
+    return total + sum / 2;
+  }, 0);
+}
+
+describe('booleanContours', () => {
+  // 两个10×10的正方形重叠5×5
+  const a = square(0, 0, 10);
+  const b = square(5, 5, 10);
+
+  it('union: 合并为一个轮廓', () => {
+    const result = booleanContours([a, b], 'union');
+    expect(area(result)).toBeCloseTo(175);
+    expect(serializeContours(result)).toBe('M0 0 L10 0 L10 5 L15 5 L15 15 L5 15 L5 10 L0 10 Z');
+  });
+
+  it('subtract: 从最底层图形中减去其余图形', () => {
+    const result = booleanContours([a, b], 'subtract');
+    expect(area(result)).toBeCloseTo(75);
+    expect(serializeContours(result)).toBe('M0 0 L10 0 L10 5 L5 5 L5 10 L0 10 Z');
+    expect(area(booleanContours([b, a], 'subtract'))).toBeCloseTo(75);
+  });
+
+  it('intersect: 只保留重叠区域', () => {
+    const result = booleanContours([a, b], 'intersect');
+    expect(area(result)).toBeCloseTo(25);
+    expect(serializeContours(result)).toBe('M10 5 L10 10 L5 10 L5 5 Z');
+  });
+
+  it('exclude: 只保留被奇数个图形覆盖的区域', () => {
+    const result = booleanContours([a, b], 'exclude');
+    expect(result).toHaveLength(2);
+    expect(area(result)).toBeCloseTo(150);
+  });
+
+  it('不相交的图形: 合并保留两者, 相交为空', () => {
+    const far = square(20, 20, 5);
+    expect(booleanContours([a, far], 'union')).toHaveLength(2);
+    expect(area(booleanContours([a, far], 'union'))).toBeCloseTo(125);
+    expect(booleanContours([a, far], 'intersect')).toEqual([]);
+  });
+
+  it('曲线边界还原为三次曲线', () => {
+    const result = booleanContours([circle(0, 0, 10), circle(10, 0, 10)], 'union');
+    expect(result).toHaveLength(1);
+    expect(result[0].vertices.every(v => !isStraightVertex(v))).toBe(true);
+    // 两个半径10、圆心距10的圆: 2πr² - 透镜面积
+    const lens = 200 * Math.acos(0.5) - 5 * Math.sqrt(300);
+    expect(Math.abs(area(result) - (200 * Math.PI - lens))).toBeLessThan(1);
+  });
+
+  it('按操作数的填充规则判断内部: evenodd的孔洞保留为反向轮廓', () => {
+    const ring: BooleanOperand = {
+      contours: parseContours('M0 0 L20 0 L20 20 L0 20 Z M5 5 L15 5 L15 15 L5 15 Z'),
+      fillRule: 'evenodd'
+    };
+    const result = booleanContours([ring], 'union');
+    expect(result).toHaveLength(2);
+    expect(area(result)).toBeCloseTo(300);
+    expect(area(booleanContours([ring, square(0, 0, 10)], 'intersect'))).toBeCloseTo(75);
+  });
+
+  it('没有操作数时结果为空', () => {
+    expect(booleanContours([], 'union')).toEqual([]);
+  });
+});
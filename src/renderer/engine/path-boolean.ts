@@ -0,0 +1,513 @@
+// ============================================
+// RIV Editor - 路径布尔运算
+// 合并/减去/相交/排除: 曲线细分为折线求交, 按边两侧的环绕数筛选边界, 再把同一原始曲线上的边还原为三次曲线
+// ============================================
+
+import type { FillRule, Vector2 } from './riv-editor-engine';
+import type { PathContour, PathVertex } from './path-model';
+
+/**
+ * 布尔运算类型, 操作数按绘制顺序排列(第一个在最底层)
+ * subtract: 从最底层图形中减去其余图形
+ * exclude: 被奇数个图形覆盖的区域
+ */
+export type BooleanOperation = 'union' | 'subtract' | 'intersect' | 'exclude';
+
+export interface BooleanOperand {
+  contours: PathContour[]; // 开放轮廓按首尾相连的填充区域处理
+  fillRule: FillRule;
+}
+
+// 曲线细分的最大弦高误差
+const FLATTEN_TOLERANCE = 0.05;
+const MAX_SUBDIVISIONS = 128;
+
+// 距离小于此值的交点视为同一点
+const SNAP_DISTANCE = 1e-6;
+const PARAM_EPSILON = 1e-9;
+
+// 判断边两侧内外时测试点离开边的距离
+const SIDE_OFFSET = 1e-4;
+
+/**
+ * 对操作数做布尔运算, 结果轮廓全部闭合
+ * 外轮廓与孔洞方向相反, 按nonzero规则填充
+ */
+export function booleanContours(operands: BooleanOperand[], operation: BooleanOperation): PathContour[] {
+  const rings = operands.map(flattenOperand);
+  const edges = rings.flat();
+  if (edges.length === 0) return [];
+
+  splitIntersections(edges);
+
+  const pool = new PointPool();
+  const pieces = buildPieces(edges, pool);
+  const boundary: Piece[] = [];
+
+  pieces.forEach(piece => {
+    const a = pool.points[piece.from];
+    const b = pool.points[piece.to];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const offset = Math.min(length / 4, SIDE_OFFSET);
+    const nx = -(b.y - a.y) / length * offset;
+    const ny = (b.x - a.x) / length * offset;
+    const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+
+    const insideAt = (point: Vector2) => combine(
+      operation,
+      operands.map((operand, index) => isInside(rings[index], operand.fillRule, point))
+    );
+    const left = insideAt({ x: mid.x + nx, y: mid.y + ny });
+    const right = insideAt({ x: mid.x - nx, y: mid.y - ny });
+    if (left === right) return;
+
+    // 结果区域统一在边的左侧
+    boundary.push(left ? piece : reversePiece(piece));
+  });
+
+  return chainLoops(boundary, pool)
+    .map(loop => loopToContour(loop, pool))
+    .filter((contour): contour is PathContour => contour !== null);
+}
+
+// ========== 内部工具 ==========
+
+/**
+ * 原始线段, 直线的控制点与端点重合
+ */
+interface SourceSegment {
+  p0: Vector2;
+  p1: Vector2;
+  p2: Vector2;
+  p3: Vector2;
+  straight: boolean;
+}
+
+/**
+ * 细分后的折线边, splits为与其他边的交点(边上的参数s与交点)
+ */
+interface Edge {
+  a: Vector2;
+  b: Vector2;
+  source: SourceSegment;
+  t0: number;
+  t1: number;
+  splits: Array<{ s: number; point: Vector2 }>;
+}
+
+/**
+ * 按交点切分后的边, 端点为点池中的序号, t为在原始线段上的参数
+ */
+interface Piece {
+  from: number;
+  to: number;
+  source: SourceSegment;
+  tFrom: number;
+  tTo: number;
+}
+
+function combine(operation: BooleanOperation, inside: boolean[]): boolean {
+  switch (operation) {
+    case 'union':
+      return inside.some(Boolean);
+    case 'intersect':
+      return inside.length > 0 && inside.every(Boolean);
+    case 'subtract':
+      return inside[0] === true && !inside.slice(1).some(Boolean);
+    case 'exclude':
+      return inside.filter(Boolean).length % 2 === 1;
+  }
+}
+
+function flattenOperand(operand: BooleanOperand): Edge[] {
+  const edges: Edge[] = [];
+
+  operand.contours.forEach(({ vertices, closed }) => {
+    if (vertices.length < 2) return;
+    for (let i = 0; i < vertices.length; i++) {
+      const from = vertices[i];
+      const to = vertices[(i + 1) % vertices.length];
+      // 开放轮廓以直线回到起点
+      const source = !closed && i === vertices.length - 1
+        ? lineSegment(from.point, to.point)
+        : segmentOf(from, to);
+      if (source.straight && samePoint(source.p0, source.p3)) continue;
+
+      const count = source.straight ? 1 : subdivisionCount(source);
+      let previous = source.p0;
+      for (let k = 1; k <= count; k++) {
+        const t = k / count;
+        const point = k === count ? source.p3 : cubicAt(source, t);
+        if (!samePoint(previous, point)) {
+          edges.push({ a: previous, b: point, source, t0: (k - 1) / count, t1: t, splits: [] });
+        }
+        previous = point;
+      }
+    }
+  });
+
+  return edges;
+}
+
+function segmentOf(from: PathVertex, to: PathVertex): SourceSegment {
+  if (samePoint(from.out, from.point) && samePoint(to.in, to.point)) {
+    return lineSegment(from.point, to.point);
+  }
+  return { p0: from.point, p1: from.out, p2: to.in, p3: to.point, straight: false };
+}
+
+function lineSegment(a: Vector2, b: Vector2): SourceSegment {
+  return { p0: a, p1: a, p2: b, p3: b, straight: true };
+}
+
+/**
+ * 按二阶差分估算细分段数, 保证弦高误差不超过FLATTEN_TOLERANCE
+ */
+function subdivisionCount({ p0, p1, p2, p3 }: SourceSegment): number {
+  const d1 = Math.hypot(p0.x - 2 * p1.x + p2.x, p0.y - 2 * p1.y + p2.y);
+  const d2 = Math.hypot(p1.x - 2 * p2.x + p3.x, p1.y - 2 * p2.y + p3.y);
+  const count = Math.ceil(Math.sqrt((0.75 * Math.max(d1, d2)) / FLATTEN_TOLERANCE));
+  return Math.max(1, Math.min(MAX_SUBDIVISIONS, count));
+}
+
+function cubicAt({ p0, p1, p2, p3 }: SourceSegment, t: number): Vector2 {
+  const mt = 1 - t;
+  const a = mt * mt * mt;
+  const b = 3 * mt * mt * t;
+  const c = 3 * mt * t * t;
+  const d = t * t * t;
+  return {
+    x: a * p0.x + b * p1.x + c * p2.x + d * p3.x,
+    y: a * p0.y + b * p1.y + c * p2.y + d * p3.y
+  };
+}
+
+// ========== 求交 ==========
+
+function splitIntersections(edges: Edge[]): void {
+  const sorted = [...edges].sort((e1, e2) => Math.min(e1.a.x, e1.b.x) - Math.min(e2.a.x, e2.b.x));
+
+  for (let i = 0; i < sorted.length; i++) {
+    const e1 = sorted[i];
+    const maxX = Math.max(e1.a.x, e1.b.x) + SNAP_DISTANCE;
+    const minY1 = Math.min(e1.a.y, e1.b.y) - SNAP_DISTANCE;
+    const maxY1 = Math.max(e1.a.y, e1.b.y) + SNAP_DISTANCE;
+
+    for (let j = i + 1; j < sorted.length; j++) {
+      const e2 = sorted[j];
+      if (Math.min(e2.a.x, e2.b.x) > maxX) break;
+      if (Math.max(e2.a.y, e2.b.y) < minY1 || Math.min(e2.a.y, e2.b.y) > maxY1) continue;
+      intersectEdges(e1, e2);
+    }
+  }
+}
+
+function intersectEdges(e1: Edge, e2: Edge): void {
+  const r = { x: e1.b.x - e1.a.x, y: e1.b.y - e1.a.y };
+  const s = { x: e2.b.x - e2.a.x, y: e2.b.y - e2.a.y };
+  const qp = { x: e2.a.x - e1.a.x, y: e2.a.y - e1.a.y };
+  const denominator = cross(r, s);
+  const rLength = Math.hypot(r.x, r.y);
+  const sLength = Math.hypot(s.x, s.y);
+
+  if (Math.abs(denominator) > PARAM_EPSILON * rLength * sLength) {
+    const t = cross(qp, s) / denominator;
+    const u = cross(qp, r) / denominator;
+    if (t < -PARAM_EPSILON || t > 1 + PARAM_EPSILON || u < -PARAM_EPSILON || u > 1 + PARAM_EPSILON) return;
+
+    // 交点落在端点上时直接取端点, 保证相邻边共享同一坐标
+    let point = { x: e1.a.x + r.x * t, y: e1.a.y + r.y * t };
+    const endpoints = [e1.a, e1.b, e2.a, e2.b];
+    const snapped = endpoints.find(endpoint => distance(endpoint, point) <= SNAP_DISTANCE);
+    if (snapped) point = snapped;
+
+    addSplit(e1, clamp01(t), point);
+    addSplit(e2, clamp01(u), point);
+    return;
+  }
+
+  // 平行: 只处理共线重叠, 互相在对方的端点处切分
+  if (Math.abs(cross(qp, r)) > SNAP_DISTANCE * rLength) return;
+  [e2.a, e2.b].forEach(point => addSplit(e1, projectParam(e1, point), point));
+  [e1.a, e1.b].forEach(point => addSplit(e2, projectParam(e2, point), point));
+}
+
+function addSplit(edge: Edge, s: number, point: Vector2): void {
+  if (s <= 0 || s >= 1) return;
+  if (distance(point, edge.a) <= SNAP_DISTANCE || distance(point, edge.b) <= SNAP_DISTANCE) return;
+  edge.splits.push({ s, point });
+}
+
+function projectParam(edge: Edge, point: Vector2): number {
+  const dx = edge.b.x - edge.a.x;
+  const dy = edge.b.y - edge.a.y;
+  return ((point.x - edge.a.x) * dx + (point.y - edge.a.y) * dy) / (dx * dx + dy * dy);
+}
+
+// ========== 切分与建图 ==========
+
+/**
+ * 合并距离很近的点, 使交点在各条边上得到同一序号
+ */
+class PointPool {
+  points: Vector2[] = [];
+  private cells = new Map<string, number[]>();
+
+  id(point: Vector2): number {
+    const cx = Math.floor(point.x / (SNAP_DISTANCE * 4));
+    const cy = Math.floor(point.y / (SNAP_DISTANCE * 4));
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const found = this.cells.get(`${cx + dx},${cy + dy}`)?.find(
+          index => distance(this.points[index], point) <= SNAP_DISTANCE
+        );
+        if (found !== undefined) return found;
+      }
+    }
+
+    const index = this.points.length;
+    this.points.push(point);
+    const key = `${cx},${cy}`;
+    const cell = this.cells.get(key);
+    if (cell) cell.push(index);
+    else this.cells.set(key, [index]);
+    return index;
+  }
+}
+
+/**
+ * 按交点切分边; 重合的边(同一对端点)只保留一条
+ */
+function buildPieces(edges: Edge[], pool: PointPool): Piece[] {
+  const pieces = new Map<string, Piece>();
+
+  edges.forEach(edge => {
+    const stops = [
+      { s: 0, point: edge.a },
+      ...edge.splits.sort((a, b) => a.s - b.s),
+      { s: 1, point: edge.b }
+    ];
+    let previous = pool.id(stops[0].point);
+    let previousT = edge.t0;
+
+    for (let i = 1; i < stops.length; i++) {
+      const id = pool.id(stops[i].point);
+      const t = i === stops.length - 1 ? edge.t1 : edge.t0 + (edge.t1 - edge.t0) * stops[i].s;
+      if (id === previous) continue;
+
+      const key = previous < id ? `${previous}-${id}` : `${id}-${previous}`;
+      if (!pieces.has(key)) {
+        pieces.set(key, { from: previous, to: id, source: edge.source, tFrom: previousT, tTo: t });
+      }
+      previous = id;
+      previousT = t;
+    }
+  });
+
+  return Array.from(pieces.values());
+}
+
+function reversePiece(piece: Piece): Piece {
+  return { from: piece.to, to: piece.from, source: piece.source, tFrom: piece.tTo, tTo: piece.tFrom };
+}
+
+/**
+ * 环绕数判断点是否在操作数内部
+ */
+function isInside(edges: Edge[], fillRule: FillRule, point: Vector2): boolean {
+  let winding = 0;
+  edges.forEach(({ a, b }) => {
+    if (a.y <= point.y) {
+      if (b.y > point.y && cross({ x: b.x - a.x, y: b.y - a.y }, { x: point.x - a.x, y: point.y - a.y }) > 0) {
+        winding++;
+      }
+    } else if (b.y <= point.y && cross({ x: b.x - a.x, y: b.y - a.y }, { x: point.x - a.x, y: point.y - a.y }) < 0) {
+      winding--;
+    }
+  });
+  return fillRule === 'evenodd' ? winding % 2 !== 0 : winding !== 0;
+}
+
+// ========== 连接轮廓 ==========
+
+/**
+ * 把有向边连成闭合环; 一个顶点有多条出边时选择左转最多的一条
+ */
+function chainLoops(pieces: Piece[], pool: PointPool): Piece[][] {
+  const outgoing = new Map<number, Piece[]>();
+  pieces.forEach(piece => {
+    const list = outgoing.get(piece.from);
+    if (list) list.push(piece);
+    else outgoing.set(piece.from, [piece]);
+  });
+
+  const used = new Set<Piece>();
+  const loops: Piece[][] = [];
+
+  pieces.forEach(start => {
+    if (used.has(start)) return;
+    const loop: Piece[] = [];
+    let current: Piece | undefined = start;
+
+    while (current) {
+      used.add(current);
+      loop.push(current);
+      if (current.to === start.from) break;
+
+      const incoming = direction(pool, current);
+      let next: Piece | undefined;
+      let bestTurn = -Infinity;
+      for (const candidate of outgoing.get(current.to) ?? []) {
+        if (used.has(candidate)) continue;
+        const outgoingDirection = direction(pool, candidate);
+        const turn = Math.atan2(cross(incoming, outgoingDirection), dot(incoming, outgoingDirection));
+        if (turn > bestTurn) {
+          bestTurn = turn;
+          next = candidate;
+        }
+      }
+      current = next;
+    }
+
+    loops.push(loop);
+  });
+
+  return loops;
+}
+
+/**
+ * 同一原始线段上首尾相接的边合并为一段, 曲线按参数区间截取原始三次曲线
+ * 面积可以忽略的环返回null
+ */
+function loopToContour(loop: Piece[], pool: PointPool): PathContour | null {
+  if (loop.length < 2 || Math.abs(loopArea(loop, pool)) < SNAP_DISTANCE) return null;
+
+  const continues = (previous: Piece, next: Piece) =>
+    previous.source === next.source &&
+    Math.abs(previous.tTo - next.tFrom) < PARAM_EPSILON &&
+    Math.sign(previous.tTo - previous.tFrom) === Math.sign(next.tTo - next.tFrom);
+
+  // 从一段的起点开始, 避免把一段曲线拆在环的首尾
+  let start = loop.findIndex((piece, i) => !continues(loop[(i + loop.length - 1) % loop.length], piece));
+  if (start < 0) start = 0;
+  const ordered = [...loop.slice(start), ...loop.slice(0, start)];
+
+  const runs: Piece[] = [];
+  ordered.forEach(piece => {
+    const last = runs[runs.length - 1];
+    if (last && continues(last, piece)) {
+      last.to = piece.to;
+      last.tTo = piece.tTo;
+    } else {
+      runs.push({ ...piece });
+    }
+  });
+
+  const segments = mergeCollinear(runs.map(run => runCubic(run, pool)));
+  const vertices = segments.map((segment, i): PathVertex => ({
+    point: segment.p0,
+    in: segments[(i + segments.length - 1) % segments.length].p2,
+    out: segment.p1
+  }));
+  return { vertices, closed: true };
+}
+
+function runCubic(run: Piece, pool: PointPool): SourceSegment {
+  const start = pool.points[run.from];
+  const end = pool.points[run.to];
+  if (run.source.straight) return lineSegment(start, end);
+
+  const reversed = run.tFrom > run.tTo;
+  const sub = subCubic(run.source, Math.min(run.tFrom, run.tTo), Math.max(run.tFrom, run.tTo));
+  const [p0, p1, p2, p3] = reversed ? [sub.p3, sub.p2, sub.p1, sub.p0] : [sub.p0, sub.p1, sub.p2, sub.p3];
+
+  // 端点换成交点坐标, 控制点随之平移
+  return {
+    p0: start,
+    p1: { x: p1.x + start.x - p0.x, y: p1.y + start.y - p0.y },
+    p2: { x: p2.x + end.x - p3.x, y: p2.y + end.y - p3.y },
+    p3: end,
+    straight: false
+  };
+}
+
+/**
+ * 截取三次曲线在[t0, t1]上的部分
+ */
+function subCubic(segment: SourceSegment, t0: number, t1: number): SourceSegment {
+  const head = t1 < 1 ? splitCubic(segment, t1)[0] : segment;
+  if (t0 <= 0) return head;
+  return splitCubic(head, t0 / t1)[1];
+}
+
+function splitCubic({ p0, p1, p2, p3 }: SourceSegment, t: number): [SourceSegment, SourceSegment] {
+  const lerp = (a: Vector2, b: Vector2) => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+  const p01 = lerp(p0, p1);
+  const p12 = lerp(p1, p2);
+  const p23 = lerp(p2, p3);
+  const p012 = lerp(p01, p12);
+  const p123 = lerp(p12, p23);
+  const mid = lerp(p012, p123);
+  return [
+    { p0, p1: p01, p2: p012, p3: mid, straight: false },
+    { p0: mid, p1: p123, p2: p23, p3, straight: false }
+  ];
+}
+
+/**
+ * 合并同向共线的相邻直线段(如相邻矩形合并后的公共边)
+ */
+function mergeCollinear(segments: SourceSegment[]): SourceSegment[] {
+  const result: SourceSegment[] = [];
+  segments.forEach(segment => {
+    const last = result[result.length - 1];
+    if (last && canMergeLines(last, segment)) {
+      result[result.length - 1] = lineSegment(last.p0, segment.p3);
+    } else {
+      result.push(segment);
+    }
+  });
+
+  while (result.length > 2 && canMergeLines(result[result.length - 1], result[0])) {
+    result[0] = lineSegment(result[result.length - 1].p0, result[0].p3);
+    result.pop();
+  }
+  return result;
+}
+
+function canMergeLines(a: SourceSegment, b: SourceSegment): boolean {
+  if (!a.straight || !b.straight) return false;
+  const d1 = { x: a.p3.x - a.p0.x, y: a.p3.y - a.p0.y };
+  const d2 = { x: b.p3.x - b.p0.x, y: b.p3.y - b.p0.y };
+  return Math.abs(cross(d1, d2)) <= PARAM_EPSILON * Math.hypot(d1.x, d1.y) * Math.hypot(d2.x, d2.y) && dot(d1, d2) > 0;
+}
+
+function loopArea(loop: Piece[], pool: PointPool): number {
+  return loop.reduce((area, piece) => area + cross(pool.points[piece.from], pool.points[piece.to]), 0) / 2;
+}
+
+function direction(pool: PointPool, piece: Piece): Vector2 {
+  const a = pool.points[piece.from];
+  const b = pool.points[piece.to];
+  return { x: b.x - a.x, y: b.y - a.y };
+}
+
+function cross(a: Vector2, b: Vector2): number {
+  return a.x * b.y - a.y * b.x;
+}
+
+function dot(a: Vector2, b: Vector2): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+function distance(a: Vector2, b: Vector2): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function samePoint(a: Vector2, b: Vector2): boolean {
+  return a.x === b.x && a.y === b.y;
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
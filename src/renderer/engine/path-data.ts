@@ -0,0 +1,333 @@
+// ============================================
+// RIV Editor - SVG路径数据
+// 解析任意SVG路径命令并规范化为绝对坐标的 M/L/C/Z
+// ============================================
+
+import type { AffineTuple } from './matrix';
+
+/**
+ * 规范化后的路径命令: 全部为绝对坐标, 曲线统一为三次贝塞尔
+ */
+export type PathCommand =
+  | { type: 'M'; x: number; y: number }
+  | { type: 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' };
+
+export class PathDataError extends Error {
+  constructor(message: string, position: number) {
+    super(`${message} (位置 ${position})`);
+    this.name = 'PathDataError';
+  }
+}
+
+// 每个命令的参数个数
+const ARG_COUNTS: Record<string, number> = {
+  M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0
+};
+
+/**
+ * 解析SVG路径数据
+ * H/V转为L, Q/T/S/A转为C, 相对坐标转为绝对坐标
+ */
+export function parsePathData(d: string): PathCommand[] {
+  const result: PathCommand[] = [];
+  let index = 0;
+
+  const skipSeparators = () => {
+    while (index < d.length && /[\s,]/.test(d[index])) index++;
+  };
+
+  const readNumber = (): number => {
+    skipSeparators();
+    const match = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(d.slice(index));
+    if (!match) throw new PathDataError('缺少数值参数', index);
+    index += match[0].length;
+    return parseFloat(match[0]);
+  };
+
+  // 圆弧标志位可以不带分隔符紧挨着写, 例如 "a1 1 0 001 1"
+  const readFlag = (): number => {
+    skipSeparators();
+    const char = d[index];
+    if (char !== '0' && char !== '1') throw new PathDataError('圆弧标志位应为0或1', index);
+    index++;
+    return char === '1' ? 1 : 0;
+  };
+
+  let current = { x: 0, y: 0 };
+  let start = { x: 0, y: 0 };
+  let lastCubic: { x: number; y: number } | null = null;
+  let lastQuad: { x: number; y: number } | null = null;
+  let needsMove = false;
+  let command = '';
+
+  const ensureSubpath = () => {
+    // Z之后直接绘制时从子路径起点开始新的子路径
+    if (needsMove) {
+      result.push({ type: 'M', x: start.x, y: start.y });
+      needsMove = false;
+    }
+  };
+
+  const cubicTo = (x1: number, y1: number, x2: number, y2: number, x: number, y: number) => {
+    ensureSubpath();
+    result.push({ type: 'C', x1, y1, x2, y2, x, y });
+    current = { x, y };
+  };
+
+  skipSeparators();
+  while (index < d.length) {
+    if (/[a-zA-Z]/.test(d[index])) {
+      command = d[index++];
+      if (ARG_COUNTS[command.toUpperCase()] === undefined) {
+        throw new PathDataError(`未知的路径命令 ${command}`, index - 1);
+      }
+    } else if (!command) {
+      throw new PathDataError('路径数据必须以命令开头', index);
+    }
+
+    const upper = command.toUpperCase();
+    const relative = command !== upper;
+    const ox = relative ? current.x : 0;
+    const oy = relative ? current.y : 0;
+    let nextCubic: { x: number; y: number } | null = null;
+    let nextQuad: { x: number; y: number } | null = null;
+
+    switch (upper) {
+      case 'M': {
+        const x = ox + readNumber();
+        const y = oy + readNumber();
+        result.push({ type: 'M', x, y });
+        current = { x, y };
+        start = { x, y };
+        needsMove = false;
+        // M之后的隐式坐标按L处理
+        command = relative ? 'l' : 'L';
+        break;
+      }
+      case 'L': {
+        const x = ox + readNumber();
+        const y = oy + readNumber();
+        ensureSubpath();
+        result.push({ type: 'L', x, y });
+        current = { x, y };
+        break;
+      }
+      case 'H': {
+        const x = ox + readNumber();
+        ensureSubpath();
+        result.push({ type: 'L', x, y: current.y });
+        current = { x, y: current.y };
+        break;
+      }
+      case 'V': {
+        const y = oy + readNumber();
+        ensureSubpath();
+        result.push({ type: 'L', x: current.x, y });
+        current = { x: current.x, y };
+        break;
+      }
+      case 'C': {
+        const x1 = ox + readNumber(), y1 = oy + readNumber();
+        const x2 = ox + readNumber(), y2 = oy + readNumber();
+        const x = ox + readNumber(), y = oy + readNumber();
+        cubicTo(x1, y1, x2, y2, x, y);
+        nextCubic = { x: x2, y: y2 };
+        break;
+      }
+      case 'S': {
+        // 第一个控制点是上一段第二控制点的镜像
+        const reflected = lastCubic
+          ? { x: 2 * current.x - lastCubic.x, y: 2 * current.y - lastCubic.y }
+          : { ...current };
+        const x2 = ox + readNumber(), y2 = oy + readNumber();
+        const x = ox + readNumber(), y = oy + readNumber();
+        cubicTo(reflected.x, reflected.y, x2, y2, x, y);
+        nextCubic = { x: x2, y: y2 };
+        break;
+      }
+      case 'Q': {
+        const qx = ox + readNumber(), qy = oy + readNumber();
+        const x = ox + readNumber(), y = oy + readNumber();
+        quadTo(current, { x: qx, y: qy }, { x, y }, cubicTo);
+        nextQuad = { x: qx, y: qy };
+        break;
+      }
+      case 'T': {
+        const q: { x: number; y: number } = lastQuad
+          ? { x: 2 * current.x - lastQuad.x, y: 2 * current.y - lastQuad.y }
+          : { ...current };
+        const x = ox + readNumber(), y = oy + readNumber();
+        quadTo(current, q, { x, y }, cubicTo);
+        nextQuad = q;
+        break;
+      }
+      case 'A': {
+        const rx = readNumber(), ry = readNumber(), angle = readNumber();
+        const largeArc = readFlag(), sweep = readFlag();
+        const x = ox + readNumber(), y = oy + readNumber();
+        ensureSubpath();
+        arcToCubics(current, rx, ry, angle, largeArc === 1, sweep === 1, { x, y }).forEach(c =>
+          cubicTo(c[0], c[1], c[2], c[3], c[4], c[5])
+        );
+        current = { x, y };
+        break;
+      }
+      case 'Z':
+        result.push({ type: 'Z' });
+        current = { ...start };
+        needsMove = true;
+        break;
+    }
+
+    lastCubic = nextCubic;
+    lastQuad = nextQuad;
+    skipSeparators();
+  }
+
+  return result;
+}
+
+function quadTo(
+  from: { x: number; y: number },
+  q: { x: number; y: number },
+  to: { x: number; y: number },
+  cubicTo: (x1: number, y1: number, x2: number, y2: number, x: number, y: number) => void
+): void {
+  cubicTo(
+    from.x + (2 / 3) * (q.x - from.x),
+    from.y + (2 / 3) * (q.y - from.y),
+    to.x + (2 / 3) * (q.x - to.x),
+    to.y + (2 / 3) * (q.y - to.y),
+    to.x,
+    to.y
+  );
+}
+
+/**
+ * 椭圆弧(端点参数)转换为三次贝塞尔段, 每段不超过90度
+ * 参见SVG规范附录F.6的中心参数换算
+ */
+function arcToCubics(
+  from: { x: number; y: number },
+  rxIn: number,
+  ryIn: number,
+  angle: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: { x: number; y: number }
+): number[][] {
+  if (from.x === to.x && from.y === to.y) return [];
+  let rx = Math.abs(rxIn);
+  let ry = Math.abs(ryIn);
+  if (rx === 0 || ry === 0) {
+    return [[from.x, from.y, to.x, to.y, to.x, to.y]];
+  }
+
+  const phi = (angle * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  // 半径不足时按比例放大
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  let coefficient = Math.sqrt(Math.max(0, numerator / denominator));
+  if (largeArc === sweep) coefficient = -coefficient;
+  const cxp = (coefficient * rx * y1p) / ry;
+  const cyp = (-coefficient * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (from.x + to.x) / 2;
+  const cy = sin * cxp + cos * cyp + (from.y + to.y) / 2;
+
+  const vectorAngle = (ux: number, uy: number, vx: number, vy: number) => {
+    const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+    const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+    return sign * Math.acos(Math.max(-1, Math.min(1, dot)));
+  };
+
+  const theta1 = vectorAngle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = vectorAngle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const segments = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+  const step = delta / segments;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const point = (t: number) => ({
+    x: cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+    y: cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos
+  });
+  const derivative = (t: number) => ({
+    x: -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+    y: -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos
+  });
+
+  const result: number[][] = [];
+  for (let i = 0; i < segments; i++) {
+    const t1 = theta1 + i * step;
+    const t2 = t1 + step;
+    const p1 = point(t1), d1 = derivative(t1);
+    const p2 = i === segments - 1 ? to : point(t2);
+    const d2 = derivative(t2);
+    result.push([p1.x + k * d1.x, p1.y + k * d1.y, p2.x - k * d2.x, p2.y - k * d2.y, p2.x, p2.y]);
+  }
+  return result;
+}
+
+/**
+ * 用仿射矩阵变换路径命令
+ */
+export function transformPathCommands(commands: PathCommand[], m: AffineTuple): PathCommand[] {
+  const [a, b, c, d, e, f] = m;
+  const tx = (x: number, y: number) => a * x + c * y + e;
+  const ty = (x: number, y: number) => b * x + d * y + f;
+
+  return commands.map(command => {
+    switch (command.type) {
+      case 'M':
+      case 'L':
+        return { type: command.type, x: tx(command.x, command.y), y: ty(command.x, command.y) };
+      case 'C':
+        return {
+          type: 'C',
+          x1: tx(command.x1, command.y1), y1: ty(command.x1, command.y1),
+          x2: tx(command.x2, command.y2), y2: ty(command.x2, command.y2),
+          x: tx(command.x, command.y), y: ty(command.x, command.y)
+        };
+      case 'Z':
+        return command;
+    }
+  });
+}
+
+/**
+ * 路径命令序列化为路径数据字符串
+ */
+export function serializePathData(commands: PathCommand[], precision = 3): string {
+  const factor = Math.pow(10, precision);
+  const fmt = (n: number) => String(Math.round(n * factor) / factor);
+
+  return commands
+    .map(command => {
+      switch (command.type) {
+        case 'M':
+        case 'L':
+          return `${command.type}${fmt(command.x)} ${fmt(command.y)}`;
+        case 'C':
+          return `C${fmt(command.x1)} ${fmt(command.y1)} ${fmt(command.x2)} ${fmt(command.y2)} ${fmt(command.x)} ${fmt(command.y)}`;
+        case 'Z':
+          return 'Z';
+      }
+    })
+    .join(' ');
+}
@@ -0,0 +1,335 @@
+// ============================================
+// RIV Editor - 路径顶点编辑
+// 钢笔工具与顶点编辑模式使用的轮廓操作, 均返回新的轮廓数组, 不修改输入
+// ============================================
+
+import type { Vector2 } from './riv-editor-engine';
+import { cubicPoint, isStraightVertex, type PathContour, type PathVertex } from './path-model';
+
+/**
+ * 顶点引用: 轮廓序号 + 轮廓内顶点序号
+ */
+export interface VertexRef {
+  contour: number;
+  vertex: number;
+}
+
+/**
+ * 控制柄拖动方式
+ * mirror: 对侧控制柄保持等长反向
+ * break: 只移动当前控制柄
+ */
+export type HandleMode = 'mirror' | 'break';
+
+export type HandleSide = 'in' | 'out';
+
+export interface SegmentHit {
+  segment: VertexRef; // 线段起点, 终点为下一个顶点(闭合轮廓的最后一段回到起点)
+  t: number;
+  point: Vector2;
+  distance: number;
+}
+
+export interface HandleHit {
+  vertex: VertexRef;
+  side: HandleSide;
+}
+
+// 查找最近线段时每段的采样数, 之后再在最近采样附近细分
+const SEGMENT_SAMPLES = 24;
+
+// ========== 钢笔 ==========
+
+/**
+ * 新建只有一个角点的开放轮廓
+ */
+export function startContour(contours: PathContour[], point: Vector2): PathContour[] {
+  return [...cloneContours(contours), { vertices: [cornerVertex(point)], closed: false }];
+}
+
+/**
+ * 在轮廓末尾追加角点
+ */
+export function appendVertex(contours: PathContour[], contourIndex: number, point: Vector2): PathContour[] {
+  return updateContour(contours, contourIndex, contour => {
+    contour.vertices.push(cornerVertex(point));
+  });
+}
+
+export function closeContour(contours: PathContour[], contourIndex: number): PathContour[] {
+  return updateContour(contours, contourIndex, contour => {
+    contour.closed = true;
+  });
+}
+
+// ========== 顶点编辑 ==========
+
+/**
+ * 平移顶点及其控制柄
+ */
+export function moveVertices(contours: PathContour[], refs: VertexRef[], delta: Vector2): PathContour[] {
+  const result = cloneContours(contours);
+  uniqueRefs(refs).forEach(ref => {
+    const vertex = getVertex(result, ref);
+    if (!vertex) return;
+    vertex.point = offset(vertex.point, delta);
+    vertex.in = offset(vertex.in, delta);
+    vertex.out = offset(vertex.out, delta);
+  });
+  return result;
+}
+
+/**
+ * 把控制柄移到point, mirror方式下对侧控制柄同步为等长反向
+ */
+export function moveHandle(
+  contours: PathContour[],
+  ref: VertexRef,
+  side: HandleSide,
+  point: Vector2,
+  mode: HandleMode
+): PathContour[] {
+  const result = cloneContours(contours);
+  const vertex = getVertex(result, ref);
+  if (!vertex) return result;
+
+  vertex[side] = { ...point };
+  if (mode === 'mirror') {
+    vertex[side === 'in' ? 'out' : 'in'] = {
+      x: 2 * vertex.point.x - point.x,
+      y: 2 * vertex.point.y - point.y
+    };
+  }
+  return result;
+}
+
+/**
+ * 角点与平滑点互相转换
+ * 平滑点的控制柄沿前后顶点连线方向, 长度为到相邻顶点距离的1/3
+ */
+export function toggleVertexSmooth(contours: PathContour[], ref: VertexRef): PathContour[] {
+  const result = cloneContours(contours);
+  const contour = result[ref.contour];
+  const vertex = getVertex(result, ref);
+  if (!contour || !vertex) return result;
+
+  if (!isStraightVertex(vertex)) {
+    vertex.in = { ...vertex.point };
+    vertex.out = { ...vertex.point };
+    return result;
+  }
+
+  const { vertices, closed } = contour;
+  const prev = vertices[ref.vertex - 1] ?? (closed ? vertices[vertices.length - 1] : undefined);
+  const next = vertices[ref.vertex + 1] ?? (closed ? vertices[0] : undefined);
+  const from = prev?.point ?? vertex.point;
+  const to = next?.point ?? vertex.point;
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return result;
+
+  const ux = dx / length;
+  const uy = dy / length;
+  const inLength = prev ? distance(prev.point, vertex.point) / 3 : 0;
+  const outLength = next ? distance(next.point, vertex.point) / 3 : 0;
+  vertex.in = { x: vertex.point.x - ux * inLength, y: vertex.point.y - uy * inLength };
+  vertex.out = { x: vertex.point.x + ux * outLength, y: vertex.point.y + uy * outLength };
+  return result;
+}
+
+/**
+ * 在线段参数t处插入顶点, 用de Casteljau细分保持曲线形状不变
+ * 返回新轮廓与插入顶点的引用
+ */
+export function insertVertex(
+  contours: PathContour[],
+  segment: VertexRef,
+  t: number
+): { contours: PathContour[]; inserted: VertexRef } {
+  const result = cloneContours(contours);
+  const contour = result[segment.contour];
+  const from = contour?.vertices[segment.vertex];
+  if (!contour || !from) return { contours: result, inserted: segment };
+
+  const toIndex = (segment.vertex + 1) % contour.vertices.length;
+  const to = contour.vertices[toIndex];
+  const lerp = (a: Vector2, b: Vector2) => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+  let vertex: PathVertex;
+  if (samePoint(from.out, from.point) && samePoint(to.in, to.point)) {
+    vertex = cornerVertex(lerp(from.point, to.point));
+  } else {
+    const p01 = lerp(from.point, from.out);
+    const p12 = lerp(from.out, to.in);
+    const p23 = lerp(to.in, to.point);
+    const p012 = lerp(p01, p12);
+    const p123 = lerp(p12, p23);
+    vertex = { point: cubicPoint(from, to, t), in: p012, out: p123 };
+    from.out = p01;
+    to.in = p23;
+  }
+
+  const insertAt = segment.vertex + 1;
+  contour.vertices.splice(insertAt, 0, vertex);
+  return { contours: result, inserted: { contour: segment.contour, vertex: insertAt } };
+}
+
+/**
+ * 删除顶点; 开放轮廓少于2个顶点、闭合轮廓少于3个顶点时整条轮廓一起删除
+ */
+export function deleteVertices(contours: PathContour[], refs: VertexRef[]): PathContour[] {
+  const removed = new Set(refs.map(refKey));
+  return cloneContours(contours)
+    .map((contour, contourIndex) => ({
+      closed: contour.closed,
+      vertices: contour.vertices.filter((_, vertexIndex) => !removed.has(refKey({ contour: contourIndex, vertex: vertexIndex })))
+    }))
+    .filter(contour => contour.vertices.length >= (contour.closed ? 3 : 2));
+}
+
+// ========== 拾取 ==========
+
+/**
+ * 查找point附近tolerance内的顶点, 后绘制的顶点优先
+ */
+export function findVertex(contours: PathContour[], point: Vector2, tolerance: number): VertexRef | null {
+  for (let c = contours.length - 1; c >= 0; c--) {
+    const vertices = contours[c].vertices;
+    for (let v = vertices.length - 1; v >= 0; v--) {
+      if (distance(vertices[v].point, point) <= tolerance) return { contour: c, vertex: v };
+    }
+  }
+  return null;
+}
+
+/**
+ * 查找candidates顶点上tolerance内的控制柄, 与锚点重合的控制柄不参与拾取
+ */
+export function findHandle(
+  contours: PathContour[],
+  candidates: VertexRef[],
+  point: Vector2,
+  tolerance: number
+): HandleHit | null {
+  for (const ref of candidates) {
+    const vertex = getVertex(contours, ref);
+    if (!vertex) continue;
+    for (const side of ['out', 'in'] as const) {
+      const handle = vertex[side];
+      if (distance(handle, vertex.point) > 0 && distance(handle, point) <= tolerance) {
+        return { vertex: ref, side };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * 查找距离point最近的线段位置, 超出tolerance时返回null
+ */
+export function findSegment(contours: PathContour[], point: Vector2, tolerance: number): SegmentHit | null {
+  let best: SegmentHit | null = null;
+
+  contours.forEach(({ vertices, closed }, contourIndex) => {
+    const count = closed ? vertices.length : vertices.length - 1;
+    for (let i = 0; i < count; i++) {
+      const from = vertices[i];
+      const to = vertices[(i + 1) % vertices.length];
+
+      let bestT = 0;
+      let bestDistance = Infinity;
+      for (let s = 0; s <= SEGMENT_SAMPLES; s++) {
+        const t = s / SEGMENT_SAMPLES;
+        const d = distance(cubicPoint(from, to, t), point);
+        if (d < bestDistance) {
+          bestDistance = d;
+          bestT = t;
+        }
+      }
+
+      // 在最近采样两侧二分细化
+      let step = 1 / SEGMENT_SAMPLES;
+      while (step > 1e-4) {
+        step /= 2;
+        for (const t of [bestT - step, bestT + step]) {
+          if (t < 0 || t > 1) continue;
+          const d = distance(cubicPoint(from, to, t), point);
+          if (d < bestDistance) {
+            bestDistance = d;
+            bestT = t;
+          }
+        }
+      }
+
+      if (bestDistance <= tolerance && (!best || bestDistance < best.distance)) {
+        best = {
+          segment: { contour: contourIndex, vertex: i },
+          t: bestT,
+          point: cubicPoint(from, to, bestT),
+          distance: bestDistance
+        };
+      }
+    }
+  });
+
+  return best;
+}
+
+export function sameVertexRef(a: VertexRef, b: VertexRef): boolean {
+  return a.contour === b.contour && a.vertex === b.vertex;
+}
+
+// ========== 内部工具 ==========
+
+function cloneContours(contours: PathContour[]): PathContour[] {
+  return contours.map(contour => ({
+    closed: contour.closed,
+    vertices: contour.vertices.map(v => ({ point: { ...v.point }, in: { ...v.in }, out: { ...v.out } }))
+  }));
+}
+
+function updateContour(
+  contours: PathContour[],
+  contourIndex: number,
+  update: (contour: PathContour) => void
+): PathContour[] {
+  const result = cloneContours(contours);
+  const contour = result[contourIndex];
+  if (contour) update(contour);
+  return result;
+}
+
+function getVertex(contours: PathContour[], ref: VertexRef): PathVertex | undefined {
+  return contours[ref.contour]?.vertices[ref.vertex];
+}
+
+function cornerVertex(point: Vector2): PathVertex {
+  return { point: { ...point }, in: { ...point }, out: { ...point } };
+}
+
+function offset(point: Vector2, delta: Vector2): Vector2 {
+  return { x: point.x + delta.x, y: point.y + delta.y };
+}
+
+function samePoint(a: Vector2, b: Vector2): boolean {
+  return a.x === b.x && a.y === b.y;
+}
+
+function distance(a: Vector2, b: Vector2): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function refKey(ref: VertexRef): string {
+  return `${ref.contour}:${ref.vertex}`;
+}
+
+function uniqueRefs(refs: VertexRef[]): VertexRef[] {
+  const seen = new Set<string>();
+  return refs.filter(ref => {
+    const key = refKey(ref);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { PathDataError, parsePathData, serializePathData } from './path-data';
+import {
+  contoursBounds,
+  ellipseContour,
+  parseContours,
+  rectangleContour,
+  serializeContours,
+  transformContours
+} from './path-model';
+
+describe('parsePathData', () => {
+  it.each([
+    ['相对坐标与H/V', 'm10 10 h20 v20 h-20 z', 'M10 10 L30 10 L30 30 L10 30 Z'],
+    ['二次贝塞尔与T反射', 'M0 0 Q10 10 20 0 T40 0', 'M0 0 C6.667 6.667 13.333 6.667 20 0 C26.667 -6.667 33.333 -6.667 40 0'],
+    ['S反射上一段的控制点', 'M0 0 C0 10 10 10 10 0 S20 -10 20 0', 'M0 0 C0 10 10 10 10 0 C10 -10 20 -10 20 0'],
+    ['圆弧转为三次贝塞尔', 'M0 0 A10 10 0 0 1 20 0', 'M0 0 C0 -5.523 4.477 -10 10 -10 C15.523 -10 20 -5.523 20 0'],
+    ['紧凑的数值写法', 'M1e1-2.5.5.5', 'M10 -2.5 L0.5 0.5']
+  ])('%s', (_, input, expected) => {
+    expect(serializePathData(parsePathData(input))).toBe(expected);
+  });
+
+  it.each([
+    ['M0 0 L10', '缺少数值参数 (位置 8)'],
+    ['M0 0 X', '未知的路径命令 X (位置 5)'],
+    ['M0 0 A1 1 0 2 0 1 1', '圆弧标志位应为0或1 (位置 12)']
+  ])('无效数据 %s 抛出PathDataError', (input, message) => {
+    expect(() => parsePathData(input)).toThrow(PathDataError);
+    expect(() => parsePathData(input)).toThrow(message);
+  });
+});
+
+describe('路径数据 ↔ 顶点轮廓', () => {
+  it.each([
+    'M10 10 L30 10 L30 30 L10 30 Z',
+    'M0 0 C0 10 10 10 10 0 C10 -10 20 -10 20 0',
+    'M0 0 C10 0 10 10 0 10 C-10 10 -10 0 0 0 Z',
+    'M0 0 L10 0 L10 10 Z M5 5 L6 6'
+  ])('%s 往返不变', pathData => {
+    expect(serializeContours(parseContours(pathData))).toBe(pathData);
+  });
+
+  it('闭合点与起点重合时合并为一个顶点', () => {
+    const [contour] = parseContours('M0 0 C10 0 10 10 0 10 C-10 10 -10 0 0 0 Z');
+    expect(contour.closed).toBe(true);
+    expect(contour.vertices).toHaveLength(2);
+    expect(contour.vertices[0].in).toEqual({ x: -10, y: 0 });
+  });
+
+  it('回到起点的直线段由Z隐含', () => {
+    expect(serializeContours(parseContours('M0 0 L10 0 L10 10 L0 0 Z'))).toBe('M0 0 L10 0 L10 10 Z');
+  });
+
+  it('多个子路径各自成为轮廓', () => {
+    const contours = parseContours('M0 0 L10 0 L10 10 Z M5 5 L6 6');
+    expect(contours.map(c => [c.closed, c.vertices.length])).toEqual([[true, 3], [false, 2]]);
+  });
+
+  it('空路径没有轮廓', () => {
+    expect(parseContours('')).toEqual([]);
+  });
+});
+
+describe('contoursBounds', () => {
+  it('曲线取极值点, 不含控制点', () => {
+    expect(contoursBounds(parseContours('M0 0 C0 -10 20 -10 20 0'))).toEqual({ x: 0, y: -7.5, width: 20, height: 7.5 });
+  });
+
+  it('先按矩阵变换再计算', () => {
+    const rotated = contoursBounds(parseContours('M0 0 L10 0 L10 10 Z'), [0, 1, -1, 0, 5, 5]);
+    expect(rotated).toEqual({ x: -5, y: 5, width: 10, height: 10 });
+  });
+
+  it('椭圆与圆角矩形的包围盒即其外框', () => {
+    const ellipse = contoursBounds([ellipseContour(10, 20, 30, 15)])!;
+    expect(ellipse.x).toBeCloseTo(-20);
+    expect(ellipse.y).toBeCloseTo(5);
+    expect(ellipse.width).toBeCloseTo(60);
+    expect(ellipse.height).toBeCloseTo(30);
+    expect(contoursBounds([rectangleContour(0, 0, 40, 20, 5)])).toEqual({ x: 0, y: 0, width: 40, height: 20 });
+  });
+
+  it('没有顶点时为null', () => {
+    expect(contoursBounds([])).toBeNull();
+  });
+});
+
+describe('transformContours', () => {
+  it('顶点与控制点一起变换, 不修改输入', () => {
+    const contours = parseContours('M0 0 C0 10 10 10 10 0');
+    const moved = transformContours(contours, [2, 0, 0, 2, 5, 0]);
+    expect(serializeContours(moved)).toBe('M5 0 C5 20 25 20 25 0');
+    expect(serializeContours(contours)).toBe('M0 0 C0 10 10 10 10 0');
+  });
+});
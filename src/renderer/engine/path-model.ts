@@ -0,0 +1,455 @@
+// ============================================
+// RIV Editor - 路径顶点模型
+// 由SVG路径数据解析出的顶点轮廓: 每个顶点带入/出控制点, 轮廓带闭合标记
+// ============================================
+
+import type { Bounds, TrimPath, Vector2 } from './riv-editor-engine';
+import { parsePathData, serializePathData, type PathCommand } from './path-data';
+import { applyAffine, IDENTITY_MATRIX, type AffineTuple } from './matrix';
+
+/**
+ * 路径顶点, 控制点为绝对坐标; 直线顶点的in/out与point重合
+ */
+export interface PathVertex {
+  point: Vector2;
+  in: Vector2;
+  out: Vector2;
+}
+
+export interface PathContour {
+  vertices: PathVertex[];
+  closed: boolean;
+}
+
+// 圆弧的三次贝塞尔近似系数
+export const KAPPA = 0.5522847498;
+
+// ========== 解析与序列化 ==========
+
+/**
+ * 解析SVG路径数据, M/L/H/V/C/S/Q/T/A全部规范化为三次贝塞尔顶点
+ * 数据无效时抛出PathDataError
+ */
+export function parseContours(pathData: string): PathContour[] {
+  return contoursFromCommands(parsePathData(pathData));
+}
+
+export function contoursFromCommands(commands: PathCommand[]): PathContour[] {
+  const contours: PathContour[] = [];
+  let contour: PathContour | null = null;
+
+  commands.forEach(command => {
+    if (command.type === 'M') {
+      contour = { vertices: [vertex(command.x, command.y)], closed: false };
+      contours.push(contour);
+      return;
+    }
+    // parsePathData保证Z之后以M开始新轮廓
+    const open = contour as PathContour | null;
+    if (!open) return;
+    const vertices = open.vertices;
+    const last = vertices[vertices.length - 1];
+
+    if (command.type === 'L') {
+      vertices.push(vertex(command.x, command.y));
+    } else if (command.type === 'C') {
+      last.out = { x: command.x1, y: command.y1 };
+      vertices.push({
+        point: { x: command.x, y: command.y },
+        in: { x: command.x2, y: command.y2 },
+        out: { x: command.x, y: command.y }
+      });
+    } else {
+      // 闭合点与起点重合时合并, 入控制点移到起点
+      const first = vertices[0];
+      if (vertices.length > 1 && samePoint(last.point, first.point)) {
+        first.in = last.in;
+        vertices.pop();
+      }
+      open.closed = true;
+      contour = null;
+    }
+  });
+
+  return contours;
+}
+
+export function contoursToCommands(contours: PathContour[]): PathCommand[] {
+  const commands: PathCommand[] = [];
+  contours.forEach(({ vertices, closed }) => {
+    if (vertices.length === 0) return;
+    commands.push({ type: 'M', x: vertices[0].point.x, y: vertices[0].point.y });
+    for (let i = 1; i < vertices.length; i++) {
+      commands.push(segmentCommand(vertices[i - 1], vertices[i]));
+    }
+    if (closed) {
+      const last = vertices[vertices.length - 1];
+      // 回到起点的直线段由Z隐含
+      if (!isStraightSegment(last, vertices[0])) {
+        commands.push(segmentCommand(last, vertices[0]));
+      }
+      commands.push({ type: 'Z' });
+    }
+  });
+  return commands;
+}
+
+/**
+ * 顶点轮廓序列化为SVG路径数据
+ */
+export function serializeContours(contours: PathContour[], precision = 3): string {
+  return serializePathData(contoursToCommands(contours), precision);
+}
+
+// ========== 变换与包围盒 ==========
+
+export function transformContours(contours: PathContour[], m: AffineTuple): PathContour[] {
+  return contours.map(contour => ({
+    closed: contour.closed,
+    vertices: contour.vertices.map(v => ({
+      point: applyAffine(m, v.point),
+      in: applyAffine(m, v.in),
+      out: applyAffine(m, v.out)
+    }))
+  }));
+}
+
+/**
+ * 曲线的紧包围盒(取导数零点处的极值, 不含控制点外包), 轮廓先经m变换
+ * 没有顶点时返回null
+ */
+export function contoursBounds(contours: PathContour[], m: AffineTuple = IDENTITY_MATRIX): Bounds | null {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const include = (p: Vector2) => {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  };
+
+  transformContours(contours, m).forEach(({ vertices, closed }) => {
+    vertices.forEach(v => include(v.point));
+    const count = closed ? vertices.length : vertices.length - 1;
+    for (let i = 0; i < count; i++) {
+      const from = vertices[i];
+      const to = vertices[(i + 1) % vertices.length];
+      if (isStraightSegment(from, to)) continue;
+      cubicExtrema(from.point.x, from.out.x, to.in.x, to.point.x).forEach(t => {
+        include(cubicPoint(from, to, t));
+      });
+      cubicExtrema(from.point.y, from.out.y, to.in.y, to.point.y).forEach(t => {
+        include(cubicPoint(from, to, t));
+      });
+    }
+  });
+
+  if (minX === Infinity) return null;
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * 三次贝塞尔段上参数t处的点
+ */
+export function cubicPoint(from: PathVertex, to: PathVertex, t: number): Vector2 {
+  const mt = 1 - t;
+  const a = mt * mt * mt;
+  const b = 3 * mt * mt * t;
+  const c = 3 * mt * t * t;
+  const d = t * t * t;
+  return {
+    x: a * from.point.x + b * from.out.x + c * to.in.x + d * to.point.x,
+    y: a * from.point.y + b * from.out.y + c * to.in.y + d * to.point.y
+  };
+}
+
+/**
+ * 轮廓细分为折线, 曲线段的弦高误差不超过tolerance; 闭合轮廓的折线回到起点
+ */
+export function flattenContours(contours: PathContour[], tolerance = 0.25): Vector2[][] {
+  return contours.map(({ vertices, closed }) => {
+    if (vertices.length === 0) return [];
+    const points: Vector2[] = [{ ...vertices[0].point }];
+    const count = closed ? vertices.length : vertices.length - 1;
+    for (let i = 0; i < count; i++) {
+      const from = vertices[i];
+      const to = vertices[(i + 1) % vertices.length];
+      if (isStraightSegment(from, to)) {
+        points.push({ ...to.point });
+        continue;
+      }
+      const steps = segmentSteps(from, to, tolerance);
+      for (let k = 1; k <= steps; k++) {
+        points.push(k === steps ? { ...to.point } : cubicPoint(from, to, k / steps));
+      }
+    }
+    return points;
+  });
+}
+
+// ========== 弧长与裁剪 ==========
+
+/**
+ * 轮廓的弧长参数化, 曲线段按参数t均匀采样累计弦长
+ */
+export interface ContourMeasure {
+  contour: PathContour;
+  segments: SegmentMeasure[];
+  length: number;
+}
+
+export interface SegmentMeasure {
+  from: PathVertex;
+  to: PathVertex;
+  start: number; // 段起点在轮廓上的弧长
+  lengths: number[]; // lengths[k]为t = k / n处距段起点的弧长, n为采样数
+}
+
+export function measureContour(contour: PathContour): ContourMeasure {
+  const { vertices, closed } = contour;
+  const segments: SegmentMeasure[] = [];
+  let length = 0;
+  const count = vertices.length === 0 ? 0 : closed ? vertices.length : vertices.length - 1;
+  for (let i = 0; i < count; i++) {
+    const from = vertices[i];
+    const to = vertices[(i + 1) % vertices.length];
+    const steps = isStraightSegment(from, to) ? 1 : Math.max(8, segmentSteps(from, to, MEASURE_TOLERANCE));
+    const lengths = [0];
+    let previous = from.point;
+    for (let k = 1; k <= steps; k++) {
+      const point = k === steps ? to.point : cubicPoint(from, to, k / steps);
+      lengths.push(lengths[k - 1] + Math.hypot(point.x - previous.x, point.y - previous.y));
+      previous = point;
+    }
+    segments.push({ from, to, start: length, lengths });
+    length += lengths[steps];
+  }
+  return { contour, segments, length };
+}
+
+/**
+ * 轮廓上弧长start到end之间的部分, 为开放轮廓; 覆盖整条闭合轮廓时原样返回, 长度为0时返回null
+ */
+export function contourSegment(measure: ContourMeasure, start: number, end: number): PathContour | null {
+  const { contour, segments, length } = measure;
+  if (contour.closed && start <= 0 && end >= length) return contour;
+  start = Math.max(0, start);
+  end = Math.min(length, end);
+  if (end - start < 1e-6) return null;
+
+  const vertices: PathVertex[] = [];
+  segments.forEach(segment => {
+    const segmentLength = segment.lengths[segment.lengths.length - 1];
+    if (segment.start + segmentLength <= start || segment.start >= end) return;
+    const [p0, p1, p2, p3] = subSegment(
+      segment.from,
+      segment.to,
+      segmentParameter(segment, start - segment.start),
+      segmentParameter(segment, end - segment.start)
+    );
+    if (vertices.length === 0) vertices.push({ point: p0, in: p0, out: p1 });
+    else vertices[vertices.length - 1].out = p1;
+    vertices.push({ point: p3, in: p2, out: p3 });
+  });
+  return vertices.length > 1 ? { vertices, closed: false } : null;
+}
+
+/**
+ * 在参数t处把from到to的一段一分为二, 返回改写后的起点、新增的中间顶点与改写后的终点
+ */
+export function splitSegment(from: PathVertex, to: PathVertex, t: number): [PathVertex, PathVertex, PathVertex] {
+  const [, p1, p2, p3] = subSegment(from, to, 0, t);
+  const [, q1, q2] = subSegment(from, to, t, 1);
+  return [
+    { point: from.point, in: from.in, out: p1 },
+    { point: p3, in: p2, out: q1 },
+    { point: to.point, in: q2, out: to.out }
+  ];
+}
+
+/**
+ * 按弧长裁剪轮廓, 语义与Rive的TrimPath一致
+ * offset取小数部分加到start与end上, start大于end时交换, 超出轮廓末尾的部分绕回开头(结果分为两段)
+ * sequential把全部轮廓首尾相接作为一条路径裁剪, synchronized对每条轮廓分别裁剪; 长度为0的轮廓被忽略
+ */
+export function trimContours(contours: PathContour[], trim: TrimPath): PathContour[] {
+  const measures = contours.map(measureContour).filter(measure => measure.length > 0);
+  const offset = ((trim.offset % 1) + 1) % 1;
+  const range = (length: number): [number, number] => {
+    let start = length * (trim.start + offset);
+    let end = length * (trim.end + offset);
+    if (end < start) [start, end] = [end, start];
+    if (start > length) {
+      start -= length;
+      end -= length;
+    }
+    return [start, end];
+  };
+
+  const result: PathContour[] = [];
+  const push = (measure: ContourMeasure, start: number, end: number) => {
+    const segment = contourSegment(measure, start, end);
+    if (segment) result.push(segment);
+  };
+
+  if (trim.mode === 'sequential') {
+    let [start, end] = range(measures.reduce((sum, measure) => sum + measure.length, 0));
+    for (let i = 0; end > 0 && measures.length > 0; i++) {
+      const measure = measures[i % measures.length];
+      if (start < measure.length) {
+        push(measure, start, end);
+        start = 0;
+      } else {
+        start -= measure.length;
+      }
+      end -= measure.length;
+    }
+  } else {
+    measures.forEach(measure => {
+      const [start, end] = range(measure.length);
+      push(measure, start, end);
+      if (end > measure.length) push(measure, 0, end - measure.length);
+    });
+  }
+  return result;
+}
+
+// ========== 基本图形 ==========
+
+/**
+ * 矩形轮廓, 圆角由两个顶点和一段三次曲线组成
+ */
+export function rectangleContour(x: number, y: number, width: number, height: number, radius: number): PathContour {
+  const r = Math.min(radius, width / 2, height / 2);
+  if (r <= 0) {
+    return {
+      closed: true,
+      vertices: [vertex(x, y), vertex(x + width, y), vertex(x + width, y + height), vertex(x, y + height)]
+    };
+  }
+
+  const k = r * KAPPA;
+  const vertices: PathVertex[] = [
+    { point: { x: x + r, y }, in: { x: x + r - k, y }, out: { x: x + r, y } },
+    { point: { x: x + width - r, y }, in: { x: x + width - r, y }, out: { x: x + width - r + k, y } },
+    { point: { x: x + width, y: y + r }, in: { x: x + width, y: y + r - k }, out: { x: x + width, y: y + r } },
+    { point: { x: x + width, y: y + height - r }, in: { x: x + width, y: y + height - r }, out: { x: x + width, y: y + height - r + k } },
+    { point: { x: x + width - r, y: y + height }, in: { x: x + width - r + k, y: y + height }, out: { x: x + width - r, y: y + height } },
+    { point: { x: x + r, y: y + height }, in: { x: x + r, y: y + height }, out: { x: x + r - k, y: y + height } },
+    { point: { x, y: y + height - r }, in: { x, y: y + height - r + k }, out: { x, y: y + height - r } },
+    { point: { x, y: y + r }, in: { x, y: y + r }, out: { x, y: y + r - k } }
+  ];
+  return { closed: true, vertices };
+}
+
+export function ellipseContour(cx: number, cy: number, rx: number, ry: number): PathContour {
+  const kx = rx * KAPPA;
+  const ky = ry * KAPPA;
+  return {
+    closed: true,
+    vertices: [
+      { point: { x: cx + rx, y: cy }, in: { x: cx + rx, y: cy - ky }, out: { x: cx + rx, y: cy + ky } },
+      { point: { x: cx, y: cy + ry }, in: { x: cx + kx, y: cy + ry }, out: { x: cx - kx, y: cy + ry } },
+      { point: { x: cx - rx, y: cy }, in: { x: cx - rx, y: cy + ky }, out: { x: cx - rx, y: cy - ky } },
+      { point: { x: cx, y: cy - ry }, in: { x: cx - kx, y: cy - ry }, out: { x: cx + kx, y: cy - ry } }
+    ]
+  };
+}
+
+export function isStraightVertex(v: PathVertex): boolean {
+  return samePoint(v.in, v.point) && samePoint(v.out, v.point);
+}
+
+// ========== 内部工具 ==========
+
+// 弧长采样的弦高误差
+const MEASURE_TOLERANCE = 0.05;
+
+function vertex(x: number, y: number): PathVertex {
+  return { point: { x, y }, in: { x, y }, out: { x, y } };
+}
+
+function samePoint(a: Vector2, b: Vector2): boolean {
+  return a.x === b.x && a.y === b.y;
+}
+
+function isStraightSegment(from: PathVertex, to: PathVertex): boolean {
+  return samePoint(from.out, from.point) && samePoint(to.in, to.point);
+}
+
+/**
+ * 按二阶差分估算曲线段细分为折线的段数
+ */
+function segmentSteps(from: PathVertex, to: PathVertex, tolerance: number): number {
+  const d1 = Math.hypot(from.point.x - 2 * from.out.x + to.in.x, from.point.y - 2 * from.out.y + to.in.y);
+  const d2 = Math.hypot(from.out.x - 2 * to.in.x + to.point.x, from.out.y - 2 * to.in.y + to.point.y);
+  return Math.max(1, Math.min(128, Math.ceil(Math.sqrt((0.75 * Math.max(d1, d2)) / tolerance))));
+}
+
+/**
+ * 段内弧长distance对应的参数t, 在相邻采样之间线性插值
+ */
+function segmentParameter(segment: SegmentMeasure, distance: number): number {
+  const { lengths } = segment;
+  const n = lengths.length - 1;
+  if (distance <= 0 || lengths[n] === 0) return 0;
+  if (distance >= lengths[n]) return 1;
+  let k = 1;
+  while (lengths[k] < distance) k++;
+  const span = lengths[k] - lengths[k - 1];
+  return (k - 1 + (span > 0 ? (distance - lengths[k - 1]) / span : 0)) / n;
+}
+
+/**
+ * 段上参数t0到t1之间部分的起点、两个控制点与终点; 直线段的控制点与端点重合
+ */
+function subSegment(from: PathVertex, to: PathVertex, t0: number, t1: number): [Vector2, Vector2, Vector2, Vector2] {
+  const lerp = (a: Vector2, b: Vector2, t: number) => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+  if (isStraightSegment(from, to)) {
+    const a = lerp(from.point, to.point, t0);
+    const b = lerp(from.point, to.point, t1);
+    return [a, a, b, b];
+  }
+  // de Casteljau: 先取[0, t1], 再取其中的[t0 / t1, 1]
+  const split = (p: Vector2[], t: number, right: boolean): Vector2[] => {
+    const q0 = lerp(p[0], p[1], t);
+    const q1 = lerp(p[1], p[2], t);
+    const q2 = lerp(p[2], p[3], t);
+    const r0 = lerp(q0, q1, t);
+    const r1 = lerp(q1, q2, t);
+    const s = lerp(r0, r1, t);
+    return right ? [s, r1, q2, p[3]] : [p[0], q0, r0, s];
+  };
+  let points: Vector2[] = [from.point, from.out, to.in, to.point];
+  if (t1 < 1) points = split(points, t1, false);
+  if (t0 > 0) points = split(points, t1 > 0 ? t0 / t1 : 0, true);
+  return [points[0], points[1], points[2], points[3]];
+}
+
+function segmentCommand(from: PathVertex, to: PathVertex): PathCommand {
+  if (isStraightSegment(from, to)) {
+    return { type: 'L', x: to.point.x, y: to.point.y };
+  }
+  return { type: 'C', x1: from.out.x, y1: from.out.y, x2: to.in.x, y2: to.in.y, x: to.point.x, y: to.point.y };
+}
+
+/**
+ * 一维三次贝塞尔导数为零的参数(0, 1)
+ */
+function cubicExtrema(p0: number, p1: number, p2: number, p3: number): number[] {
+  // B'(t)/3 = a t² + b t + c
+  const a = -p0 + 3 * p1 - 3 * p2 + p3;
+  const b = 2 * (p0 - 2 * p1 + p2);
+  const c = p1 - p0;
+  const roots: number[] = [];
+
+  if (Math.abs(a) < 1e-12) {
+    if (Math.abs(b) > 1e-12) roots.push(-c / b);
+  } else {
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant >= 0) {
+      const sqrt = Math.sqrt(discriminant);
+      roots.push((-b + sqrt) / (2 * a), (-b - sqrt) / (2 * a));
+    }
+  }
+  return roots.filter(t => t > 0 && t < 1);
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { conformContours, handleKeyframes, morphPathData, type MorphSource } from './path-morph';
+import { parseContours, serializeContours } from './path-model';
+
+const SQUARE = 'M0 0 L10 0 L10 10 L0 10 Z';
+const TRIANGLE = 'M0 0 L10 0 L0 10 Z';
+
+/**
+ * 按顺序统一各段路径数据, 返回统一后的路径数据
+ */
+function conform(...sources: Array<string | (Omit<MorphSource, 'contours'> & { pathData: string })>): string[] {
+  const result = conformContours(sources.map(source =>
+    typeof source === 'string'
+      ? { contours: parseContours(source) }
+      : { ...source, contours: parseContours(source.pathData) }
+  ));
+  return result.map(contours => serializeContours(contours));
+}
+
+describe('conformContours', () => {
+  it('顶点较少的轮廓在最长段中点细分, 形状不变', () => {
+    expect(conform(TRIANGLE, SQUARE)).toEqual(['M0 0 L10 0 L5 5 L0 10 Z', SQUARE]);
+  });
+
+  it('绕向相反的闭合轮廓反向对齐', () => {
+    expect(conform(SQUARE, 'M0 0 L0 10 L10 10 L10 0 Z')).toEqual([SQUARE, SQUARE]);
+  });
+
+  it('起点旋转到与参照轮廓最接近的顶点', () => {
+    expect(conform(SQUARE, 'M10 10 L0 10 L0 0 L10 0 Z')).toEqual([SQUARE, SQUARE]);
+  });
+
+  it('对齐按相对重心的位置比较, 平移不影响起点', () => {
+    const moved = 'M100 100 L110 100 L110 110 L100 110 Z';
+    expect(conform(SQUARE, moved)).toEqual([SQUARE, moved]);
+  });
+
+  it('缺少的轮廓退化为另一端轮廓重心处的一点', () => {
+    const [start, end] = conform(`${SQUARE} M20 20 L30 20 L30 30 Z`, SQUARE);
+    expect(start).toBe(`${SQUARE} M20 20 L30 20 L30 30 Z`);
+    expect(end).toBe(`${SQUARE} M26.667 23.333 L26.667 23.333 L26.667 23.333 Z`);
+  });
+
+  it('只有一端闭合时都按开放轮廓处理, 闭合段改为显式的一段', () => {
+    expect(conform('M0 0 L10 0 L10 10', SQUARE)).toEqual(['M0 0 L5 0 L10 0 L10 5 L10 10', 'M0 0 L10 0 L10 10 L0 10 L0 0']);
+  });
+
+  it('多组轮廓依次对齐到前一组, alignTo可以指定参照组', () => {
+    const reversed = 'M0 0 L0 10 L10 10 L10 0 Z';
+    expect(conform(TRIANGLE, SQUARE, 'M0 0 L10 0 L10 10 L5 15 L0 10 Z')).toEqual([
+      'M0 0 L5 0 L10 0 L5 5 L0 10 Z',
+      'M0 0 L5 0 L10 0 L10 10 L0 10 Z',
+      'M0 0 L10 0 L10 10 L5 15 L0 10 Z'
+    ]);
+    expect(conform(SQUARE, reversed, { pathData: reversed, alignTo: 0 })).toEqual([SQUARE, SQUARE, SQUARE]);
+  });
+});
+
+describe('conformContours 手动对应关系', () => {
+  it('startVertex指定对应起点的目标顶点', () => {
+    const [, end] = conform(SQUARE, { pathData: SQUARE, correspondence: [{ contour: 0, target: 0, startVertex: 2 }] });
+    expect(end).toBe('M10 10 L0 10 L0 0 L10 0 Z');
+  });
+
+  it('reversed强制目标轮廓反向', () => {
+    const [, end] = conform(SQUARE, { pathData: SQUARE, correspondence: [{ contour: 0, target: 0, reversed: true }] });
+    expect(end).toBe('M0 0 L0 10 L10 10 L10 0 Z');
+  });
+
+  it('交换轮廓的对应顺序', () => {
+    const two = 'M0 0 L1 0 L1 1 Z M50 50 L51 50 L51 51 Z';
+    const [, end] = conform(two, {
+      pathData: two,
+      correspondence: [{ contour: 0, target: 1 }, { contour: 1, target: 0 }]
+    });
+    expect(end).toBe('M50 50 L51 50 L51 51 Z M0 0 L1 0 L1 1 Z');
+  });
+});
+
+describe('morphPathData', () => {
+  it('两端为原始形状, 中间逐顶点插值', () => {
+    expect(morphPathData(TRIANGLE, SQUARE, 0)).toBe('M0 0 L10 0 L5 5 L0 10 Z');
+    expect(morphPathData(TRIANGLE, SQUARE, 1)).toBe(SQUARE);
+    expect(morphPathData(TRIANGLE, SQUARE, 0.5)).toBe('M0 0 L10 0 L7.5 7.5 L0 10 Z');
+  });
+});
+
+describe('handleKeyframes', () => {
+  it('长度为0的控制柄沿用下一帧的角度', () => {
+    const [first, second] = handleKeyframes([
+      { point: { x: 0, y: 0 }, handle: { x: 0, y: 0 } },
+      { point: { x: 0, y: 0 }, handle: { x: 0, y: 5 } }
+    ]);
+    expect(first).toEqual({ rotation: Math.PI / 2, distance: 0 });
+    expect(second).toEqual({ rotation: Math.PI / 2, distance: 5 });
+  });
+
+  it('角度跨越±π时展开为连续值', () => {
+    const [first, second] = handleKeyframes([
+      { point: { x: 0, y: 0 }, handle: { x: -5, y: 0.01 } },
+      { point: { x: 0, y: 0 }, handle: { x: -5, y: -0.01 } }
+    ]);
+    expect(first.rotation).toBeCloseTo(Math.PI - 0.002);
+    expect(second.rotation).toBeCloseTo(Math.PI + 0.002);
+  });
+});
@@ -0,0 +1,374 @@
+// ============================================
+// RIV Editor - 路径变形
+// 顶点结构不同的路径先转为兼容结构(细分线段、统一绕向与起点), 再逐顶点插值
+// ============================================
+
+import type { Vector2 } from './riv-editor-engine';
+import { parseContours, serializeContours, splitSegment, type PathContour, type PathVertex } from './path-model';
+
+/**
+ * 手动指定的对应关系: contour为起始关键帧中的轮廓序号, target为下一关键帧中对应的轮廓序号
+ * startVertex为对应起始轮廓第0个顶点的目标顶点序号(只用于两端都闭合的轮廓), reversed为目标轮廓是否反向
+ * 未指定的轮廓按序号对应, 未指定的起点与方向自动选择
+ */
+export interface MorphCorrespondence {
+  contour: number;
+  target: number;
+  startVertex?: number;
+  reversed?: boolean;
+}
+
+/**
+ * 参与统一的一组轮廓; alignTo为对齐参照组的序号(默认前一组), correspondence描述参照组到本组的对应关系
+ */
+export interface MorphSource {
+  contours: PathContour[];
+  alignTo?: number;
+  correspondence?: MorphCorrespondence[];
+}
+
+/**
+ * 把多组轮廓转为兼容结构: 每组轮廓数相同(缺少的轮廓退化为一点), 对应轮廓的顶点数与开闭一致,
+ * 且按绕向与起点对齐到参照组; 只有部分组闭合的轮廓统一按开放轮廓处理(闭合段改为显式的一段)
+ */
+export function conformContours(sources: MorphSource[]): PathContour[][] {
+  // 轮廓分配到槽位, 同一槽位的轮廓互相对应
+  const slotMaps: number[][] = [];
+  let slotCount = 0;
+  sources.forEach((source, i) => {
+    const parentSlots = i === 0 ? [] : slotMaps[source.alignTo ?? i - 1];
+    slotMaps.push(assignSlots(source, parentSlots, () => slotCount++));
+  });
+
+  const table = sources.map((source, i) => {
+    const row: Array<ConformedContour | null> = new Array(slotCount).fill(null);
+    source.contours.forEach((contour, j) => {
+      row[slotMaps[i][j]] = toConformed(contour);
+    });
+    return row;
+  });
+
+  for (let slot = 0; slot < slotCount; slot++) {
+    const present = table.map(row => row[slot]).filter((contour): contour is ConformedContour => contour !== null);
+    const closed = present.every(contour => contour.closed);
+    if (!closed) present.forEach(openContour);
+    const count = Math.max(...present.map(contour => contour.vertices.length));
+    present.forEach(contour => subdivide(contour, count));
+    const center = centroid(present[0].vertices);
+    table.forEach(row => {
+      if (!row[slot]) row[slot] = degenerateContour(center, count, closed);
+    });
+  }
+
+  sources.forEach((source, i) => {
+    if (i === 0) return;
+    const parentIndex = source.alignTo ?? i - 1;
+    for (let slot = 0; slot < slotCount; slot++) {
+      const contour = table[i][slot]!;
+      const parent = table[parentIndex][slot]!;
+      if (contour.degenerate || parent.degenerate) continue;
+      const override = source.correspondence?.find(entry =>
+        slotMaps[parentIndex][entry.contour] === slot && slotMaps[i][entry.target] === slot
+      );
+      align(contour, parent, override);
+    }
+  });
+
+  return table.map(row => row.map(contour => ({ vertices: contour!.vertices, closed: contour!.closed })));
+}
+
+/**
+ * 兼容结构的两组轮廓逐顶点插值: 顶点位置线性插值, 控制柄按相对顶点的角度(较短方向)与长度插值
+ */
+export function interpolateContours(from: PathContour[], to: PathContour[], progress: number): PathContour[] {
+  return from.map((contour, i) => ({
+    closed: contour.closed,
+    vertices: contour.vertices.map((start, j) => {
+      const end = to[i].vertices[j];
+      const point = lerp(start.point, end.point, progress);
+      return {
+        point,
+        in: interpolateHandle(start.point, start.in, end.point, end.in, point, progress),
+        out: interpolateHandle(start.point, start.out, end.point, end.out, point, progress)
+      };
+    })
+  }));
+}
+
+/**
+ * 两段SVG路径数据之间的变形, 兼容结构按两端路径数据与对应关系缓存
+ * 路径数据无效时抛出PathDataError
+ */
+export function morphPathData(
+  from: string,
+  to: string,
+  progress: number,
+  correspondence?: MorphCorrespondence[]
+): string {
+  const key = `${from}\n${to}\n${JSON.stringify(correspondence ?? [])}`;
+  let pair = morphCache.get(key);
+  if (!pair) {
+    const [start, end] = conformContours([
+      { contours: parseContours(from) },
+      { contours: parseContours(to), correspondence }
+    ]);
+    pair = [start, end];
+    if (morphCache.size >= MORPH_CACHE_SIZE) morphCache.delete(morphCache.keys().next().value!);
+    morphCache.set(key, pair);
+  }
+  return serializeContours(interpolateContours(pair[0], pair[1], progress));
+}
+
+/**
+ * 同一控制柄在各关键帧的极坐标(相对顶点的角度与长度), 与Rive的CubicDetachedVertex一致
+ * 长度为0的控制柄沿用相邻关键帧的角度(优先下一帧), 角度展开为连续值, 逐值线性插值时与interpolateContours一致
+ */
+export function handleKeyframes(handles: Array<{ point: Vector2; handle: Vector2 }>): Array<{ rotation: number; distance: number }> {
+  const polar = handles.map(({ point, handle }) => ({
+    rotation: Math.atan2(handle.y - point.y, handle.x - point.x),
+    distance: Math.hypot(handle.x - point.x, handle.y - point.y)
+  }));
+  polar.forEach((value, i) => {
+    if (value.distance > 0) return;
+    const next = polar.slice(i + 1).find(candidate => candidate.distance > 0);
+    const previous = polar.slice(0, i).reverse().find(candidate => candidate.distance > 0);
+    value.rotation = (next ?? previous ?? value).rotation;
+  });
+  polar.forEach((value, i) => {
+    if (i > 0) value.rotation = polar[i - 1].rotation + angleDelta(polar[i - 1].rotation, value.rotation);
+  });
+  return polar;
+}
+
+// ========== 内部工具 ==========
+
+const MORPH_CACHE_SIZE = 32;
+
+const morphCache = new Map<string, [PathContour[], PathContour[]]>();
+
+interface ConformedContour {
+  vertices: PathVertex[];
+  origin: number[]; // 各顶点在原轮廓中的序号, 细分或补齐的顶点为-1
+  closed: boolean;
+  reversed: boolean; // 相对原轮廓是否反向
+  degenerate: boolean; // 退化为一点的占位轮廓
+}
+
+/**
+ * 本组各轮廓的槽位: 先按手动对应关系, 再按序号对应参照组中尚未占用的槽位, 其余开新槽位
+ */
+function assignSlots(source: MorphSource, parentSlots: number[], nextSlot: () => number): number[] {
+  const slots: number[] = new Array(source.contours.length).fill(-1);
+  const taken = new Set<number>();
+  (source.correspondence ?? []).forEach(entry => {
+    const slot = parentSlots[entry.contour];
+    if (slot === undefined || slots[entry.target] !== -1 || taken.has(slot)) return;
+    slots[entry.target] = slot;
+    taken.add(slot);
+  });
+  return slots.map((slot, j) => {
+    if (slot !== -1) return slot;
+    const candidate = parentSlots[j];
+    if (candidate !== undefined && !taken.has(candidate)) {
+      taken.add(candidate);
+      return candidate;
+    }
+    return nextSlot();
+  });
+}
+
+function toConformed(contour: PathContour): ConformedContour {
+  return {
+    vertices: contour.vertices.map(copyVertex),
+    origin: contour.vertices.map((_, i) => i),
+    closed: contour.closed,
+    reversed: false,
+    degenerate: false
+  };
+}
+
+function degenerateContour(center: Vector2, count: number, closed: boolean): ConformedContour {
+  return {
+    vertices: Array.from({ length: count }, () => ({ point: { ...center }, in: { ...center }, out: { ...center } })),
+    origin: new Array(count).fill(-1),
+    closed,
+    reversed: false,
+    degenerate: true
+  };
+}
+
+function copyVertex(vertex: PathVertex): PathVertex {
+  return { point: { ...vertex.point }, in: { ...vertex.in }, out: { ...vertex.out } };
+}
+
+/**
+ * 闭合轮廓改为开放轮廓: 起点复制到末尾, 闭合段成为显式的一段
+ */
+function openContour(contour: ConformedContour): void {
+  if (!contour.closed || contour.vertices.length === 0) {
+    contour.closed = false;
+    return;
+  }
+  const first = contour.vertices[0];
+  contour.vertices.push({ point: { ...first.point }, in: first.in, out: { ...first.point } });
+  contour.vertices[0] = { ...first, in: { ...first.point } };
+  contour.origin.push(-1);
+  contour.closed = false;
+}
+
+/**
+ * 反复在中点拆分最长的一段, 直到顶点数达到count; 形状不变
+ */
+function subdivide(contour: ConformedContour, count: number): void {
+  const { vertices, origin } = contour;
+  while (vertices.length < count) {
+    const n = vertices.length;
+    const segmentCount = contour.closed ? n : n - 1;
+    if (segmentCount <= 0 || n === 1) {
+      const point = vertices[0]?.point ?? { x: 0, y: 0 };
+      vertices.push({ point: { ...point }, in: { ...point }, out: { ...point } });
+      origin.push(-1);
+      continue;
+    }
+    let longest = 0;
+    let longestLength = -1;
+    for (let k = 0; k < segmentCount; k++) {
+      const length = segmentLength(vertices[k], vertices[(k + 1) % n]);
+      if (length > longestLength) {
+        longest = k;
+        longestLength = length;
+      }
+    }
+    const next = (longest + 1) % n;
+    const [from, middle, to] = splitSegment(vertices[longest], vertices[next], 0.5);
+    vertices[longest] = from;
+    vertices[next] = to;
+    vertices.splice(longest + 1, 0, middle);
+    origin.splice(longest + 1, 0, -1);
+  }
+}
+
+/**
+ * 段长估计: 弦长与控制多边形长度的平均
+ */
+function segmentLength(from: PathVertex, to: PathVertex): number {
+  const distance = (a: Vector2, b: Vector2) => Math.hypot(b.x - a.x, b.y - a.y);
+  const chord = distance(from.point, to.point);
+  const polygon = distance(from.point, from.out) + distance(from.out, to.in) + distance(to.in, to.point);
+  return (chord + polygon) / 2;
+}
+
+/**
+ * 对齐到参照轮廓: 先定方向(手动指定, 否则闭合轮廓按绕向、开放轮廓按顶点距离), 闭合轮廓再定起点
+ * 手动指定的方向与起点相对参照轮廓的原始顶点顺序
+ */
+function align(contour: ConformedContour, parent: ConformedContour, override?: MorphCorrespondence): void {
+  let reverse: boolean;
+  if (override?.reversed !== undefined) {
+    reverse = override.reversed !== parent.reversed;
+  } else if (contour.closed) {
+    reverse = signedArea(contour.vertices) * signedArea(parent.vertices) < 0;
+  } else {
+    reverse = alignmentCost(reversedVertices(contour), parent.vertices) < alignmentCost(contour.vertices, parent.vertices);
+  }
+  if (reverse) reverseContour(contour);
+  if (!contour.closed) return;
+
+  const n = contour.vertices.length;
+  const start = override?.startVertex !== undefined ? contour.origin.indexOf(override.startVertex) : -1;
+  const anchor = parent.origin.indexOf(0);
+  let shift = 0;
+  if (start >= 0 && anchor >= 0) {
+    shift = start - anchor;
+  } else {
+    let best = Infinity;
+    for (let s = 0; s < n; s++) {
+      const cost = alignmentCost(rotate(contour.vertices, s), parent.vertices);
+      if (cost < best) {
+        best = cost;
+        shift = s;
+      }
+    }
+  }
+  contour.vertices = rotate(contour.vertices, shift);
+  contour.origin = rotate(contour.origin, shift);
+}
+
+/**
+ * 反向后的顶点, 闭合轮廓保持第0个顶点不动
+ */
+function reversedVertices(contour: ConformedContour): PathVertex[] {
+  const swapped = contour.vertices.map(vertex => ({ point: vertex.point, in: vertex.out, out: vertex.in }));
+  return reorder(swapped, contour.closed);
+}
+
+function reverseContour(contour: ConformedContour): void {
+  contour.vertices = reversedVertices(contour);
+  contour.origin = reorder(contour.origin, contour.closed);
+  contour.reversed = !contour.reversed;
+}
+
+function reorder<T>(items: T[], closed: boolean): T[] {
+  const reversed = [...items].reverse();
+  return closed && items.length > 0 ? [items[0], ...reversed.slice(0, -1)] : reversed;
+}
+
+function rotate<T>(items: T[], shift: number): T[] {
+  const n = items.length;
+  return items.map((_, k) => items[(((k + shift) % n) + n) % n]);
+}
+
+/**
+ * 对应顶点相对各自重心的距离平方和
+ */
+function alignmentCost(vertices: PathVertex[], reference: PathVertex[]): number {
+  const a = centroid(vertices);
+  const b = centroid(reference);
+  return vertices.reduce((sum, vertex, i) => {
+    const dx = vertex.point.x - a.x - (reference[i].point.x - b.x);
+    const dy = vertex.point.y - a.y - (reference[i].point.y - b.y);
+    return sum + dx * dx + dy * dy;
+  }, 0);
+}
+
+function centroid(vertices: PathVertex[]): Vector2 {
+  if (vertices.length === 0) return { x: 0, y: 0 };
+  const sum = vertices.reduce((acc, vertex) => ({ x: acc.x + vertex.point.x, y: acc.y + vertex.point.y }), { x: 0, y: 0 });
+  return { x: sum.x / vertices.length, y: sum.y / vertices.length };
+}
+
+/**
+ * 顶点多边形的有向面积, 符号即绕向
+ */
+function signedArea(vertices: PathVertex[]): number {
+  return vertices.reduce((sum, vertex, i) => {
+    const next = vertices[(i + 1) % vertices.length].point;
+    return sum + vertex.point.x * next.y - next.x * vertex.point.y;
+  }, 0) / 2;
+}
+
+function lerp(a: Vector2, b: Vector2, t: number): Vector2 {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+function angleDelta(from: number, to: number): number {
+  return Math.atan2(Math.sin(to - from), Math.cos(to - from));
+}
+
+function interpolateHandle(
+  fromPoint: Vector2,
+  fromHandle: Vector2,
+  toPoint: Vector2,
+  toHandle: Vector2,
+  point: Vector2,
+  progress: number
+): Vector2 {
+  const fromLength = Math.hypot(fromHandle.x - fromPoint.x, fromHandle.y - fromPoint.y);
+  const toLength = Math.hypot(toHandle.x - toPoint.x, toHandle.y - toPoint.y);
+  if (fromLength === 0 && toLength === 0) return { ...point };
+  const toAngle = Math.atan2(toHandle.y - toPoint.y, toHandle.x - toPoint.x);
+  const fromAngle = fromLength > 0 ? Math.atan2(fromHandle.y - fromPoint.y, fromHandle.x - fromPoint.x) : toAngle;
+  const angle = fromAngle + angleDelta(fromAngle, toLength > 0 ? toAngle : fromAngle) * progress;
+  const length = fromLength + (toLength - fromLength) * progress;
+  return { x: point.x + Math.cos(angle) * length, y: point.y + Math.sin(angle) * length };
+}
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import { PlaybackController, type PlaybackClock, type PlaybackLoop } from './playback';
+
+/**
+ * 手动推进的时钟: advance时执行已请求的帧回调
+ */
+class ManualClock implements PlaybackClock {
+  time = 0;
+  private callbacks = new Map<number, () => void>();
+  private nextHandle = 1;
+
+  now(): number {
+    return this.time;
+  }
+
+  request(callback: () => void): number {
+    const handle = this.nextHandle++;
+    this.callbacks.set(handle, callback);
+    return handle;
+  }
+
+  cancel(handle: number): void {
+    this.callbacks.delete(handle);
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+    const pending = Array.from(this.callbacks.values());
+    this.callbacks.clear();
+    pending.forEach(callback => callback());
+  }
+}
+
+function createController(loop: PlaybackLoop = 'loop', fps = 10) {
+  const clock = new ManualClock();
+  const controller = new PlaybackController({ duration: 1000, fps, loop }, clock);
+  return { clock, controller };
+}
+
+describe('PlaybackController 循环方式', () => {
+  it('once: 停在末尾, 再次播放时从头开始', () => {
+    const { clock, controller } = createController('once');
+    controller.play();
+    clock.advance(600);
+    expect(controller.getState()).toMatchObject({ time: 600, playing: true });
+    clock.advance(600);
+    expect(controller.getState()).toMatchObject({ time: 1000, frame: 10, playing: false });
+
+    controller.play();
+    expect(controller.getState()).toMatchObject({ time: 0, playing: true });
+  });
+
+  it('loop: 越过末尾后回到开头继续播放', () => {
+    const { clock, controller } = createController('loop');
+    controller.play();
+    clock.advance(1200);
+    expect(controller.getState()).toMatchObject({ time: 200, playing: true });
+  });
+
+  it('pingpong: 在两端折返', () => {
+    const { clock, controller } = createController('pingpong');
+    controller.play();
+    clock.advance(1200);
+    expect(controller.getState()).toMatchObject({ time: 800, direction: -1 });
+    clock.advance(900);
+    expect(controller.getState()).toMatchObject({ time: 100, direction: 1, playing: true });
+  });
+
+  it('播放速度按倍数推进', () => {
+    const { clock, controller } = createController();
+    controller.setSpeed(2);
+    controller.play();
+    clock.advance(250);
+    expect(controller.getState().time).toBe(500);
+  });
+});
+
+describe('PlaybackController 工作区', () => {
+  it('播放头在工作区外时从工作区开头播放, 只在工作区内循环', () => {
+    const { clock, controller } = createController('loop');
+    controller.setWorkArea({ in: 200, out: 600 });
+    controller.play();
+    expect(controller.getState().time).toBe(200);
+    clock.advance(500);
+    expect(controller.getState().time).toBe(300);
+  });
+
+  it('once停在工作区末尾', () => {
+    const { clock, controller } = createController('once');
+    controller.setWorkArea({ in: 200, out: 600 });
+    controller.play();
+    clock.advance(1000);
+    expect(controller.getState()).toMatchObject({ time: 600, playing: false });
+  });
+
+  it('in大于out时交换, 超出时长的部分收拢, null恢复为整个时长', () => {
+    const { controller } = createController();
+    controller.setWorkArea({ in: 1500, out: 300 });
+    expect(controller.getState().workArea).toEqual({ in: 300, out: 1000 });
+    controller.setWorkArea(null);
+    expect(controller.getState().workArea).toEqual({ in: 0, out: 1000 });
+  });
+
+  it('stop回到工作区开头', () => {
+    const { clock, controller } = createController();
+    controller.setWorkArea({ in: 200, out: 600 });
+    controller.play();
+    clock.advance(100);
+    controller.stop();
+    expect(controller.getState()).toMatchObject({ time: 200, playing: false });
+  });
+});
+
+describe('PlaybackController 逐帧', () => {
+  it('暂停并按帧移动, 结果对齐到帧', () => {
+    const { clock, controller } = createController();
+    controller.play();
+    clock.advance(250);
+    controller.step(1);
+    expect(controller.getState()).toMatchObject({ time: 300, frame: 3, playing: false });
+    controller.step(-2);
+    expect(controller.getState()).toMatchObject({ time: 100, frame: 1 });
+  });
+
+  it('限制在第一帧与最后一帧之间', () => {
+    const { controller } = createController();
+    controller.step(-5);
+    expect(controller.getState().frame).toBe(0);
+    controller.step(100);
+    expect(controller.getState()).toMatchObject({ time: 1000, frame: 10 });
+  });
+});
+
+describe('PlaybackController 拖动定位', () => {
+  it('播放中拖动时暂停, 结束后从新位置继续播放', () => {
+    const { clock, controller } = createController();
+    controller.play();
+    clock.advance(100);
+    controller.scrub(500);
+    expect(controller.getState()).toMatchObject({ time: 500, playing: false, scrubbing: true });
+
+    clock.advance(100);
+    expect(controller.getState().time).toBe(500);
+
+    controller.endScrub();
+    expect(controller.getState()).toMatchObject({ playing: true, scrubbing: false });
+    clock.advance(100);
+    expect(controller.getState().time).toBe(600);
+  });
+
+  it('暂停时拖动, 结束后保持暂停; 定位限制在时长内', () => {
+    const { controller } = createController();
+    controller.scrub(1500);
+    controller.endScrub();
+    expect(controller.getState()).toMatchObject({ time: 1000, playing: false, scrubbing: false });
+  });
+});
+
+describe('PlaybackController 设置', () => {
+  it('setDuration缩短时限制播放头与工作区', () => {
+    const { controller } = createController();
+    controller.seek(800);
+    controller.setDuration(500);
+    expect(controller.getState()).toMatchObject({ time: 500, duration: 500, workArea: { in: 0, out: 500 } });
+  });
+
+  it('setDuration: 覆盖到末尾的工作区随时长延伸, 否则保持不变', () => {
+    const { controller } = createController();
+    controller.setDuration(1500);
+    expect(controller.getState().workArea).toEqual({ in: 0, out: 1500 });
+
+    controller.setWorkArea({ in: 200, out: 600 });
+    controller.setDuration(2000);
+    expect(controller.getState().workArea).toEqual({ in: 200, out: 600 });
+    controller.setDuration(100);
+    expect(controller.getState().workArea).toEqual({ in: 100, out: 100 });
+  });
+
+  it('setFps保持播放头时间, 重新计算所在帧', () => {
+    const { controller } = createController();
+    controller.seek(250);
+    expect(controller.getState().frame).toBe(2);
+    controller.setFps(60);
+    expect(controller.getState()).toMatchObject({ time: 250, frame: 15 });
+  });
+
+  it('无效的帧率与播放速度抛出RangeError', () => {
+    const { controller } = createController();
+    expect(() => controller.setFps(0)).toThrow(RangeError);
+    expect(() => controller.setSpeed(Number.NaN)).toThrow('播放速度必须为正数: NaN');
+  });
+
+  it('状态变化时通知订阅者, 取消订阅后不再通知', () => {
+    const { controller } = createController();
+    const times: number[] = [];
+    const unsubscribe = controller.subscribe(state => times.push(state.time));
+    controller.seek(100);
+    controller.seek(100);
+    unsubscribe();
+    controller.seek(200);
+    expect(times).toEqual([100]);
+  });
+});
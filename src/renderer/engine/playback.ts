@@ -0,0 +1,307 @@
+// ============================================
+// RIV Editor - 播放控制
+// 按实际经过的时间推进播放头: 帧率、播放速度、once/loop/pingpong、工作区、逐帧与拖动定位
+// ============================================
+
+export type PlaybackLoop = 'once' | 'loop' | 'pingpong';
+
+/**
+ * 工作区(毫秒), 播放只在in到out之间进行
+ */
+export interface PlaybackRange {
+  in: number;
+  out: number;
+}
+
+export interface PlaybackState {
+  time: number; // 播放头位置(毫秒)
+  frame: number; // 播放头所在帧
+  playing: boolean;
+  scrubbing: boolean;
+  direction: 1 | -1; // pingpong的当前方向
+  fps: number;
+  speed: number; // 播放速度倍数
+  loop: PlaybackLoop;
+  duration: number; // 毫秒
+  workArea: PlaybackRange;
+}
+
+/**
+ * 时钟与帧调度, 默认为performance.now与requestAnimationFrame
+ */
+export interface PlaybackClock {
+  now(): number;
+  request(callback: () => void): number;
+  cancel(handle: number): void;
+}
+
+export const DEFAULT_PLAYBACK_FPS = 60;
+export const DEFAULT_PLAYBACK_DURATION = 2000;
+
+export const animationFrameClock: PlaybackClock = {
+  now: () => performance.now(),
+  request: callback => requestAnimationFrame(callback),
+  cancel: handle => cancelAnimationFrame(handle)
+};
+
+export class PlaybackController {
+  private state: PlaybackState;
+  private listeners = new Set<(state: PlaybackState) => void>();
+  private handle: number | null = null;
+  private lastTick = 0;
+  private resumeAfterScrub = false;
+
+  constructor(
+    options: Partial<Pick<PlaybackState, 'fps' | 'speed' | 'loop' | 'duration'>> = {},
+    private readonly clock: PlaybackClock = animationFrameClock
+  ) {
+    const duration = Math.max(0, options.duration ?? DEFAULT_PLAYBACK_DURATION);
+    this.state = {
+      time: 0,
+      frame: 0,
+      playing: false,
+      scrubbing: false,
+      direction: 1,
+      fps: validFps(options.fps ?? DEFAULT_PLAYBACK_FPS),
+      speed: validSpeed(options.speed ?? 1),
+      loop: options.loop ?? 'loop',
+      duration,
+      workArea: { in: 0, out: duration }
+    };
+  }
+
+  /**
+   * 当前状态快照, 状态变化时替换为新对象
+   */
+  getState(): PlaybackState {
+    return this.state;
+  }
+
+  /**
+   * 订阅状态变化, 返回取消订阅的函数
+   */
+  subscribe(listener: (state: PlaybackState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ========== 播放 ==========
+
+  /**
+   * 开始播放; 播放头不在工作区内, 或once模式已停在工作区末尾时从工作区开头播放
+   */
+  play(): void {
+    if (this.state.playing) return;
+    const { time, workArea, loop } = this.state;
+    const atEnd = loop === 'once' && time >= workArea.out;
+    const restart = time < workArea.in || time > workArea.out || atEnd;
+    this.update({ playing: true, ...(restart && { time: workArea.in, direction: 1 }) });
+    this.lastTick = this.clock.now();
+    this.schedule();
+  }
+
+  pause(): void {
+    if (!this.state.playing) return;
+    this.cancel();
+    this.update({ playing: false });
+  }
+
+  toggle(): void {
+    if (this.state.playing) this.pause();
+    else this.play();
+  }
+
+  /**
+   * 停止并回到工作区开头
+   */
+  stop(): void {
+    this.cancel();
+    this.update({ playing: false, time: this.state.workArea.in, direction: 1 });
+  }
+
+  // ========== 定位 ==========
+
+  /**
+   * 播放头移到time(毫秒), 限制在0到时长之间; 播放中定位后从新位置继续
+   */
+  seek(time: number): void {
+    this.update({ time: clamp(time, 0, this.state.duration) });
+    this.lastTick = this.clock.now();
+  }
+
+  seekFrame(frame: number): void {
+    this.seek(this.timeOfFrame(frame));
+  }
+
+  /**
+   * 暂停并前后移动count帧, 结果对齐到帧
+   */
+  step(count: number): void {
+    this.pause();
+    const lastFrame = this.frameAt(this.state.duration);
+    this.seek(this.timeOfFrame(clamp(this.state.frame + Math.trunc(count), 0, lastFrame)));
+  }
+
+  /**
+   * 拖动播放头期间暂停, 结束拖动后恢复之前的播放状态
+   */
+  beginScrub(): void {
+    if (this.state.scrubbing) return;
+    this.resumeAfterScrub = this.state.playing;
+    this.pause();
+    this.update({ scrubbing: true });
+  }
+
+  scrub(time: number): void {
+    if (!this.state.scrubbing) this.beginScrub();
+    this.seek(time);
+  }
+
+  endScrub(): void {
+    if (!this.state.scrubbing) return;
+    this.update({ scrubbing: false });
+    if (this.resumeAfterScrub) this.play();
+    this.resumeAfterScrub = false;
+  }
+
+  // ========== 设置 ==========
+
+  setFps(fps: number): void {
+    this.update({ fps: validFps(fps) });
+  }
+
+  setSpeed(speed: number): void {
+    this.update({ speed: validSpeed(speed) });
+  }
+
+  setLoop(loop: PlaybackLoop): void {
+    this.update({ loop, direction: 1 });
+  }
+
+  /**
+   * 修改时长; 工作区原本覆盖到末尾时随时长延伸, 否则收拢到新时长内
+   */
+  setDuration(duration: number): void {
+    const { workArea } = this.state;
+    const next = Math.max(0, duration);
+    const out = workArea.out >= this.state.duration ? next : Math.min(workArea.out, next);
+    this.update({
+      duration: next,
+      workArea: { in: Math.min(workArea.in, out), out },
+      time: Math.min(this.state.time, next)
+    });
+  }
+
+  /**
+   * 设置工作区(毫秒), 为null时恢复为整个时长; in大于out时交换
+   */
+  setWorkArea(range: PlaybackRange | null): void {
+    const { duration } = this.state;
+    const start = clamp(range?.in ?? 0, 0, duration);
+    const end = clamp(range?.out ?? duration, 0, duration);
+    this.update({ workArea: { in: Math.min(start, end), out: Math.max(start, end) } });
+  }
+
+  // ========== 帧换算 ==========
+
+  /**
+   * time(毫秒)所在的帧
+   */
+  frameAt(time: number): number {
+    return Math.floor((time / 1000) * this.state.fps + 1e-9);
+  }
+
+  timeOfFrame(frame: number): number {
+    return Math.min(this.state.duration, (frame * 1000) / this.state.fps);
+  }
+
+  /**
+   * 停止调度并移除全部订阅
+   */
+  dispose(): void {
+    this.cancel();
+    this.listeners.clear();
+  }
+
+  private schedule(): void {
+    this.handle = this.clock.request(() => this.tick());
+  }
+
+  private cancel(): void {
+    if (this.handle !== null) this.clock.cancel(this.handle);
+    this.handle = null;
+  }
+
+  private tick(): void {
+    this.handle = null;
+    if (!this.state.playing) return;
+    const now = this.clock.now();
+    const elapsed = (now - this.lastTick) * this.state.speed;
+    this.lastTick = now;
+    this.update(advance(this.state, elapsed));
+    if (this.state.playing) this.schedule();
+  }
+
+  private update(changes: Partial<PlaybackState>): void {
+    const next = { ...this.state, ...changes };
+    next.frame = Math.floor((next.time / 1000) * next.fps + 1e-9);
+    const changed = (Object.keys(next) as Array<keyof PlaybackState>).some(key => next[key] !== this.state[key]);
+    if (!changed) return;
+    this.state = next;
+    this.listeners.forEach(listener => listener(next));
+  }
+}
+
+// ========== 内部工具 ==========
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function validFps(fps: number): number {
+  if (!(fps > 0) || !Number.isFinite(fps)) {
+    throw new RangeError(`帧率必须为正数: ${fps}`);
+  }
+  return fps;
+}
+
+function validSpeed(speed: number): number {
+  if (!(speed > 0) || !Number.isFinite(speed)) {
+    throw new RangeError(`播放速度必须为正数: ${speed}`);
+  }
+  return speed;
+}
+
+/**
+ * 播放头在工作区内前进elapsed毫秒: loop回到开头, pingpong在两端折返, once停在末尾
+ */
+function advance(state: PlaybackState, elapsed: number): Partial<PlaybackState> {
+  const { in: start, out: end } = state.workArea;
+  const length = end - start;
+  if (length <= 0) {
+    return state.loop === 'once' ? { time: start, playing: false } : { time: start };
+  }
+
+  switch (state.loop) {
+    case 'once': {
+      const time = state.time + elapsed;
+      return time >= end ? { time: end, playing: false } : { time };
+    }
+    case 'loop':
+      return { time: start + positiveModulo(state.time - start + elapsed, length) };
+    case 'pingpong': {
+      // 展开为周期2 * length的单向运动, 后半周期为返程
+      const offset = state.direction === 1 ? state.time - start : 2 * length - (state.time - start);
+      const phase = positiveModulo(offset + elapsed, 2 * length);
+      return phase <= length
+        ? { time: start + phase, direction: 1 }
+        : { time: start + 2 * length - phase, direction: -1 };
+    }
+  }
+}
+
+function positiveModulo(value: number, modulus: number): number {
+  return ((value % modulus) + modulus) % modulus;
+}
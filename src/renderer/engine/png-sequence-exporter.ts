@@ -0,0 +1,81 @@
+// ============================================
+// RIV Editor - PNG 序列帧导出器
+// 按帧率逐帧渲染画板动画并编码为PNG
+// ============================================
+
+import type { Animation, Artboard, Color } from './riv-editor-engine';
+import { frameTimes, renderArtboardFrame } from './animation-frame';
+import type { ArchiveFile } from './zip-archive';
+
+export interface PngSequenceOptions {
+  fps?: number; // 默认取Animation.fps
+  scale?: number; // 输出尺寸相对画板的倍数, 默认1
+  background?: 'transparent' | 'solid'; // solid使用Artboard.backgroundColor, 未设置时为白色
+  baseName?: string; // 文件名前缀, 默认取动画名称
+  onProgress?: (done: number, total: number) => void;
+}
+
+export class PngExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PngExportError';
+  }
+}
+
+const DEFAULT_BACKGROUND: Color = { r: 255, g: 255, b: 255, a: 1 };
+
+// ========== PNG序列导出器 ==========
+
+export class PngSequenceExporter {
+  /**
+   * 渲染全部帧, 文件名形如 name_0000.png
+   */
+  async exportFrames(artboard: Artboard, animation: Animation, options: PngSequenceOptions): Promise<ArchiveFile[]> {
+    const scale = options.scale ?? 1;
+    if (!(scale > 0) || !Number.isFinite(scale)) {
+      throw new PngExportError(`缩放倍数必须为正数: ${scale}`);
+    }
+
+    const width = Math.max(1, Math.round(artboard.width * scale));
+    const height = Math.max(1, Math.round(artboard.height * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new PngExportError('无法创建2D绘图上下文');
+
+    const times = frameTimes(animation.duration, options.fps ?? animation.fps);
+    const digits = Math.max(4, String(times.length - 1).length);
+    const baseName = sanitizeFileName(options.baseName ?? animation.name) || 'frame';
+    const background = options.background === 'solid' ? artboard.backgroundColor ?? DEFAULT_BACKGROUND : null;
+
+    const files: ArchiveFile[] = [];
+    for (let i = 0; i < times.length; i++) {
+      renderArtboardFrame(ctx, artboard, animation, times[i], scale, background);
+      files.push({
+        name: `${baseName}_${String(i).padStart(digits, '0')}.png`,
+        data: await encodePng(canvas)
+      });
+      options.onProgress?.(i + 1, times.length);
+    }
+    return files;
+  }
+}
+
+// ========== 内部工具 ==========
+
+function encodePng(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new PngExportError('PNG编码失败'));
+        return;
+      }
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/png');
+  });
+}
+
+function sanitizeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^_+|_+$/g, '');
+}
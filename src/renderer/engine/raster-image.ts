@@ -0,0 +1,156 @@
+// ============================================
+// RIV Editor - 位图图片
+// 从PNG/JPEG/WebP文件头读取像素尺寸, 按需解码为可绘制的位图
+// ============================================
+
+import type { Asset } from './riv-editor-engine';
+
+export class RasterImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RasterImageError';
+  }
+}
+
+export type RasterImageFormat = 'png' | 'jpeg' | 'webp';
+
+const MIME_TYPES: Record<RasterImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+// JPEG中携带图像尺寸的帧头标记(SOF0-SOF15, 排除DHT/JPG/DAC)
+const JPEG_FRAME_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+/**
+ * 已识别的位图: 尺寸在构造时从文件头读取, 像素数据在decode后可用
+ */
+export class RasterImage {
+  readonly format: RasterImageFormat;
+  readonly width: number;
+  readonly height: number;
+  readonly data: ArrayBuffer;
+  private bitmap: ImageBitmap | null = null;
+  private decoding: Promise<ImageBitmap> | null = null;
+
+  constructor(data: ArrayBuffer) {
+    this.data = data;
+    const view = new DataView(data);
+    const size = readPngSize(view) ?? readJpegSize(view) ?? readWebpSize(view);
+    if (!size) throw new RasterImageError('只支持PNG、JPEG与WebP图片');
+    if (size.width <= 0 || size.height <= 0) throw new RasterImageError('图片尺寸无效');
+    this.format = size.format;
+    this.width = size.width;
+    this.height = size.height;
+  }
+
+  get mimeType(): string {
+    return MIME_TYPES[this.format];
+  }
+
+  /**
+   * 已解码的位图, 尚未解码时返回null
+   */
+  getBitmap(): ImageBitmap | null {
+    return this.bitmap;
+  }
+
+  /**
+   * 解码为位图, 多次调用共享同一次解码
+   */
+  decode(): Promise<ImageBitmap> {
+    if (!this.decoding) {
+      this.decoding = createImageBitmap(new Blob([this.data], { type: this.mimeType })).then(bitmap => {
+        this.bitmap = bitmap;
+        return bitmap;
+      });
+    }
+    return this.decoding;
+  }
+}
+
+const imageCache = new WeakMap<ArrayBuffer, RasterImage>();
+
+/**
+ * 识别图片资源, 同一ArrayBuffer只解析一次
+ */
+export function rasterImageFromAsset(asset: Asset): RasterImage {
+  if (asset.type !== 'image') throw new RasterImageError(`资源 "${asset.name}" 不是图片`);
+  let image = imageCache.get(asset.data);
+  if (!image) {
+    try {
+      image = new RasterImage(asset.data);
+    } catch (error) {
+      // 文件头被截断时DataView抛出RangeError
+      if (error instanceof RangeError) throw new RasterImageError('图片数据损坏');
+      throw error;
+    }
+    imageCache.set(asset.data, image);
+  }
+  return image;
+}
+
+// ========== 内部工具 ==========
+
+interface ImageSize {
+  format: RasterImageFormat;
+  width: number;
+  height: number;
+}
+
+function startsWith(view: DataView, offset: number, signature: number[]): boolean {
+  return view.byteLength >= offset + signature.length &&
+    signature.every((value, i) => view.getUint8(offset + i) === value);
+}
+
+/**
+ * PNG: 签名之后第一个块为IHDR, 宽高为大端32位整数
+ */
+function readPngSize(view: DataView): ImageSize | null {
+  if (!startsWith(view, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return null;
+  return { format: 'png', width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+/**
+ * JPEG: 逐段跳过, 直到帧头(SOFn)
+ */
+function readJpegSize(view: DataView): ImageSize | null {
+  if (!startsWith(view, 0, [0xff, 0xd8])) return null;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) throw new RasterImageError('JPEG数据损坏');
+    const marker = view.getUint8(offset + 1);
+    // 填充字节
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (JPEG_FRAME_MARKERS.has(marker)) {
+      return { format: 'jpeg', height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  throw new RasterImageError('JPEG缺少帧头');
+}
+
+/**
+ * WebP: RIFF容器内的VP8(有损)、VP8L(无损)或VP8X(扩展)块
+ */
+function readWebpSize(view: DataView): ImageSize | null {
+  if (!startsWith(view, 0, [0x52, 0x49, 0x46, 0x46]) || !startsWith(view, 8, [0x57, 0x45, 0x42, 0x50])) return null;
+  const chunk = String.fromCharCode(view.getUint8(12), view.getUint8(13), view.getUint8(14), view.getUint8(15));
+  const uint24 = (offset: number) => view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16);
+
+  if (chunk === 'VP8 ') {
+    return { format: 'webp', width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+  }
+  if (chunk === 'VP8L') {
+    const bits = view.getUint32(21, true);
+    return { format: 'webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X') {
+    return { format: 'webp', width: uint24(24) + 1, height: uint24(27) + 1 };
+  }
+  throw new RasterImageError(`不支持的WebP数据块 "${chunk}"`);
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { Animation, Rectangle, RivExporter, StateMachine, type RivProject } from './riv-editor-engine';
+import { RivPropertyKey, RivTypeKey, decodeRivFile, getProperty, type RivObject } from './riv-format';
+
+const STATE_TYPES: number[] = [
+  RivTypeKey.EntryState,
+  RivTypeKey.AnyState,
+  RivTypeKey.ExitState,
+  RivTypeKey.AnimationState
+];
+
+function createProject(entryAnimationId?: string): RivProject {
+  const rect = new Rectangle('rect', '矩形');
+  const intro = new Animation('intro', '入场');
+  const fade = intro.addTrack('opacity', rect.id);
+  fade.addKeyframe(0, 0);
+  fade.addKeyframe(1000, 1);
+  const idle = new Animation('idle', '待机');
+  const spin = idle.addTrack('transform.rotation', rect.id);
+  spin.addKeyframe(0, 0);
+  spin.addKeyframe(1000, Math.PI);
+
+  const stateMachine = new StateMachine('sm', '状态机');
+  stateMachine.addState('entry', '入口', entryAnimationId);
+  stateMachine.addState('idle', '待机', 'idle');
+  stateMachine.addTransition('entry', 'idle');
+
+  return {
+    version: '1.0.0',
+    artboards: [{ id: 'artboard', name: '画板', width: 100, height: 100, shapes: [rect] }],
+    animations: [intro, idle],
+    stateMachines: [stateMachine],
+    assets: []
+  };
+}
+
+/**
+ * 状态机图层中的状态, 每个状态附带其后的过渡目标
+ */
+async function exportedStates(project: RivProject): Promise<Array<{ typeKey: number; animationId?: number; to: number[] }>> {
+  const { objects } = decodeRivFile(await new RivExporter().exportToRiv(project));
+  const layer = objects.findIndex(object => object.typeKey === RivTypeKey.StateMachineLayer);
+  const states: Array<{ typeKey: number; animationId?: number; to: number[] }> = [];
+  objects.slice(layer + 1).forEach((object: RivObject) => {
+    if (STATE_TYPES.includes(object.typeKey)) {
+      states.push({ typeKey: object.typeKey, animationId: getProperty(object, RivPropertyKey.animationId), to: [] });
+    } else if (object.typeKey === RivTypeKey.StateTransition) {
+      states[states.length - 1].to.push(getProperty(object, RivPropertyKey.stateToId) ?? 0);
+    }
+  });
+  return states;
+}
+
+describe('RivExporter.exportToRiv 状态机', () => {
+  it('入口状态带动画时导出为动画状态, 由Entry过渡进入', async () => {
+    const states = await exportedStates(createProject('intro'));
+    expect(states).toEqual([
+      { typeKey: RivTypeKey.EntryState, to: [3] },
+      { typeKey: RivTypeKey.AnyState, to: [] },
+      { typeKey: RivTypeKey.ExitState, to: [] },
+      { typeKey: RivTypeKey.AnimationState, animationId: 0, to: [4] },
+      { typeKey: RivTypeKey.AnimationState, animationId: 1, to: [] }
+    ]);
+  });
+
+  it('入口状态没有动画时对应Entry', async () => {
+    const states = await exportedStates(createProject());
+    expect(states).toEqual([
+      { typeKey: RivTypeKey.EntryState, to: [3] },
+      { typeKey: RivTypeKey.AnyState, to: [] },
+      { typeKey: RivTypeKey.ExitState, to: [] },
+      { typeKey: RivTypeKey.AnimationState, animationId: 1, to: [] }
+    ]);
+  });
+});
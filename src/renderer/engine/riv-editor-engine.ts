@@ -3,6 +3,62 @@
 // 核心引擎模块: 图形、动画、状态机、导出
 // ============================================
 
+import {
+  RivTypeKey,
+  RivPropertyKey,
+  RivLoopValue,
+  RivInterpolationType,
+  RivStrokeCap,
+  RivBlendMode,
+  RivTrimMode,
+  RivStrokeJoin,
+  RivConditionOp,
+  RivListenerType,
+  rivObject,
+  packColor,
+  encodeRivFile,
+  type RivObject,
+  type RivPropertyValue
+} from './riv-format';
+import { uniqueAssets, isValidCdnUuid, cdnUuidToBytes } from './asset-manager';
+import { PathDataError } from './path-data';
+import { applyAffine, composeMatrix, invertAffine, multiplyAffine, type AffineTuple } from './matrix';
+import {
+  parseContours,
+  serializeContours,
+  transformContours,
+  contoursBounds,
+  rectangleContour,
+  ellipseContour,
+  isStraightVertex,
+  trimContours,
+  type PathContour
+} from './path-model';
+import { conformContours, handleKeyframes, type MorphCorrespondence, type MorphSource } from './path-morph';
+import { booleanContours, type BooleanOperand, type BooleanOperation } from './path-boolean';
+import { Font, fontFromAsset } from './font';
+import { RasterImage, rasterImageFromAsset } from './raster-image';
+import { CUBIC_EASINGS, describeEasing, evaluateEasing } from './easing';
+import {
+  COLOR_SPACE_NAMES,
+  angleInterpolator,
+  resolveInterpolator,
+  unwrapAngles,
+  type ColorSpace,
+  type KeyframeInterpolation
+} from './interpolation';
+import { EFFECT_NAMES, needsLayer, renderWithEffects, type BlendMode, type Effect } from './effects';
+import {
+  layoutText,
+  systemFontMetrics,
+  type LayoutRun,
+  type TextAlign,
+  type TextLayout,
+  type TextLayoutOptions,
+  type TextSizing,
+  type TextVerticalAlign
+} from './text-layout';
+
 // ========== 类型定义 ==========
 
 export interface Vector2 {
@@ -14,7 +70,15 @@ export interface Transform {
   position: Vector2;
   scale: Vector2;
   rotation: number; // 弧度
-  pivot: Vector2;
+  skew: Vector2; // 弧度, x沿X轴错切, y沿Y轴错切
+  pivot: Vector2; // 矩形/椭圆几何相对尺寸的原点位置, (0.5, 0.5)为中心
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface Color {
@@ -39,12 +103,27 @@ export interface Fill {
   gradient?: Gradient;
 }
 
+export type FillRule = 'nonzero' | 'evenodd';
+
 export interface Stroke {
   color: Color;
   width: number;
   cap: 'butt' | 'round' | 'square';
   join: 'miter' | 'round' | 'bevel';
   dashArray?: number[];
+  dashOffset?: number; // 虚线起点沿路径的偏移(像素), 可以动画
+  trim?: TrimPath; // 只绘制描边路径的一部分, 用于描边生长动画
+}
+
+/**
+ * 裁剪路径: start、end、offset均为0-1的弧长比例
+ * sequential把全部子路径首尾相接后裁剪, synchronized对每条子路径分别裁剪
+ */
+export interface TrimPath {
+  start: number;
+  end: number;
+  offset: number;
+  mode: 'sequential' | 'synchronized';
 }
 
 // ========== 图形对象 ==========
@@ -59,6 +138,16 @@ export abstract class Shape {
   visible: boolean;
   locked: boolean;
   parent: Group | null = null;
+  // 裁切图形: 位于自身局部坐标系(parent为null), 本身不绘制, 填充区域的并集裁切自身与子图形
+  clipSources: Shape[] = [];
+  clipInverse = false; // 反向裁切: 只保留裁切区域之外的部分
+  blendMode: BlendMode = 'normal';
+  effects: Effect[] = []; // 按顺序合成, 参数可以动画(如 effects.0.blur)
+  private clipRegion: { key: string; region: BooleanOperand } | null = null;
+  // 局部坐标下的顶点轮廓, 描边的裁剪路径按它计算; 组与图片没有自身的轮廓
+  getContours?(): PathContour[];
+  private localMatrix: { components: number[]; matrix: AffineTuple } | null = null;
+  private worldMatrix: { local: AffineTuple; parentWorld: AffineTuple | null; matrix: AffineTuple } | null = null;
 
   constructor(id: string, name: string) {
     this.id = id;
@@ -67,6 +156,7 @@ export abstract class Shape {
       position: { x: 0, y: 0 },
       scale: { x: 1, y: 1 },
       rotation: 0,
+      skew: { x: 0, y: 0 },
       pivot: { x: 0, y: 0 }
     };
     this.fill = { type: 'solid', color: { r: 128, g: 128, b: 128, a: 1 } };
@@ -76,68 +166,70 @@ export abstract class Shape {
     this.locked = false;
   }
 
-  abstract render(ctx: CanvasRenderingContext2D): void;
-  abstract getBounds(): { x: number; y: number; width: number; height: number };
-  abstract clone(): Shape;
-}
-
-export class Rectangle extends Shape {
-  width: number;
-  height: number;
-  cornerRadius: number;
-
-  constructor(id: string, name: string, width = 100, height = 100) {
-    super(id, name);
-    this.width = width;
-    this.height = height;
-    this.cornerRadius = 0;
+  /**
+   * 应用自身变换与不透明度, 不透明度与父级累乘
+   */
+  protected applyTransform(ctx: CanvasRenderingContext2D): void {
+    ctx.transform(...this.getLocalMatrix());
+    ctx.globalAlpha *= this.opacity;
   }
 
-  render(ctx: CanvasRenderingContext2D): void {
-    if (!this.visible) return;
+  /**
+   * 按裁切区域裁切之后的绘制, 需在applyTransform之后调用
+   */
+  protected applyClip(ctx: CanvasRenderingContext2D): void {
+    const region = this.getClipRegion();
+    if (!region) return;
+
+    const path = new Path2D(serializeContours(region.contours));
+    if (!this.clipInverse) {
+      ctx.clip(path, region.fillRule);
+      return;
+    }
+    // 反向裁切: 叠加覆盖整个画布的多边形, 按奇偶规则取裁切区域之外的部分
+    const inverse = ctx.getTransform().inverse();
+    const { width, height } = ctx.canvas;
+    [[0, 0], [width, 0], [width, height], [0, height]].forEach(([x, y], i) => {
+      const corner = inverse.transformPoint({ x, y });
+      if (i === 0) path.moveTo(corner.x, corner.y);
+      else path.lineTo(corner.x, corner.y);
+    });
+    path.closePath();
+    ctx.clip(path, 'evenodd');
+  }
 
-    ctx.save();
-    ctx.translate(this.transform.position.x, this.transform.position.y);
-    ctx.rotate(this.transform.rotation);
-    ctx.scale(this.transform.scale.x, this.transform.scale.y);
-    ctx.globalAlpha = this.opacity;
+  /**
+   * 局部坐标下的裁切区域, 没有裁切图形时返回null; 裁切图形都不可见时为空区域
+   * 单个裁切图形直接使用其轮廓, 多个或反向裁切时取并集, 按裁切图形几何缓存
+   */
+  getClipRegion(): BooleanOperand | null {
+    if (this.clipSources.length === 0) return null;
 
-    const x = -this.width * this.transform.pivot.x;
-    const y = -this.height * this.transform.pivot.y;
+    const operands = this.clipSources
+      .map(source => shapeOperand(source, source.getLocalMatrix()))
+      .filter((operand): operand is BooleanOperand => operand !== null);
+    if (operands.length === 1 && !this.clipInverse) return operands[0];
 
-    // 绘制圆角矩形
-    if (this.cornerRadius > 0) {
-      const r = Math.min(this.cornerRadius, this.width / 2, this.height / 2);
-      ctx.beginPath();
-      ctx.moveTo(x + r, y);
-      ctx.lineTo(x + this.width - r, y);
-      ctx.arcTo(x + this.width, y, x + this.width, y + r, r);
-      ctx.lineTo(x + this.width, y + this.height - r);
-      ctx.arcTo(x + this.width, y + this.height, x + this.width - r, y + this.height, r);
-      ctx.lineTo(x + r, y + this.height);
-      ctx.arcTo(x, y + this.height, x, y + this.height - r, r);
-      ctx.lineTo(x, y + r);
-      ctx.arcTo(x, y, x + r, y, r);
-      ctx.closePath();
-    } else {
-      ctx.beginPath();
-      ctx.rect(x, y, this.width, this.height);
+    const key = operands.map(operand => `${operand.fillRule}:${serializeContours(operand.contours, 6)}`).join('|');
+    if (this.clipRegion?.key !== key) {
+      this.clipRegion = { key, region: { contours: booleanContours(operands, 'union'), fillRule: 'nonzero' } };
     }
-
-    this.applyFill(ctx);
-    this.applyStroke(ctx);
-
-    ctx.restore();
+    return this.clipRegion.region;
   }
 
-  private applyFill(ctx: CanvasRenderingContext2D): void {
-    if (this.fill.type === 'solid' && this.fill.color) {
-      const c = this.fill.color;
+  protected applyFill(
+    ctx: CanvasRenderingContext2D,
+    path?: Path2D,
+    fillRule: FillRule = 'nonzero',
+    fill: Fill = this.fill
+  ): void {
+    if (fill.type === 'solid' && fill.color) {
+      const c = fill.color;
       ctx.fillStyle = `rgba(${c.r}, ${c.g}, ${c.b}, ${c.a})`;
-      ctx.fill();
-    } else if (this.fill.type === 'gradient' && this.fill.gradient) {
+      this.fillPath(ctx, path, fillRule);
+    } else if (fill.type === 'gradient' && fill.gradient) {
       // 实现渐变填充
-      const grad = this.fill.gradient;
+      const grad = fill.gradient;
       let gradient: CanvasGradient;
       
       if (grad.type === 'linear' && grad.start && grad.end) {
@@ -159,11 +251,11 @@ export class Rectangle extends Shape {
       });
 
       ctx.fillStyle = gradient;
-      ctx.fill();
+      this.fillPath(ctx, path, fillRule);
     }
   }
 
-  private applyStroke(ctx: CanvasRenderingContext2D): void {
+  protected applyStroke(ctx: CanvasRenderingContext2D, path?: Path2D): void {
     if (!this.stroke) return;
 
     const c = this.stroke.color;
@@ -174,18 +266,150 @@ export class Rectangle extends Shape {
     
     if (this.stroke.dashArray) {
       ctx.setLineDash(this.stroke.dashArray);
+      ctx.lineDashOffset = this.stroke.dashOffset ?? 0;
+    }
+
+    if (this.stroke.trim && this.getContours) {
+      ctx.stroke(new Path2D(serializeContours(trimContours(this.getContours(), this.stroke.trim))));
+    } else if (path) {
+      ctx.stroke(path);
+    } else {
+      ctx.stroke();
     }
+  }
 
-    ctx.stroke();
+  private fillPath(ctx: CanvasRenderingContext2D, path: Path2D | undefined, fillRule: FillRule): void {
+    if (path) {
+      ctx.fill(path, fillRule);
+    } else {
+      ctx.fill(fillRule);
+    }
   }
 
-  getBounds() {
-    return {
-      x: this.transform.position.x - this.width * this.transform.pivot.x,
-      y: this.transform.position.y - this.height * this.transform.pivot.y,
-      width: this.width,
-      height: this.height
-    };
+  /**
+   * 局部坐标到父级坐标的变换: 平移 · 旋转 · 斜切 · 缩放
+   * 按变换分量缓存, 返回值不要直接修改
+   */
+  getLocalMatrix(): AffineTuple {
+    const { position, rotation, scale, skew } = this.transform;
+    const components = [position.x, position.y, rotation, scale.x, scale.y, skew.x, skew.y];
+    const cached = this.localMatrix;
+    if (cached && components.every((value, i) => value === cached.components[i])) return cached.matrix;
+
+    const matrix = composeMatrix(this.transform);
+    this.localMatrix = { components, matrix };
+    return matrix;
+  }
+
+  /**
+   * 局部坐标到根坐标的变换(父级世界矩阵 · 自身局部矩阵)
+   * 按局部矩阵与父级世界矩阵缓存, 祖先的变换或父子关系变化后自动失效; 返回值不要直接修改
+   */
+  getWorldMatrix(): AffineTuple {
+    const local = this.getLocalMatrix();
+    const parentWorld = this.parent ? this.parent.getWorldMatrix() : null;
+    const cached = this.worldMatrix;
+    if (cached && cached.local === local && cached.parentWorld === parentWorld) return cached.matrix;
+
+    const matrix = parentWorld ? multiplyAffine(parentWorld, local) : local;
+    this.worldMatrix = { local, parentWorld, matrix };
+    return matrix;
+  }
+
+  /**
+   * 父级坐标系下的紧包围盒(含自身变换)
+   */
+  getBounds(): Bounds {
+    return this.getTransformedBounds(this.getLocalMatrix());
+  }
+
+  /**
+   * 根坐标系下的紧包围盒
+   */
+  getWorldBounds(): Bounds {
+    return this.getTransformedBounds(this.getWorldMatrix());
+  }
+
+  /**
+   * 绘制到ctx; 非正常混合或有启用的效果时先绘制到独立图层再合成
+   */
+  render(ctx: CanvasRenderingContext2D): void {
+    if (!this.visible) return;
+    if (needsLayer(this.blendMode, this.effects)) {
+      renderWithEffects(ctx, this.blendMode, this.effects, layer => this.draw(layer));
+    } else {
+      this.draw(ctx);
+    }
+  }
+
+  /**
+   * 绘制图形本身(含变换、裁切、填充与描边), 不处理可见性、混合模式与效果
+   */
+  protected abstract draw(ctx: CanvasRenderingContext2D): void;
+  /**
+   * 几何经matrix(局部坐标 → 目标坐标)变换后的轴对齐包围盒
+   */
+  abstract getTransformedBounds(matrix: AffineTuple): Bounds;
+  abstract clone(): Shape;
+}
+
+export class Rectangle extends Shape {
+  width: number;
+  height: number;
+  cornerRadius: number;
+
+  constructor(id: string, name: string, width = 100, height = 100) {
+    super(id, name);
+    this.width = width;
+    this.height = height;
+    this.cornerRadius = 0;
+  }
+
+  protected draw(ctx: CanvasRenderingContext2D): void {
+
+    ctx.save();
+    this.applyTransform(ctx);
+    this.applyClip(ctx);
+
+    const x = -this.width * this.transform.pivot.x;
+    const y = -this.height * this.transform.pivot.y;
+
+    // 绘制圆角矩形
+    if (this.cornerRadius > 0) {
+      const r = Math.min(this.cornerRadius, this.width / 2, this.height / 2);
+      ctx.beginPath();
+      ctx.moveTo(x + r, y);
+      ctx.lineTo(x + this.width - r, y);
+      ctx.arcTo(x + this.width, y, x + this.width, y + r, r);
+      ctx.lineTo(x + this.width, y + this.height - r);
+      ctx.arcTo(x + this.width, y + this.height, x + this.width - r, y + this.height, r);
+      ctx.lineTo(x + r, y + this.height);
+      ctx.arcTo(x, y + this.height, x, y + this.height - r, r);
+      ctx.lineTo(x, y + r);
+      ctx.arcTo(x, y, x + r, y, r);
+      ctx.closePath();
+    } else {
+      ctx.beginPath();
+      ctx.rect(x, y, this.width, this.height);
+    }
+
+    this.applyFill(ctx);
+    this.applyStroke(ctx);
+
+    ctx.restore();
+  }
+
+  /**
+   * 局部坐标下的轮廓, 按轴心偏移
+   */
+  getContours(): PathContour[] {
+    const x = -this.width * this.transform.pivot.x;
+    const y = -this.height * this.transform.pivot.y;
+    return [rectangleContour(x, y, this.width, this.height, this.cornerRadius)];
+  }
+
+  getTransformedBounds(matrix: AffineTuple): Bounds {
+    return contoursBounds(this.getContours(), matrix)!;
   }
 
   clone(): Rectangle {
@@ -207,43 +431,48 @@ export class Ellipse extends Shape {
     super(id, name);
     this.radiusX = radiusX;
     this.radiusY = radiusY;
+    // 椭圆默认以圆心为原点
+    this.transform.pivot = { x: 0.5, y: 0.5 };
   }
 
-  render(ctx: CanvasRenderingContext2D): void {
-    if (!this.visible) return;
+  /**
+   * 局部坐标下的圆心, 按轴心相对外接矩形偏移
+   */
+  getCenter(): Vector2 {
+    return {
+      x: (0.5 - this.transform.pivot.x) * this.radiusX * 2,
+      y: (0.5 - this.transform.pivot.y) * this.radiusY * 2
+    };
+  }
+
+  protected draw(ctx: CanvasRenderingContext2D): void {
 
     ctx.save();
-    ctx.translate(this.transform.position.x, this.transform.position.y);
-    ctx.rotate(this.transform.rotation);
-    ctx.scale(this.transform.scale.x, this.transform.scale.y);
-    ctx.globalAlpha = this.opacity;
+    this.applyTransform(ctx);
+    this.applyClip(ctx);
 
+    const center = this.getCenter();
     ctx.beginPath();
-    ctx.ellipse(0, 0, this.radiusX, this.radiusY, 0, 0, Math.PI * 2);
+    ctx.ellipse(center.x, center.y, this.radiusX, this.radiusY, 0, 0, Math.PI * 2);
 
-    if (this.fill.type === 'solid' && this.fill.color) {
-      const c = this.fill.color;
-      ctx.fillStyle = `rgba(${c.r}, ${c.g}, ${c.b}, ${c.a})`;
-      ctx.fill();
-    }
-
-    if (this.stroke) {
-      const c = this.stroke.color;
-      ctx.strokeStyle = `rgba(${c.r}, ${c.g}, ${c.b}, ${c.a})`;
-      ctx.lineWidth = this.stroke.width;
-      ctx.stroke();
-    }
+    this.applyFill(ctx);
+    this.applyStroke(ctx);
 
     ctx.restore();
   }
 
-  getBounds() {
-    return {
-      x: this.transform.position.x - this.radiusX,
-      y: this.transform.position.y - this.radiusY,
-      width: this.radiusX * 2,
-      height: this.radiusY * 2
-    };
+  getContours(): PathContour[] {
+    const center = this.getCenter();
+    return [ellipseContour(center.x, center.y, this.radiusX, this.radiusY)];
+  }
+
+  getTransformedBounds(matrix: AffineTuple): Bounds {
+    // 变换后椭圆在各轴上的半径: sqrt((a·rx)² + (c·ry)²)
+    const [a, b, c, d] = matrix;
+    const { x, y } = applyAffine(matrix, this.getCenter());
+    const halfWidth = Math.hypot(a * this.radiusX, c * this.radiusY);
+    const halfHeight = Math.hypot(b * this.radiusX, d * this.radiusY);
+    return { x: x - halfWidth, y: y - halfHeight, width: halfWidth * 2, height: halfHeight * 2 };
   }
 
   clone(): Ellipse {
@@ -258,51 +487,58 @@ export class Ellipse extends Shape {
 
 export class Path extends Shape {
   pathData: string; // SVG路径数据
+  fillRule: FillRule = 'nonzero';
+  private parsed: { pathData: string; contours: PathContour[] } | null = null;
 
   constructor(id: string, name: string, pathData = '') {
     super(id, name);
     this.pathData = pathData;
   }
 
-  render(ctx: CanvasRenderingContext2D): void {
-    if (!this.visible || !this.pathData) return;
+  /**
+   * 解析后的顶点轮廓, 按pathData缓存; 返回值不要直接修改, 编辑后通过setContours写回
+   * 路径数据无效时返回空数组
+   */
+  getContours(): PathContour[] {
+    if (this.parsed?.pathData !== this.pathData) {
+      let contours: PathContour[] = [];
+      try {
+        contours = parseContours(this.pathData);
+      } catch (error) {
+        if (!(error instanceof PathDataError)) throw error;
+      }
+      this.parsed = { pathData: this.pathData, contours };
+    }
+    return this.parsed.contours;
+  }
+
+  setContours(contours: PathContour[]): void {
+    this.pathData = serializeContours(contours);
+    this.parsed = null;
+  }
+
+  protected draw(ctx: CanvasRenderingContext2D): void {
+    if (!this.pathData) return;
 
     ctx.save();
-    ctx.translate(this.transform.position.x, this.transform.position.y);
-    ctx.rotate(this.transform.rotation);
-    ctx.scale(this.transform.scale.x, this.transform.scale.y);
-    ctx.globalAlpha = this.opacity;
+    this.applyTransform(ctx);
+    this.applyClip(ctx);
 
     const path = new Path2D(this.pathData);
 
-    if (this.fill.type === 'solid' && this.fill.color) {
-      const c = this.fill.color;
-      ctx.fillStyle = `rgba(${c.r}, ${c.g}, ${c.b}, ${c.a})`;
-      ctx.fill(path);
-    }
-
-    if (this.stroke) {
-      const c = this.stroke.color;
-      ctx.strokeStyle = `rgba(${c.r}, ${c.g}, ${c.b}, ${c.a})`;
-      ctx.lineWidth = this.stroke.width;
-      ctx.stroke(path);
-    }
+    this.applyFill(ctx, path, this.fillRule);
+    this.applyStroke(ctx, path);
 
     ctx.restore();
   }
 
-  getBounds() {
-    // 简化实现,实际需要解析路径数据
-    return {
-      x: this.transform.position.x,
-      y: this.transform.position.y,
-      width: 100,
-      height: 100
-    };
+  getTransformedBounds(matrix: AffineTuple): Bounds {
+    return contoursBounds(this.getContours(), matrix) ?? { x: matrix[4], y: matrix[5], width: 0, height: 0 };
   }
 
   clone(): Path {
     const cloned = new Path(this.id + '_clone', this.name + ' 副本', this.pathData);
+    cloned.fillRule = this.fillRule;
     cloned.transform = { ...this.transform };
     cloned.fill = { ...this.fill };
     cloned.stroke = this.stroke ? { ...this.stroke } : null;
@@ -311,103 +547,639 @@ export class Path extends Shape {
   }
 }
 
-export class Group extends Shape {
-  children: Shape[] = [];
+// 文本排版缓存, 放在图形对象之外以便cloneShapeTree结构化复制文本图形
+const textLayouts = new WeakMap<Text, { key: string; font: Font | null; result: TextLayout }>();
 
-  constructor(id: string, name: string) {
+/**
+ * 文本段: 未指定的字号与填充沿用所属文本图形
+ */
+export interface TextRun {
+  text: string;
+  fontSize?: number;
+  fill?: Fill;
+}
+
+/**
+ * 文本图形: 按字体资源的字形轮廓绘制, 没有字体资源时以系统字体预览
+ * 局部坐标原点在文本框内按轴心偏移, 默认为左上角
+ */
+export class Text extends Shape {
+  runs: TextRun[];
+  assetId: string | null = null; // 字体资源ID
+  font: Font | null = null; // 运行时解析结果, 不参与序列化
+  fontFamily = 'sans-serif'; // 没有字体资源时的预览字体
+  fontSize: number;
+  sizing: TextSizing = 'auto-width';
+  width = 200; // auto-width时由内容决定
+  height = 100; // 只在fixed时使用
+  align: TextAlign = 'left';
+  verticalAlign: TextVerticalAlign = 'top';
+  lineHeight = 1.2; // 字号的倍数
+  letterSpacing = 0;
+
+  constructor(id: string, name: string, content = '', fontSize = 24) {
     super(id, name);
+    this.runs = [{ text: content }];
+    this.fontSize = fontSize;
   }
 
-  addChild(shape: Shape): void {
-    shape.parent = this;
-    this.children.push(shape);
+  /**
+   * 全部文本; 赋值时合并为单个文本段, 供动画轨道'content'使用
+   */
+  get content(): string {
+    return this.runs.map(run => run.text).join('');
   }
 
-  removeChild(shape: Shape): void {
-    const index = this.children.indexOf(shape);
-    if (index > -1) {
-      this.children[index].parent = null;
-      this.children.splice(index, 1);
-    }
+  set content(value: string) {
+    this.runs = [{ text: value }];
   }
 
-  render(ctx: CanvasRenderingContext2D): void {
-    if (!this.visible) return;
-
-    ctx.save();
-    ctx.translate(this.transform.position.x, this.transform.position.y);
-    ctx.rotate(this.transform.rotation);
-    ctx.scale(this.transform.scale.x, this.transform.scale.y);
-    ctx.globalAlpha *= this.opacity;
-
-    this.children.forEach(child => child.render(ctx));
-
-    ctx.restore();
+  /**
+   * 绑定字体资源, 数据无法解析时抛出FontError
+   */
+  setFont(asset: Asset | null): void {
+    this.assetId = asset ? asset.id : null;
+    this.font = asset ? fontFromAsset(asset) : null;
   }
 
-  getBounds() {
-    if (this.children.length === 0) {
-      return { x: 0, y: 0, width: 0, height: 0 };
-    }
+  /**
+   * 排版结果, 按文本、字号与排版参数缓存; 返回值不要直接修改
+   */
+  getLayout(): TextLayout {
+    const runs: LayoutRun[] = this.runs.map(run => ({ text: run.text, fontSize: run.fontSize ?? this.fontSize }));
+    const options: TextLayoutOptions = {
+      sizing: this.sizing,
+      width: this.width,
+      height: this.height,
+      align: this.align,
+      verticalAlign: this.verticalAlign,
+      lineHeight: this.lineHeight,
+      letterSpacing: this.letterSpacing
+    };
+    const key = JSON.stringify([runs, options, this.font ? null : this.fontFamily]);
+    const cached = textLayouts.get(this);
+    if (cached && cached.key === key && cached.font === this.font) return cached.result;
 
-    let minX = Infinity, minY = Infinity;
-    let maxX = -Infinity, maxY = -Infinity;
+    const result = layoutText(runs, this.font ?? systemFontMetrics(this.fontFamily), options);
+    textLayouts.set(this, { key, font: this.font, result });
+    return result;
+  }
 
-    this.children.forEach(child => {
-      const bounds = child.getBounds();
-      minX = Math.min(minX, bounds.x);
-      minY = Math.min(minY, bounds.y);
-      maxX = Math.max(maxX, bounds.x + bounds.width);
-      maxY = Math.max(maxY, bounds.y + bounds.height);
-    });
+  /**
+   * 局部坐标下文本框的左上角
+   */
+  getOrigin(): Vector2 {
+    const { width, height } = this.getLayout();
+    return { x: -width * this.transform.pivot.x, y: -height * this.transform.pivot.y };
+  }
 
-    return {
-      x: minX,
-      y: minY,
-      width: maxX - minX,
-      height: maxY - minY
-    };
+  /**
+   * 局部坐标下按填充分组的字形轮廓, 没有字体资源时返回空数组
+   */
+  getFillContours(): Array<{ fill: Fill; contours: PathContour[] }> {
+    const font = this.font;
+    if (!font) return [];
+
+    const origin = this.getOrigin();
+    const groups = new Map<Fill, PathContour[]>();
+    this.getLayout().lines.forEach(line => line.glyphs.forEach(glyph => {
+      const contours = font.charContours(glyph.char);
+      if (contours.length === 0) return;
+      const fill = this.runs[glyph.run].fill ?? this.fill;
+      const scale = glyph.fontSize / font.unitsPerEm;
+      // 字体单位y轴向上
+      const matrix: AffineTuple = [scale, 0, 0, -scale, origin.x + glyph.x, origin.y + glyph.baseline];
+      const list = groups.get(fill) ?? [];
+      list.push(...transformContours(contours, matrix));
+      groups.set(fill, list);
+    }));
+    return Array.from(groups, ([fill, contours]) => ({ fill, contours }));
   }
 
-  clone(): Group {
-    const cloned = new Group(this.id + '_clone', this.name + ' 副本');
-    cloned.transform = { ...this.transform };
-    cloned.opacity = this.opacity;
-    this.children.forEach(child => {
-      cloned.addChild(child.clone());
-    });
-    return cloned;
+  /**
+   * 局部坐标下全部字形轮廓
+   */
+  getContours(): PathContour[] {
+    return this.getFillContours().flatMap(group => group.contours);
   }
-}
 
-// ========== 动画系统 ==========
+  protected draw(ctx: CanvasRenderingContext2D): void {
 
-export type EasingFunction = 
-  | 'linear'
-  | 'ease-in'
+    ctx.save();
+    this.applyTransform(ctx);
+    this.applyClip(ctx);
+
+    if (this.font) {
+      const groups = this.getFillContours();
+      groups.forEach(group => this.applyFill(ctx, new Path2D(serializeContours(group.contours)), 'nonzero', group.fill));
+      if (groups.length > 0) this.applyStroke(ctx, new Path2D(serializeContours(this.getContours())));
+    } else {
+      this.renderPreview(ctx);
+    }
+
+    ctx.restore();
+  }
+
+  /**
+   * 没有字体资源时逐字用系统字体绘制, 渐变填充取首个色标
+   */
+  private renderPreview(ctx: CanvasRenderingContext2D): void {
+    const origin = this.getOrigin();
+    this.getLayout().lines.forEach(line => line.glyphs.forEach(glyph => {
+      const fill = this.runs[glyph.run].fill ?? this.fill;
+      const color = fill.type === 'solid' ? fill.color : fill.type === 'gradient' ? fill.gradient?.stops[0]?.color : undefined;
+      ctx.font = `${glyph.fontSize}px ${this.fontFamily}`;
+      if (color) {
+        ctx.fillStyle = `rgba(${color.r}, ${color.g}, ${color.b}, ${color.a})`;
+        ctx.fillText(glyph.char, origin.x + glyph.x, origin.y + glyph.baseline);
+      }
+      if (this.stroke) {
+        const c = this.stroke.color;
+        ctx.strokeStyle = `rgba(${c.r}, ${c.g}, ${c.b}, ${c.a})`;
+        ctx.lineWidth = this.stroke.width;
+        ctx.strokeText(glyph.char, origin.x + glyph.x, origin.y + glyph.baseline);
+      }
+    }));
+  }
+
+  /**
+   * 文本框的包围盒
+   */
+  getTransformedBounds(matrix: AffineTuple): Bounds {
+    const { width, height } = this.getLayout();
+    const origin = this.getOrigin();
+    return contoursBounds([rectangleContour(origin.x, origin.y, width, height, 0)], matrix)!;
+  }
+
+  /**
+   * 转为轮廓, 保留ID、变换、样式与裁切: 全部文字同一填充时返回路径, 否则返回按填充分组的路径组
+   * 没有字体资源时返回null
+   */
+  toOutlines(): Path | Group | null {
+    if (!this.font) return null;
+
+    const groups = this.getFillContours();
+    const apply = (shape: Shape) => {
+      shape.transform = { ...this.transform };
+      shape.opacity = this.opacity;
+      shape.visible = this.visible;
+      shape.locked = this.locked;
+      shape.clipSources = this.clipSources;
+      shape.clipInverse = this.clipInverse;
+      shape.blendMode = this.blendMode;
+      shape.effects = this.effects;
+      shape.parent = this.parent;
+    };
+
+    if (groups.every(group => group.fill === this.fill)) {
+      const path = new Path(this.id, this.name, serializeContours(groups[0]?.contours ?? []));
+      apply(path);
+      path.fill = this.fill;
+      path.stroke = this.stroke;
+      return path;
+    }
+
+    const group = new Group(this.id, this.name);
+    apply(group);
+    groups.forEach(({ fill, contours }, index) => {
+      const path = new Path(`${this.id}_run${index}`, `${this.name} ${index + 1}`, serializeContours(contours));
+      path.fill = fill;
+      path.stroke = this.stroke;
+      group.addChild(path);
+    });
+    return group;
+  }
+
+  clone(): Text {
+    const cloned = new Text(this.id + '_clone', this.name + ' 副本', '', this.fontSize);
+    cloned.runs = this.runs.map(run => ({ ...run }));
+    cloned.assetId = this.assetId;
+    cloned.font = this.font;
+    cloned.fontFamily = this.fontFamily;
+    cloned.sizing = this.sizing;
+    cloned.width = this.width;
+    cloned.height = this.height;
+    cloned.align = this.align;
+    cloned.verticalAlign = this.verticalAlign;
+    cloned.lineHeight = this.lineHeight;
+    cloned.letterSpacing = this.letterSpacing;
+    cloned.transform = { ...this.transform };
+    cloned.fill = { ...this.fill };
+    cloned.stroke = this.stroke ? { ...this.stroke } : null;
+    cloned.opacity = this.opacity;
+    return cloned;
+  }
+}
+
+/**
+ * 图片适配方式
+ * fill: 拉伸铺满图片框; contain: 等比缩放完整显示; cover: 等比缩放铺满, 超出部分裁掉; none: 原始尺寸居中, 超出部分裁掉
+ */
+export type ImageFit = 'fill' | 'contain' | 'cover' | 'none';
+
+/**
+ * 图片: 引用图片资源, 在width×height的图片框内按适配方式绘制
+ * 局部坐标原点在图片框内按轴心偏移, 默认为中心
+ */
+export class Image extends Shape {
+  assetId: string | null = null; // 图片资源ID
+  image: RasterImage | null = null; // 运行时解析结果, 不参与序列化
+  width: number;
+  height: number;
+  fit: ImageFit = 'contain';
+
+  constructor(id: string, name: string, width = 100, height = 100) {
+    super(id, name);
+    this.width = width;
+    this.height = height;
+    this.fill = { type: 'none' };
+    this.transform.pivot = { x: 0.5, y: 0.5 };
+  }
+
+  /**
+   * 绑定图片资源, 不是可识别的图片时抛出RasterImageError
+   */
+  setImage(asset: Asset | null): void {
+    this.assetId = asset ? asset.id : null;
+    this.image = asset ? rasterImageFromAsset(asset) : null;
+  }
+
+  /**
+   * 局部坐标下的图片框
+   */
+  getFrame(): Bounds {
+    return {
+      x: -this.width * this.transform.pivot.x,
+      y: -this.height * this.transform.pivot.y,
+      width: this.width,
+      height: this.height
+    };
+  }
+
+  /**
+   * 局部坐标下图片实际绘制的区域, 没有图片时即图片框
+   */
+  getImageRect(): Bounds {
+    const frame = this.getFrame();
+    if (!this.image || this.fit === 'fill') return frame;
+
+    const { width, height } = this.image;
+    const scale = this.fit === 'none'
+      ? 1
+      : (this.fit === 'contain' ? Math.min : Math.max)(frame.width / width, frame.height / height);
+    return {
+      x: frame.x + (frame.width - width * scale) / 2,
+      y: frame.y + (frame.height - height * scale) / 2,
+      width: width * scale,
+      height: height * scale
+    };
+  }
+
+  /**
+   * 绘制区域超出图片框, 需要裁切
+   */
+  overflowsFrame(): boolean {
+    const frame = this.getFrame();
+    const rect = this.getImageRect();
+    const epsilon = 1e-6;
+    return rect.x < frame.x - epsilon || rect.y < frame.y - epsilon ||
+      rect.x + rect.width > frame.x + frame.width + epsilon ||
+      rect.y + rect.height > frame.y + frame.height + epsilon;
+  }
+
+  protected draw(ctx: CanvasRenderingContext2D): void {
+
+    ctx.save();
+    this.applyTransform(ctx);
+    this.applyClip(ctx);
+
+    const frame = this.getFrame();
+    const bitmap = this.image?.getBitmap();
+    if (bitmap) {
+      const rect = this.getImageRect();
+      ctx.save();
+      if (this.overflowsFrame()) {
+        ctx.beginPath();
+        ctx.rect(frame.x, frame.y, frame.width, frame.height);
+        ctx.clip();
+      }
+      ctx.drawImage(bitmap, rect.x, rect.y, rect.width, rect.height);
+      ctx.restore();
+    } else {
+      // 解码完成前以半透明灰色占位
+      void this.image?.decode();
+      ctx.fillStyle = 'rgba(128, 128, 128, 0.3)';
+      ctx.fillRect(frame.x, frame.y, frame.width, frame.height);
+    }
+
+    if (this.stroke) {
+      ctx.beginPath();
+      ctx.rect(frame.x, frame.y, frame.width, frame.height);
+      this.applyStroke(ctx);
+    }
+
+    ctx.restore();
+  }
+
+  getTransformedBounds(matrix: AffineTuple): Bounds {
+    const frame = this.getFrame();
+    return contoursBounds([rectangleContour(frame.x, frame.y, frame.width, frame.height, 0)], matrix)!;
+  }
+
+  clone(): Image {
+    const cloned = new Image(this.id + '_clone', this.name + ' 副本', this.width, this.height);
+    cloned.assetId = this.assetId;
+    cloned.image = this.image;
+    cloned.fit = this.fit;
+    cloned.transform = { ...this.transform };
+    cloned.fill = { ...this.fill };
+    cloned.stroke = this.stroke ? { ...this.stroke } : null;
+    cloned.opacity = this.opacity;
+    return cloned;
+  }
+}
+
+export class Group extends Shape {
+  children: Shape[] = [];
+
+  constructor(id: string, name: string) {
+    super(id, name);
+  }
+
+  addChild(shape: Shape): void {
+    shape.parent = this;
+    this.children.push(shape);
+  }
+
+  removeChild(shape: Shape): void {
+    const index = this.children.indexOf(shape);
+    if (index > -1) {
+      this.children[index].parent = null;
+      this.children.splice(index, 1);
+    }
+  }
+
+  protected draw(ctx: CanvasRenderingContext2D): void {
+
+    ctx.save();
+    this.applyTransform(ctx);
+    this.applyClip(ctx);
+
+    this.children.forEach(child => child.render(ctx));
+
+    ctx.restore();
+  }
+
+  getTransformedBounds(matrix: AffineTuple): Bounds {
+    if (this.children.length === 0) {
+      return { x: matrix[4], y: matrix[5], width: 0, height: 0 };
+    }
+
+    let minX = Infinity, minY = Infinity;
+    let maxX = -Infinity, maxY = -Infinity;
+
+    this.children.forEach(child => {
+      const bounds = child.getTransformedBounds(multiplyAffine(matrix, child.getLocalMatrix()));
+      minX = Math.min(minX, bounds.x);
+      minY = Math.min(minY, bounds.y);
+      maxX = Math.max(maxX, bounds.x + bounds.width);
+      maxY = Math.max(maxY, bounds.y + bounds.height);
+    });
+
+    return {
+      x: minX,
+      y: minY,
+      width: maxX - minX,
+      height: maxY - minY
+    };
+  }
+
+  clone(): Group {
+    const cloned = new Group(this.id + '_clone', this.name + ' 副本');
+    cloned.transform = { ...this.transform };
+    cloned.opacity = this.opacity;
+    this.children.forEach(child => {
+      cloned.addChild(child.clone());
+    });
+    return cloned;
+  }
+}
+
+/**
+ * 非破坏性布尔组: 按子图形实时计算布尔结果, 以组自身的填充和描边绘制
+ * 子图形本身不绘制, 编辑或动画改变子图形后结果随之更新
+ */
+export class BooleanGroup extends Group {
+  operation: BooleanOperation;
+  private result: { key: string; contours: PathContour[] } | null = null;
+
+  constructor(id: string, name: string, operation: BooleanOperation = 'union') {
+    super(id, name);
+    this.operation = operation;
+  }
+
+  /**
+   * 局部坐标下的布尔结果, 按子图形几何缓存
+   */
+  getContours(): PathContour[] {
+    const operands = this.children
+      .map(child => shapeOperand(child, child.getLocalMatrix()))
+      .filter((operand): operand is BooleanOperand => operand !== null);
+    const key = this.operation + operands
+      .map(operand => `|${operand.fillRule}:${serializeContours(operand.contours, 6)}`)
+      .join('');
+
+    if (this.result?.key !== key) {
+      this.result = { key, contours: booleanContours(operands, this.operation) };
+    }
+    return this.result.contours;
+  }
+
+  protected draw(ctx: CanvasRenderingContext2D): void {
+    const contours = this.getContours();
+    if (contours.length === 0) return;
+
+    ctx.save();
+    this.applyTransform(ctx);
+    this.applyClip(ctx);
+
+    const path = new Path2D(serializeContours(contours));
+    this.applyFill(ctx, path);
+    this.applyStroke(ctx, path);
+
+    ctx.restore();
+  }
+
+  getTransformedBounds(matrix: AffineTuple): Bounds {
+    return contoursBounds(this.getContours(), matrix) ?? { x: matrix[4], y: matrix[5], width: 0, height: 0 };
+  }
+
+  /**
+   * 拼合为普通路径, 保留ID、变换、样式与裁切; parent与布尔组相同, 但不在父级的children中
+   */
+  toPath(): Path {
+    const path = new Path(this.id, this.name, serializeContours(this.getContours()));
+    path.transform = { ...this.transform };
+    path.fill = this.fill;
+    path.stroke = this.stroke;
+    path.opacity = this.opacity;
+    path.visible = this.visible;
+    path.locked = this.locked;
+    path.clipSources = this.clipSources;
+    path.clipInverse = this.clipInverse;
+    path.blendMode = this.blendMode;
+    path.effects = this.effects;
+    path.parent = this.parent;
+    return path;
+  }
+
+  clone(): BooleanGroup {
+    const cloned = new BooleanGroup(this.id + '_clone', this.name + ' 副本', this.operation);
+    cloned.transform = { ...this.transform };
+    cloned.fill = { ...this.fill };
+    cloned.stroke = this.stroke ? { ...this.stroke } : null;
+    cloned.opacity = this.opacity;
+    this.children.forEach(child => {
+      cloned.addChild(child.clone());
+    });
+    return cloned;
+  }
+}
+
+/**
+ * 图形的填充区域, 轮廓经matrix变换; 不可见或没有几何的图形返回null
+ * 普通组取子图形的并集
+ */
+export function shapeOperand(shape: Shape, matrix: AffineTuple): BooleanOperand | null {
+  if (!shape.visible) return null;
+
+  if (shape instanceof BooleanGroup) {
+    return { contours: transformContours(shape.getContours(), matrix), fillRule: 'nonzero' };
+  }
+  if (shape instanceof Group) {
+    const operands = shape.children
+      .map(child => shapeOperand(child, multiplyAffine(matrix, child.getLocalMatrix())))
+      .filter((operand): operand is BooleanOperand => operand !== null);
+    return operands.length > 0 ? { contours: booleanContours(operands, 'union'), fillRule: 'nonzero' } : null;
+  }
+  if (shape instanceof Rectangle || shape instanceof Ellipse) {
+    return { contours: transformContours(shape.getContours(), matrix), fillRule: 'nonzero' };
+  }
+  if (shape instanceof Path) {
+    return { contours: transformContours(shape.getContours(), matrix), fillRule: shape.fillRule };
+  }
+  if (shape instanceof Text) {
+    const contours = shape.getContours();
+    return contours.length > 0 ? { contours: transformContours(contours, matrix), fillRule: 'nonzero' } : null;
+  }
+  return null;
+}
+
+/**
+ * 把图形拼合为等价的路径, 保留ID、变换、样式与裁切, parent与原图形相同; 普通组与没有字体资源的文本返回null
+ */
+export function flattenShape(shape: Shape): Path | null {
+  if (shape instanceof BooleanGroup) return shape.toPath();
+  if (shape instanceof Path) return shape;
+  if (shape instanceof Text) {
+    // 分段填充不同的文本会得到路径组, 无法拼合为单条路径
+    const outlines = shape.toOutlines();
+    return outlines instanceof Path ? outlines : null;
+  }
+  if (!(shape instanceof Rectangle || shape instanceof Ellipse)) return null;
+
+  const path = new Path(shape.id, shape.name, serializeContours(shape.getContours()));
+  path.transform = { ...shape.transform };
+  path.fill = shape.fill;
+  path.stroke = shape.stroke;
+  path.opacity = shape.opacity;
+  path.visible = shape.visible;
+  path.locked = shape.locked;
+  path.clipSources = shape.clipSources;
+  path.clipInverse = shape.clipInverse;
+  path.blendMode = shape.blendMode;
+  path.effects = shape.effects;
+  path.parent = shape.parent;
+  return path;
+}
+
+/**
+ * 破坏性布尔运算: 同一父级下的图形合成为一条新路径(父级坐标, 无变换)
+ * 样式取最底层图形
+ */
+export function booleanPath(shapes: Shape[], operation: BooleanOperation, id: string, name: string): Path {
+  const operands = shapes
+    .map(shape => shapeOperand(shape, shape.getLocalMatrix()))
+    .filter((operand): operand is BooleanOperand => operand !== null);
+
+  const path = new Path(id, name, serializeContours(booleanContours(operands, operation)));
+  const base = shapes[0];
+  if (base) {
+    path.fill = base.fill;
+    path.stroke = base.stroke;
+    path.opacity = base.opacity;
+  }
+  return path;
+}
+
+// ========== 动画系统 ==========
+
+export type EasingDirection = 'in' | 'out' | 'in-out';
+
+// 与CSS steps()的跳变位置一致
+export type StepJump = 'start' | 'end' | 'none' | 'both';
+
+/**
+ * 字符串形式的bounce与elastic等同于out方向的默认参数
+ */
+export type EasingFunction =
+  | 'linear'
+  | 'ease-in'
   | 'ease-out'
   | 'ease-in-out'
   | 'bounce'
   | 'elastic'
-  | { bezier: [number, number, number, number] };
+  | { bezier: [number, number, number, number] }
+  | { back: EasingDirection; overshoot?: number } // 默认1.70158
+  | { elastic: EasingDirection; amplitude?: number; period?: number } // 默认1与0.3, period为占区间时长的比例
+  | { bounce: EasingDirection }
+  | { steps: number; jump?: StepJump }; // 默认end
 
 export interface Keyframe<T = any> {
   time: number; // 毫秒
   value: T;
   easing: EasingFunction;
+  interpolation?: KeyframeInterpolation; // 到下一关键帧的插值方式, 默认curve
+  morph?: MorphCorrespondence[]; // pathData轨道: 到下一关键帧的轮廓对应关系, 缺省时自动对应
 }
 
 export class AnimationTrack<T = any> {
   property: string; // 例如: 'transform.position.x', 'fill.color.r'
+  targetId?: string; // 目标图形ID, 为空时作用于传入applyToShape的图形
   keyframes: Keyframe<T>[];
+  colorSpace: ColorSpace; // 颜色轨道的插值色彩空间
 
-  constructor(property: string) {
+  constructor(property: string, targetId?: string) {
     this.property = property;
+    this.targetId = targetId;
     this.keyframes = [];
+    this.colorSpace = 'srgb';
   }
 
-  addKeyframe(time: number, value: T, easing: EasingFunction = 'linear'): void {
-    const keyframe: Keyframe<T> = { time, value, easing };
+  addKeyframe(
+    time: number,
+    value: T,
+    easing: EasingFunction = 'linear',
+    interpolation: KeyframeInterpolation = 'curve',
+    morph?: MorphCorrespondence[]
+  ): void {
+    const keyframe: Keyframe<T> = {
+      time,
+      value,
+      easing,
+      ...(interpolation !== 'curve' && { interpolation }),
+      ...(morph && { morph })
+    };
     
     // 保持按时间排序
     const index = this.keyframes.findIndex(kf => kf.time > time);
@@ -457,86 +1229,79 @@ export class AnimationTrack<T = any> {
       return this.keyframes[beforeIndex].value;
     }
 
-    // 插值计算
+    // 插值计算: 按属性路径选择插值器
     const before = this.keyframes[beforeIndex];
     const after = this.keyframes[afterIndex];
-    const progress = (time - before.time) / (after.time - before.time);
-    const easedProgress = this.applyEasing(progress, before.easing);
-
-    return this.interpolate(before.value, after.value, easedProgress);
-  }
+    const interpolation = before.interpolation ?? 'curve';
+    if (interpolation === 'hold') return before.value;
 
-  private applyEasing(t: number, easing: EasingFunction): number {
-    if (easing === 'linear') return t;
-    if (easing === 'ease-in') return t * t;
-    if (easing === 'ease-out') return t * (2 - t);
-    if (easing === 'ease-in-out') return t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
-    if (easing === 'bounce') {
-      if (t < 1 / 2.75) return 7.5625 * t * t;
-      if (t < 2 / 2.75) return 7.5625 * (t -= 1.5 / 2.75) * t + 0.75;
-      if (t < 2.5 / 2.75) return 7.5625 * (t -= 2.25 / 2.75) * t + 0.9375;
-      return 7.5625 * (t -= 2.625 / 2.75) * t + 0.984375;
-    }
-    if (easing === 'elastic') {
-      return Math.pow(2, -10 * t) * Math.sin((t - 0.075) * (2 * Math.PI) / 0.3) + 1;
-    }
-    // 自定义贝塞尔曲线(简化实现)
-    if (typeof easing === 'object' && 'bezier' in easing) {
-      return t; // 实际需要实现三次贝塞尔曲线
-    }
-    return t;
-  }
-
-  private interpolate(from: T, to: T, progress: number): T {
-    if (typeof from === 'number' && typeof to === 'number') {
-      return (from + (to - from) * progress) as T;
-    }
-    
-    // 对象插值(例如颜色、向量)
-    if (typeof from === 'object' && typeof to === 'object') {
-      const result: any = {};
-      for (const key in from) {
-        if (typeof from[key] === 'number' && typeof to[key] === 'number') {
-          result[key] = from[key] + (to[key] - from[key]) * progress;
-        }
-      }
-      return result as T;
-    }
-
-    return progress < 0.5 ? from : to;
+    const progress = (time - before.time) / (after.time - before.time);
+    const easedProgress = interpolation === 'linear' ? progress : evaluateEasing(before.easing, progress);
+    // 插值器按属性路径注册, 结果与关键帧值同类型
+    return resolveInterpolator(this.property)(before.value, after.value, easedProgress, {
+      colorSpace: this.colorSpace,
+      morph: before.morph
+    }) as T;
   }
 }
 
+export const DEFAULT_ANIMATION_FPS = 60;
+
 export class Animation {
   id: string;
   name: string;
   duration: number; // 毫秒
-  tracks: Map<string, AnimationTrack>; // property -> track
+  fps: number; // 时间轴与导出按此帧率对齐关键帧
+  tracks: Map<string, AnimationTrack>; // [targetId/]property -> track
   loop: 'once' | 'loop' | 'pingpong';
 
   constructor(id: string, name: string, duration = 1000) {
     this.id = id;
     this.name = name;
     this.duration = duration;
+    this.fps = DEFAULT_ANIMATION_FPS;
     this.tracks = new Map();
     this.loop = 'loop';
   }
 
-  addTrack(property: string): AnimationTrack {
-    const track = new AnimationTrack(property);
-    this.tracks.set(property, track);
+  addTrack(property: string, targetId?: string): AnimationTrack {
+    const track = new AnimationTrack(property, targetId);
+    this.tracks.set(Animation.trackKey(property, targetId), track);
     return track;
   }
 
-  getTrack(property: string): AnimationTrack | undefined {
-    return this.tracks.get(property);
+  getTrack(property: string, targetId?: string): AnimationTrack | undefined {
+    return this.tracks.get(Animation.trackKey(property, targetId));
+  }
+
+  static trackKey(property: string, targetId?: string): string {
+    return targetId ? `${targetId}/${property}` : property;
   }
 
   applyToShape(shape: Shape, time: number): void {
-    this.tracks.forEach((track, property) => {
+    this.applyTracks(shape, time, true);
+  }
+
+  /**
+   * 应用到整棵图形树(含裁切图形): 指定targetId的轨道作用于对应图形, 未指定的只作用于顶层图形
+   */
+  applyToTree(shapes: Shape[], time: number): void {
+    const visit = (shape: Shape, isRoot: boolean) => {
+      this.applyTracks(shape, time, isRoot);
+      shape.clipSources.forEach(source => visit(source, false));
+      if (shape instanceof Group) {
+        shape.children.forEach(child => visit(child, false));
+      }
+    };
+    shapes.forEach(shape => visit(shape, true));
+  }
+
+  private applyTracks(shape: Shape, time: number, includeUntargeted: boolean): void {
+    this.tracks.forEach(track => {
+      if (track.targetId ? track.targetId !== shape.id : !includeUntargeted) return;
       const value = track.getValueAtTime(time);
       if (value !== null) {
-        this.setPropertyValue(shape, property, value);
+        this.setPropertyValue(shape, track.property, value);
       }
     });
   }
@@ -668,10 +1433,12 @@ export class StateMachine {
 
 export interface RivProject {
   version: string;
+  name?: string;
   artboards: Artboard[];
   animations: Animation[];
   stateMachines: StateMachine[];
   assets: Asset[];
+  opaqueObjects?: RivObject[]; // 导入时未识别的文件级对象
 }
 
 export interface Artboard {
@@ -679,143 +1446,1184 @@ export interface Artboard {
   name: string;
   width: number;
   height: number;
+  backgroundColor?: Color; // 为空时画板背景透明
   shapes: Shape[];
+  opaqueObjects?: OpaqueRivObject[]; // 导入时未识别的画板组件
+}
+
+/**
+ * 导入时无法映射的画板组件, 导出时按父级重新分配parentId后原样写回
+ * 记录中其他指向组件ID的属性不会被重新映射
+ */
+export interface OpaqueRivObject {
+  record: RivObject;
+  parentShapeId?: string;
+  parentOpaqueIndex?: number;
 }
 
+/**
+ * 资源交付方式: embedded内嵌到.riv, cdn由运行时按cdnUuid从CDN下载, host由宿主应用加载时提供
+ */
+export type AssetDelivery = 'embedded' | 'cdn' | 'host';
+
 export interface Asset {
   id: string;
   name: string;
   type: 'image' | 'font';
-  data: ArrayBuffer;
+  data: ArrayBuffer; // 非内嵌资源也保留原始数据, 便于编辑器预览与导出宿主文件
+  delivery?: AssetDelivery; // 默认embedded
+  cdnUuid?: string; // delivery为cdn时必填, 形如 xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx
+  cdnBaseUrl?: string;
+}
+
+/**
+ * 导出时遇到.riv无法表示的结构时抛出, path指向项目中出错的字段
+ */
+export class RivExportError extends Error {
+  readonly path: string;
+
+  constructor(message: string, path: string) {
+    super(`${path}: ${message}`);
+    this.name = 'RivExportError';
+    this.path = path;
+  }
+}
+
+/**
+ * 导出时被忽略的内容, 导出照常完成
+ */
+export interface RivExportWarning {
+  path: string;
+  message: string;
+}
+
+// 反向裁切时叠加的覆盖矩形名称, 导入时据此还原clipInverse
+export const INVERSE_CLIP_COVER_NAME = '反向裁切范围';
+
+interface ExportedShape {
+  shape: Shape;
+  path: string;
+  nodeId: number;
+  fitScale?: Vector2; // 图片适配折算进节点缩放的倍数, 缩放轨道需要同样换算
+  geometryId?: number;
+  fillColorId?: number;
+  strokeId?: number;
+  strokeColorId?: number;
+  trimId?: number;
+  vertexIds?: number[][]; // 路径变形: 各轮廓顶点的组件ID
+  morphLayouts?: Map<AnimationTrack, PathContour[][]>; // 路径变形: pathData轨道各关键帧的兼容结构
+}
+
+interface ArtboardExportContext {
+  artboard: Artboard;
+  path: string;
+  assetIndex: Map<string, number>; // 资源ID -> .riv中的资源序号
+  components: RivObject[]; // 数组索引即画板内组件ID(画板自身为0)
+  shapes: Map<string, ExportedShape>;
+  morphTracks: Map<string, Array<{ track: AnimationTrack; path: string }>>; // 图形ID -> pathData轨道
+  interpolators: Map<string, number>;
+  animations: Array<{ animation: Animation; path: string }>;
+  stateMachines: Array<{ stateMachine: StateMachine; path: string }>;
 }
 
 export class RivExporter {
+  warnings: RivExportWarning[] = [];
+
   /**
    * 将项目导出为.riv二进制文件
-   * 注意: 这是简化实现,真实的Rive格式需要使用Protobuf并严格遵循官方规范
+   * 输出Rive运行时可加载的Core对象流, 无法表示的结构会抛出RivExportError
+   * 图层效果等.riv没有对应、但忽略后不影响结构的内容记入warnings
    */
   async exportToRiv(project: RivProject): Promise<Uint8Array> {
-    // 实际实现需要:
-    // 1. 定义Protobuf消息格式(参考Rive Runtime源码)
-    // 2. 将内部数据结构转换为Rive格式
-    // 3. 使用protobuf.js序列化
-    
-    const jsonData = JSON.stringify({
-      version: project.version,
-      artboards: project.artboards.map(ab => this.serializeArtboard(ab)),
-      animations: project.animations.map(anim => this.serializeAnimation(anim)),
-      stateMachines: project.stateMachines.map(sm => this.serializeStateMachine(sm)),
-      assets: project.assets.map(asset => this.serializeAsset(asset))
+    this.warnings = [];
+    const objects: RivObject[] = [rivObject(RivTypeKey.Backboard)];
+
+    // 内容相同的资源只写入一次
+    const { assets, indexOf } = await uniqueAssets(project.assets);
+    assets.forEach((asset, index) => {
+      objects.push(...this.serializeAsset(asset, index, `assets[${project.assets.indexOf(asset)}]`));
+    });
+    objects.push(...(project.opaqueObjects || []));
+
+    // 路径变形的顶点结构要在写入路径时确定, 先收集pathData轨道
+    const morphTracks = new Map<string, Array<{ track: AnimationTrack; path: string }>>();
+    project.animations.forEach((animation, index) => {
+      animation.tracks.forEach(track => {
+        if (track.property !== 'pathData' || !track.targetId || track.keyframes.length === 0) return;
+        const list = morphTracks.get(track.targetId) || [];
+        list.push({ track, path: `animations[${index}].tracks["${Animation.trackKey(track.property, track.targetId)}"]` });
+        morphTracks.set(track.targetId, list);
+      });
+    });
+
+    const contexts = project.artboards.map((artboard, index) =>
+      this.createArtboardContext(artboard, `artboards[${index}]`, indexOf, morphTracks)
+    );
+
+    project.animations.forEach((animation, index) => {
+      const path = `animations[${index}]`;
+      this.findAnimationArtboard(animation, contexts, path).animations.push({ animation, path });
+    });
+
+    project.stateMachines.forEach((stateMachine, index) => {
+      const path = `stateMachines[${index}]`;
+      this.findStateMachineArtboard(stateMachine, contexts, path).stateMachines.push({
+        stateMachine,
+        path
+      });
+    });
+
+    contexts.forEach(context => {
+      objects.push(...this.serializeArtboard(context));
     });
 
-    // 转换为二进制(实际应使用Protobuf)
-    const encoder = new TextEncoder();
-    return encoder.encode(jsonData);
+    return encodeRivFile(objects);
   }
 
-  private serializeArtboard(artboard: Artboard): any {
-    return {
-      id: artboard.id,
-      name: artboard.name,
-      width: artboard.width,
-      height: artboard.height,
-      shapes: artboard.shapes.map(shape => this.serializeShape(shape))
+  private createArtboardContext(
+    artboard: Artboard,
+    path: string,
+    assetIndex: Map<string, number>,
+    morphTracks: Map<string, Array<{ track: AnimationTrack; path: string }>>
+  ): ArtboardExportContext {
+    const context: ArtboardExportContext = {
+      artboard,
+      path,
+      assetIndex,
+      components: [],
+      shapes: new Map(),
+      morphTracks,
+      interpolators: new Map(),
+      animations: [],
+      stateMachines: []
     };
+
+    context.components.push(rivObject(RivTypeKey.Artboard, [
+      [RivPropertyKey.name, artboard.name],
+      [RivPropertyKey.artboardWidth, artboard.width],
+      [RivPropertyKey.artboardHeight, artboard.height],
+      [RivPropertyKey.artboardOriginX, 0],
+      [RivPropertyKey.artboardOriginY, 0]
+    ]));
+
+    artboard.shapes.forEach((shape, index) => {
+      this.serializeShape(shape, 0, `${path}.shapes[${index}]`, context, false);
+    });
+
+    this.serializeOpaqueObjects(context);
+
+    return context;
   }
 
-  private serializeShape(shape: Shape): any {
-    const base = {
-      id: shape.id,
-      name: shape.name,
-      transform: shape.transform,
-      opacity: shape.opacity,
-      visible: shape.visible
-    };
+  private serializeOpaqueObjects(context: ArtboardExportContext): void {
+    const opaqueIds: number[] = [];
+
+    (context.artboard.opaqueObjects || []).forEach((opaque, index) => {
+      const path = `${context.path}.opaqueObjects[${index}]`;
+      let parentId = 0;
+      if (opaque.parentShapeId !== undefined) {
+        const parent = context.shapes.get(opaque.parentShapeId);
+        if (!parent) {
+          throw new RivExportError(`父图形 "${opaque.parentShapeId}" 已不存在`, path);
+        }
+        parentId = parent.nodeId;
+      } else if (opaque.parentOpaqueIndex !== undefined) {
+        parentId = opaqueIds[opaque.parentOpaqueIndex];
+        if (parentId === undefined) {
+          throw new RivExportError(`父对象 ${opaque.parentOpaqueIndex} 必须排在前面`, path);
+        }
+      }
+
+      opaqueIds.push(context.components.length);
+      context.components.push({
+        typeKey: opaque.record.typeKey,
+        properties: opaque.record.properties.map(property =>
+          property.key === RivPropertyKey.parentId ? { ...property, value: parentId } : property
+        )
+      });
+    });
+  }
+
+  private findAnimationArtboard(
+    animation: Animation,
+    contexts: ArtboardExportContext[],
+    path: string
+  ): ArtboardExportContext {
+    const owners = new Set<ArtboardExportContext>();
+    animation.tracks.forEach(track => {
+      if (!track.targetId) {
+        throw new RivExportError(`轨道 "${track.property}" 缺少目标图形`, path);
+      }
+      const owner = contexts.find(context => context.shapes.has(track.targetId!));
+      if (!owner) {
+        throw new RivExportError(`轨道目标图形 "${track.targetId}" 不在任何画板中`, path);
+      }
+      owners.add(owner);
+    });
+
+    if (owners.size > 1) {
+      throw new RivExportError('动画的轨道跨越了多个画板', path);
+    }
+    if (owners.size === 1) {
+      return owners.values().next().value!;
+    }
+    if (contexts.length === 0) {
+      throw new RivExportError('项目中没有画板可以容纳该动画', path);
+    }
+    return contexts[0];
+  }
+
+  private findStateMachineArtboard(
+    stateMachine: StateMachine,
+    contexts: ArtboardExportContext[],
+    path: string
+  ): ArtboardExportContext {
+    const owners = new Set<ArtboardExportContext>();
+    stateMachine.states.forEach(state => {
+      if (!state.animationId) return;
+      const owner = contexts.find(context =>
+        context.animations.some(({ animation }) => animation.id === state.animationId)
+      );
+      if (!owner) {
+        throw new RivExportError(`状态 "${state.name}" 引用了不存在的动画 "${state.animationId}"`, path);
+      }
+      owners.add(owner);
+    });
+
+    if (owners.size > 1) {
+      throw new RivExportError('状态机引用了多个画板中的动画', path);
+    }
+    if (owners.size === 1) {
+      return owners.values().next().value!;
+    }
+    if (contexts.length === 0) {
+      throw new RivExportError('项目中没有画板可以容纳该状态机', path);
+    }
+    return contexts[0];
+  }
+
+  private serializeArtboard(context: ArtboardExportContext): RivObject[] {
+    // 动画序列化过程中可能追加插值器组件, 所以先生成动画再拼接
+    const animationObjects: RivObject[] = [];
+    context.animations.forEach(({ animation, path }) => {
+      animationObjects.push(...this.serializeAnimation(animation, context, path));
+    });
+
+    const stateMachineObjects: RivObject[] = [];
+    context.stateMachines.forEach(({ stateMachine, path }) => {
+      stateMachineObjects.push(...this.serializeStateMachine(stateMachine, context, path));
+    });
+
+    return [...context.components, ...animationObjects, ...stateMachineObjects];
+  }
+
+  // ========== 图形 ==========
+
+  private serializeShape(
+    shape: Shape,
+    parentId: number,
+    path: string,
+    context: ArtboardExportContext,
+    hidden: boolean
+  ): void {
+    // .riv没有布尔组, 按当前结果拼合为路径
+    if (shape instanceof BooleanGroup) {
+      this.serializeShape(shape.toPath(), parentId, path, context, hidden);
+      return;
+    }
+    // 文字按字形轮廓导出, 保证与编辑器中的效果一致
+    if (shape instanceof Text) {
+      const outlines = shape.toOutlines();
+      if (!outlines) {
+        throw new RivExportError('文本没有可用的字体资源, 无法转为轮廓', `${path}.assetId`);
+      }
+      this.serializeShape(outlines, parentId, path, context, hidden);
+      return;
+    }
+
+    const isHidden = hidden || !shape.visible;
+    const isGroup = shape instanceof Group;
+
+    if (!isGroup && !(shape instanceof Rectangle || shape instanceof Ellipse || shape instanceof Path || shape instanceof Image)) {
+      throw new RivExportError(`不支持导出的图形类型 ${shape.constructor.name}`, path);
+    }
+
+    const entry: ExportedShape = { shape, path, nodeId: context.components.length };
+    context.shapes.set(shape.id, entry);
+
+    const t = shape.transform;
+    if (t.skew.x !== 0 || t.skew.y !== 0) {
+      throw new RivExportError('.riv的节点变换不支持斜切', `${path}.transform.skew`);
+    }
+    shape.effects.forEach((effect, index) => {
+      if (effect.visible) this.warnings.push({ path: `${path}.effects[${index}]`, message: `.riv不支持${EFFECT_NAMES[effect.type]}效果, 已忽略` });
+    });
+    if (isGroup && shape.blendMode !== 'normal') {
+      this.warnings.push({ path: `${path}.blendMode`, message: '.riv的组不支持混合模式, 已忽略' });
+    }
+    if (shape instanceof Image) {
+      this.serializeImage(shape, entry, parentId, context, isHidden);
+      this.serializeClip(entry, context);
+      return;
+    }
+    context.components.push(rivObject(isGroup ? RivTypeKey.Node : RivTypeKey.Shape, [
+      [RivPropertyKey.name, shape.name],
+      [RivPropertyKey.parentId, parentId],
+      [RivPropertyKey.x, t.position.x],
+      [RivPropertyKey.y, t.position.y],
+      [RivPropertyKey.rotation, t.rotation],
+      [RivPropertyKey.scaleX, t.scale.x],
+      [RivPropertyKey.scaleY, t.scale.y],
+      [RivPropertyKey.opacity, shape.opacity],
+      [RivPropertyKey.blendModeValue, isGroup || shape.blendMode === 'normal' ? undefined : RivBlendMode[shape.blendMode]]
+    ]));
+    this.serializeClip(entry, context);
+
+    if (shape instanceof Group) {
+      shape.children.forEach((child, index) => {
+        this.serializeShape(child, entry.nodeId, `${path}.children[${index}]`, context, isHidden);
+      });
+      return;
+    }
 
     if (shape instanceof Rectangle) {
-      return {
-        ...base,
-        type: 'rectangle',
-        width: shape.width,
-        height: shape.height,
-        cornerRadius: shape.cornerRadius,
-        fill: shape.fill,
-        stroke: shape.stroke
-      };
+      entry.geometryId = context.components.length;
+      context.components.push(rivObject(RivTypeKey.Rectangle, [
+        [RivPropertyKey.parentId, entry.nodeId],
+        [RivPropertyKey.width, shape.width],
+        [RivPropertyKey.height, shape.height],
+        [RivPropertyKey.originX, t.pivot.x],
+        [RivPropertyKey.originY, t.pivot.y],
+        [RivPropertyKey.cornerRadiusTL, shape.cornerRadius]
+      ]));
     } else if (shape instanceof Ellipse) {
-      return {
-        ...base,
-        type: 'ellipse',
-        radiusX: shape.radiusX,
-        radiusY: shape.radiusY,
-        fill: shape.fill,
-        stroke: shape.stroke
-      };
+      entry.geometryId = context.components.length;
+      context.components.push(rivObject(RivTypeKey.Ellipse, [
+        [RivPropertyKey.parentId, entry.nodeId],
+        [RivPropertyKey.width, shape.radiusX * 2],
+        [RivPropertyKey.height, shape.radiusY * 2],
+        [RivPropertyKey.originX, t.pivot.x],
+        [RivPropertyKey.originY, t.pivot.y]
+      ]));
     } else if (shape instanceof Path) {
-      return {
-        ...base,
-        type: 'path',
-        pathData: shape.pathData,
-        fill: shape.fill,
-        stroke: shape.stroke
-      };
+      this.serializePathGeometry(shape, entry, context);
     }
 
-    return base;
+    this.serializePaints(entry, context, isHidden);
   }
 
-  private serializeAnimation(animation: Animation): any {
-    const tracks: any[] = [];
-    animation.tracks.forEach((track, property) => {
-      tracks.push({
-        property,
-        keyframes: track.keyframes
+  /**
+   * 可见的裁切图形隐藏写入自身下的一个节点, ClippingShape以该节点为来源(节点下全部路径的并集), 裁切图形的动画照常导出
+   * .riv没有反向裁切: 叠加覆盖画板的矩形并按奇偶规则裁切, 只支持单个裁切图形, 覆盖范围按导出时的位置计算
+   */
+  private serializeClip(entry: ExportedShape, context: ArtboardExportContext): void {
+    const { shape, path, nodeId } = entry;
+    if (shape.clipSources.length === 0) return;
+    const sources = shape.clipSources.filter(source => source.visible);
+    if (shape.clipInverse && sources.length > 1) {
+      throw new RivExportError('.riv的反向裁切只支持单个裁切图形', `${path}.clipSources`);
+    }
+
+    const sourceId = context.components.length;
+    context.components.push(rivObject(RivTypeKey.Node, [
+      [RivPropertyKey.name, `${shape.name} 裁切`],
+      [RivPropertyKey.parentId, nodeId]
+    ]));
+    shape.clipSources.forEach((source, index) => {
+      if (!source.visible) return;
+      this.serializeShape(source, sourceId, `${path}.clipSources[${index}]`, context, true);
+    });
+
+    let fillRule = sources.length === 1 && sources[0] instanceof Path && sources[0].fillRule === 'evenodd' ? 1 : 0;
+    if (shape.clipInverse) {
+      const inverse = invertAffine(shape.getWorldMatrix());
+      if (!inverse) {
+        throw new RivExportError('图形缩放为0, 无法计算反向裁切的范围', `${path}.clipInverse`);
+      }
+      const { width, height } = context.artboard;
+      const bounds = contoursBounds([rectangleContour(0, 0, width, height, 0)], inverse)!;
+      const cover = new Rectangle(`${shape.id}_clip_cover`, INVERSE_CLIP_COVER_NAME, bounds.width, bounds.height);
+      cover.transform.position = { x: bounds.x, y: bounds.y };
+      this.serializeShape(cover, sourceId, `${path}.clipInverse`, context, true);
+      fillRule = 1;
+    }
+
+    context.components.push(rivObject(RivTypeKey.ClippingShape, [
+      [RivPropertyKey.parentId, nodeId],
+      [RivPropertyKey.clippingSourceId, sourceId],
+      [RivPropertyKey.clippingFillRule, fillRule],
+      [RivPropertyKey.clippingIsVisible, 1]
+    ]));
+  }
+
+  /**
+   * Rive图片按原始像素尺寸绘制, 适配方式折算为节点缩放与图片原点
+   * 只引用资源序号, 像素数据随资源写入一次
+   */
+  private serializeImage(
+    shape: Image,
+    entry: ExportedShape,
+    parentId: number,
+    context: ArtboardExportContext,
+    hidden: boolean
+  ): void {
+    const { path } = entry;
+    const assetIndex = shape.assetId === null ? undefined : context.assetIndex.get(shape.assetId);
+    if (!shape.image || assetIndex === undefined) {
+      throw new RivExportError('图片没有可用的图片资源', `${path}.assetId`);
+    }
+    if (shape.overflowsFrame()) {
+      throw new RivExportError(`.riv图片不支持裁切, 适配方式 "${shape.fit}" 超出了图片框`, `${path}.fit`);
+    }
+    if (shape.stroke) {
+      throw new RivExportError('.riv图片不支持描边', `${path}.stroke`);
+    }
+
+    const rect = shape.getImageRect();
+    const fitScale = { x: rect.width / shape.image.width, y: rect.height / shape.image.height };
+    entry.fitScale = fitScale;
+
+    const t = shape.transform;
+    context.components.push(rivObject(RivTypeKey.Image, [
+      [RivPropertyKey.name, shape.name],
+      [RivPropertyKey.parentId, parentId],
+      [RivPropertyKey.x, t.position.x],
+      [RivPropertyKey.y, t.position.y],
+      [RivPropertyKey.rotation, t.rotation],
+      [RivPropertyKey.scaleX, t.scale.x * fitScale.x],
+      [RivPropertyKey.scaleY, t.scale.y * fitScale.y],
+      [RivPropertyKey.opacity, shape.opacity],
+      [RivPropertyKey.blendModeValue, shape.blendMode === 'normal' ? undefined : RivBlendMode[shape.blendMode]],
+      [RivPropertyKey.drawableFlags, hidden ? 1 : undefined],
+      [RivPropertyKey.imageAssetId, assetIndex],
+      [RivPropertyKey.imageOriginX, rect.width > 0 ? -rect.x / rect.width : t.pivot.x],
+      [RivPropertyKey.imageOriginY, rect.height > 0 ? -rect.y / rect.height : t.pivot.y]
+    ]));
+  }
+
+  private serializePathGeometry(
+    shape: Path,
+    entry: ExportedShape,
+    context: ArtboardExportContext
+  ): void {
+    const contours = this.parseContours(shape.pathData, `${entry.path}.pathData`);
+    const morphTracks = context.morphTracks.get(shape.id);
+    if (morphTracks) {
+      this.serializeMorphGeometry(contours, morphTracks, entry, context);
+      return;
+    }
+
+    contours.forEach(contour => {
+      const pathId = context.components.length;
+      context.components.push(rivObject(RivTypeKey.PointsPath, [
+        [RivPropertyKey.parentId, entry.nodeId],
+        [RivPropertyKey.isClosed, contour.closed ? 1 : 0]
+      ]));
+
+      contour.vertices.forEach(vertex => {
+        const { point } = vertex;
+        if (isStraightVertex(vertex)) {
+          context.components.push(rivObject(RivTypeKey.StraightVertex, [
+            [RivPropertyKey.parentId, pathId],
+            [RivPropertyKey.vertexX, point.x],
+            [RivPropertyKey.vertexY, point.y]
+          ]));
+          return;
+        }
+
+        // Rive以极坐标(角度+距离)描述相对锚点的控制柄
+        context.components.push(rivObject(RivTypeKey.CubicDetachedVertex, [
+          [RivPropertyKey.parentId, pathId],
+          [RivPropertyKey.vertexX, point.x],
+          [RivPropertyKey.vertexY, point.y],
+          [RivPropertyKey.inRotation, Math.atan2(vertex.in.y - point.y, vertex.in.x - point.x)],
+          [RivPropertyKey.inDistance, Math.hypot(vertex.in.x - point.x, vertex.in.y - point.y)],
+          [RivPropertyKey.outRotation, Math.atan2(vertex.out.y - point.y, vertex.out.x - point.x)],
+          [RivPropertyKey.outDistance, Math.hypot(vertex.out.x - point.x, vertex.out.y - point.y)]
+        ]));
       });
     });
+  }
 
-    return {
-      id: animation.id,
-      name: animation.name,
-      duration: animation.duration,
-      loop: animation.loop,
-      tracks
-    };
+  /**
+   * 有pathData轨道的路径: 路径与全部关键帧统一为兼容结构, 顶点全部写为CubicDetachedVertex以便逐顶点设置关键帧
+   * 每条轨道的首个关键帧对齐到路径本身, 其余关键帧对齐到前一关键帧
+   */
+  private serializeMorphGeometry(
+    contours: PathContour[],
+    morphTracks: Array<{ track: AnimationTrack; path: string }>,
+    entry: ExportedShape,
+    context: ArtboardExportContext
+  ): void {
+    const sources: MorphSource[] = [{ contours }];
+    const segments: MorphSource[][] = []; // 相邻两个关键帧, 与编辑器预览的统一方式相同
+    morphTracks.forEach(({ track, path }) => {
+      track.keyframes.forEach((keyframe, index) => {
+        const keyframePath = `${path}.keyframes[${index}].value`;
+        if (typeof keyframe.value !== 'string') {
+          throw new RivExportError('路径轨道的关键帧值必须是路径数据', keyframePath);
+        }
+        const keyframeContours = this.parseContours(keyframe.value, keyframePath);
+        if (index === 0) {
+          sources.push({ contours: keyframeContours, alignTo: 0 });
+          return;
+        }
+        const correspondence = track.keyframes[index - 1].morph;
+        segments.push([{ contours: sources[sources.length - 1].contours }, { contours: keyframeContours, correspondence }]);
+        sources.push({ contours: keyframeContours, correspondence });
+      });
+    });
+
+    const layouts = conformContours(sources);
+    entry.morphLayouts = new Map();
+    let offset = 1;
+    morphTracks.forEach(({ track }) => {
+      entry.morphLayouts!.set(track, layouts.slice(offset, offset + track.keyframes.length));
+      offset += track.keyframes.length;
+    });
+
+    // 编辑器预览只统一相邻两个关键帧, 统一全部关键帧需要更多顶点时中间帧的形状会略有不同
+    const vertexCount = (layout: PathContour[]) => layout.reduce((sum, contour) => sum + contour.vertices.length, 0);
+    if (segments.some(pair => vertexCount(conformContours(pair)[0]) !== vertexCount(layouts[0]))) {
+      this.warnings.push({
+        path: morphTracks[0].path,
+        message: '路径变形的各关键帧已统一为相同顶点数, 中间帧与编辑器预览可能略有差异'
+      });
+    }
+
+    entry.vertexIds = layouts[0].map(contour => {
+      const pathId = context.components.length;
+      context.components.push(rivObject(RivTypeKey.PointsPath, [
+        [RivPropertyKey.parentId, entry.nodeId],
+        [RivPropertyKey.isClosed, contour.closed ? 1 : 0]
+      ]));
+      return contour.vertices.map(vertex => {
+        const id = context.components.length;
+        const { point } = vertex;
+        context.components.push(rivObject(RivTypeKey.CubicDetachedVertex, [
+          [RivPropertyKey.parentId, pathId],
+          [RivPropertyKey.vertexX, point.x],
+          [RivPropertyKey.vertexY, point.y],
+          [RivPropertyKey.inRotation, Math.atan2(vertex.in.y - point.y, vertex.in.x - point.x)],
+          [RivPropertyKey.inDistance, Math.hypot(vertex.in.x - point.x, vertex.in.y - point.y)],
+          [RivPropertyKey.outRotation, Math.atan2(vertex.out.y - point.y, vertex.out.x - point.x)],
+          [RivPropertyKey.outDistance, Math.hypot(vertex.out.x - point.x, vertex.out.y - point.y)]
+        ]));
+        return id;
+      });
+    });
   }
 
-  private serializeStateMachine(stateMachine: StateMachine): any {
-    return {
-      id: stateMachine.id,
-      name: stateMachine.name,
-      states: Array.from(stateMachine.states.values()),
-      transitions: stateMachine.transitions,
-      entryState: stateMachine.entryState
-    };
+  private parseContours(pathData: string, path: string): PathContour[] {
+    try {
+      return parseContours(pathData);
+    } catch (error) {
+      if (error instanceof PathDataError) throw new RivExportError(error.message, path);
+      throw error;
+    }
   }
 
-  private serializeAsset(asset: Asset): any {
-    // 将ArrayBuffer转换为Base64
-    const bytes = new Uint8Array(asset.data);
-    const base64 = btoa(String.fromCharCode(...bytes));
+  private serializePaints(entry: ExportedShape, context: ArtboardExportContext, hidden: boolean): void {
+    const { shape, path, nodeId } = entry;
+    const isVisible = hidden ? 0 : 1;
+
+    if (shape.fill.type !== 'none') {
+      const fillId = context.components.length;
+      context.components.push(rivObject(RivTypeKey.Fill, [
+        [RivPropertyKey.parentId, nodeId],
+        [RivPropertyKey.isVisible, isVisible],
+        [RivPropertyKey.fillRule, shape instanceof Path && shape.fillRule === 'evenodd' ? 1 : 0]
+      ]));
+
+      if (shape.fill.type === 'solid') {
+        if (!shape.fill.color) {
+          throw new RivExportError('纯色填充缺少颜色', `${path}.fill.color`);
+        }
+        entry.fillColorId = context.components.length;
+        context.components.push(rivObject(RivTypeKey.SolidColor, [
+          [RivPropertyKey.parentId, fillId],
+          [RivPropertyKey.colorValue, packColor(shape.fill.color)]
+        ]));
+      } else {
+        this.serializeGradient(shape.fill.gradient, fillId, `${path}.fill.gradient`, context);
+      }
+    }
 
-    return {
-      id: asset.id,
-      name: asset.name,
-      type: asset.type,
-      data: base64
+    if (shape.stroke) {
+      const stroke = shape.stroke;
+      if (stroke.dashArray && stroke.dashArray.length > 0) {
+        throw new RivExportError('虚线描边无法导出为.riv', `${path}.stroke.dashArray`);
+      }
+
+      entry.strokeId = context.components.length;
+      context.components.push(rivObject(RivTypeKey.Stroke, [
+        [RivPropertyKey.parentId, nodeId],
+        [RivPropertyKey.isVisible, isVisible],
+        [RivPropertyKey.thickness, stroke.width],
+        [RivPropertyKey.cap, RivStrokeCap[stroke.cap]],
+        [RivPropertyKey.join, RivStrokeJoin[stroke.join]],
+        [RivPropertyKey.transformAffectsStroke, 1]
+      ]));
+
+      entry.strokeColorId = context.components.length;
+      context.components.push(rivObject(RivTypeKey.SolidColor, [
+        [RivPropertyKey.parentId, entry.strokeId],
+        [RivPropertyKey.colorValue, packColor(stroke.color)]
+      ]));
+
+      if (stroke.trim) {
+        entry.trimId = context.components.length;
+        context.components.push(rivObject(RivTypeKey.TrimPath, [
+          [RivPropertyKey.parentId, entry.strokeId],
+          [RivPropertyKey.trimStart, stroke.trim.start],
+          [RivPropertyKey.trimEnd, stroke.trim.end],
+          [RivPropertyKey.trimOffset, stroke.trim.offset],
+          [RivPropertyKey.trimModeValue, RivTrimMode[stroke.trim.mode]]
+        ]));
+      }
+    }
+  }
+
+  private serializeGradient(
+    gradient: Gradient | undefined,
+    parentId: number,
+    path: string,
+    context: ArtboardExportContext
+  ): void {
+    if (!gradient) {
+      throw new RivExportError('渐变填充缺少渐变定义', path);
+    }
+
+    let start: Vector2;
+    let end: Vector2;
+    if (gradient.type === 'linear') {
+      if (!gradient.start || !gradient.end) {
+        throw new RivExportError('线性渐变缺少起点或终点', path);
+      }
+      start = gradient.start;
+      end = gradient.end;
+    } else {
+      if (!gradient.center || gradient.radius === undefined) {
+        throw new RivExportError('径向渐变缺少圆心或半径', path);
+      }
+      // Rive径向渐变以起点为圆心, 起点到终点的距离为半径
+      start = gradient.center;
+      end = { x: gradient.center.x + gradient.radius, y: gradient.center.y };
+    }
+
+    const gradientId = context.components.length;
+    context.components.push(rivObject(
+      gradient.type === 'linear' ? RivTypeKey.LinearGradient : RivTypeKey.RadialGradient,
+      [
+        [RivPropertyKey.parentId, parentId],
+        [RivPropertyKey.startX, start.x],
+        [RivPropertyKey.startY, start.y],
+        [RivPropertyKey.endX, end.x],
+        [RivPropertyKey.endY, end.y],
+        [RivPropertyKey.gradientOpacity, 1]
+      ]
+    ));
+
+    gradient.stops.forEach(stop => {
+      context.components.push(rivObject(RivTypeKey.GradientStop, [
+        [RivPropertyKey.parentId, gradientId],
+        [RivPropertyKey.stopColorValue, packColor(stop.color)],
+        [RivPropertyKey.stopPosition, stop.offset]
+      ]));
+    });
+  }
+
+  // ========== 动画 ==========
+
+  private serializeAnimation(
+    animation: Animation,
+    context: ArtboardExportContext,
+    path: string
+  ): RivObject[] {
+    // .riv的帧率为整数
+    const fps = Math.max(1, Math.round(animation.fps));
+    if (fps !== animation.fps) {
+      this.warnings.push({ path: `${path}.fps`, message: `.riv的帧率必须为整数, ${animation.fps} 已按 ${fps} 导出` });
+    }
+    const toFrame = (ms: number) => Math.round((ms / 1000) * fps);
+
+    const objects: RivObject[] = [rivObject(RivTypeKey.LinearAnimation, [
+      [RivPropertyKey.animationName, animation.name],
+      [RivPropertyKey.fps, fps],
+      [RivPropertyKey.duration, toFrame(animation.duration)],
+      [RivPropertyKey.speed, 1],
+      [RivPropertyKey.loopValue, RivLoopValue[animation.loop]]
+    ])];
+
+    // 按目标组件分组: 同一KeyedObject下依次写入KeyedProperty
+    const keyed = new Map<number, RivObject[]>();
+    animation.tracks.forEach(track => {
+      const trackPath = `${path}.tracks["${Animation.trackKey(track.property, track.targetId)}"]`;
+      const entry = context.shapes.get(track.targetId!)!;
+      if (track.property.startsWith('effects.')) {
+        this.warnings.push({ path: trackPath, message: '.riv不支持图层效果, 效果动画已忽略' });
+        return;
+      }
+      // 虚线描边无法导出, 没有虚线时偏移不影响显示
+      if (track.property === 'stroke.dashOffset') {
+        this.warnings.push({ path: trackPath, message: '.riv不支持虚线, 虚线偏移动画已忽略' });
+        return;
+      }
+      if (track.property === 'pathData') {
+        this.serializeMorphTrack(track, entry, context, trackPath, toFrame).forEach((trackObjects, objectId) => {
+          keyed.set(objectId, [...(keyed.get(objectId) || []), ...trackObjects]);
+        });
+        return;
+      }
+      const target = this.resolveKeyedProperty(entry, track.property, trackPath);
+      if (target.kind === 'color' && track.colorSpace !== 'srgb') {
+        this.warnings.push({
+          path: trackPath,
+          message: `.riv的颜色只在sRGB中插值, ${COLOR_SPACE_NAMES[track.colorSpace]}插值已按sRGB导出`
+        });
+      }
+      // .riv逐值线性插值, 角度先展开为连续值以保持较短方向的旋转
+      const values = resolveInterpolator(track.property) === angleInterpolator
+        ? unwrapAngles(track.keyframes.map(keyframe => keyframe.value))
+        : track.keyframes.map(keyframe => keyframe.value);
+
+      const trackObjects: RivObject[] = [rivObject(RivTypeKey.KeyedProperty, [
+        [RivPropertyKey.propertyKey, target.propertyKey]
+      ])];
+
+      track.keyframes.forEach((keyframe, index) => {
+        const keyframePath = `${trackPath}.keyframes[${index}]`;
+        const interpolation = this.resolveInterpolation(keyframe, context, keyframePath);
+        const common: Array<[number, number | undefined]> = [
+          [RivPropertyKey.frame, toFrame(keyframe.time)],
+          [RivPropertyKey.interpolationType, interpolation.type],
+          [RivPropertyKey.interpolatorId, interpolation.interpolatorId]
+        ];
+
+        const value = values[index];
+        if (target.kind === 'color') {
+          if (!value || typeof value !== 'object' || typeof value.r !== 'number') {
+            throw new RivExportError('颜色轨道的关键帧值必须是Color', keyframePath);
+          }
+          trackObjects.push(rivObject(RivTypeKey.KeyFrameColor, [
+            ...common,
+            [RivPropertyKey.keyFrameColorValue, packColor(value)]
+          ]));
+        } else {
+          if (typeof value !== 'number') {
+            throw new RivExportError('数值轨道的关键帧值必须是数字', keyframePath);
+          }
+          trackObjects.push(rivObject(RivTypeKey.KeyFrameDouble, [
+            ...common,
+            [RivPropertyKey.keyFrameValue, value * target.scale]
+          ]));
+        }
+      });
+
+      const list = keyed.get(target.objectId) || [];
+      list.push(...trackObjects);
+      keyed.set(target.objectId, list);
+    });
+
+    keyed.forEach((trackObjects, objectId) => {
+      objects.push(rivObject(RivTypeKey.KeyedObject, [[RivPropertyKey.objectId, objectId]]));
+      objects.push(...trackObjects);
+    });
+
+    return objects;
+  }
+
+  /**
+   * pathData轨道按顶点拆为位置与控制柄(极坐标)的关键帧, 顶点结构在写入路径时已统一
+   */
+  private serializeMorphTrack(
+    track: AnimationTrack,
+    entry: ExportedShape,
+    context: ArtboardExportContext,
+    trackPath: string,
+    toFrame: (ms: number) => number
+  ): Map<number, RivObject[]> {
+    const layouts = entry.morphLayouts?.get(track);
+    if (!layouts || !entry.vertexIds) {
+      throw new RivExportError('只有路径图形可以导出路径变形动画', trackPath);
+    }
+    const interpolations = track.keyframes.map((keyframe, index) =>
+      this.resolveInterpolation(keyframe, context, `${trackPath}.keyframes[${index}]`)
+    );
+    const keyedProperty = (propertyKey: number, values: number[]): RivObject[] => [
+      rivObject(RivTypeKey.KeyedProperty, [[RivPropertyKey.propertyKey, propertyKey]]),
+      ...track.keyframes.map((keyframe, index) => rivObject(RivTypeKey.KeyFrameDouble, [
+        [RivPropertyKey.frame, toFrame(keyframe.time)],
+        [RivPropertyKey.interpolationType, interpolations[index].type],
+        [RivPropertyKey.interpolatorId, interpolations[index].interpolatorId],
+        [RivPropertyKey.keyFrameValue, values[index]]
+      ]))
+    ];
+
+    const keyed = new Map<number, RivObject[]>();
+    entry.vertexIds.forEach((ids, contourIndex) => {
+      ids.forEach((objectId, vertexIndex) => {
+        const vertices = layouts.map(layout => layout[contourIndex].vertices[vertexIndex]);
+        const handles = (side: 'in' | 'out') =>
+          handleKeyframes(vertices.map(vertex => ({ point: vertex.point, handle: vertex[side] })));
+        const inHandles = handles('in');
+        const outHandles = handles('out');
+        keyed.set(objectId, [
+          ...keyedProperty(RivPropertyKey.vertexX, vertices.map(vertex => vertex.point.x)),
+          ...keyedProperty(RivPropertyKey.vertexY, vertices.map(vertex => vertex.point.y)),
+          ...keyedProperty(RivPropertyKey.inRotation, inHandles.map(handle => handle.rotation)),
+          ...keyedProperty(RivPropertyKey.inDistance, inHandles.map(handle => handle.distance)),
+          ...keyedProperty(RivPropertyKey.outRotation, outHandles.map(handle => handle.rotation)),
+          ...keyedProperty(RivPropertyKey.outDistance, outHandles.map(handle => handle.distance))
+        ]);
+      });
+    });
+    return keyed;
+  }
+
+  /**
+   * 将引擎属性路径映射到Rive组件与属性键
+   */
+  private resolveKeyedProperty(
+    entry: ExportedShape,
+    property: string,
+    path: string
+  ): { objectId: number; propertyKey: number; kind: 'double' | 'color'; scale: number } {
+    const { shape } = entry;
+    const onNode = (propertyKey: number) =>
+      ({ objectId: entry.nodeId, propertyKey, kind: 'double' as const, scale: 1 });
+
+    switch (property) {
+      case 'transform.position.x': return onNode(RivPropertyKey.x);
+      case 'transform.position.y': return onNode(RivPropertyKey.y);
+      case 'transform.rotation': return onNode(RivPropertyKey.rotation);
+      case 'transform.scale.x': return { ...onNode(RivPropertyKey.scaleX), scale: entry.fitScale?.x ?? 1 };
+      case 'transform.scale.y': return { ...onNode(RivPropertyKey.scaleY), scale: entry.fitScale?.y ?? 1 };
+      case 'opacity': return onNode(RivPropertyKey.opacity);
+    }
+
+    if (shape instanceof Rectangle && entry.geometryId !== undefined) {
+      const onGeometry = (propertyKey: number) =>
+        ({ objectId: entry.geometryId!, propertyKey, kind: 'double' as const, scale: 1 });
+      if (property === 'width') return onGeometry(RivPropertyKey.width);
+      if (property === 'height') return onGeometry(RivPropertyKey.height);
+      if (property === 'cornerRadius') return onGeometry(RivPropertyKey.cornerRadiusTL);
+    }
+
+    if (shape instanceof Ellipse && entry.geometryId !== undefined) {
+      // Rive椭圆以宽高描述, 半径需要乘2
+      if (property === 'radiusX') {
+        return { objectId: entry.geometryId, propertyKey: RivPropertyKey.width, kind: 'double', scale: 2 };
+      }
+      if (property === 'radiusY') {
+        return { objectId: entry.geometryId, propertyKey: RivPropertyKey.height, kind: 'double', scale: 2 };
+      }
+    }
+
+    if (property === 'fill.color' && entry.fillColorId !== undefined) {
+      return { objectId: entry.fillColorId, propertyKey: RivPropertyKey.colorValue, kind: 'color', scale: 1 };
+    }
+    if (property === 'stroke.color' && entry.strokeColorId !== undefined) {
+      return { objectId: entry.strokeColorId, propertyKey: RivPropertyKey.colorValue, kind: 'color', scale: 1 };
+    }
+    if (property === 'stroke.width' && entry.strokeId !== undefined) {
+      return { objectId: entry.strokeId, propertyKey: RivPropertyKey.thickness, kind: 'double', scale: 1 };
+    }
+    if (property.startsWith('stroke.trim.') && entry.trimId !== undefined) {
+      const trimKeys: Record<string, number> = {
+        'stroke.trim.start': RivPropertyKey.trimStart,
+        'stroke.trim.end': RivPropertyKey.trimEnd,
+        'stroke.trim.offset': RivPropertyKey.trimOffset
+      };
+      if (trimKeys[property] !== undefined) {
+        return { objectId: entry.trimId, propertyKey: trimKeys[property], kind: 'double', scale: 1 };
+      }
+    }
+
+    throw new RivExportError(`属性 "${property}" 无法导出为.riv动画`, path);
+  }
+
+  private resolveInterpolation(
+    keyframe: Keyframe,
+    context: ArtboardExportContext,
+    path: string
+  ): { type: number; interpolatorId?: number } {
+    const easing = keyframe.easing;
+    if (keyframe.interpolation === 'hold') {
+      return { type: RivInterpolationType.hold };
+    }
+    if (keyframe.interpolation === 'linear' || easing === 'linear') {
+      return { type: RivInterpolationType.linear };
+    }
+
+    let points: [number, number, number, number];
+    if (typeof easing === 'object' && 'bezier' in easing) {
+      points = easing.bezier;
+    } else if (typeof easing === 'string' && CUBIC_EASINGS[easing]) {
+      points = CUBIC_EASINGS[easing];
+    } else {
+      throw new RivExportError(`缓动 "${describeEasing(easing)}" 无法用三次贝塞尔曲线表示`, path);
+    }
+
+    // 相同曲线共用一个插值器组件
+    const key = points.join(',');
+    let interpolatorId = context.interpolators.get(key);
+    if (interpolatorId === undefined) {
+      interpolatorId = context.components.length;
+      context.components.push(rivObject(RivTypeKey.CubicEaseInterpolator, [
+        [RivPropertyKey.x1, points[0]],
+        [RivPropertyKey.y1, points[1]],
+        [RivPropertyKey.x2, points[2]],
+        [RivPropertyKey.y2, points[3]]
+      ]));
+      context.interpolators.set(key, interpolatorId);
+    }
+
+    return { type: RivInterpolationType.cubic, interpolatorId };
+  }
+
+  // ========== 状态机 ==========
+
+  private serializeStateMachine(
+    stateMachine: StateMachine,
+    context: ArtboardExportContext,
+    path: string
+  ): RivObject[] {
+    const objects: RivObject[] = [rivObject(RivTypeKey.StateMachine, [
+      [RivPropertyKey.stateMachineComponentName, stateMachine.name]
+    ])];
+
+    // 输入: 参数按值类型映射, 触发器合成为Trigger输入
+    const inputs = new Map<string, { id: number; kind: 'number' | 'boolean' | 'trigger' }>();
+    stateMachine.parameters.forEach((value, name) => {
+      const id = inputs.size;
+      if (typeof value === 'number') {
+        inputs.set(name, { id, kind: 'number' });
+        objects.push(rivObject(RivTypeKey.StateMachineNumber, [
+          [RivPropertyKey.stateMachineComponentName, name],
+          [RivPropertyKey.numberValue, value]
+        ]));
+      } else if (typeof value === 'boolean') {
+        inputs.set(name, { id, kind: 'boolean' });
+        objects.push(rivObject(RivTypeKey.StateMachineBool, [
+          [RivPropertyKey.stateMachineComponentName, name],
+          [RivPropertyKey.boolValue, value ? 1 : 0]
+        ]));
+      } else {
+        throw new RivExportError(`参数类型 ${typeof value} 无法导出`, `${path}.parameters["${name}"]`);
+      }
+    });
+
+    const listeners: Array<{ targetId: number; type: number; inputId: number }> = [];
+    const triggerInput = (trigger: Trigger, triggerPath: string): number => {
+      let name: string;
+      let listenerType: number | null = null;
+      switch (trigger.type) {
+        case 'click':
+        case 'release':
+          listenerType = RivListenerType.up;
+          break;
+        case 'press':
+          listenerType = RivListenerType.down;
+          break;
+        case 'hover':
+          listenerType = RivListenerType.enter;
+          break;
+        case 'custom':
+          break;
+        default:
+          throw new RivExportError(`触发器类型 "${trigger.type}" 无法导出为.riv`, triggerPath);
+      }
+
+      if (trigger.type === 'custom') {
+        if (!trigger.eventName) {
+          throw new RivExportError('自定义触发器缺少事件名', triggerPath);
+        }
+        name = trigger.eventName;
+      } else {
+        name = `${trigger.type}:${trigger.targetId || 'artboard'}`;
+      }
+
+      const existing = inputs.get(name);
+      if (existing) {
+        if (existing.kind !== 'trigger') {
+          throw new RivExportError(`触发器输入 "${name}" 与参数重名`, triggerPath);
+        }
+        return existing.id;
+      }
+
+      const id = inputs.size;
+      inputs.set(name, { id, kind: 'trigger' });
+      objects.push(rivObject(RivTypeKey.StateMachineTrigger, [
+        [RivPropertyKey.stateMachineComponentName, name]
+      ]));
+
+      if (listenerType !== null) {
+        let targetId = 0;
+        if (trigger.targetId) {
+          const target = context.shapes.get(trigger.targetId);
+          if (!target) {
+            throw new RivExportError(`触发器目标 "${trigger.targetId}" 不在画板中`, triggerPath);
+          }
+          targetId = target.nodeId;
+        }
+        listeners.push({ targetId, type: listenerType, inputId: id });
+      }
+      return id;
     };
+
+    // 触发器输入必须在图层之前写入, 先统一收集
+    const transitionTriggers = stateMachine.transitions.map((transition, index) =>
+      transition.triggers.map((trigger, triggerIndex) =>
+        triggerInput(trigger, `${path}.transitions[${index}].triggers[${triggerIndex}]`)
+      )
+    );
+
+    objects.push(rivObject(RivTypeKey.StateMachineLayer, [
+      [RivPropertyKey.stateMachineComponentName, 'Layer 1']
+    ]));
+
+    // 状态索引: 0入口, 1任意, 2退出, 之后为动画状态
+    // 编辑器的入口状态带动画时写为普通动画状态, 由Entry无条件过渡进入
+    const entryAnimated = Boolean(stateMachine.states.get(stateMachine.entryState)?.animationId);
+    const stateIndex = new Map<string, number>(entryAnimated ? [] : [[stateMachine.entryState, 0]]);
+    const states = Array.from(stateMachine.states.values()).filter(
+      state => entryAnimated || state.id !== stateMachine.entryState
+    );
+    states.forEach((state, index) => stateIndex.set(state.id, index + 3));
+
+    const transitionsFrom = (stateId: string): RivObject[] => {
+      const result: RivObject[] = [];
+      stateMachine.transitions.forEach((transition, index) => {
+        if (transition.from !== stateId) return;
+        const transitionPath = `${path}.transitions[${index}]`;
+        const to = stateIndex.get(transition.to);
+        if (to === undefined || to === 0) {
+          throw new RivExportError(`过渡目标状态 "${transition.to}" 不存在`, transitionPath);
+        }
+
+        const conditions = transition.conditions.map((condition, conditionIndex) =>
+          this.serializeCondition(condition, inputs, `${transitionPath}.conditions[${conditionIndex}]`)
+        );
+
+        // 任一触发器均可触发过渡: 每个触发器生成一条独立过渡
+        const triggerIds = transitionTriggers[index];
+        const variants: Array<number | null> = triggerIds.length > 0 ? triggerIds : [null];
+        variants.forEach(triggerId => {
+          result.push(rivObject(RivTypeKey.StateTransition, [
+            [RivPropertyKey.stateToId, to],
+            [RivPropertyKey.transitionDuration, Math.round(transition.duration ?? 0)]
+          ]));
+          if (triggerId !== null) {
+            result.push(rivObject(RivTypeKey.TransitionTriggerCondition, [
+              [RivPropertyKey.inputId, triggerId]
+            ]));
+          }
+          result.push(...conditions);
+        });
+      });
+      return result;
+    };
+
+    stateMachine.transitions.forEach((transition, index) => {
+      if (!stateIndex.has(transition.from)) {
+        throw new RivExportError(`过渡起始状态 "${transition.from}" 不存在`, `${path}.transitions[${index}]`);
+      }
+    });
+
+    objects.push(rivObject(RivTypeKey.EntryState));
+    if (entryAnimated) {
+      objects.push(rivObject(RivTypeKey.StateTransition, [
+        [RivPropertyKey.stateToId, stateIndex.get(stateMachine.entryState)],
+        [RivPropertyKey.transitionDuration, 0]
+      ]));
+    } else {
+      objects.push(...transitionsFrom(stateMachine.entryState));
+    }
+    objects.push(rivObject(RivTypeKey.AnyState));
+    objects.push(rivObject(RivTypeKey.ExitState));
+
+    states.forEach(state => {
+      let animationId: number | undefined;
+      if (state.animationId) {
+        animationId = context.animations.findIndex(({ animation }) => animation.id === state.animationId);
+      }
+      objects.push(rivObject(RivTypeKey.AnimationState, [
+        [RivPropertyKey.animationId, animationId]
+      ]));
+      objects.push(...transitionsFrom(state.id));
+    });
+
+    listeners.forEach(listener => {
+      objects.push(rivObject(RivTypeKey.StateMachineListener, [
+        [RivPropertyKey.listenerTargetId, listener.targetId],
+        [RivPropertyKey.listenerTypeValue, listener.type]
+      ]));
+      objects.push(rivObject(RivTypeKey.ListenerTriggerChange, [
+        [RivPropertyKey.listenerInputId, listener.inputId]
+      ]));
+    });
+
+    return objects;
+  }
+
+  private serializeCondition(
+    condition: Condition,
+    inputs: Map<string, { id: number; kind: 'number' | 'boolean' | 'trigger' }>,
+    path: string
+  ): RivObject {
+    const input = inputs.get(condition.parameter);
+    if (!input) {
+      throw new RivExportError(`条件引用了未定义的参数 "${condition.parameter}"`, path);
+    }
+
+    if (condition.type === 'number' && input.kind === 'number') {
+      return rivObject(RivTypeKey.TransitionNumberCondition, [
+        [RivPropertyKey.inputId, input.id],
+        [RivPropertyKey.opValue, RivConditionOp[condition.operator]],
+        [RivPropertyKey.conditionValue, Number(condition.value)]
+      ]);
+    }
+
+    if (condition.type === 'boolean' && input.kind === 'boolean') {
+      // 布尔条件只有等于/不等于, 比较值折算进操作符
+      if (condition.operator !== '==' && condition.operator !== '!=') {
+        throw new RivExportError(`布尔条件不支持操作符 ${condition.operator}`, path);
+      }
+      const expectTrue = (condition.operator === '==') === Boolean(condition.value);
+      return rivObject(RivTypeKey.TransitionBoolCondition, [
+        [RivPropertyKey.inputId, input.id],
+        [RivPropertyKey.opValue, expectTrue ? RivConditionOp['=='] : RivConditionOp['!=']]
+      ]);
+    }
+
+    throw new RivExportError(`${condition.type}类型的条件无法导出为.riv`, path);
   }
-}
 
-// ========== 导出模块 ==========
+  // ========== 资源 ==========
 
-export {
-  Shape,
-  Rectangle,
-  Ellipse,
-  Path,
-  Group,
-  AnimationTrack,
-  Animation,
-  StateMachine,
-  RivExporter
-};
+  /**
+   * 内嵌资源后跟FileAssetContents; CDN资源只写UUID, 宿主提供的资源只写名称和序号
+   */
+  private serializeAsset(asset: Asset, index: number, path: string): RivObject[] {
+    const delivery = asset.delivery ?? 'embedded';
+    const properties: Array<[number, RivPropertyValue | undefined]> = [
+      [RivPropertyKey.assetName, asset.name],
+      [RivPropertyKey.assetId, index]
+    ];
+
+    if (delivery === 'cdn') {
+      if (!isValidCdnUuid(asset.cdnUuid)) {
+        throw new RivExportError('CDN资源缺少有效的UUID', path);
+      }
+      properties.push([RivPropertyKey.cdnUuid, cdnUuidToBytes(asset.cdnUuid)]);
+      properties.push([RivPropertyKey.cdnBaseUrl, asset.cdnBaseUrl]);
+    }
+
+    const header = rivObject(asset.type === 'image' ? RivTypeKey.ImageAsset : RivTypeKey.FontAsset, properties);
+    if (delivery !== 'embedded') return [header];
+    return [header, rivObject(RivTypeKey.FileAssetContents, [
+      [RivPropertyKey.assetBytes, new Uint8Array(asset.data)]
+    ])];
+  }
+}
@@ -0,0 +1,688 @@
+// ============================================
+// RIV Editor - RIV 二进制格式
+// 文件头、类型键/属性键定义与二进制读写工具
+// ============================================
+
+// ========== 文件头 ==========
+
+export const RIV_FINGERPRINT = 'RIVE';
+export const RIV_MAJOR_VERSION = 7;
+export const RIV_MINOR_VERSION = 0;
+
+// ========== 类型键 ==========
+
+/**
+ * Core对象类型键(与Rive运行时的定义保持一致)
+ */
+export const RivTypeKey = {
+  Artboard: 1,
+  Node: 2,
+  Shape: 3,
+  Ellipse: 4,
+  StraightVertex: 5,
+  CubicDetachedVertex: 6,
+  Rectangle: 7,
+  PointsPath: 16,
+  RadialGradient: 17,
+  SolidColor: 18,
+  GradientStop: 19,
+  Fill: 20,
+  LinearGradient: 22,
+  Backboard: 23,
+  Stroke: 24,
+  KeyedObject: 25,
+  KeyedProperty: 26,
+  CubicEaseInterpolator: 28,
+  KeyFrameDouble: 30,
+  LinearAnimation: 31,
+  CubicAsymmetricVertex: 34,
+  CubicMirroredVertex: 35,
+  KeyFrameColor: 37,
+  ClippingShape: 42,
+  TrimPath: 47,
+  StateMachine: 53,
+  StateMachineNumber: 56,
+  StateMachineLayer: 57,
+  StateMachineTrigger: 58,
+  StateMachineBool: 59,
+  AnimationState: 61,
+  AnyState: 62,
+  EntryState: 63,
+  ExitState: 64,
+  StateTransition: 65,
+  TransitionTriggerCondition: 68,
+  TransitionNumberCondition: 70,
+  TransitionBoolCondition: 71,
+  Image: 100,
+  ImageAsset: 105,
+  FileAssetContents: 106,
+  StateMachineListener: 114,
+  ListenerTriggerChange: 115,
+  FontAsset: 141,
+} as const;
+
+// ========== 属性键 ==========
+
+/**
+ * Core属性键
+ */
+export const RivPropertyKey = {
+  name: 4,
+  parentId: 5,
+  artboardWidth: 7,
+  artboardHeight: 8,
+  artboardOriginX: 11,
+  artboardOriginY: 12,
+  x: 13,
+  y: 14,
+  rotation: 15,
+  scaleX: 16,
+  scaleY: 17,
+  opacity: 18,
+  width: 20,
+  height: 21,
+  blendModeValue: 23,
+  vertexX: 24,
+  vertexY: 25,
+  vertexRadius: 26,
+  cornerRadiusTL: 31,
+  isClosed: 32,
+  startY: 33,
+  endX: 34,
+  endY: 35,
+  colorValue: 37,
+  stopColorValue: 38,
+  stopPosition: 39,
+  fillRule: 40,
+  isVisible: 41,
+  startX: 42,
+  gradientOpacity: 46,
+  cap: 48,
+  join: 49,
+  transformAffectsStroke: 50,
+  objectId: 51,
+  propertyKey: 53,
+  animationName: 55,
+  fps: 56,
+  duration: 57,
+  speed: 58,
+  loopValue: 59,
+  workStart: 60,
+  workEnd: 61,
+  enableWorkArea: 62,
+  x1: 63,
+  y1: 64,
+  x2: 65,
+  y2: 66,
+  frame: 67,
+  interpolationType: 68,
+  interpolatorId: 69,
+  keyFrameValue: 70,
+  asymmetricRotation: 79,
+  asymmetricInDistance: 80,
+  asymmetricOutDistance: 81,
+  mirroredRotation: 82,
+  mirroredDistance: 83,
+  inRotation: 84,
+  inDistance: 85,
+  outRotation: 86,
+  outDistance: 87,
+  keyFrameColorValue: 88,
+  clippingSourceId: 92,
+  clippingFillRule: 93,
+  clippingIsVisible: 94,
+  trimStart: 114,
+  trimEnd: 115,
+  trimOffset: 116,
+  trimModeValue: 117,
+  originX: 123,
+  originY: 124,
+  drawableFlags: 129,
+  stateMachineComponentName: 138,
+  thickness: 140,
+  boolValue: 141,
+  numberValue: 142,
+  animationId: 149,
+  stateToId: 151,
+  transitionFlags: 152,
+  inputId: 155,
+  opValue: 156,
+  conditionValue: 157,
+  transitionDuration: 158,
+  assetName: 203,
+  assetId: 204,
+  imageAssetId: 206,
+  assetBytes: 212,
+  listenerTargetId: 224,
+  listenerTypeValue: 225,
+  listenerInputId: 227,
+  cdnUuid: 359,
+  cdnBaseUrl: 362,
+  imageOriginX: 380,
+  imageOriginY: 381,
+} as const;
+
+/**
+ * 字段类型: bool按uint存储, bytes与string共用长度前缀编码
+ */
+export type RivFieldType = 'uint' | 'string' | 'double' | 'color' | 'bytes';
+
+/**
+ * 目录表(ToC)中每个属性占2位的字段类型编号
+ */
+export function fieldTypeId(type: RivFieldType): number {
+  switch (type) {
+    case 'uint': return 0;
+    case 'string':
+    case 'bytes': return 1;
+    case 'double': return 2;
+    case 'color': return 3;
+  }
+}
+
+/**
+ * 已知属性键的字段类型
+ */
+export const RIV_PROPERTY_TYPES: Record<number, RivFieldType> = {
+  [RivPropertyKey.name]: 'string',
+  [RivPropertyKey.parentId]: 'uint',
+  [RivPropertyKey.artboardWidth]: 'double',
+  [RivPropertyKey.artboardHeight]: 'double',
+  [RivPropertyKey.artboardOriginX]: 'double',
+  [RivPropertyKey.artboardOriginY]: 'double',
+  [RivPropertyKey.x]: 'double',
+  [RivPropertyKey.y]: 'double',
+  [RivPropertyKey.rotation]: 'double',
+  [RivPropertyKey.scaleX]: 'double',
+  [RivPropertyKey.scaleY]: 'double',
+  [RivPropertyKey.opacity]: 'double',
+  [RivPropertyKey.width]: 'double',
+  [RivPropertyKey.height]: 'double',
+  [RivPropertyKey.blendModeValue]: 'uint',
+  [RivPropertyKey.vertexX]: 'double',
+  [RivPropertyKey.vertexY]: 'double',
+  [RivPropertyKey.vertexRadius]: 'double',
+  [RivPropertyKey.cornerRadiusTL]: 'double',
+  [RivPropertyKey.isClosed]: 'uint',
+  [RivPropertyKey.startY]: 'double',
+  [RivPropertyKey.endX]: 'double',
+  [RivPropertyKey.endY]: 'double',
+  [RivPropertyKey.colorValue]: 'color',
+  [RivPropertyKey.stopColorValue]: 'color',
+  [RivPropertyKey.stopPosition]: 'double',
+  [RivPropertyKey.fillRule]: 'uint',
+  [RivPropertyKey.isVisible]: 'uint',
+  [RivPropertyKey.startX]: 'double',
+  [RivPropertyKey.gradientOpacity]: 'double',
+  [RivPropertyKey.cap]: 'uint',
+  [RivPropertyKey.join]: 'uint',
+  [RivPropertyKey.transformAffectsStroke]: 'uint',
+  [RivPropertyKey.objectId]: 'uint',
+  [RivPropertyKey.propertyKey]: 'uint',
+  [RivPropertyKey.animationName]: 'string',
+  [RivPropertyKey.fps]: 'uint',
+  [RivPropertyKey.duration]: 'uint',
+  [RivPropertyKey.speed]: 'double',
+  [RivPropertyKey.loopValue]: 'uint',
+  [RivPropertyKey.workStart]: 'uint',
+  [RivPropertyKey.workEnd]: 'uint',
+  [RivPropertyKey.enableWorkArea]: 'uint',
+  [RivPropertyKey.x1]: 'double',
+  [RivPropertyKey.y1]: 'double',
+  [RivPropertyKey.x2]: 'double',
+  [RivPropertyKey.y2]: 'double',
+  [RivPropertyKey.frame]: 'uint',
+  [RivPropertyKey.interpolationType]: 'uint',
+  [RivPropertyKey.interpolatorId]: 'uint',
+  [RivPropertyKey.keyFrameValue]: 'double',
+  [RivPropertyKey.asymmetricRotation]: 'double',
+  [RivPropertyKey.asymmetricInDistance]: 'double',
+  [RivPropertyKey.asymmetricOutDistance]: 'double',
+  [RivPropertyKey.mirroredRotation]: 'double',
+  [RivPropertyKey.mirroredDistance]: 'double',
+  [RivPropertyKey.inRotation]: 'double',
+  [RivPropertyKey.inDistance]: 'double',
+  [RivPropertyKey.outRotation]: 'double',
+  [RivPropertyKey.outDistance]: 'double',
+  [RivPropertyKey.keyFrameColorValue]: 'color',
+  [RivPropertyKey.clippingSourceId]: 'uint',
+  [RivPropertyKey.clippingFillRule]: 'uint',
+  [RivPropertyKey.clippingIsVisible]: 'uint',
+  [RivPropertyKey.trimStart]: 'double',
+  [RivPropertyKey.trimEnd]: 'double',
+  [RivPropertyKey.trimOffset]: 'double',
+  [RivPropertyKey.trimModeValue]: 'uint',
+  [RivPropertyKey.originX]: 'double',
+  [RivPropertyKey.originY]: 'double',
+  [RivPropertyKey.drawableFlags]: 'uint',
+  [RivPropertyKey.stateMachineComponentName]: 'string',
+  [RivPropertyKey.thickness]: 'double',
+  [RivPropertyKey.boolValue]: 'uint',
+  [RivPropertyKey.numberValue]: 'double',
+  [RivPropertyKey.animationId]: 'uint',
+  [RivPropertyKey.stateToId]: 'uint',
+  [RivPropertyKey.transitionFlags]: 'uint',
+  [RivPropertyKey.inputId]: 'uint',
+  [RivPropertyKey.opValue]: 'uint',
+  [RivPropertyKey.conditionValue]: 'double',
+  [RivPropertyKey.transitionDuration]: 'uint',
+  [RivPropertyKey.assetName]: 'string',
+  [RivPropertyKey.assetId]: 'uint',
+  [RivPropertyKey.imageAssetId]: 'uint',
+  [RivPropertyKey.assetBytes]: 'bytes',
+  [RivPropertyKey.listenerTargetId]: 'uint',
+  [RivPropertyKey.listenerTypeValue]: 'uint',
+  [RivPropertyKey.listenerInputId]: 'uint',
+  [RivPropertyKey.cdnUuid]: 'bytes',
+  [RivPropertyKey.cdnBaseUrl]: 'string',
+  [RivPropertyKey.imageOriginX]: 'double',
+  [RivPropertyKey.imageOriginY]: 'double',
+};
+
+// ========== 枚举值 ==========
+
+export const RivLoopValue = { once: 0, loop: 1, pingpong: 2 } as const;
+
+export const RivInterpolationType = { hold: 0, linear: 1, cubic: 2 } as const;
+
+export const RivStrokeCap = { butt: 0, round: 1, square: 2 } as const;
+
+export const RivStrokeJoin = { miter: 0, round: 1, bevel: 2 } as const;
+
+export const RivTrimMode = { sequential: 1, synchronized: 2 } as const;
+
+export const RivBlendMode = {
+  normal: 3,
+  screen: 14,
+  overlay: 15,
+  darken: 16,
+  lighten: 17,
+  'color-dodge': 18,
+  'color-burn': 19,
+  'hard-light': 20,
+  'soft-light': 21,
+  difference: 22,
+  exclusion: 23,
+  multiply: 24,
+  hue: 25,
+  saturation: 26,
+  color: 27,
+  luminosity: 28,
+} as const;
+
+export const RivConditionOp = {
+  '==': 0,
+  '!=': 1,
+  '<=': 2,
+  '>=': 3,
+  '<': 4,
+  '>': 5,
+} as const;
+
+export const RivListenerType = { enter: 0, exit: 1, down: 2, up: 3 } as const;
+
+// ========== Core对象记录 ==========
+
+export type RivPropertyValue = number | string | Uint8Array;
+
+export interface RivProperty {
+  key: number;
+  type: RivFieldType;
+  value: RivPropertyValue;
+}
+
+/**
+ * 一个Core对象: 类型键 + 按写入顺序排列的属性
+ */
+export interface RivObject {
+  typeKey: number;
+  properties: RivProperty[];
+}
+
+/**
+ * 创建Core对象记录, 跳过值为undefined的属性
+ */
+export function rivObject(
+  typeKey: number,
+  properties: Array<[number, RivPropertyValue | undefined]> = []
+): RivObject {
+  const result: RivObject = { typeKey, properties: [] };
+  properties.forEach(([key, value]) => {
+    if (value === undefined) return;
+    const type = RIV_PROPERTY_TYPES[key];
+    if (!type) {
+      throw new Error(`未知的RIV属性键: ${key}`);
+    }
+    result.properties.push({ key, type, value });
+  });
+  return result;
+}
+
+/**
+ * 读取对象上的属性值
+ */
+export function getProperty<T extends RivPropertyValue = number>(
+  object: RivObject,
+  key: number
+): T | undefined {
+  return object.properties.find(property => property.key === key)?.value as T | undefined;
+}
+
+/**
+ * 颜色打包为ARGB uint32
+ */
+export function packColor(color: { r: number; g: number; b: number; a: number }): number {
+  const to8 = (n: number) => Math.max(0, Math.min(255, Math.round(n)));
+  return (
+    ((to8(color.a * 255) << 24) | (to8(color.r) << 16) | (to8(color.g) << 8) | to8(color.b)) >>> 0
+  );
+}
+
+/**
+ * ARGB uint32解包为颜色
+ */
+export function unpackColor(value: number): { r: number; g: number; b: number; a: number } {
+  return {
+    r: (value >>> 16) & 0xff,
+    g: (value >>> 8) & 0xff,
+    b: value & 0xff,
+    a: Math.round((((value >>> 24) & 0xff) / 255) * 1000) / 1000
+  };
+}
+
+/**
+ * 二进制数据不符合.riv格式时抛出
+ */
+export class RivFormatError extends Error {
+  readonly offset: number;
+
+  constructor(message: string, offset: number) {
+    super(`${message} (偏移 ${offset})`);
+    this.name = 'RivFormatError';
+    this.offset = offset;
+  }
+}
+
+// ========== 二进制写入 ==========
+
+export class BinaryWriter {
+  private buffer: Uint8Array;
+  private view: DataView;
+  private length = 0;
+
+  constructor(initialSize = 1024) {
+    this.buffer = new Uint8Array(initialSize);
+    this.view = new DataView(this.buffer.buffer);
+  }
+
+  private ensure(size: number): void {
+    if (this.length + size <= this.buffer.length) return;
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + size) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  writeByte(value: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  writeVarUint(value: number): void {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new RangeError(`varuint只能写入非负整数: ${value}`);
+    }
+    // LEB128编码, 用除法避免超过32位时位运算溢出
+    let remaining = value;
+    do {
+      let byte = remaining % 128;
+      remaining = Math.floor(remaining / 128);
+      if (remaining > 0) byte |= 0x80;
+      this.writeByte(byte);
+    } while (remaining > 0);
+  }
+
+  writeFloat32(value: number): void {
+    this.ensure(4);
+    this.view.setFloat32(this.length, value, true);
+    this.length += 4;
+  }
+
+  writeUint32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.length, value >>> 0, true);
+    this.length += 4;
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    this.writeVarUint(bytes.length);
+    this.writeRaw(bytes);
+  }
+
+  writeString(value: string): void {
+    this.writeBytes(new TextEncoder().encode(value));
+  }
+
+  writeRaw(bytes: Uint8Array): void {
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/**
+ * 写入文件头、属性目录表和Core对象流
+ */
+export function encodeRivFile(objects: RivObject[], fileId = 0): Uint8Array {
+  const writer = new BinaryWriter();
+
+  // 文件头
+  writer.writeRaw(new TextEncoder().encode(RIV_FINGERPRINT));
+  writer.writeVarUint(RIV_MAJOR_VERSION);
+  writer.writeVarUint(RIV_MINOR_VERSION);
+  writer.writeVarUint(fileId);
+
+  // 属性目录表: 属性键列表(以0结尾) + 每4个属性一个uint32的字段类型位表
+  const toc = new Map<number, RivFieldType>();
+  objects.forEach(object => {
+    object.properties.forEach(property => {
+      const existing = toc.get(property.key);
+      if (existing && fieldTypeId(existing) !== fieldTypeId(property.type)) {
+        throw new Error(`属性键 ${property.key} 的字段类型冲突`);
+      }
+      toc.set(property.key, property.type);
+    });
+  });
+
+  const keys = Array.from(toc.keys());
+  keys.forEach(key => writer.writeVarUint(key));
+  writer.writeVarUint(0);
+
+  for (let i = 0; i < keys.length; i += 4) {
+    let bits = 0;
+    for (let j = 0; j < 4 && i + j < keys.length; j++) {
+      bits |= fieldTypeId(toc.get(keys[i + j])!) << (j * 2);
+    }
+    writer.writeUint32(bits);
+  }
+
+  // Core对象流
+  objects.forEach(object => {
+    writer.writeVarUint(object.typeKey);
+    object.properties.forEach(property => {
+      writer.writeVarUint(property.key);
+      writeValue(writer, property);
+    });
+    writer.writeVarUint(0);
+  });
+
+  return writer.toUint8Array();
+}
+
+function writeValue(writer: BinaryWriter, property: RivProperty): void {
+  const { type, value } = property;
+  switch (type) {
+    case 'uint':
+      writer.writeVarUint(value as number);
+      break;
+    case 'double':
+      writer.writeFloat32(value as number);
+      break;
+    case 'color':
+      writer.writeUint32(value as number);
+      break;
+    case 'string':
+      writer.writeString(value as string);
+      break;
+    case 'bytes':
+      writer.writeBytes(value as Uint8Array);
+      break;
+  }
+}
+
+// ========== 二进制读取 ==========
+
+export class BinaryReader {
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  position = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get isEOF(): boolean {
+    return this.position >= this.bytes.length;
+  }
+
+  private require(size: number): void {
+    if (this.position + size > this.bytes.length) {
+      throw new RivFormatError('数据意外结束', this.position);
+    }
+  }
+
+  readByte(): number {
+    this.require(1);
+    return this.bytes[this.position++];
+  }
+
+  readVarUint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      const byte = this.readByte();
+      result += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) return result;
+      multiplier *= 128;
+      if (multiplier > 2 ** 53) {
+        throw new RivFormatError('varuint超出范围', this.position);
+      }
+    }
+  }
+
+  readFloat32(): number {
+    this.require(4);
+    const value = this.view.getFloat32(this.position, true);
+    this.position += 4;
+    return value;
+  }
+
+  readUint32(): number {
+    this.require(4);
+    const value = this.view.getUint32(this.position, true);
+    this.position += 4;
+    return value;
+  }
+
+  readRaw(length: number): Uint8Array {
+    this.require(length);
+    const value = this.bytes.slice(this.position, this.position + length);
+    this.position += length;
+    return value;
+  }
+
+  readBytes(): Uint8Array {
+    return this.readRaw(this.readVarUint());
+  }
+
+  readString(): string {
+    return new TextDecoder().decode(this.readBytes());
+  }
+}
+
+export interface RivFile {
+  majorVersion: number;
+  minorVersion: number;
+  fileId: number;
+  objects: RivObject[];
+}
+
+/**
+ * 解析文件头、属性目录表和Core对象流
+ * 已知属性按内置类型读取, 未知属性按目录表中的字段类型读取
+ */
+export function decodeRivFile(data: Uint8Array): RivFile {
+  const reader = new BinaryReader(data);
+
+  const fingerprint = new TextDecoder().decode(reader.readRaw(RIV_FINGERPRINT.length));
+  if (fingerprint !== RIV_FINGERPRINT) {
+    throw new RivFormatError('不是.riv文件: 缺少RIVE文件头', 0);
+  }
+
+  const majorVersion = reader.readVarUint();
+  if (majorVersion !== RIV_MAJOR_VERSION) {
+    throw new RivFormatError(`不支持的主版本号 ${majorVersion}`, reader.position);
+  }
+  const minorVersion = reader.readVarUint();
+  const fileId = reader.readVarUint();
+
+  const tocKeys: number[] = [];
+  for (let key = reader.readVarUint(); key !== 0; key = reader.readVarUint()) {
+    tocKeys.push(key);
+  }
+
+  const tocTypes = new Map<number, RivFieldType>();
+  let bits = 0;
+  tocKeys.forEach((key, index) => {
+    if (index % 4 === 0) bits = reader.readUint32();
+    const typeId = (bits >>> ((index % 4) * 2)) & 3;
+    // 未知的长度前缀字段按原始字节保留, 避免错误的文本解码
+    const type: RivFieldType = (['uint', 'bytes', 'double', 'color'] as const)[typeId];
+    tocTypes.set(key, type);
+  });
+
+  const objects: RivObject[] = [];
+  while (!reader.isEOF) {
+    const typeKey = reader.readVarUint();
+    const object: RivObject = { typeKey, properties: [] };
+
+    for (let key = reader.readVarUint(); key !== 0; key = reader.readVarUint()) {
+      const type = RIV_PROPERTY_TYPES[key] ?? tocTypes.get(key);
+      if (!type) {
+        throw new RivFormatError(`属性键 ${key} 的字段类型未知`, reader.position);
+      }
+      object.properties.push({ key, type, value: readValue(reader, type) });
+    }
+
+    objects.push(object);
+  }
+
+  return { majorVersion, minorVersion, fileId, objects };
+}
+
+function readValue(reader: BinaryReader, type: RivFieldType): RivPropertyValue {
+  switch (type) {
+    case 'uint': return reader.readVarUint();
+    case 'double': return reader.readFloat32();
+    case 'color': return reader.readUint32();
+    case 'string': return reader.readString();
+    case 'bytes': return reader.readBytes();
+  }
+}
@@ -0,0 +1,279 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Animation,
+  Ellipse,
+  Group,
+  Image,
+  Path,
+  Rectangle,
+  RivExporter,
+  StateMachine,
+  type Asset,
+  type RivProject
+} from './riv-editor-engine';
+import { RivImporter } from './riv-importer';
+
+const RED = { r: 255, g: 0, b: 0, a: 1 };
+const GREEN = { r: 0, g: 255, b: 0, a: 1 };
+const BLUE = { r: 0, g: 0, b: 255, a: 1 };
+
+function createProject(): RivProject {
+  const rect = new Rectangle('rect', '矩形', 80, 40);
+  rect.cornerRadius = 6;
+  rect.transform.position = { x: 50, y: 60 };
+  rect.transform.rotation = 0.5;
+  rect.fill = { type: 'solid', color: RED };
+  rect.stroke = { color: BLUE, width: 3, cap: 'round', join: 'bevel' };
+
+  const ellipse = new Ellipse('ellipse', '椭圆', 20, 10);
+  ellipse.fill = {
+    type: 'gradient',
+    gradient: {
+      type: 'linear',
+      stops: [{ offset: 0, color: { r: 0, g: 0, b: 0, a: 1 } }, { offset: 1, color: { r: 255, g: 255, b: 255, a: 1 } }],
+      start: { x: -20, y: 0 },
+      end: { x: 20, y: 0 }
+    }
+  };
+  const path = new Path('path', '路径', 'M0 0 C10 -10 20 -10 30 0 L30 30 Z');
+  const group = new Group('group', '组');
+  group.addChild(ellipse);
+  group.addChild(path);
+
+  const animation = new Animation('anim', '动画', 1000);
+  animation.loop = 'pingpong';
+  const opacity = animation.addTrack('opacity', rect.id);
+  opacity.addKeyframe(0, 1, 'ease-in');
+  opacity.addKeyframe(500, 0.5, { bezier: [0.1, 0.2, 0.3, 1] });
+  opacity.addKeyframe(1000, 0);
+  const color = animation.addTrack('fill.color', rect.id);
+  color.addKeyframe(0, RED, 'linear', 'hold');
+  color.addKeyframe(1000, GREEN);
+
+  const stateMachine = new StateMachine('sm', '状态机');
+  stateMachine.addState('entry', '入口');
+  stateMachine.addState('play', '播放', animation.id);
+  stateMachine.setParameter('go', true);
+  stateMachine.addTransition('entry', 'play', [], [{ type: 'boolean', parameter: 'go', operator: '==', value: true }]);
+
+  return {
+    version: '1.0.0',
+    artboards: [{ id: 'artboard', name: '画板', width: 200, height: 100, shapes: [rect, group] }],
+    animations: [animation],
+    stateMachines: [stateMachine],
+    assets: []
+  };
+}
+
+/**
+ * 只有文件头的PNG: 导入导出只读取尺寸, 不需要像素数据
+ */
+function pngAsset(width: number, height: number): Asset {
+  const bytes = new Uint8Array(33);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52]);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  return { id: 'logo', name: 'logo.png', type: 'image', data: bytes.buffer };
+}
+
+function createImageProject(): RivProject {
+  const asset = pngAsset(40, 20);
+  // 完整显示: 图片按2倍绘制在80×40的图片框中
+  const image = new Image('image', '图片', 80, 40);
+  image.setImage(asset);
+  image.transform.position = { x: 100, y: 50 };
+  image.opacity = 0.8;
+  const before = new Rectangle('before', '前', 10, 10);
+  const after = new Rectangle('after', '后', 10, 10);
+
+  const animation = new Animation('anim', '动画', 1000);
+  const scale = animation.addTrack('transform.scale.x', image.id);
+  scale.addKeyframe(0, 1);
+  scale.addKeyframe(1000, 1.5);
+  const opacity = animation.addTrack('opacity', image.id);
+  opacity.addKeyframe(0, 0.5);
+  opacity.addKeyframe(1000, 0.25);
+
+  return {
+    version: '1.0.0',
+    artboards: [{ id: 'artboard', name: '画板', width: 200, height: 100, shapes: [before, image, after] }],
+    animations: [animation],
+    stateMachines: [],
+    assets: [asset]
+  };
+}
+
+function createClipProject(): RivProject {
+  const rect = new Rectangle('rect', '矩形', 80, 40);
+  rect.transform.position = { x: 50, y: 50 };
+  const circle = new Ellipse('circle', '圆', 15, 15);
+  circle.transform.position = { x: 10, y: 0 };
+  rect.clipSources = [circle];
+
+  const group = new Group('group', '组');
+  group.transform.position = { x: 150, y: 50 };
+  group.addChild(new Rectangle('inner', '内部', 40, 40));
+  group.clipSources = [new Path('hole', '孔', 'M-10 -10 L10 -10 L10 10 L-10 10 Z')];
+  group.clipInverse = true;
+
+  const animation = new Animation('anim', '动画', 1000);
+  const x = animation.addTrack('transform.position.x', circle.id);
+  x.addKeyframe(0, 10);
+  x.addKeyframe(1000, -10);
+
+  return {
+    version: '1.0.0',
+    artboards: [{ id: 'artboard', name: '画板', width: 200, height: 100, shapes: [rect, group] }],
+    animations: [animation],
+    stateMachines: [],
+    assets: []
+  };
+}
+
+async function roundTrip(project: RivProject) {
+  const bytes = await new RivExporter().exportToRiv(project);
+  const result = await new RivImporter().importFromRiv(bytes);
+  return { bytes, ...result };
+}
+
+describe('RivExporter → RivImporter 往返', () => {
+  it('还原图形、变换、填充与描边', async () => {
+    const { project, issues } = await roundTrip(createProject());
+    expect(issues).toEqual([]);
+
+    const [rect, group] = project.artboards[0].shapes;
+    expect(rect).toBeInstanceOf(Rectangle);
+    expect(rect.name).toBe('矩形');
+    expect(rect.transform.position).toEqual({ x: 50, y: 60 });
+    expect(rect.transform.rotation).toBeCloseTo(0.5);
+    expect((rect as Rectangle).width).toBe(80);
+    expect((rect as Rectangle).cornerRadius).toBe(6);
+    expect(rect.fill).toEqual({ type: 'solid', color: RED });
+    expect(rect.stroke).toEqual({ color: BLUE, width: 3, cap: 'round', join: 'bevel' });
+
+    expect(group).toBeInstanceOf(Group);
+    const [ellipse, path] = (group as Group).children;
+    expect(ellipse).toBeInstanceOf(Ellipse);
+    expect((ellipse as Ellipse).radiusX).toBe(20);
+    expect((ellipse as Ellipse).radiusY).toBe(10);
+    expect(ellipse.fill.gradient?.stops).toHaveLength(2);
+    expect(ellipse.fill.gradient?.end).toEqual({ x: 20, y: 0 });
+    expect((path as Path).pathData).toBe('M0 0 C10 -10 20 -10 30 0 L30 30 Z');
+  });
+
+  it('还原动画的缓动、定格关键帧与循环方式', async () => {
+    const { project } = await roundTrip(createProject());
+    const [animation] = project.animations;
+    const rectId = project.artboards[0].shapes[0].id;
+
+    expect(animation.name).toBe('动画');
+    expect(animation.duration).toBe(1000);
+    expect(animation.loop).toBe('pingpong');
+    expect(animation.getTrack('opacity', rectId)!.keyframes.map(k => [k.time, k.value, k.easing])).toEqual([
+      [0, 1, 'ease-in'],
+      [500, 0.5, { bezier: [0.1, 0.2, 0.3, 1] }],
+      [1000, 0, 'linear']
+    ]);
+    const color = animation.getTrack('fill.color', rectId)!;
+    expect(color.keyframes.map(k => [k.value, k.interpolation])).toEqual([[RED, 'hold'], [GREEN, undefined]]);
+  });
+
+  it('还原状态机的状态、参数与条件过渡', async () => {
+    const { project } = await roundTrip(createProject());
+    const [stateMachine] = project.stateMachines;
+    const [state] = Array.from(stateMachine.states.values());
+
+    expect(state.animationId).toBe(project.animations[0].id);
+    expect(stateMachine.parameters.get('go')).toBe(true);
+    expect(stateMachine.transitions).toEqual([{
+      from: stateMachine.entryState,
+      to: state.id,
+      triggers: [],
+      conditions: [{ type: 'boolean', parameter: 'go', operator: '==', value: true }]
+    }]);
+  });
+
+  it('导入后再次导出的字节不变', async () => {
+    const { bytes, project } = await roundTrip(createProject());
+    expect(await new RivExporter().exportToRiv(project)).toEqual(bytes);
+  });
+});
+
+describe('图片往返', () => {
+  it('还原为引用资源的图片, 适配倍数折算回图片框', async () => {
+    const { project, issues } = await roundTrip(createImageProject());
+    expect(issues).toEqual([]);
+
+    const [before, image, after] = project.artboards[0].shapes;
+    expect([before.name, after.name]).toEqual(['前', '后']);
+    expect(image).toBeInstanceOf(Image);
+    expect((image as Image).assetId).toBe(project.assets[0].id);
+    expect((image as Image).image?.width).toBe(40);
+    expect([(image as Image).width, (image as Image).height]).toEqual([80, 40]);
+    expect(image.transform.scale).toEqual({ x: 1, y: 1 });
+    expect(image.transform.position).toEqual({ x: 100, y: 50 });
+    expect(image.opacity).toBeCloseTo(0.8);
+  });
+
+  it('缩放与不透明度轨道指向图片', async () => {
+    const { project } = await roundTrip(createImageProject());
+    const [animation] = project.animations;
+    const imageId = project.artboards[0].shapes[1].id;
+    expect(animation.getTrack('transform.scale.x', imageId)!.keyframes.map(k => k.value)).toEqual([1, 1.5]);
+    expect(animation.getTrack('opacity', imageId)!.keyframes.map(k => k.value)).toEqual([0.5, 0.25]);
+  });
+
+  it('导入后再次导出的字节不变', async () => {
+    const { bytes, project } = await roundTrip(createImageProject());
+    expect(await new RivExporter().exportToRiv(project)).toEqual(bytes);
+  });
+
+  it('资源无法识别时保留为不透明对象', async () => {
+    const source = createImageProject();
+    const bytes = await new RivExporter().exportToRiv(source);
+    // 破坏资源数据中的PNG签名
+    const signature = bytes.findIndex((byte, i) => byte === 0x89 && bytes[i + 1] === 0x50 && bytes[i + 2] === 0x4e);
+    bytes[signature] = 0;
+    const { project, issues } = await new RivImporter().importFromRiv(bytes);
+    expect(project.artboards[0].shapes).toHaveLength(2);
+    expect(project.artboards[0].opaqueObjects).toHaveLength(1);
+    expect(issues.map(issue => issue.message)).toContain('图片资源无法识别: 只支持PNG、JPEG与WebP图片');
+  });
+});
+
+describe('裁切往返', () => {
+  it('ClippingShape还原为可见的裁切图形', async () => {
+    const { project, issues } = await roundTrip(createClipProject());
+    expect(issues).toEqual([]);
+
+    const [rect, group] = project.artboards[0].shapes;
+    expect(rect.clipSources).toHaveLength(1);
+    const [circle] = rect.clipSources;
+    expect(circle).toBeInstanceOf(Ellipse);
+    expect(circle.visible).toBe(true);
+    expect(circle.transform.position).toEqual({ x: 10, y: 0 });
+    expect(rect.clipInverse).toBe(false);
+
+    // 裁切来源节点不会作为子图形导入
+    expect((group as Group).children.map(child => child.name)).toEqual(['内部']);
+  });
+
+  it('覆盖矩形与奇偶规则还原为反向裁切', async () => {
+    const { project } = await roundTrip(createClipProject());
+    const group = project.artboards[0].shapes[1];
+    expect(group.clipInverse).toBe(true);
+    expect(group.clipSources.map(source => [source.constructor, source.name, source.visible])).toEqual([[Path, '孔', true]]);
+  });
+
+  it('裁切图形的动画指向裁切图形', async () => {
+    const { project } = await roundTrip(createClipProject());
+    const circleId = project.artboards[0].shapes[0].clipSources[0].id;
+    expect(project.animations[0].getTrack('transform.position.x', circleId)!.keyframes.map(k => k.value)).toEqual([10, -10]);
+  });
+
+  it('导入后再次导出的字节不变', async () => {
+    const { bytes, project } = await roundTrip(createClipProject());
+    expect(await new RivExporter().exportToRiv(project)).toEqual(bytes);
+  });
+});
@@ -0,0 +1,1084 @@
+// ============================================
+// RIV Editor - RIV 导入器
+// 解析.riv二进制文件并重建可编辑的引擎模型
+// ============================================
+
+import {
+  Shape,
+  Rectangle,
+  Ellipse,
+  Path,
+  Group,
+  Image,
+  Animation,
+  StateMachine,
+  INVERSE_CLIP_COVER_NAME,
+  type Artboard,
+  type Asset,
+  type Color,
+  type Condition,
+  type EasingFunction,
+  type Fill,
+  type Gradient,
+  type OpaqueRivObject,
+  type RivProject,
+  type Stroke,
+  type Trigger,
+  type Vector2
+} from './riv-editor-engine';
+import {
+  RivTypeKey,
+  RivPropertyKey,
+  RivLoopValue,
+  RivInterpolationType,
+  RivStrokeCap,
+  RivStrokeJoin,
+  RivTrimMode,
+  RivConditionOp,
+  RivListenerType,
+  decodeRivFile,
+  getProperty,
+  unpackColor,
+  type RivObject
+} from './riv-format';
+import { cdnUuidFromBytes } from './asset-manager';
+import { RasterImageError } from './raster-image';
+import {
+  serializeContours,
+  rectangleContour,
+  ellipseContour,
+  transformContours,
+  type PathContour,
+  type PathVertex
+} from './path-model';
+import { composeMatrix } from './matrix';
+import {
+  angleInterpolator,
+  exceedsHalfTurn,
+  resolveInterpolator,
+  type KeyframeInterpolation
+} from './interpolation';
+
+// ========== 导入结果 ==========
+
+/**
+ * 无法映射到引擎模型的对象, objectIndex为其在Core对象流中的位置
+ */
+export interface RivImportIssue {
+  objectIndex: number;
+  typeKey: number;
+  message: string;
+}
+
+export interface RivImportResult {
+  project: RivProject;
+  issues: RivImportIssue[];
+}
+
+// ========== 内部结构 ==========
+
+interface IndexedObject {
+  index: number; // 对象流中的位置
+  record: RivObject;
+}
+
+interface Component extends IndexedObject {
+  id: number; // 画板内组件ID
+  parentId?: number;
+  children: number[];
+}
+
+type TargetRole = 'node' | 'rectangle' | 'ellipse' | 'fillColor' | 'stroke' | 'strokeColor' | 'trim';
+
+interface ImportTarget {
+  shapeId: string;
+  role: TargetRole;
+  fitScale?: Vector2; // 图片适配折算进节点缩放的倍数, 缩放轨道需要同样还原
+}
+
+interface ArtboardImportContext {
+  artboardIndex: number;
+  artboard: Artboard;
+  assets: Asset[]; // 数组索引即.riv中的资源序号
+  components: Component[];
+  consumed: Set<number>;
+  targets: Map<number, ImportTarget>;
+  animations: Animation[];
+}
+
+const NODE_TYPES = new Set<number>([RivTypeKey.Node, RivTypeKey.Shape, RivTypeKey.Image]);
+
+const PAINT_CHILD_TYPES = new Set<number>([
+  RivTypeKey.SolidColor,
+  RivTypeKey.LinearGradient,
+  RivTypeKey.RadialGradient
+]);
+
+const STROKE_CHILD_TYPES = new Set<number>([...PAINT_CHILD_TYPES, RivTypeKey.TrimPath]);
+
+const VERTEX_TYPES = new Set<number>([
+  RivTypeKey.StraightVertex,
+  RivTypeKey.CubicDetachedVertex,
+  RivTypeKey.CubicMirroredVertex,
+  RivTypeKey.CubicAsymmetricVertex
+]);
+
+const NAMED_EASINGS: Array<[EasingFunction, [number, number, number, number]]> = [
+  ['ease-in', [0.42, 0, 1, 1]],
+  ['ease-out', [0, 0, 0.58, 1]],
+  ['ease-in-out', [0.42, 0, 0.58, 1]]
+];
+
+export class RivImporter {
+  private issues: RivImportIssue[] = [];
+
+  /**
+   * 解析.riv文件, 返回项目模型和无法映射的内容列表
+   * 未识别的对象以原始记录保留在opaqueObjects中, 再次导出时原样写回
+   */
+  async importFromRiv(data: ArrayBuffer | Uint8Array): Promise<RivImportResult> {
+    this.issues = [];
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    const file = decodeRivFile(bytes);
+
+    const project: RivProject = {
+      version: `${file.majorVersion}.${file.minorVersion}`,
+      artboards: [],
+      animations: [],
+      stateMachines: [],
+      assets: [],
+      opaqueObjects: []
+    };
+
+    const objects: IndexedObject[] = file.objects.map((record, index) => ({ index, record }));
+    let cursor = 0;
+
+    // 文件级对象: 背板与资源
+    while (cursor < objects.length && objects[cursor].record.typeKey !== RivTypeKey.Artboard) {
+      const object = objects[cursor];
+      const { typeKey } = object.record;
+
+      if (typeKey === RivTypeKey.Backboard) {
+        cursor++;
+      } else if (typeKey === RivTypeKey.ImageAsset || typeKey === RivTypeKey.FontAsset) {
+        const contents = objects[cursor + 1];
+        const hasContents = contents?.record.typeKey === RivTypeKey.FileAssetContents;
+        project.assets.push(this.importAsset(object, hasContents ? contents : undefined));
+        cursor += hasContents ? 2 : 1;
+      } else {
+        this.report(object, '未识别的文件级对象, 已原样保留');
+        project.opaqueObjects!.push(object.record);
+        cursor++;
+      }
+    }
+
+    // 画板: 组件段 + 动画段 + 状态机段
+    while (cursor < objects.length) {
+      const start = cursor++;
+      while (cursor < objects.length && objects[cursor].record.typeKey !== RivTypeKey.Artboard) {
+        cursor++;
+      }
+      const { artboard, animations, stateMachines } = this.importArtboard(
+        objects.slice(start, cursor),
+        project.artboards.length,
+        project.assets
+      );
+      project.artboards.push(artboard);
+      project.animations.push(...animations);
+      project.stateMachines.push(...stateMachines);
+    }
+
+    return { project, issues: this.issues };
+  }
+
+  private report(object: IndexedObject, message: string): void {
+    this.issues.push({ objectIndex: object.index, typeKey: object.record.typeKey, message });
+  }
+
+  // ========== 资源 ==========
+
+  private importAsset(object: IndexedObject, contents?: IndexedObject): Asset {
+    const assetId = getProperty(object.record, RivPropertyKey.assetId) ?? 0;
+    const bytes = contents
+      ? getProperty<Uint8Array>(contents.record, RivPropertyKey.assetBytes) ?? new Uint8Array()
+      : new Uint8Array();
+
+    const asset: Asset = {
+      id: `riv_asset_${assetId}`,
+      name: getProperty<string>(object.record, RivPropertyKey.assetName) ?? `资源 ${assetId}`,
+      type: object.record.typeKey === RivTypeKey.ImageAsset ? 'image' : 'font',
+      data: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+    };
+
+    // 没有内嵌数据时: 有cdnUuid的从CDN加载, 否则由宿主提供
+    if (!contents) {
+      const uuidBytes = getProperty<Uint8Array>(object.record, RivPropertyKey.cdnUuid);
+      const cdnUuid = uuidBytes ? cdnUuidFromBytes(uuidBytes) : null;
+      if (cdnUuid) {
+        asset.delivery = 'cdn';
+        asset.cdnUuid = cdnUuid;
+        asset.cdnBaseUrl = getProperty<string>(object.record, RivPropertyKey.cdnBaseUrl);
+      } else {
+        asset.delivery = 'host';
+      }
+      this.report(object, `资源没有内嵌数据(${asset.delivery === 'cdn' ? 'CDN' : '宿主提供'}), 以空资源导入`);
+    }
+    return asset;
+  }
+
+  // ========== 画板 ==========
+
+  private importArtboard(
+    objects: IndexedObject[],
+    artboardIndex: number,
+    assets: Asset[]
+  ): { artboard: Artboard; animations: Animation[]; stateMachines: StateMachine[] } {
+    const head = objects[0].record;
+    const artboard: Artboard = {
+      id: `riv_${artboardIndex}`,
+      name: getProperty<string>(head, RivPropertyKey.name) ?? `画板 ${artboardIndex + 1}`,
+      width: getProperty(head, RivPropertyKey.artboardWidth) ?? 0,
+      height: getProperty(head, RivPropertyKey.artboardHeight) ?? 0,
+      shapes: [],
+      opaqueObjects: []
+    };
+
+    // 组件段在第一个动画或状态机之前结束
+    let end = objects.findIndex(
+      ({ record }) =>
+        record.typeKey === RivTypeKey.LinearAnimation || record.typeKey === RivTypeKey.StateMachine
+    );
+    if (end === -1) end = objects.length;
+
+    const components: Component[] = objects.slice(0, end).map((object, id) => ({
+      ...object,
+      id,
+      parentId: id === 0 ? undefined : getProperty(object.record, RivPropertyKey.parentId),
+      children: []
+    }));
+    components.forEach(component => {
+      if (component.parentId !== undefined && components[component.parentId]) {
+        components[component.parentId].children.push(component.id);
+      }
+    });
+
+    const context: ArtboardImportContext = {
+      artboardIndex,
+      artboard,
+      assets,
+      components,
+      consumed: new Set([0]),
+      targets: new Map(),
+      animations: []
+    };
+
+    // 插值器由关键帧按ID引用, 直接视为已映射
+    components.forEach(component => {
+      if (component.record.typeKey === RivTypeKey.CubicEaseInterpolator) {
+        context.consumed.add(component.id);
+      }
+    });
+
+    components[0].children.forEach(childId => {
+      const shape = this.importNode(components[childId], context);
+      if (shape) artboard.shapes.push(shape);
+    });
+
+    this.collectOpaque(context);
+
+    // 动画段与状态机段
+    const stateMachines: StateMachine[] = [];
+    let cursor = end;
+    while (cursor < objects.length) {
+      const object = objects[cursor];
+      let next = cursor + 1;
+      const isSectionStart = (typeKey: number) =>
+        typeKey === RivTypeKey.LinearAnimation || typeKey === RivTypeKey.StateMachine;
+      while (next < objects.length && !isSectionStart(objects[next].record.typeKey)) next++;
+
+      const section = objects.slice(cursor, next);
+      if (object.record.typeKey === RivTypeKey.LinearAnimation) {
+        context.animations.push(this.importAnimation(section, context));
+      } else {
+        stateMachines.push(this.importStateMachine(section, context, stateMachines.length));
+      }
+      cursor = next;
+    }
+
+    return { artboard, animations: context.animations, stateMachines };
+  }
+
+  /**
+   * 未被映射的组件保留为不透明对象, 记录父级以便导出时重新分配ID
+   */
+  private collectOpaque(context: ArtboardImportContext): void {
+    const opaqueIndex = new Map<number, number>();
+    context.components.forEach(component => {
+      if (context.consumed.has(component.id)) return;
+
+      const opaque: OpaqueRivObject = { record: component.record };
+      const parentId = component.parentId;
+      if (parentId !== undefined && parentId !== 0) {
+        if (opaqueIndex.has(parentId)) {
+          opaque.parentOpaqueIndex = opaqueIndex.get(parentId);
+        } else {
+          const target = context.targets.get(parentId);
+          if (target && target.role === 'node') {
+            opaque.parentShapeId = target.shapeId;
+          } else {
+            this.report(component, '对象的父级无法保留, 已丢弃');
+            return;
+          }
+        }
+      }
+
+      opaqueIndex.set(component.id, context.artboard.opaqueObjects!.length);
+      context.artboard.opaqueObjects!.push(opaque);
+      this.report(component, '未能映射的组件, 已原样保留');
+    });
+  }
+
+  private importNode(component: Component, context: ArtboardImportContext): Shape | null {
+    const { typeKey } = component.record;
+    if (!NODE_TYPES.has(typeKey)) return null;
+
+    const id = `riv_${context.artboardIndex}_${component.id}`;
+    const clip = this.findClip(component, context);
+    let shape: Shape;
+
+    if (typeKey === RivTypeKey.Node) {
+      const group = new Group(id, '');
+      component.children.forEach(childId => {
+        if (childId === clip?.source.id) return;
+        const child = this.importNode(context.components[childId], context);
+        if (child) group.addChild(child);
+      });
+      shape = group;
+    } else if (typeKey === RivTypeKey.Image) {
+      const image = this.importImage(component, id, context);
+      if (!image) return null;
+      shape = image;
+    } else {
+      shape = this.importShape(component, id, context);
+    }
+
+    const record = component.record;
+    shape.name = getProperty<string>(record, RivPropertyKey.name) ?? '';
+    shape.transform.position = {
+      x: getProperty(record, RivPropertyKey.x) ?? 0,
+      y: getProperty(record, RivPropertyKey.y) ?? 0
+    };
+    shape.transform.rotation = getProperty(record, RivPropertyKey.rotation) ?? 0;
+    shape.transform.scale = {
+      x: getProperty(record, RivPropertyKey.scaleX) ?? 1,
+      y: getProperty(record, RivPropertyKey.scaleY) ?? 1
+    };
+    shape.opacity = getProperty(record, RivPropertyKey.opacity) ?? 1;
+
+    const target: ImportTarget = { shapeId: id, role: 'node' };
+    if (shape instanceof Image) target.fitScale = this.undoImageFit(shape);
+    if (clip) this.importClip(clip, shape, context);
+    context.consumed.add(component.id);
+    context.targets.set(component.id, target);
+    return shape;
+  }
+
+  // ========== 裁切 ==========
+
+  /**
+   * 来源是自身子节点的第一个ClippingShape, 其余裁切保留为不透明对象
+   */
+  private findClip(
+    component: Component,
+    context: ArtboardImportContext
+  ): { clipping: Component; source: Component } | null {
+    for (const childId of component.children) {
+      const clipping = context.components[childId];
+      if (clipping.record.typeKey !== RivTypeKey.ClippingShape) continue;
+      const source = context.components[getProperty(clipping.record, RivPropertyKey.clippingSourceId) ?? -1];
+      if (source?.record.typeKey === RivTypeKey.Node && source.parentId === component.id) {
+        return { clipping, source };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 来源节点下的图形即裁切图形; 末尾的覆盖矩形配合奇偶规则即反向裁切
+   * 导出时裁切图形随来源隐藏, 导入后恢复可见
+   */
+  private importClip(
+    clip: { clipping: Component; source: Component },
+    shape: Shape,
+    context: ArtboardImportContext
+  ): void {
+    const sources = clip.source.children
+      .map(childId => this.importNode(context.components[childId], context))
+      .filter((source): source is Shape => source !== null);
+
+    const cover = sources[sources.length - 1];
+    if (
+      getProperty(clip.clipping.record, RivPropertyKey.clippingFillRule) === 1 &&
+      cover instanceof Rectangle &&
+      cover.name === INVERSE_CLIP_COVER_NAME
+    ) {
+      sources.pop();
+      shape.clipInverse = true;
+    }
+    sources.forEach(showTree);
+    shape.clipSources = sources;
+
+    context.consumed.add(clip.source.id);
+    context.consumed.add(clip.clipping.id);
+  }
+
+  // ========== 图片 ==========
+
+  /**
+   * 按资源序号绑定图片资源, 资源不存在或无法识别时保留为不透明对象
+   */
+  private importImage(component: Component, id: string, context: ArtboardImportContext): Image | null {
+    const record = component.record;
+    const assetIndex = getProperty(record, RivPropertyKey.imageAssetId) ?? 0;
+    const asset = context.assets[assetIndex];
+    if (!asset || asset.type !== 'image') {
+      this.report(component, `图片引用的资源 ${assetIndex} 不存在`);
+      return null;
+    }
+
+    const image = new Image(id, '');
+    try {
+      image.setImage(asset);
+    } catch (error) {
+      if (!(error instanceof RasterImageError)) throw error;
+      this.report(component, `图片资源无法识别: ${error.message}`);
+      return null;
+    }
+    image.transform.pivot = {
+      x: getProperty(record, RivPropertyKey.imageOriginX) ?? 0.5,
+      y: getProperty(record, RivPropertyKey.imageOriginY) ?? 0.5
+    };
+    image.visible = ((getProperty(record, RivPropertyKey.drawableFlags) ?? 0) & 1) === 0;
+    return image;
+  }
+
+  /**
+   * Rive图片按原始像素尺寸绘制, 节点缩放中包含了适配倍数
+   * 还原为拉伸填满的图片框, 节点缩放只保留翻转; 返回折算掉的倍数
+   */
+  private undoImageFit(image: Image): Vector2 {
+    const { scale } = image.transform;
+    const fitScale = { x: Math.abs(scale.x) || 1, y: Math.abs(scale.y) || 1 };
+    image.fit = 'fill';
+    image.width = image.image!.width * fitScale.x;
+    image.height = image.image!.height * fitScale.y;
+    image.transform.scale = { x: scale.x / fitScale.x, y: scale.y / fitScale.y };
+    return fitScale;
+  }
+
+  // ========== 图形 ==========
+
+  private importShape(component: Component, id: string, context: ArtboardImportContext): Shape {
+    const children = component.children.map(childId => context.components[childId]);
+    const geometries = children.filter(
+      child =>
+        (child.record.typeKey === RivTypeKey.Rectangle ||
+          child.record.typeKey === RivTypeKey.Ellipse ||
+          child.record.typeKey === RivTypeKey.PointsPath) &&
+        this.isFullyUnderstood(child, context)
+    );
+
+    let shape: Shape;
+    const single = geometries.length === 1 ? geometries[0] : null;
+
+    if (single && single.record.typeKey === RivTypeKey.Rectangle && !this.hasOffset(single.record)) {
+      const record = single.record;
+      const rect = new Rectangle(
+        id,
+        '',
+        getProperty(record, RivPropertyKey.width) ?? 0,
+        getProperty(record, RivPropertyKey.height) ?? 0
+      );
+      rect.cornerRadius = getProperty(record, RivPropertyKey.cornerRadiusTL) ?? 0;
+      rect.transform.pivot = {
+        x: getProperty(record, RivPropertyKey.originX) ?? 0.5,
+        y: getProperty(record, RivPropertyKey.originY) ?? 0.5
+      };
+      context.targets.set(single.id, { shapeId: id, role: 'rectangle' });
+      shape = rect;
+    } else if (single && single.record.typeKey === RivTypeKey.Ellipse && !this.hasOffset(single.record)) {
+      const record = single.record;
+      shape = new Ellipse(
+        id,
+        '',
+        (getProperty(record, RivPropertyKey.width) ?? 0) / 2,
+        (getProperty(record, RivPropertyKey.height) ?? 0) / 2
+      );
+      shape.transform.pivot = {
+        x: getProperty(record, RivPropertyKey.originX) ?? 0.5,
+        y: getProperty(record, RivPropertyKey.originY) ?? 0.5
+      };
+      context.targets.set(single.id, { shapeId: id, role: 'ellipse' });
+    } else {
+      // 多个几何体或带偏移的参数化几何体统一合并为路径
+      const contours: PathContour[] = [];
+      geometries.forEach(geometry => {
+        contours.push(...this.geometryContours(geometry, context));
+      });
+      if (geometries.length === 0) {
+        this.report(component, '图形没有可识别的几何体, 以空路径导入');
+      }
+      shape = new Path(id, '', serializeContours(contours));
+    }
+
+    geometries.forEach(geometry => this.consumeSubtree(geometry, context));
+    this.importPaints(shape, children, context);
+    return shape;
+  }
+
+  private hasOffset(record: RivObject): boolean {
+    return (
+      (getProperty(record, RivPropertyKey.x) ?? 0) !== 0 ||
+      (getProperty(record, RivPropertyKey.y) ?? 0) !== 0 ||
+      (getProperty(record, RivPropertyKey.rotation) ?? 0) !== 0 ||
+      (getProperty(record, RivPropertyKey.scaleX) ?? 1) !== 1 ||
+      (getProperty(record, RivPropertyKey.scaleY) ?? 1) !== 1
+    );
+  }
+
+  /**
+   * 子树中的每个对象都能被映射时才整体导入, 否则整棵子树保留为不透明对象
+   */
+  private isFullyUnderstood(component: Component, context: ArtboardImportContext): boolean {
+    const { typeKey } = component.record;
+    const allowedChildren =
+      typeKey === RivTypeKey.PointsPath ? VERTEX_TYPES
+        : typeKey === RivTypeKey.Fill ? PAINT_CHILD_TYPES
+          : typeKey === RivTypeKey.Stroke ? STROKE_CHILD_TYPES
+            : typeKey === RivTypeKey.LinearGradient || typeKey === RivTypeKey.RadialGradient
+              ? new Set<number>([RivTypeKey.GradientStop])
+              : new Set<number>();
+
+    return component.children.every(childId => {
+      const child = context.components[childId];
+      return allowedChildren.has(child.record.typeKey) && this.isFullyUnderstood(child, context);
+    });
+  }
+
+  private consumeSubtree(component: Component, context: ArtboardImportContext): void {
+    context.consumed.add(component.id);
+    component.children.forEach(childId => this.consumeSubtree(context.components[childId], context));
+  }
+
+  private geometryContours(geometry: Component, context: ArtboardImportContext): PathContour[] {
+    const record = geometry.record;
+    let contours: PathContour[];
+
+    if (record.typeKey === RivTypeKey.PointsPath) {
+      const vertices = geometry.children.map(childId =>
+        this.importVertex(context.components[childId])
+      );
+      contours = [{ vertices, closed: getProperty(record, RivPropertyKey.isClosed) === 1 }];
+    } else {
+      const width = getProperty(record, RivPropertyKey.width) ?? 0;
+      const height = getProperty(record, RivPropertyKey.height) ?? 0;
+      const left = -width * (getProperty(record, RivPropertyKey.originX) ?? 0.5);
+      const top = -height * (getProperty(record, RivPropertyKey.originY) ?? 0.5);
+      contours = [
+        record.typeKey === RivTypeKey.Rectangle
+          ? rectangleContour(left, top, width, height, getProperty(record, RivPropertyKey.cornerRadiusTL) ?? 0)
+          : ellipseContour(left + width / 2, top + height / 2, width / 2, height / 2)
+      ];
+    }
+
+    // 几何体自身的局部变换烘焙进顶点
+    return transformContours(contours, composeMatrix({
+      position: { x: getProperty(record, RivPropertyKey.x) ?? 0, y: getProperty(record, RivPropertyKey.y) ?? 0 },
+      rotation: getProperty(record, RivPropertyKey.rotation) ?? 0,
+      scale: { x: getProperty(record, RivPropertyKey.scaleX) ?? 1, y: getProperty(record, RivPropertyKey.scaleY) ?? 1 },
+      skew: { x: 0, y: 0 }
+    }));
+  }
+
+  private importVertex(component: Component): PathVertex {
+    const record = component.record;
+    const point = {
+      x: getProperty(record, RivPropertyKey.vertexX) ?? 0,
+      y: getProperty(record, RivPropertyKey.vertexY) ?? 0
+    };
+    const polar = (rotation: number, distance: number): Vector2 => ({
+      x: point.x + Math.cos(rotation) * distance,
+      y: point.y + Math.sin(rotation) * distance
+    });
+
+    switch (record.typeKey) {
+      case RivTypeKey.CubicDetachedVertex:
+        return {
+          point,
+          in: polar(getProperty(record, RivPropertyKey.inRotation) ?? 0, getProperty(record, RivPropertyKey.inDistance) ?? 0),
+          out: polar(getProperty(record, RivPropertyKey.outRotation) ?? 0, getProperty(record, RivPropertyKey.outDistance) ?? 0)
+        };
+      case RivTypeKey.CubicMirroredVertex: {
+        const rotation = getProperty(record, RivPropertyKey.mirroredRotation) ?? 0;
+        const distance = getProperty(record, RivPropertyKey.mirroredDistance) ?? 0;
+        return { point, in: polar(rotation + Math.PI, distance), out: polar(rotation, distance) };
+      }
+      case RivTypeKey.CubicAsymmetricVertex: {
+        const rotation = getProperty(record, RivPropertyKey.asymmetricRotation) ?? 0;
+        return {
+          point,
+          in: polar(rotation + Math.PI, getProperty(record, RivPropertyKey.asymmetricInDistance) ?? 0),
+          out: polar(rotation, getProperty(record, RivPropertyKey.asymmetricOutDistance) ?? 0)
+        };
+      }
+      default:
+        if ((getProperty(record, RivPropertyKey.vertexRadius) ?? 0) > 0) {
+          this.report(component, '顶点圆角半径无法映射, 按尖角导入');
+        }
+        return { point, in: { ...point }, out: { ...point } };
+    }
+  }
+
+  private importPaints(shape: Shape, children: Component[], context: ArtboardImportContext): void {
+    const fills = children.filter(
+      child => child.record.typeKey === RivTypeKey.Fill && this.isFullyUnderstood(child, context)
+    );
+    const strokes = children.filter(
+      child => child.record.typeKey === RivTypeKey.Stroke && this.isFullyUnderstood(child, context)
+    );
+
+    // 引擎图形只有一个填充和一个描边, 其余保留为不透明对象
+    const fill = fills[0];
+    const stroke = strokes[0];
+    const paints = [fill, stroke].filter(Boolean) as Component[];
+    const hidden = paints.filter(paint => getProperty(paint.record, RivPropertyKey.isVisible) === 0);
+    if (paints.length > 0 && hidden.length === paints.length) {
+      shape.visible = false;
+    }
+
+    shape.fill = { type: 'none' };
+    if (fill && (shape.visible === false || !hidden.includes(fill))) {
+      shape.fill = this.importFill(fill, shape, context);
+      if (shape instanceof Path && getProperty(fill.record, RivPropertyKey.fillRule) === 1) {
+        shape.fillRule = 'evenodd';
+      }
+      this.consumeSubtree(fill, context);
+    }
+
+    shape.stroke = null;
+    if (stroke && (shape.visible === false || !hidden.includes(stroke))) {
+      shape.stroke = this.importStroke(stroke, shape, context);
+      this.consumeSubtree(stroke, context);
+    }
+  }
+
+  private importFill(fill: Component, shape: Shape, context: ArtboardImportContext): Fill {
+    const paint = fill.children.map(childId => context.components[childId])[0];
+    if (!paint) return { type: 'none' };
+
+    if (paint.record.typeKey === RivTypeKey.SolidColor) {
+      context.targets.set(paint.id, { shapeId: shape.id, role: 'fillColor' });
+      return { type: 'solid', color: this.solidColor(paint.record) };
+    }
+
+    return { type: 'gradient', gradient: this.importGradient(paint, context) };
+  }
+
+  private importStroke(stroke: Component, shape: Shape, context: ArtboardImportContext): Stroke {
+    const record = stroke.record;
+    const capValue = getProperty(record, RivPropertyKey.cap) ?? RivStrokeCap.butt;
+    const joinValue = getProperty(record, RivPropertyKey.join) ?? RivStrokeJoin.miter;
+    const cap = (Object.keys(RivStrokeCap) as Stroke['cap'][]).find(key => RivStrokeCap[key] === capValue);
+    const join = (Object.keys(RivStrokeJoin) as Stroke['join'][]).find(key => RivStrokeJoin[key] === joinValue);
+
+    let color: Color = { r: 0, g: 0, b: 0, a: 1 };
+    const children = stroke.children.map(childId => context.components[childId]);
+    const paint = children.find(child => PAINT_CHILD_TYPES.has(child.record.typeKey));
+    if (paint?.record.typeKey === RivTypeKey.SolidColor) {
+      color = this.solidColor(paint.record);
+      context.targets.set(paint.id, { shapeId: shape.id, role: 'strokeColor' });
+    } else if (paint) {
+      const gradient = this.importGradient(paint, context);
+      color = gradient.stops[0]?.color ?? color;
+      this.report(paint, '渐变描边无法映射, 使用第一个色标的颜色');
+    }
+
+    // 多个裁剪路径时只取第一个, 其余随描边子树一起视为已导入
+    const trim = children.find(child => child.record.typeKey === RivTypeKey.TrimPath);
+    if (trim && children.filter(child => child.record.typeKey === RivTypeKey.TrimPath).length > 1) {
+      this.report(trim, '描边有多个裁剪路径, 只导入第一个');
+    }
+    if (trim) context.targets.set(trim.id, { shapeId: shape.id, role: 'trim' });
+    const modeValue = trim && getProperty(trim.record, RivPropertyKey.trimModeValue);
+
+    context.targets.set(stroke.id, { shapeId: shape.id, role: 'stroke' });
+    return {
+      color,
+      width: getProperty(record, RivPropertyKey.thickness) ?? 1,
+      cap: cap ?? 'butt',
+      join: join ?? 'miter',
+      ...(trim && {
+        trim: {
+          start: getProperty(trim.record, RivPropertyKey.trimStart) ?? 0,
+          end: getProperty(trim.record, RivPropertyKey.trimEnd) ?? 0,
+          offset: getProperty(trim.record, RivPropertyKey.trimOffset) ?? 0,
+          mode: modeValue === RivTrimMode.synchronized ? 'synchronized' as const : 'sequential' as const
+        }
+      })
+    };
+  }
+
+  private solidColor(record: RivObject): Color {
+    return unpackColor(getProperty(record, RivPropertyKey.colorValue) ?? 0xff747474);
+  }
+
+  private importGradient(paint: Component, context: ArtboardImportContext): Gradient {
+    const record = paint.record;
+    const start = {
+      x: getProperty(record, RivPropertyKey.startX) ?? 0,
+      y: getProperty(record, RivPropertyKey.startY) ?? 0
+    };
+    const end = {
+      x: getProperty(record, RivPropertyKey.endX) ?? 0,
+      y: getProperty(record, RivPropertyKey.endY) ?? 0
+    };
+    const stops = paint.children
+      .map(childId => context.components[childId].record)
+      .map(stop => ({
+        offset: getProperty(stop, RivPropertyKey.stopPosition) ?? 0,
+        color: unpackColor(getProperty(stop, RivPropertyKey.stopColorValue) ?? 0xffffffff)
+      }));
+
+    if (record.typeKey === RivTypeKey.LinearGradient) {
+      return { type: 'linear', stops, start, end };
+    }
+    return {
+      type: 'radial',
+      stops,
+      center: start,
+      radius: Math.hypot(end.x - start.x, end.y - start.y)
+    };
+  }
+
+  // ========== 动画 ==========
+
+  private importAnimation(section: IndexedObject[], context: ArtboardImportContext): Animation {
+    const head = section[0].record;
+    const fps = getProperty(head, RivPropertyKey.fps) || 60;
+    const toMs = (frame: number) => Math.round((frame / fps) * 1000);
+    const loopValue = getProperty(head, RivPropertyKey.loopValue) ?? RivLoopValue.once;
+
+    const animation = new Animation(
+      `riv_${context.artboardIndex}_anim_${context.animations.length}`,
+      getProperty<string>(head, RivPropertyKey.animationName) ?? `动画 ${context.animations.length + 1}`,
+      toMs(getProperty(head, RivPropertyKey.duration) ?? 60)
+    );
+    animation.fps = fps;
+    animation.loop =
+      (Object.keys(RivLoopValue) as Animation['loop'][]).find(key => RivLoopValue[key] === loopValue) ??
+      'once';
+
+    let target: ImportTarget | undefined;
+    let property: { path: string; scale: number } | null = null;
+
+    section.slice(1).forEach(object => {
+      const { record } = object;
+      switch (record.typeKey) {
+        case RivTypeKey.KeyedObject: {
+          const objectId = getProperty(record, RivPropertyKey.objectId) ?? 0;
+          target = context.targets.get(objectId);
+          property = null;
+          if (!target) {
+            this.report(object, `关键帧目标组件 ${objectId} 无法映射, 其动画已跳过`);
+          }
+          break;
+        }
+        case RivTypeKey.KeyedProperty: {
+          if (!target) break;
+          const key = getProperty(record, RivPropertyKey.propertyKey) ?? 0;
+          property = keyedPropertyPath(target, key);
+          if (!property) {
+            this.report(object, `属性键 ${key} 无法映射为引擎属性, 其关键帧已跳过`);
+          }
+          break;
+        }
+        case RivTypeKey.KeyFrameDouble:
+        case RivTypeKey.KeyFrameColor: {
+          if (!target || !property) break;
+          const current: { path: string; scale: number } = property;
+          const track =
+            animation.getTrack(current.path, target.shapeId) ??
+            animation.addTrack(current.path, target.shapeId);
+          const value =
+            record.typeKey === RivTypeKey.KeyFrameColor
+              ? unpackColor(getProperty(record, RivPropertyKey.keyFrameColorValue) ?? 0)
+              : (getProperty(record, RivPropertyKey.keyFrameValue) ?? 0) * current.scale;
+          const { easing, interpolation } = this.importInterpolation(object, context);
+          track.addKeyframe(toMs(getProperty(record, RivPropertyKey.frame) ?? 0), value, easing, interpolation);
+          if (
+            resolveInterpolator(track.property) === angleInterpolator &&
+            exceedsHalfTurn(track.keyframes.slice(-2).map(keyframe => keyframe.value))
+          ) {
+            this.report(object, '旋转关键帧之间超过半圈, 将按较短方向插值');
+          }
+          break;
+        }
+        default:
+          this.report(object, '动画中未识别的对象, 已跳过');
+      }
+    });
+
+    return animation;
+  }
+
+  private importInterpolation(
+    keyframe: IndexedObject,
+    context: ArtboardImportContext
+  ): { easing: EasingFunction; interpolation: KeyframeInterpolation } {
+    const type = getProperty(keyframe.record, RivPropertyKey.interpolationType) ?? RivInterpolationType.linear;
+
+    if (type === RivInterpolationType.hold) return { easing: 'linear', interpolation: 'hold' };
+    if (type !== RivInterpolationType.cubic) return { easing: 'linear', interpolation: 'curve' };
+
+    const interpolatorId = getProperty(keyframe.record, RivPropertyKey.interpolatorId);
+    const interpolator = interpolatorId !== undefined ? context.components[interpolatorId] : undefined;
+    if (!interpolator || interpolator.record.typeKey !== RivTypeKey.CubicEaseInterpolator) {
+      this.report(keyframe, '关键帧引用的插值器不存在, 按线性导入');
+      return { easing: 'linear', interpolation: 'curve' };
+    }
+
+    const round = (n: number) => Math.round(n * 1e4) / 1e4;
+    const bezier: [number, number, number, number] = [
+      round(getProperty(interpolator.record, RivPropertyKey.x1) ?? 0.42),
+      round(getProperty(interpolator.record, RivPropertyKey.y1) ?? 0),
+      round(getProperty(interpolator.record, RivPropertyKey.x2) ?? 0.58),
+      round(getProperty(interpolator.record, RivPropertyKey.y2) ?? 1)
+    ];
+    const named = NAMED_EASINGS.find(([, points]) => points.every((p, i) => p === bezier[i]));
+    return { easing: named ? named[0] : { bezier }, interpolation: 'curve' };
+  }
+
+  // ========== 状态机 ==========
+
+  private importStateMachine(
+    section: IndexedObject[],
+    context: ArtboardImportContext,
+    index: number
+  ): StateMachine {
+    const head = section[0].record;
+    const stateMachine = new StateMachine(
+      `riv_${context.artboardIndex}_sm_${index}`,
+      getProperty<string>(head, RivPropertyKey.stateMachineComponentName) ?? `状态机 ${index + 1}`
+    );
+
+    interface ImportedTransition {
+      object: IndexedObject;
+      from: string | null;
+      to: number;
+      duration: number;
+      conditions: Condition[];
+      triggerInputs: number[];
+    }
+
+    const inputs: Array<{ name: string; kind: 'number' | 'boolean' | 'trigger' }> = [];
+    const states: Array<{ id: string | null; object: IndexedObject }> = [];
+    const transitions: ImportedTransition[] = [];
+    const listeners: Array<{ object: IndexedObject; targetId: number; type: number; inputIds: number[] }> = [];
+    let layerCount = 0;
+    let stateCount = 0;
+
+    section.slice(1).forEach(object => {
+      const { record } = object;
+      const lastTransition = transitions[transitions.length - 1];
+
+      switch (record.typeKey) {
+        case RivTypeKey.StateMachineNumber:
+        case RivTypeKey.StateMachineBool:
+        case RivTypeKey.StateMachineTrigger: {
+          const name = getProperty<string>(record, RivPropertyKey.stateMachineComponentName) ?? `input_${inputs.length}`;
+          if (record.typeKey === RivTypeKey.StateMachineNumber) {
+            inputs.push({ name, kind: 'number' });
+            stateMachine.setParameter(name, getProperty(record, RivPropertyKey.numberValue) ?? 0);
+          } else if (record.typeKey === RivTypeKey.StateMachineBool) {
+            inputs.push({ name, kind: 'boolean' });
+            stateMachine.setParameter(name, getProperty(record, RivPropertyKey.boolValue) === 1);
+          } else {
+            inputs.push({ name, kind: 'trigger' });
+          }
+          break;
+        }
+        case RivTypeKey.StateMachineLayer:
+          layerCount++;
+          if (layerCount > 1) {
+            this.report(object, '引擎状态机只支持单个图层, 后续图层已跳过');
+          }
+          break;
+        case RivTypeKey.EntryState:
+        case RivTypeKey.AnyState:
+        case RivTypeKey.ExitState:
+        case RivTypeKey.AnimationState: {
+          if (layerCount > 1) break;
+          let id: string | null = null;
+          if (record.typeKey === RivTypeKey.EntryState) {
+            id = stateMachine.entryState;
+          } else if (record.typeKey === RivTypeKey.AnimationState) {
+            id = `state_${stateCount++}`;
+            const animationIndex = getProperty(record, RivPropertyKey.animationId);
+            const animation = animationIndex !== undefined ? context.animations[animationIndex] : undefined;
+            stateMachine.addState(id, animation?.name ?? `状态 ${stateCount}`, animation?.id);
+          }
+          states.push({ id, object });
+          break;
+        }
+        case RivTypeKey.StateTransition: {
+          if (layerCount > 1) break;
+          transitions.push({
+            object,
+            from: states[states.length - 1]?.id ?? null,
+            to: getProperty(record, RivPropertyKey.stateToId) ?? 0,
+            duration: getProperty(record, RivPropertyKey.transitionDuration) ?? 0,
+            conditions: [],
+            triggerInputs: []
+          });
+          break;
+        }
+        case RivTypeKey.TransitionNumberCondition:
+        case RivTypeKey.TransitionBoolCondition:
+        case RivTypeKey.TransitionTriggerCondition: {
+          if (layerCount > 1 || !lastTransition) break;
+          const inputId = getProperty(record, RivPropertyKey.inputId) ?? 0;
+          const input = inputs[inputId];
+          if (!input) {
+            this.report(object, `条件引用了不存在的输入 ${inputId}`);
+            break;
+          }
+          const op = getProperty(record, RivPropertyKey.opValue) ?? RivConditionOp['=='];
+          if (record.typeKey === RivTypeKey.TransitionTriggerCondition) {
+            lastTransition.triggerInputs.push(inputId);
+          } else if (record.typeKey === RivTypeKey.TransitionNumberCondition) {
+            const operator = (Object.keys(RivConditionOp) as Condition['operator'][]).find(
+              key => RivConditionOp[key] === op
+            ) ?? '==';
+            lastTransition.conditions.push({
+              type: 'number',
+              parameter: input.name,
+              operator,
+              value: getProperty(record, RivPropertyKey.conditionValue) ?? 0
+            });
+          } else {
+            lastTransition.conditions.push({
+              type: 'boolean',
+              parameter: input.name,
+              operator: '==',
+              value: op === RivConditionOp['==']
+            });
+          }
+          break;
+        }
+        case RivTypeKey.StateMachineListener:
+          listeners.push({
+            object,
+            targetId: getProperty(record, RivPropertyKey.listenerTargetId) ?? 0,
+            type: getProperty(record, RivPropertyKey.listenerTypeValue) ?? RivListenerType.up,
+            inputIds: []
+          });
+          break;
+        case RivTypeKey.ListenerTriggerChange:
+          if (listeners.length > 0) {
+            listeners[listeners.length - 1].inputIds.push(getProperty(record, RivPropertyKey.listenerInputId) ?? 0);
+          }
+          break;
+        default:
+          this.report(object, '状态机中未识别的对象, 已跳过');
+      }
+    });
+
+    // 触发器输入还原为引擎触发器: 有监听器的还原为指针事件, 否则为自定义事件
+    const triggersForInput = (inputId: number): Trigger[] => {
+      const input = inputs[inputId];
+      const result: Trigger[] = [];
+      listeners.forEach(listener => {
+        if (!listener.inputIds.includes(inputId)) return;
+        const target = listener.targetId === 0 ? undefined : context.targets.get(listener.targetId);
+        const prefix = input.name.split(':')[0];
+        let type: Trigger['type'] | null = null;
+        if (listener.type === RivListenerType.down) type = 'press';
+        if (listener.type === RivListenerType.enter) type = 'hover';
+        if (listener.type === RivListenerType.up) type = prefix === 'release' ? 'release' : 'click';
+        if (!type) {
+          this.report(listener.object, `监听器类型 ${listener.type} 无法映射`);
+          return;
+        }
+        result.push({ type, targetId: target?.shapeId });
+      });
+      return result.length > 0 ? result : [{ type: 'custom', eventName: input.name }];
+    };
+
+    transitions.forEach(transition => {
+      const to = states[transition.to];
+      if (transition.from === null) {
+        this.report(transition.object, '来自任意状态或退出状态的过渡无法映射');
+        return;
+      }
+      if (!to || to.id === null || to.id === stateMachine.entryState) {
+        this.report(transition.object, '过渡目标不是动画状态, 已跳过');
+        return;
+      }
+
+      const triggers = transition.triggerInputs.flatMap(triggersForInput);
+      stateMachine.addTransition(transition.from, to.id, triggers, transition.conditions);
+      if (transition.duration > 0) {
+        stateMachine.transitions[stateMachine.transitions.length - 1].duration = transition.duration;
+      }
+    });
+
+    return stateMachine;
+  }
+}
+
+// ========== 工具函数 ==========
+
+/**
+ * 图形及其全部子图形设为可见
+ */
+function showTree(shape: Shape): void {
+  shape.visible = true;
+  if (shape instanceof Group) shape.children.forEach(showTree);
+}
+
+/**
+ * Rive属性键还原为引擎属性路径
+ */
+function keyedPropertyPath(target: ImportTarget, key: number): { path: string; scale: number } | null {
+  const fitScale = target.fitScale ?? { x: 1, y: 1 };
+  const paths: Record<TargetRole, Record<number, [string, number]>> = {
+    node: {
+      [RivPropertyKey.x]: ['transform.position.x', 1],
+      [RivPropertyKey.y]: ['transform.position.y', 1],
+      [RivPropertyKey.rotation]: ['transform.rotation', 1],
+      [RivPropertyKey.scaleX]: ['transform.scale.x', 1 / fitScale.x],
+      [RivPropertyKey.scaleY]: ['transform.scale.y', 1 / fitScale.y],
+      [RivPropertyKey.opacity]: ['opacity', 1]
+    },
+    rectangle: {
+      [RivPropertyKey.width]: ['width', 1],
+      [RivPropertyKey.height]: ['height', 1],
+      [RivPropertyKey.cornerRadiusTL]: ['cornerRadius', 1]
+    },
+    ellipse: {
+      [RivPropertyKey.width]: ['radiusX', 0.5],
+      [RivPropertyKey.height]: ['radiusY', 0.5]
+    },
+    fillColor: { [RivPropertyKey.colorValue]: ['fill.color', 1] },
+    strokeColor: { [RivPropertyKey.colorValue]: ['stroke.color', 1] },
+    stroke: { [RivPropertyKey.thickness]: ['stroke.width', 1] },
+    trim: {
+      [RivPropertyKey.trimStart]: ['stroke.trim.start', 1],
+      [RivPropertyKey.trimEnd]: ['stroke.trim.end', 1],
+      [RivPropertyKey.trimOffset]: ['stroke.trim.offset', 1]
+    }
+  };
+
+  const entry = paths[target.role][key];
+  return entry ? { path: entry[0], scale: entry[1] } : null;
+}
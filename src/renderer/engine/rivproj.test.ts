@@ -0,0 +1,250 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RIVPROJ_VERSION,
+  RivprojError,
+  deserializeProject,
+  migrateDocument,
+  serializeProject,
+  validateDocument
+} from './rivproj';
+import { Animation, Ellipse, Group, Rectangle, StateMachine, type RivProject } from './riv-editor-engine';
+
+const TRANSFORM_V0 = {
+  position: { x: 10, y: 20 },
+  scale: { x: 1, y: 1 },
+  rotation: 0,
+  pivot: { x: 0, y: 0 }
+};
+
+/**
+ * 早期RivExporter输出的JSON: 没有format, 组没有type, 状态机没有参数
+ */
+function createV0Document(): Record<string, unknown> {
+  return {
+    version: 0,
+    artboards: [{
+      id: 'artboard',
+      name: '画板',
+      width: 100,
+      height: 100,
+      shapes: [
+        { id: 'group', name: '组', transform: TRANSFORM_V0, opacity: 1, visible: true },
+        {
+          id: 'rect',
+          name: '矩形',
+          type: 'rectangle',
+          transform: TRANSFORM_V0,
+          fill: { type: 'solid', color: { r: 255, g: 0, b: 0, a: 1 } },
+          opacity: 1,
+          visible: true,
+          width: 40,
+          height: 20,
+          cornerRadius: 0
+        },
+        { id: 'ellipse', name: '椭圆', type: 'ellipse', transform: TRANSFORM_V0, opacity: 1, visible: true, radiusX: 5, radiusY: 5 }
+      ]
+    }],
+    animations: [{ id: 'anim', name: '动画', duration: 1000, loop: 'once', tracks: [] }],
+    stateMachines: [{ id: 'sm', name: '状态机', states: [], transitions: [], entryState: 'entry' }],
+    assets: []
+  };
+}
+
+function createProject(): RivProject {
+  const rect = new Rectangle('rect', '矩形', 40, 20);
+  const group = new Group('group', '组');
+  group.addChild(new Ellipse('ellipse', '椭圆', 5, 5));
+  const animation = new Animation('anim', '动画', 1000);
+  animation.addTrack('opacity', rect.id).addKeyframe(0, 1);
+  const stateMachine = new StateMachine('sm', '状态机');
+  stateMachine.addState('entry', '入口');
+  stateMachine.addState('play', '播放', animation.id);
+  stateMachine.addTransition('entry', 'play');
+  return {
+    version: '2',
+    artboards: [{ id: 'artboard', name: '画板', width: 100, height: 100, shapes: [rect, group] }],
+    animations: [animation],
+    stateMachines: [stateMachine],
+    assets: []
+  };
+}
+
+// 解析后的文档, 测试中直接修改任意字段
+type Json = ReturnType<typeof JSON.parse>;
+
+/**
+ * 当前版本的合法文档, edit修改后返回校验问题
+ */
+function issuesAfter(edit: (doc: Json) => void): Array<{ path: string; message: string }> {
+  const doc = JSON.parse(serializeProject(createProject()));
+  edit(doc);
+  return validateDocument(doc);
+}
+
+describe('migrateDocument', () => {
+  it('版本0补齐format、名称、组的type与children、默认填充和状态机参数', () => {
+    const doc: Json = migrateDocument(createV0Document());
+    expect(doc.format).toBe('rivproj');
+    expect(doc.version).toBe(RIVPROJ_VERSION);
+    expect(doc.name).toBe('未命名项目');
+
+    const [group, rect] = doc.artboards[0].shapes;
+    expect(group).toMatchObject({ type: 'group', children: [], fill: { type: 'none' }, stroke: null, locked: false });
+    expect(rect.fill).toEqual({ type: 'solid', color: { r: 255, g: 0, b: 0, a: 1 } });
+    expect(doc.stateMachines[0].parameters).toEqual({});
+  });
+
+  it('版本1补齐斜切, 保留已有的变换字段', () => {
+    const doc: Json = migrateDocument(createV0Document());
+    const [, rect] = doc.artboards[0].shapes;
+    expect(rect.transform).toEqual({ ...TRANSFORM_V0, skew: { x: 0, y: 0 } });
+  });
+
+  it('版本1的椭圆一律以圆心为原点, 包括组内的椭圆', () => {
+    const v1 = {
+      format: 'rivproj',
+      version: 1,
+      name: '项目',
+      artboards: [{
+        id: 'artboard',
+        name: '画板',
+        width: 100,
+        height: 100,
+        shapes: [{
+          id: 'group',
+          type: 'group',
+          transform: { ...TRANSFORM_V0, skew: { x: 0.1, y: 0 } },
+          children: [{ id: 'ellipse', type: 'ellipse', transform: TRANSFORM_V0 }]
+        }]
+      }],
+      animations: [],
+      stateMachines: [],
+      assets: []
+    };
+    const doc: Json = migrateDocument(v1);
+    const [group] = doc.artboards[0].shapes;
+    expect(doc.version).toBe(2);
+    expect(group.transform.skew).toEqual({ x: 0.1, y: 0 });
+    expect(group.transform.pivot).toEqual({ x: 0, y: 0 });
+    expect(group.children[0].transform.pivot).toEqual({ x: 0.5, y: 0.5 });
+    expect(group.children[0].transform.skew).toEqual({ x: 0, y: 0 });
+  });
+
+  it('当前版本原样返回', () => {
+    const doc = JSON.parse(serializeProject(createProject()));
+    expect(migrateDocument(doc)).toBe(doc);
+  });
+
+  it('拒绝高于当前支持的版本', () => {
+    expect(() => migrateDocument({ format: 'rivproj', version: RIVPROJ_VERSION + 1 })).toThrow(RivprojError);
+    expect(() => deserializeProject(JSON.stringify({ format: 'rivproj', version: RIVPROJ_VERSION + 1 })))
+      .toThrow(`文件版本 ${RIVPROJ_VERSION + 1} 高于当前支持的版本 ${RIVPROJ_VERSION}`);
+  });
+
+  it('拒绝其他format与无效的版本号', () => {
+    expect(() => migrateDocument({ format: 'lottie', version: 1 })).toThrow('format: 不是.rivproj文件');
+    expect(() => migrateDocument({ format: 'rivproj', version: 1.5 })).toThrow('version: 版本号必须是非负整数');
+    expect(() => migrateDocument({ format: 'rivproj' })).toThrow('version: 版本号必须是非负整数');
+  });
+});
+
+describe('deserializeProject', () => {
+  it('打开版本0文件', () => {
+    const project = deserializeProject(JSON.stringify(createV0Document()));
+    const [group, rect, ellipse] = project.artboards[0].shapes;
+    expect(group).toBeInstanceOf(Group);
+    expect(rect).toBeInstanceOf(Rectangle);
+    expect(rect.transform.skew).toEqual({ x: 0, y: 0 });
+    expect(ellipse.transform.pivot).toEqual({ x: 0.5, y: 0.5 });
+  });
+
+  it('保存后打开得到相同的文档', () => {
+    const text = serializeProject(createProject());
+    expect(serializeProject(deserializeProject(text))).toBe(text);
+  });
+
+  it('JSON无法解析或顶层不是对象时报告$', () => {
+    expect(() => deserializeProject('{')).toThrow(/^\$: JSON解析失败/);
+    expect(() => deserializeProject('[]')).toThrow('$: 应为对象');
+  });
+
+  it('结构问题全部列入RivprojError.issues', () => {
+    const doc = JSON.parse(serializeProject(createProject()));
+    doc.name = 1;
+    doc.artboards[0].width = -1;
+    try {
+      deserializeProject(JSON.stringify(doc));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(RivprojError);
+      expect((error as RivprojError).message).toBe('name: 应为字符串 (另有 1 个问题)');
+      expect((error as RivprojError).issues.map(issue => issue.path)).toEqual(['name', 'artboards[0].width']);
+    }
+  });
+});
+
+describe('validateDocument', () => {
+  it('合法文档没有问题', () => {
+    expect(issuesAfter(() => {})).toEqual([]);
+  });
+
+  it.each<[string, (doc: Json) => void, string, string]>([
+    ['对象', doc => { doc.artboards[0].shapes[0].transform = []; }, 'artboards[0].shapes[0].transform', '应为对象'],
+    ['数组', doc => { doc.animations = {}; }, 'animations', '应为数组'],
+    ['字符串', doc => { doc.artboards[0].shapes[0].name = null; }, 'artboards[0].shapes[0].name', '应为字符串'],
+    ['布尔值', doc => { doc.artboards[0].shapes[0].visible = 1; }, 'artboards[0].shapes[0].visible', '应为布尔值'],
+    ['有限数值', doc => { doc.artboards[0].shapes[0].transform.position.x = 'a'; }, 'artboards[0].shapes[0].transform.position.x', '应为有限数值'],
+    ['数值范围', doc => { doc.artboards[0].shapes[0].opacity = 2; }, 'artboards[0].shapes[0].opacity', '应在 0 到 1 之间'],
+    ['枚举', doc => { doc.animations[0].loop = 'forever'; }, 'animations[0].loop', "应为 'once' | 'loop' | 'pingpong' 之一"],
+    ['图形类型', doc => { doc.artboards[0].shapes[0].type = 'star'; }, 'artboards[0].shapes[0].type', "应为 'rectangle' | 'ellipse' | 'path' | 'text' | 'image' | 'group' 之一"]
+  ])('基本类型: %s', (_, edit, path, message) => {
+    expect(issuesAfter(edit)).toEqual([{ path, message }]);
+  });
+
+  it.each<[string, (doc: Json) => void, string, string]>([
+    ['重复的图形ID', doc => { doc.artboards[0].shapes[1].children[0].id = 'rect'; }, 'artboards[0].shapes[1].children[0].id', '图形ID "rect" 重复'],
+    ['空的渐变色标', doc => {
+      doc.artboards[0].shapes[0].fill = { type: 'gradient', gradient: { type: 'linear', stops: [], start: { x: 0, y: 0 }, end: { x: 1, y: 0 } } };
+    }, 'artboards[0].shapes[0].fill.gradient.stops', '至少需要一个色标'],
+    ['贝塞尔控制点个数', doc => { doc.animations[0].tracks[0].keyframes[0].easing = { bezier: [0, 0, 1] }; }, 'animations[0].tracks[0].keyframes[0].easing.bezier', '应包含4个控制点坐标'],
+    ['阶数不是整数', doc => { doc.animations[0].tracks[0].keyframes[0].easing = { steps: 2.5 }; }, 'animations[0].tracks[0].keyframes[0].easing.steps', '应为整数'],
+    ['缺少关键帧值', doc => { delete doc.animations[0].tracks[0].keyframes[0].value; }, 'animations[0].tracks[0].keyframes[0].value', '缺少关键帧值'],
+    ['帧率不是正数', doc => { doc.animations[0].fps = 0; }, 'animations[0].fps', '帧率必须为正数'],
+    ['参数值类型', doc => { doc.stateMachines[0].parameters.speed = null; }, 'stateMachines[0].parameters.speed', '参数值应为数值、布尔值或字符串'],
+    ['无效的Base64', doc => {
+      doc.assets.push({ id: 'font', name: '字体', type: 'font', data: '@@' });
+    }, 'assets[0].data', '不是有效的Base64数据'],
+    ['CDN资源缺少UUID', doc => {
+      doc.assets.push({ id: 'font', name: '字体', type: 'font', data: '', delivery: 'cdn' });
+    }, 'assets[0].cdnUuid', 'CDN资源缺少有效的UUID']
+  ])('字段约束: %s', (_, edit, path, message) => {
+    expect(issuesAfter(edit)).toEqual([{ path, message }]);
+  });
+
+  it.each<[string, (doc: Json) => void, string, string]>([
+    ['轨道目标图形', doc => { doc.animations[0].tracks[0].targetId = 'missing'; }, 'animations[0].tracks[0].targetId', '目标图形 "missing" 不存在'],
+    ['状态绑定的动画', doc => { doc.stateMachines[0].states[0].animationId = 'missing'; }, 'stateMachines[0].states[0].animationId', '动画 "missing" 不存在'],
+    ['过渡的目标状态', doc => { doc.stateMachines[0].transitions[0].to = 'missing'; }, 'stateMachines[0].transitions[0].to', '状态 "missing" 不存在'],
+    ['文本的字体资源', doc => {
+      doc.artboards[0].shapes.push({
+        ...doc.artboards[0].shapes[0],
+        id: 'text',
+        type: 'text',
+        runs: [{ text: '文字' }],
+        fontSize: 16,
+        fontFamily: 'sans-serif',
+        assetId: 'missing',
+        sizing: 'auto-width',
+        align: 'left',
+        verticalAlign: 'top',
+        lineHeight: 1.2,
+        letterSpacing: 0
+      });
+    }, 'artboards[0].shapes[2].assetId', '字体资源 "missing" 不存在'],
+    ['图片的图片资源', doc => {
+      doc.artboards[0].shapes.push({ ...doc.artboards[0].shapes[0], id: 'image', type: 'image', assetId: 'missing', fit: 'contain' });
+    }, 'artboards[0].shapes[2].assetId', '图片资源 "missing" 不存在']
+  ])('交叉引用: %s', (_, edit, path, message) => {
+    expect(issuesAfter(edit)).toEqual([{ path, message }]);
+  });
+});
@@ -0,0 +1,1126 @@
+// ============================================
+// RIV Editor - 工程文件(.rivproj)
+// 项目序列化/反序列化、版本迁移与结构校验
+// ============================================
+//
+// .rivproj 是UTF-8编码的JSON文档, 顶层结构见 RivprojDocument:
+//   format        固定为 'rivproj'
+//   version       文档结构版本(整数), 打开旧版本文件时按 MIGRATIONS 逐级升级
+//   name          项目名称
+//   artboards     画板及其图形树(图形以 type 字段区分子类)
+//   animations    动画, 轨道以 targetId + property 定位目标图形属性
+//   stateMachines 状态机, parameters 为 参数名 -> 初始值
+//   assets        资源, 二进制数据以Base64字符串保存; delivery为cdn/host的资源同样保留数据
+//
+// 版本0是早期RivExporter直接输出的JSON(没有format字段), 迁移到版本1时补齐缺失字段。
+// 版本2为变换加入斜切(skew), 椭圆开始按pivot定位。
+// 文本(type为text)的字体以assetId引用assets中的字体资源, 打开时解析并绑定。
+// 图片(type为image)同样以assetId引用assets中的图片资源, 不重复保存图片数据。
+// 任意图形可带clipSources(裁切图形, 坐标相对于所属图形)与clipInverse, 没有裁切时省略。
+// blendMode(混合模式)与effects(图层效果列表)同样可选, 为normal或没有效果时省略。
+// 关键帧的interpolation(hold/linear)与轨道的colorSpace(颜色插值色彩空间)可选, 为curve或srgb时省略。
+// 动画的fps(帧率)缺省时为60。
+// pathData轨道的关键帧可带morph(到下一关键帧的轮廓对应关系), 自动对应时省略。
+
+import {
+  Shape,
+  Rectangle,
+  Ellipse,
+  Path,
+  Group,
+  BooleanGroup,
+  Text,
+  Image,
+  Animation,
+  DEFAULT_ANIMATION_FPS,
+  StateMachine,
+  type AssetDelivery,
+  type Color,
+  type Condition,
+  type EasingFunction,
+  type Fill,
+  type FillRule,
+  type Gradient,
+  type Keyframe,
+  type RivProject,
+  type StateMachineState,
+  type StateTransition,
+  type Stroke,
+  type TextRun,
+  type ImageFit,
+  type Transform,
+  type Trigger,
+  type Vector2
+} from './riv-editor-engine';
+import type { RivFieldType } from './riv-format';
+import type { BooleanOperation } from './path-boolean';
+import { encodeBase64, decodeBase64, isValidCdnUuid } from './asset-manager';
+import { FontError } from './font';
+import { RasterImageError } from './raster-image';
+import type { TextAlign, TextSizing, TextVerticalAlign } from './text-layout';
+import { BLEND_MODES, type BlendMode, type Effect } from './effects';
+import { COLOR_SPACES, type ColorSpace } from './interpolation';
+
+export const RIVPROJ_FORMAT = 'rivproj';
+export const RIVPROJ_VERSION = 2;
+
+// ========== 文档结构 ==========
+
+export interface RivprojDocument {
+  format: typeof RIVPROJ_FORMAT;
+  version: number;
+  name: string;
+  artboards: RivprojArtboard[];
+  animations: RivprojAnimation[];
+  stateMachines: RivprojStateMachine[];
+  assets: RivprojAsset[];
+}
+
+export interface RivprojArtboard {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  backgroundColor?: Color;
+  shapes: RivprojShape[];
+  opaqueObjects?: RivprojOpaqueObject[];
+}
+
+export interface RivprojShapeBase {
+  id: string;
+  name: string;
+  transform: Transform;
+  fill: Fill;
+  stroke: Stroke | null;
+  opacity: number;
+  visible: boolean;
+  locked: boolean;
+  clipSources?: RivprojShape[];
+  clipInverse?: boolean;
+  blendMode?: BlendMode;
+  effects?: Effect[];
+}
+
+export type RivprojShape =
+  | (RivprojShapeBase & { type: 'rectangle'; width: number; height: number; cornerRadius: number })
+  | (RivprojShapeBase & { type: 'ellipse'; radiusX: number; radiusY: number })
+  | (RivprojShapeBase & { type: 'path'; pathData: string; fillRule?: FillRule })
+  | (RivprojShapeBase & {
+      type: 'text';
+      runs: TextRun[];
+      fontSize: number;
+      fontFamily: string;
+      assetId: string | null;
+      sizing: TextSizing;
+      width: number;
+      height: number;
+      align: TextAlign;
+      verticalAlign: TextVerticalAlign;
+      lineHeight: number;
+      letterSpacing: number;
+    })
+  | (RivprojShapeBase & { type: 'image'; assetId: string | null; width: number; height: number; fit: ImageFit })
+  | (RivprojShapeBase & { type: 'group'; children: RivprojShape[]; booleanOperation?: BooleanOperation });
+
+export interface RivprojAnimation {
+  id: string;
+  name: string;
+  duration: number;
+  fps?: number; // 缺省为60
+  loop: 'once' | 'loop' | 'pingpong';
+  tracks: Array<{ property: string; targetId?: string; colorSpace?: ColorSpace; keyframes: Keyframe[] }>;
+}
+
+export interface RivprojStateMachine {
+  id: string;
+  name: string;
+  states: StateMachineState[];
+  transitions: StateTransition[];
+  parameters: Record<string, number | boolean | string>;
+  entryState: string;
+}
+
+export interface RivprojAsset {
+  id: string;
+  name: string;
+  type: 'image' | 'font';
+  data: string; // Base64
+  delivery?: AssetDelivery; // 缺省为embedded
+  cdnUuid?: string;
+  cdnBaseUrl?: string;
+}
+
+/**
+ * 导入.riv时保留的不透明对象, bytes类型的属性值以Base64保存
+ */
+export interface RivprojOpaqueObject {
+  typeKey: number;
+  properties: Array<{ key: number; type: RivFieldType; value: number | string }>;
+  parentShapeId?: string;
+  parentOpaqueIndex?: number;
+}
+
+// ========== 错误 ==========
+
+export interface RivprojIssue {
+  path: string; // 例如 artboards[0].shapes[3].fill.gradient.stops
+  message: string;
+}
+
+/**
+ * 工程文件无法解析或不符合结构定义时抛出, issues列出所有问题字段
+ */
+export class RivprojError extends Error {
+  readonly issues: RivprojIssue[];
+
+  constructor(issues: RivprojIssue[]) {
+    const first = issues[0];
+    super(
+      issues.length === 1
+        ? `${first.path}: ${first.message}`
+        : `${first.path}: ${first.message} (另有 ${issues.length - 1} 个问题)`
+    );
+    this.name = 'RivprojError';
+    this.issues = issues;
+  }
+}
+
+// ========== 版本迁移 ==========
+
+type RawDocument = Record<string, unknown>;
+
+function isRawDocument(value: unknown): value is RawDocument {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 升级数组中的每一项; 缺失时补为空数组, 类型不对时原样保留, 交给结构校验报告
+ */
+function upgradeList(value: unknown, upgrade: (item: RawDocument) => RawDocument): unknown {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value.map(item => (isRawDocument(item) ? upgrade(item) : item)) : value;
+}
+
+/**
+ * 迁移表: 键为源版本, 函数把该版本的文档升级到下一个版本
+ */
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {
+  // 版本0: 早期导出器的JSON, 组没有type和children, 状态机没有参数, 项目没有名称
+  0: doc => {
+    const upgradeShape = (shape: RawDocument): RawDocument => ({
+      fill: { type: 'none' },
+      stroke: null,
+      locked: false,
+      ...shape,
+      type: shape.type ?? 'group',
+      ...(shape.type === undefined && { children: [] })
+    });
+
+    return {
+      ...doc,
+      format: RIVPROJ_FORMAT,
+      version: 1,
+      name: doc.name ?? '未命名项目',
+      artboards: upgradeList(doc.artboards, artboard => ({
+        ...artboard,
+        shapes: upgradeList(artboard.shapes, upgradeShape)
+      })),
+      stateMachines: upgradeList(doc.stateMachines, stateMachine => ({
+        parameters: {},
+        ...stateMachine
+      }))
+    };
+  },
+
+  // 版本1: 变换没有斜切; 椭圆忽略pivot, 一律以圆心为原点
+  1: doc => {
+    const upgradeShape = (shape: RawDocument): RawDocument => ({
+      ...shape,
+      transform: {
+        skew: { x: 0, y: 0 },
+        ...(isRawDocument(shape.transform) && shape.transform),
+        ...(shape.type === 'ellipse' && { pivot: { x: 0.5, y: 0.5 } })
+      },
+      ...(Array.isArray(shape.children) && { children: upgradeList(shape.children, upgradeShape) })
+    });
+
+    return {
+      ...doc,
+      version: 2,
+      artboards: upgradeList(doc.artboards, artboard => ({
+        ...artboard,
+        shapes: upgradeList(artboard.shapes, upgradeShape)
+      }))
+    };
+  }
+};
+
+function detectVersion(doc: RawDocument): number {
+  if (doc.format === undefined) return 0;
+  if (doc.format !== RIVPROJ_FORMAT) {
+    throw new RivprojError([{ path: 'format', message: `不是.rivproj文件 (format为${JSON.stringify(doc.format)})` }]);
+  }
+  const { version } = doc;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new RivprojError([{ path: 'version', message: '版本号必须是非负整数' }]);
+  }
+  return version;
+}
+
+/**
+ * 将任意旧版本文档逐级升级到当前版本
+ */
+export function migrateDocument(doc: RawDocument): RawDocument {
+  let version = detectVersion(doc);
+  if (version > RIVPROJ_VERSION) {
+    throw new RivprojError([{ path: 'version', message: `文件版本 ${version} 高于当前支持的版本 ${RIVPROJ_VERSION}` }]);
+  }
+
+  let current = doc;
+  while (version < RIVPROJ_VERSION) {
+    current = MIGRATIONS[version](current);
+    version = detectVersion(current);
+  }
+  return current;
+}
+
+// ========== 结构校验 ==========
+
+class Validator {
+  readonly issues: RivprojIssue[] = [];
+
+  fail(path: string, message: string): false {
+    this.issues.push({ path, message });
+    return false;
+  }
+
+  object(value: unknown, path: string): value is RawDocument {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) return true;
+    return this.fail(path, '应为对象');
+  }
+
+  array(value: unknown, path: string): value is unknown[] {
+    return Array.isArray(value) || this.fail(path, '应为数组');
+  }
+
+  string(value: unknown, path: string): value is string {
+    return typeof value === 'string' || this.fail(path, '应为字符串');
+  }
+
+  boolean(value: unknown, path: string): value is boolean {
+    return typeof value === 'boolean' || this.fail(path, '应为布尔值');
+  }
+
+  number(value: unknown, path: string, min = -Infinity, max = Infinity): value is number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return this.fail(path, '应为有限数值');
+    }
+    if (value < min || value > max) {
+      return this.fail(path, `应在 ${min} 到 ${max} 之间`);
+    }
+    return true;
+  }
+
+  oneOf<T extends string>(value: unknown, path: string, options: readonly T[]): value is T {
+    return (
+      options.includes(value as T) ||
+      this.fail(path, `应为 ${options.map(option => `'${option}'`).join(' | ')} 之一`)
+    );
+  }
+}
+
+function validateVector(v: Validator, value: unknown, path: string): void {
+  if (!v.object(value, path)) return;
+  v.number(value.x, `${path}.x`);
+  v.number(value.y, `${path}.y`);
+}
+
+function validateColor(v: Validator, value: unknown, path: string): void {
+  if (!v.object(value, path)) return;
+  v.number(value.r, `${path}.r`, 0, 255);
+  v.number(value.g, `${path}.g`, 0, 255);
+  v.number(value.b, `${path}.b`, 0, 255);
+  v.number(value.a, `${path}.a`, 0, 1);
+}
+
+function validateTransform(v: Validator, value: unknown, path: string): void {
+  if (!v.object(value, path)) return;
+  validateVector(v, value.position, `${path}.position`);
+  validateVector(v, value.scale, `${path}.scale`);
+  v.number(value.rotation, `${path}.rotation`);
+  validateVector(v, value.skew, `${path}.skew`);
+  validateVector(v, value.pivot, `${path}.pivot`);
+}
+
+function validateGradient(v: Validator, value: unknown, path: string): void {
+  if (!v.object(value, path)) return;
+  if (!v.oneOf(value.type, `${path}.type`, ['linear', 'radial'] as const)) return;
+
+  if (v.array(value.stops, `${path}.stops`)) {
+    if (value.stops.length === 0) v.fail(`${path}.stops`, '至少需要一个色标');
+    value.stops.forEach((stop: unknown, i: number) => {
+      const stopPath = `${path}.stops[${i}]`;
+      if (!v.object(stop, stopPath)) return;
+      v.number(stop.offset, `${stopPath}.offset`, 0, 1);
+      validateColor(v, stop.color, `${stopPath}.color`);
+    });
+  }
+
+  if (value.type === 'linear') {
+    validateVector(v, value.start, `${path}.start`);
+    validateVector(v, value.end, `${path}.end`);
+  } else {
+    validateVector(v, value.center, `${path}.center`);
+    v.number(value.radius, `${path}.radius`, 0);
+  }
+}
+
+function validateFill(v: Validator, value: unknown, path: string): void {
+  if (!v.object(value, path)) return;
+  if (!v.oneOf(value.type, `${path}.type`, ['solid', 'gradient', 'none'] as const)) return;
+  if (value.type === 'solid') validateColor(v, value.color, `${path}.color`);
+  if (value.type === 'gradient') validateGradient(v, value.gradient, `${path}.gradient`);
+}
+
+function validateStroke(v: Validator, value: unknown, path: string): void {
+  if (value === null) return;
+  if (!v.object(value, path)) return;
+  validateColor(v, value.color, `${path}.color`);
+  v.number(value.width, `${path}.width`, 0);
+  v.oneOf(value.cap, `${path}.cap`, ['butt', 'round', 'square'] as const);
+  v.oneOf(value.join, `${path}.join`, ['miter', 'round', 'bevel'] as const);
+  if (value.dashArray !== undefined && v.array(value.dashArray, `${path}.dashArray`)) {
+    value.dashArray.forEach((dash: unknown, i: number) => v.number(dash, `${path}.dashArray[${i}]`, 0));
+  }
+  if (value.dashOffset !== undefined) v.number(value.dashOffset, `${path}.dashOffset`);
+  if (value.trim !== undefined && v.object(value.trim, `${path}.trim`)) {
+    v.number(value.trim.start, `${path}.trim.start`, 0, 1);
+    v.number(value.trim.end, `${path}.trim.end`, 0, 1);
+    v.number(value.trim.offset, `${path}.trim.offset`);
+    v.oneOf(value.trim.mode, `${path}.trim.mode`, ['sequential', 'synchronized'] as const);
+  }
+}
+
+function validateEffect(v: Validator, value: unknown, path: string): void {
+  if (!v.object(value, path)) return;
+  if (!v.oneOf(value.type, `${path}.type`, ['drop-shadow', 'inner-shadow', 'layer-blur', 'background-blur'] as const)) return;
+  v.boolean(value.visible, `${path}.visible`);
+  v.number(value.blur, `${path}.blur`, 0);
+  if (value.type === 'drop-shadow' || value.type === 'inner-shadow') {
+    validateColor(v, value.color, `${path}.color`);
+    validateVector(v, value.offset, `${path}.offset`);
+  }
+}
+
+function validateShape(v: Validator, value: unknown, path: string, ids: Set<string>): void {
+  if (!v.object(value, path)) return;
+
+  if (v.string(value.id, `${path}.id`)) {
+    if (ids.has(value.id)) v.fail(`${path}.id`, `图形ID "${value.id}" 重复`);
+    ids.add(value.id);
+  }
+  v.string(value.name, `${path}.name`);
+  validateTransform(v, value.transform, `${path}.transform`);
+  validateFill(v, value.fill, `${path}.fill`);
+  validateStroke(v, value.stroke, `${path}.stroke`);
+  v.number(value.opacity, `${path}.opacity`, 0, 1);
+  v.boolean(value.visible, `${path}.visible`);
+  v.boolean(value.locked, `${path}.locked`);
+  if (value.clipSources !== undefined && v.array(value.clipSources, `${path}.clipSources`)) {
+    value.clipSources.forEach((source: unknown, i: number) =>
+      validateShape(v, source, `${path}.clipSources[${i}]`, ids)
+    );
+  }
+  if (value.clipInverse !== undefined) v.boolean(value.clipInverse, `${path}.clipInverse`);
+  if (value.blendMode !== undefined) v.oneOf(value.blendMode, `${path}.blendMode`, BLEND_MODES);
+  if (value.effects !== undefined && v.array(value.effects, `${path}.effects`)) {
+    value.effects.forEach((effect: unknown, i: number) => validateEffect(v, effect, `${path}.effects[${i}]`));
+  }
+
+  if (!v.oneOf(value.type, `${path}.type`, ['rectangle', 'ellipse', 'path', 'text', 'image', 'group'] as const)) return;
+  switch (value.type) {
+    case 'rectangle':
+      v.number(value.width, `${path}.width`, 0);
+      v.number(value.height, `${path}.height`, 0);
+      v.number(value.cornerRadius, `${path}.cornerRadius`, 0);
+      break;
+    case 'ellipse':
+      v.number(value.radiusX, `${path}.radiusX`, 0);
+      v.number(value.radiusY, `${path}.radiusY`, 0);
+      break;
+    case 'path':
+      v.string(value.pathData, `${path}.pathData`);
+      if (value.fillRule !== undefined) {
+        v.oneOf(value.fillRule, `${path}.fillRule`, ['nonzero', 'evenodd'] as const);
+      }
+      break;
+    case 'text':
+      if (v.array(value.runs, `${path}.runs`)) {
+        value.runs.forEach((run: unknown, i: number) => {
+          const runPath = `${path}.runs[${i}]`;
+          if (!v.object(run, runPath)) return;
+          v.string(run.text, `${runPath}.text`);
+          if (run.fontSize !== undefined) v.number(run.fontSize, `${runPath}.fontSize`, 0);
+          if (run.fill !== undefined) validateFill(v, run.fill, `${runPath}.fill`);
+        });
+      }
+      v.number(value.fontSize, `${path}.fontSize`, 0);
+      v.string(value.fontFamily, `${path}.fontFamily`);
+      if (value.assetId !== null) v.string(value.assetId, `${path}.assetId`);
+      v.oneOf(value.sizing, `${path}.sizing`, ['auto-width', 'auto-height', 'fixed'] as const);
+      v.number(value.width, `${path}.width`, 0);
+      v.number(value.height, `${path}.height`, 0);
+      v.oneOf(value.align, `${path}.align`, ['left', 'center', 'right'] as const);
+      v.oneOf(value.verticalAlign, `${path}.verticalAlign`, ['top', 'middle', 'bottom'] as const);
+      v.number(value.lineHeight, `${path}.lineHeight`, 0);
+      v.number(value.letterSpacing, `${path}.letterSpacing`);
+      break;
+    case 'image':
+      if (value.assetId !== null) v.string(value.assetId, `${path}.assetId`);
+      v.number(value.width, `${path}.width`, 0);
+      v.number(value.height, `${path}.height`, 0);
+      v.oneOf(value.fit, `${path}.fit`, ['fill', 'contain', 'cover', 'none'] as const);
+      break;
+    case 'group':
+      if (value.booleanOperation !== undefined) {
+        v.oneOf(value.booleanOperation, `${path}.booleanOperation`, ['union', 'subtract', 'intersect', 'exclude'] as const);
+      }
+      if (v.array(value.children, `${path}.children`)) {
+        value.children.forEach((child: unknown, i: number) =>
+          validateShape(v, child, `${path}.children[${i}]`, ids)
+        );
+      }
+      break;
+  }
+}
+
+function validateEasing(v: Validator, value: unknown, path: string): void {
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    const easing = value as RawDocument;
+    const directions = ['in', 'out', 'in-out'] as const;
+    if ('bezier' in easing) {
+      const bezier = easing.bezier;
+      if (v.array(bezier, `${path}.bezier`)) {
+        if (bezier.length !== 4) v.fail(`${path}.bezier`, '应包含4个控制点坐标');
+        bezier.forEach((n, i) => v.number(n, `${path}.bezier[${i}]`));
+      }
+      return;
+    }
+    if ('back' in easing) {
+      v.oneOf(easing.back, `${path}.back`, directions);
+      if (easing.overshoot !== undefined) v.number(easing.overshoot, `${path}.overshoot`);
+      return;
+    }
+    if ('elastic' in easing) {
+      v.oneOf(easing.elastic, `${path}.elastic`, directions);
+      if (easing.amplitude !== undefined) v.number(easing.amplitude, `${path}.amplitude`, 1);
+      if (easing.period !== undefined && v.number(easing.period, `${path}.period`) && easing.period <= 0) {
+        v.fail(`${path}.period`, '应大于0');
+      }
+      return;
+    }
+    if ('bounce' in easing) {
+      v.oneOf(easing.bounce, `${path}.bounce`, directions);
+      return;
+    }
+    if ('steps' in easing) {
+      if (v.number(easing.steps, `${path}.steps`, 1) && !Number.isInteger(easing.steps)) {
+        v.fail(`${path}.steps`, '应为整数');
+      }
+      if (easing.jump !== undefined) v.oneOf(easing.jump, `${path}.jump`, ['start', 'end', 'none', 'both'] as const);
+      return;
+    }
+  }
+  v.oneOf(value, path, ['linear', 'ease-in', 'ease-out', 'ease-in-out', 'bounce', 'elastic'] as const);
+}
+
+function validateAnimation(v: Validator, value: unknown, path: string): void {
+  if (!v.object(value, path)) return;
+  v.string(value.id, `${path}.id`);
+  v.string(value.name, `${path}.name`);
+  v.number(value.duration, `${path}.duration`, 0);
+  if (value.fps !== undefined && v.number(value.fps, `${path}.fps`) && !(value.fps > 0)) {
+    v.fail(`${path}.fps`, '帧率必须为正数');
+  }
+  v.oneOf(value.loop, `${path}.loop`, ['once', 'loop', 'pingpong'] as const);
+
+  if (!v.array(value.tracks, `${path}.tracks`)) return;
+  value.tracks.forEach((track: unknown, i: number) => {
+    const trackPath = `${path}.tracks[${i}]`;
+    if (!v.object(track, trackPath)) return;
+    v.string(track.property, `${trackPath}.property`);
+    if (track.targetId !== undefined) v.string(track.targetId, `${trackPath}.targetId`);
+    if (track.colorSpace !== undefined) v.oneOf(track.colorSpace, `${trackPath}.colorSpace`, COLOR_SPACES);
+    if (!v.array(track.keyframes, `${trackPath}.keyframes`)) return;
+    track.keyframes.forEach((keyframe: unknown, j: number) => {
+      const keyframePath = `${trackPath}.keyframes[${j}]`;
+      if (!v.object(keyframe, keyframePath)) return;
+      v.number(keyframe.time, `${keyframePath}.time`, 0);
+      if (keyframe.value === undefined) v.fail(`${keyframePath}.value`, '缺少关键帧值');
+      validateEasing(v, keyframe.easing, `${keyframePath}.easing`);
+      if (keyframe.interpolation !== undefined) {
+        v.oneOf(keyframe.interpolation, `${keyframePath}.interpolation`, ['hold', 'linear', 'curve'] as const);
+      }
+      if (keyframe.morph !== undefined) validateMorph(v, keyframe.morph, `${keyframePath}.morph`);
+    });
+  });
+}
+
+function validateMorph(v: Validator, value: unknown, path: string): void {
+  if (!v.array(value, path)) return;
+  value.forEach((entry: unknown, i: number) => {
+    const entryPath = `${path}[${i}]`;
+    if (!v.object(entry, entryPath)) return;
+    const index = (n: unknown, fieldPath: string) => {
+      if (v.number(n, fieldPath, 0) && !Number.isInteger(n)) v.fail(fieldPath, '应为整数');
+    };
+    index(entry.contour, `${entryPath}.contour`);
+    index(entry.target, `${entryPath}.target`);
+    if (entry.startVertex !== undefined) index(entry.startVertex, `${entryPath}.startVertex`);
+    if (entry.reversed !== undefined) v.boolean(entry.reversed, `${entryPath}.reversed`);
+  });
+}
+
+function validateStateMachine(v: Validator, value: unknown, path: string): void {
+  if (!v.object(value, path)) return;
+  v.string(value.id, `${path}.id`);
+  v.string(value.name, `${path}.name`);
+  v.string(value.entryState, `${path}.entryState`);
+
+  if (v.object(value.parameters, `${path}.parameters`)) {
+    Object.entries(value.parameters).forEach(([name, parameter]) => {
+      if (!['number', 'boolean', 'string'].includes(typeof parameter)) {
+        v.fail(`${path}.parameters.${name}`, '参数值应为数值、布尔值或字符串');
+      }
+    });
+  }
+
+  if (v.array(value.states, `${path}.states`)) {
+    value.states.forEach((state: unknown, i: number) => {
+      const statePath = `${path}.states[${i}]`;
+      if (!v.object(state, statePath)) return;
+      v.string(state.id, `${statePath}.id`);
+      v.string(state.name, `${statePath}.name`);
+      if (state.animationId !== undefined) v.string(state.animationId, `${statePath}.animationId`);
+      validateVector(v, state.position, `${statePath}.position`);
+    });
+  }
+
+  if (v.array(value.transitions, `${path}.transitions`)) {
+    value.transitions.forEach((transition: unknown, i: number) => {
+      const transitionPath = `${path}.transitions[${i}]`;
+      if (!v.object(transition, transitionPath)) return;
+      v.string(transition.from, `${transitionPath}.from`);
+      v.string(transition.to, `${transitionPath}.to`);
+      if (transition.duration !== undefined) v.number(transition.duration, `${transitionPath}.duration`, 0);
+
+      if (v.array(transition.conditions, `${transitionPath}.conditions`)) {
+        transition.conditions.forEach((condition: unknown, j: number) => {
+          const conditionPath = `${transitionPath}.conditions[${j}]`;
+          if (!v.object(condition, conditionPath)) return;
+          v.oneOf(condition.type, `${conditionPath}.type`, ['boolean', 'number', 'string'] as const);
+          v.string(condition.parameter, `${conditionPath}.parameter`);
+          v.oneOf(condition.operator, `${conditionPath}.operator`, ['==', '!=', '>', '<', '>=', '<='] as const);
+        });
+      }
+
+      if (v.array(transition.triggers, `${transitionPath}.triggers`)) {
+        transition.triggers.forEach((trigger: unknown, j: number) => {
+          const triggerPath = `${transitionPath}.triggers[${j}]`;
+          if (!v.object(trigger, triggerPath)) return;
+          v.oneOf(trigger.type, `${triggerPath}.type`,
+            ['click', 'hover', 'press', 'release', 'keydown', 'keyup', 'custom'] as const);
+        });
+      }
+    });
+  }
+}
+
+function validateOpaqueObject(v: Validator, value: unknown, path: string): void {
+  if (!v.object(value, path)) return;
+  v.number(value.typeKey, `${path}.typeKey`, 0);
+  if (!v.array(value.properties, `${path}.properties`)) return;
+  value.properties.forEach((property: unknown, i: number) => {
+    const propertyPath = `${path}.properties[${i}]`;
+    if (!v.object(property, propertyPath)) return;
+    v.number(property.key, `${propertyPath}.key`, 1);
+    v.oneOf(property.type, `${propertyPath}.type`, ['uint', 'string', 'double', 'color', 'bytes'] as const);
+    if (typeof property.value !== 'number' && typeof property.value !== 'string') {
+      v.fail(`${propertyPath}.value`, '应为数值或字符串');
+    }
+  });
+}
+
+/**
+ * 交叉引用: 轨道目标图形、状态绑定的动画、过渡两端的状态、文本使用的字体资源、图片使用的图片资源必须存在
+ */
+function validateReferences(v: Validator, doc: RawDocument, shapeIds: Set<string>): void {
+  if (Array.isArray(doc.artboards) && Array.isArray(doc.assets)) {
+    const assets: RawDocument[] = doc.assets;
+    const assetIds = (type: string) => new Set(
+      assets.filter((asset: RawDocument) => asset?.type === type).map((asset: RawDocument) => asset.id)
+    );
+    const fontIds = assetIds('font');
+    const imageIds = assetIds('image');
+    const visit = (shape: RawDocument, path: string) => {
+      if (shape?.type === 'text' && typeof shape.assetId === 'string' && !fontIds.has(shape.assetId)) {
+        v.fail(`${path}.assetId`, `字体资源 "${shape.assetId}" 不存在`);
+      }
+      if (shape?.type === 'image' && typeof shape.assetId === 'string' && !imageIds.has(shape.assetId)) {
+        v.fail(`${path}.assetId`, `图片资源 "${shape.assetId}" 不存在`);
+      }
+      if (Array.isArray(shape?.clipSources)) {
+        shape.clipSources.forEach((source: RawDocument, i: number) => visit(source, `${path}.clipSources[${i}]`));
+      }
+      if (Array.isArray(shape?.children)) {
+        shape.children.forEach((child: RawDocument, i: number) => visit(child, `${path}.children[${i}]`));
+      }
+    };
+    doc.artboards.forEach((artboard: RawDocument, i: number) => {
+      if (!Array.isArray(artboard?.shapes)) return;
+      artboard.shapes.forEach((shape: RawDocument, j: number) => visit(shape, `artboards[${i}].shapes[${j}]`));
+    });
+  }
+
+  if (!Array.isArray(doc.animations) || !Array.isArray(doc.stateMachines)) return;
+
+  const animationIds = new Set(doc.animations.map((animation: RawDocument) => animation?.id));
+  doc.animations.forEach((animation: RawDocument, i: number) => {
+    if (!Array.isArray(animation?.tracks)) return;
+    animation.tracks.forEach((track: RawDocument, j: number) => {
+      if (typeof track?.targetId === 'string' && !shapeIds.has(track.targetId)) {
+        v.fail(`animations[${i}].tracks[${j}].targetId`, `目标图形 "${track.targetId}" 不存在`);
+      }
+    });
+  });
+
+  doc.stateMachines.forEach((stateMachine: RawDocument, i: number) => {
+    if (!Array.isArray(stateMachine?.states) || !Array.isArray(stateMachine.transitions)) return;
+    const stateIds = new Set([stateMachine.entryState]);
+    stateMachine.states.forEach((state: RawDocument, j: number) => {
+      stateIds.add(state?.id);
+      if (typeof state?.animationId === 'string' && !animationIds.has(state.animationId)) {
+        v.fail(`stateMachines[${i}].states[${j}].animationId`, `动画 "${state.animationId}" 不存在`);
+      }
+    });
+    stateMachine.transitions.forEach((transition: RawDocument, j: number) => {
+      ['from', 'to'].forEach(end => {
+        if (typeof transition?.[end] === 'string' && !stateIds.has(transition[end])) {
+          v.fail(`stateMachines[${i}].transitions[${j}].${end}`, `状态 "${transition[end]}" 不存在`);
+        }
+      });
+    });
+  });
+}
+
+/**
+ * 校验当前版本的文档结构, 返回所有问题字段
+ */
+export function validateDocument(doc: unknown): RivprojIssue[] {
+  const v = new Validator();
+  if (!v.object(doc, '$')) return v.issues;
+
+  v.string(doc.name, 'name');
+
+  const shapeIds = new Set<string>();
+  if (v.array(doc.artboards, 'artboards')) {
+    doc.artboards.forEach((artboard: unknown, i: number) => {
+      const path = `artboards[${i}]`;
+      if (!v.object(artboard, path)) return;
+      v.string(artboard.id, `${path}.id`);
+      v.string(artboard.name, `${path}.name`);
+      v.number(artboard.width, `${path}.width`, 0);
+      v.number(artboard.height, `${path}.height`, 0);
+      if (artboard.backgroundColor !== undefined) {
+        validateColor(v, artboard.backgroundColor, `${path}.backgroundColor`);
+      }
+      if (v.array(artboard.shapes, `${path}.shapes`)) {
+        artboard.shapes.forEach((shape: unknown, j: number) =>
+          validateShape(v, shape, `${path}.shapes[${j}]`, shapeIds)
+        );
+      }
+      if (artboard.opaqueObjects !== undefined && v.array(artboard.opaqueObjects, `${path}.opaqueObjects`)) {
+        artboard.opaqueObjects.forEach((object: unknown, j: number) =>
+          validateOpaqueObject(v, object, `${path}.opaqueObjects[${j}]`)
+        );
+      }
+    });
+  }
+
+  if (v.array(doc.animations, 'animations')) {
+    doc.animations.forEach((animation: unknown, i: number) =>
+      validateAnimation(v, animation, `animations[${i}]`)
+    );
+  }
+
+  if (v.array(doc.stateMachines, 'stateMachines')) {
+    doc.stateMachines.forEach((stateMachine: unknown, i: number) =>
+      validateStateMachine(v, stateMachine, `stateMachines[${i}]`)
+    );
+  }
+
+  validateReferences(v, doc, shapeIds);
+
+  if (v.array(doc.assets, 'assets')) {
+    doc.assets.forEach((asset: unknown, i: number) => {
+      const path = `assets[${i}]`;
+      if (!v.object(asset, path)) return;
+      v.string(asset.id, `${path}.id`);
+      v.string(asset.name, `${path}.name`);
+      v.oneOf(asset.type, `${path}.type`, ['image', 'font'] as const);
+      if (v.string(asset.data, `${path}.data`) && !/^[A-Za-z0-9+/]*={0,2}$/.test(asset.data)) {
+        v.fail(`${path}.data`, '不是有效的Base64数据');
+      }
+      if (asset.delivery !== undefined) {
+        v.oneOf(asset.delivery, `${path}.delivery`, ['embedded', 'cdn', 'host'] as const);
+      }
+      if (asset.delivery === 'cdn' && !isValidCdnUuid(asset.cdnUuid as string | undefined)) {
+        v.fail(`${path}.cdnUuid`, 'CDN资源缺少有效的UUID');
+      }
+      if (asset.cdnBaseUrl !== undefined) {
+        v.string(asset.cdnBaseUrl, `${path}.cdnBaseUrl`);
+      }
+    });
+  }
+
+  return v.issues;
+}
+
+// ========== 序列化 ==========
+
+/**
+ * 将项目序列化为.rivproj文本
+ */
+export function serializeProject(project: RivProject, name = project.name ?? '未命名项目'): string {
+  const document: RivprojDocument = {
+    format: RIVPROJ_FORMAT,
+    version: RIVPROJ_VERSION,
+    name,
+    artboards: project.artboards.map(artboard => ({
+      id: artboard.id,
+      name: artboard.name,
+      width: artboard.width,
+      height: artboard.height,
+      ...(artboard.backgroundColor && { backgroundColor: { ...artboard.backgroundColor } }),
+      shapes: artboard.shapes.map(serializeShape),
+      ...(artboard.opaqueObjects && {
+        opaqueObjects: artboard.opaqueObjects.map(opaque => ({
+          typeKey: opaque.record.typeKey,
+          properties: opaque.record.properties.map(property => ({
+            key: property.key,
+            type: property.type,
+            value: property.value instanceof Uint8Array ? encodeBase64(property.value) : property.value
+          })),
+          parentShapeId: opaque.parentShapeId,
+          parentOpaqueIndex: opaque.parentOpaqueIndex
+        }))
+      })
+    })),
+    animations: project.animations.map(animation => ({
+      id: animation.id,
+      name: animation.name,
+      duration: animation.duration,
+      fps: animation.fps,
+      loop: animation.loop,
+      tracks: Array.from(animation.tracks.values()).map(track => ({
+        property: track.property,
+        targetId: track.targetId,
+        ...(track.colorSpace !== 'srgb' && { colorSpace: track.colorSpace }),
+        keyframes: track.keyframes
+      }))
+    })),
+    stateMachines: project.stateMachines.map(stateMachine => ({
+      id: stateMachine.id,
+      name: stateMachine.name,
+      states: Array.from(stateMachine.states.values()),
+      transitions: stateMachine.transitions,
+      parameters: Object.fromEntries(stateMachine.parameters),
+      entryState: stateMachine.entryState
+    })),
+    assets: project.assets.map(asset => ({
+      id: asset.id,
+      name: asset.name,
+      type: asset.type,
+      data: encodeBase64(new Uint8Array(asset.data)),
+      ...(asset.delivery && { delivery: asset.delivery }),
+      ...(asset.cdnUuid && { cdnUuid: asset.cdnUuid }),
+      ...(asset.cdnBaseUrl && { cdnBaseUrl: asset.cdnBaseUrl })
+    }))
+  };
+
+  return JSON.stringify(document, null, 2);
+}
+
+function serializeShape(shape: Shape): RivprojShape {
+  const base: RivprojShapeBase = {
+    id: shape.id,
+    name: shape.name,
+    transform: shape.transform,
+    fill: shape.fill,
+    stroke: shape.stroke,
+    opacity: shape.opacity,
+    visible: shape.visible,
+    locked: shape.locked,
+    ...(shape.clipSources.length > 0 && {
+      clipSources: shape.clipSources.map(serializeShape),
+      clipInverse: shape.clipInverse
+    }),
+    ...(shape.blendMode !== 'normal' && { blendMode: shape.blendMode }),
+    ...(shape.effects.length > 0 && { effects: shape.effects })
+  };
+
+  if (shape instanceof Rectangle) {
+    return { ...base, type: 'rectangle', width: shape.width, height: shape.height, cornerRadius: shape.cornerRadius };
+  }
+  if (shape instanceof Ellipse) {
+    return { ...base, type: 'ellipse', radiusX: shape.radiusX, radiusY: shape.radiusY };
+  }
+  if (shape instanceof Path) {
+    return {
+      ...base,
+      type: 'path',
+      pathData: shape.pathData,
+      ...(shape.fillRule !== 'nonzero' && { fillRule: shape.fillRule })
+    };
+  }
+  if (shape instanceof Text) {
+    return {
+      ...base,
+      type: 'text',
+      runs: shape.runs,
+      fontSize: shape.fontSize,
+      fontFamily: shape.fontFamily,
+      assetId: shape.assetId,
+      sizing: shape.sizing,
+      width: shape.width,
+      height: shape.height,
+      align: shape.align,
+      verticalAlign: shape.verticalAlign,
+      lineHeight: shape.lineHeight,
+      letterSpacing: shape.letterSpacing
+    };
+  }
+  if (shape instanceof Image) {
+    return { ...base, type: 'image', assetId: shape.assetId, width: shape.width, height: shape.height, fit: shape.fit };
+  }
+  if (shape instanceof Group) {
+    return {
+      ...base,
+      type: 'group',
+      children: shape.children.map(serializeShape),
+      ...(shape instanceof BooleanGroup && { booleanOperation: shape.operation })
+    };
+  }
+  throw new Error(`不支持保存的图形类型 ${shape.constructor.name}`);
+}
+
+// ========== 反序列化 ==========
+
+/**
+ * 解析.rivproj文本: 升级旧版本, 校验结构, 重建引擎对象
+ * 文件损坏或结构不合法时抛出RivprojError, 不会产生半成品项目
+ */
+export function deserializeProject(text: string): RivProject {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new RivprojError([{ path: '$', message: `JSON解析失败: ${(error as Error).message}` }]);
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new RivprojError([{ path: '$', message: '应为对象' }]);
+  }
+
+  const migrated = migrateDocument(raw as RawDocument);
+  const issues = validateDocument(migrated);
+  if (issues.length > 0) {
+    throw new RivprojError(issues);
+  }
+
+  const doc = migrated as unknown as RivprojDocument;
+  const project: RivProject = {
+    version: String(doc.version),
+    name: doc.name,
+    artboards: doc.artboards.map(artboard => ({
+      id: artboard.id,
+      name: artboard.name,
+      width: artboard.width,
+      height: artboard.height,
+      ...(artboard.backgroundColor && { backgroundColor: { ...artboard.backgroundColor } }),
+      shapes: artboard.shapes.map(deserializeShape),
+      ...(artboard.opaqueObjects && {
+        opaqueObjects: artboard.opaqueObjects.map(opaque => ({
+          record: {
+            typeKey: opaque.typeKey,
+            properties: opaque.properties.map(property => ({
+              key: property.key,
+              type: property.type,
+              value: property.type === 'bytes' ? decodeBase64(String(property.value)) : property.value
+            }))
+          },
+          parentShapeId: opaque.parentShapeId,
+          parentOpaqueIndex: opaque.parentOpaqueIndex
+        }))
+      })
+    })),
+    animations: doc.animations.map(data => {
+      const animation = new Animation(data.id, data.name, data.duration);
+      animation.fps = data.fps ?? DEFAULT_ANIMATION_FPS;
+      animation.loop = data.loop;
+      data.tracks.forEach(trackData => {
+        const track = animation.addTrack(trackData.property, trackData.targetId);
+        track.colorSpace = trackData.colorSpace ?? 'srgb';
+        trackData.keyframes.forEach(keyframe =>
+          track.addKeyframe(
+            keyframe.time,
+            keyframe.value,
+            keyframe.easing as EasingFunction,
+            keyframe.interpolation,
+            keyframe.morph
+          )
+        );
+      });
+      return animation;
+    }),
+    stateMachines: doc.stateMachines.map(data => {
+      const stateMachine = new StateMachine(data.id, data.name);
+      stateMachine.entryState = data.entryState;
+      stateMachine.currentState = data.entryState;
+      data.states.forEach(state => {
+        stateMachine.states.set(state.id, { ...state, position: { ...state.position } });
+      });
+      data.transitions.forEach(transition => {
+        stateMachine.transitions.push({
+          ...transition,
+          conditions: transition.conditions.map((condition: Condition) => ({ ...condition })),
+          triggers: transition.triggers.map((trigger: Trigger) => ({ ...trigger }))
+        });
+      });
+      Object.entries(data.parameters).forEach(([name, value]) => stateMachine.setParameter(name, value));
+      return stateMachine;
+    }),
+    assets: doc.assets.map(asset => ({
+      id: asset.id,
+      name: asset.name,
+      type: asset.type,
+      data: decodeBase64(asset.data).buffer as ArrayBuffer,
+      ...(asset.delivery && { delivery: asset.delivery }),
+      ...(asset.cdnUuid && { cdnUuid: asset.cdnUuid }),
+      ...(asset.cdnBaseUrl && { cdnBaseUrl: asset.cdnBaseUrl })
+    }))
+  };
+  attachAssets(project);
+  return project;
+}
+
+/**
+ * 为文本绑定字体资源、为图片绑定图片资源, 资源数据无法解析时抛出RivprojError
+ */
+function attachAssets(project: RivProject): void {
+  const visit = (shape: Shape) => {
+    shape.clipSources.forEach(visit);
+    if (shape instanceof Group) shape.children.forEach(visit);
+    if (!(shape instanceof Text || shape instanceof Image) || shape.assetId === null) return;
+
+    const index = project.assets.findIndex(asset => asset.id === shape.assetId);
+    try {
+      if (shape instanceof Text) shape.setFont(project.assets[index]);
+      else shape.setImage(project.assets[index]);
+    } catch (error) {
+      if (!(error instanceof FontError || error instanceof RasterImageError)) throw error;
+      throw new RivprojError([{ path: `assets[${index}].data`, message: error.message }]);
+    }
+  };
+  project.artboards.forEach(artboard => artboard.shapes.forEach(visit));
+}
+
+function deserializeShape(data: RivprojShape): Shape {
+  let shape: Shape;
+  switch (data.type) {
+    case 'rectangle': {
+      const rect = new Rectangle(data.id, data.name, data.width, data.height);
+      rect.cornerRadius = data.cornerRadius;
+      shape = rect;
+      break;
+    }
+    case 'ellipse':
+      shape = new Ellipse(data.id, data.name, data.radiusX, data.radiusY);
+      break;
+    case 'path': {
+      const pathShape = new Path(data.id, data.name, data.pathData);
+      pathShape.fillRule = data.fillRule ?? 'nonzero';
+      shape = pathShape;
+      break;
+    }
+    case 'text': {
+      const text = new Text(data.id, data.name, '', data.fontSize);
+      text.runs = data.runs.map(run => ({
+        text: run.text,
+        ...(run.fontSize !== undefined && { fontSize: run.fontSize }),
+        ...(run.fill && { fill: { ...run.fill } })
+      }));
+      text.fontFamily = data.fontFamily;
+      text.assetId = data.assetId;
+      text.sizing = data.sizing;
+      text.width = data.width;
+      text.height = data.height;
+      text.align = data.align;
+      text.verticalAlign = data.verticalAlign;
+      text.lineHeight = data.lineHeight;
+      text.letterSpacing = data.letterSpacing;
+      shape = text;
+      break;
+    }
+    case 'image': {
+      const image = new Image(data.id, data.name, data.width, data.height);
+      image.assetId = data.assetId;
+      image.fit = data.fit;
+      shape = image;
+      break;
+    }
+    case 'group': {
+      const group = data.booleanOperation
+        ? new BooleanGroup(data.id, data.name, data.booleanOperation)
+        : new Group(data.id, data.name);
+      data.children.forEach(child => group.addChild(deserializeShape(child)));
+      shape = group;
+      break;
+    }
+  }
+
+  const vector = (v: Vector2) => ({ x: v.x, y: v.y });
+  const color = (c: Color) => ({ ...c });
+  const gradient = (g: Gradient): Gradient => ({
+    ...g,
+    stops: g.stops.map(stop => ({ offset: stop.offset, color: color(stop.color) }))
+  });
+
+  shape.transform = {
+    position: vector(data.transform.position),
+    scale: vector(data.transform.scale),
+    rotation: data.transform.rotation,
+    skew: vector(data.transform.skew),
+    pivot: vector(data.transform.pivot)
+  };
+  shape.fill = {
+    type: data.fill.type,
+    ...(data.fill.color && { color: color(data.fill.color) }),
+    ...(data.fill.gradient && { gradient: gradient(data.fill.gradient) })
+  };
+  shape.stroke = data.stroke
+    ? { ...data.stroke, color: color(data.stroke.color), ...(data.stroke.trim && { trim: { ...data.stroke.trim } }) }
+    : null;
+  shape.opacity = data.opacity;
+  shape.visible = data.visible;
+  shape.locked = data.locked;
+  shape.clipSources = data.clipSources?.map(deserializeShape) ?? [];
+  shape.clipInverse = data.clipInverse ?? false;
+  shape.blendMode = data.blendMode ?? 'normal';
+  shape.effects = data.effects?.map(effect =>
+    effect.type === 'drop-shadow' || effect.type === 'inner-shadow'
+      ? { ...effect, color: color(effect.color), offset: vector(effect.offset) }
+      : { ...effect }
+  ) ?? [];
+  return shape;
+}
@@ -0,0 +1,367 @@
+// ============================================
+// RIV Editor - 图形文档转换
+// 编辑器状态中的纯数据图形 与 引擎图形对象 互相转换, 纯数据动画转为引擎动画
+// ============================================
+
+import {
+  Shape,
+  Rectangle,
+  Ellipse,
+  Path,
+  Group,
+  BooleanGroup,
+  Text,
+  Image,
+  Animation,
+  DEFAULT_ANIMATION_FPS,
+  type Asset,
+  type EasingFunction,
+  type Fill,
+  type Gradient,
+  type Stroke,
+  type Vector2
+} from './riv-editor-engine';
+import { applyAffine } from './matrix';
+import { FontError } from './font';
+import { RasterImageError } from './raster-image';
+import type { Effect } from './effects';
+import { hexToRgb } from '@utils/index';
+import type {
+  Animation as AnimationData,
+  Shape as ShapeData,
+  Fill as FillData,
+  Stroke as StrokeData
+} from '../types';
+
+/**
+ * 纯数据图形转为引擎图形
+ * 矩形与图片的x/y为中心点, 对应引擎中pivot为(0.5, 0.5); 文本的x/y为文本框左上角
+ * 文本与图片从assets中绑定引用的资源, 资源缺失或无法解析时保持未绑定(文本以系统字体预览, 图片显示占位)
+ * 裁切图形同样转换, 坐标系即所属图形的局部坐标系
+ */
+export function toEngineShape(data: ShapeData, assets: Asset[] = []): Shape | null {
+  let shape: Shape;
+
+  switch (data.type) {
+    case 'rect': {
+      const rect = new Rectangle(data.id, data.name, data.width, data.height);
+      rect.cornerRadius = data.cornerRadius ?? 0;
+      rect.transform.pivot = { x: 0.5, y: 0.5 };
+      shape = rect;
+      break;
+    }
+    case 'ellipse':
+      shape = new Ellipse(data.id, data.name, data.radiusX, data.radiusY);
+      break;
+    case 'path': {
+      const path = new Path(data.id, data.name, data.pathData);
+      path.fillRule = data.fillRule ?? 'nonzero';
+      shape = path;
+      break;
+    }
+    case 'text': {
+      const text = new Text(data.id, data.name, data.content, data.fontSize);
+      if (data.runs) {
+        text.runs = data.runs.map(run => ({
+          text: run.text,
+          ...(run.fontSize !== undefined && { fontSize: run.fontSize }),
+          ...(run.fill !== undefined && { fill: toEngineFill(run.fill) })
+        }));
+      }
+      text.assetId = data.assetId ?? null;
+      text.fontFamily = data.fontFamily;
+      text.sizing = data.sizing ?? 'auto-width';
+      text.width = data.width ?? text.width;
+      text.height = data.height ?? text.height;
+      text.align = data.textAlign ?? 'left';
+      text.verticalAlign = data.verticalAlign ?? 'top';
+      text.lineHeight = data.lineHeight ?? 1.2;
+      text.letterSpacing = data.letterSpacing ?? 0;
+      bindAsset(assets, data.assetId, asset => text.setFont(asset));
+      shape = text;
+      break;
+    }
+    case 'image': {
+      const image = new Image(data.id, data.name, data.width, data.height);
+      image.assetId = data.assetId;
+      image.fit = data.fit ?? 'contain';
+      bindAsset(assets, data.assetId, asset => image.setImage(asset));
+      shape = image;
+      break;
+    }
+    case 'group': {
+      const group = data.booleanOperation
+        ? new BooleanGroup(data.id, data.name, data.booleanOperation)
+        : new Group(data.id, data.name);
+      data.children.forEach(child => {
+        const converted = toEngineShape(child, assets);
+        if (converted) group.addChild(converted);
+      });
+      shape = group;
+      break;
+    }
+    default:
+      return null;
+  }
+
+  shape.transform.position = { x: data.x, y: data.y };
+  shape.transform.rotation = data.rotation || 0;
+  shape.transform.scale = { x: data.scaleX ?? 1, y: data.scaleY ?? 1 };
+  shape.transform.skew = { x: data.skewX ?? 0, y: data.skewY ?? 0 };
+  shape.opacity = data.opacity ?? 1;
+  shape.visible = data.visible ?? true;
+  shape.locked = data.locked ?? false;
+  shape.fill = toEngineFill(data.fill);
+  shape.stroke = data.stroke ? toEngineStroke(data.stroke) : null;
+  shape.clipSources = (data.clipSources ?? [])
+    .map(source => toEngineShape(source, assets))
+    .filter((source): source is Shape => source !== null);
+  shape.clipInverse = data.clipInverse ?? false;
+  shape.blendMode = data.blendMode ?? 'normal';
+  shape.effects = (data.effects ?? []).map(cloneEffect);
+  return shape;
+}
+
+/**
+ * 引擎图形转为纯数据图形, 矩形、椭圆与图片换算为以中心点定位, 文本以文本框左上角定位
+ */
+export function fromEngineShape(shape: Shape): ShapeData {
+  const { position, rotation, scale, skew } = shape.transform;
+  const base = {
+    id: shape.id,
+    name: shape.name,
+    x: position.x,
+    y: position.y,
+    rotation,
+    scaleX: scale.x,
+    scaleY: scale.y,
+    ...((skew.x !== 0 || skew.y !== 0) && { skewX: skew.x, skewY: skew.y }),
+    opacity: shape.opacity,
+    visible: shape.visible,
+    locked: shape.locked,
+    fill: cloneFill(shape.fill),
+    stroke: shape.stroke ? toStrokeData(shape.stroke) : undefined,
+    ...(shape.blendMode !== 'normal' && { blendMode: shape.blendMode }),
+    ...(shape.effects.length > 0 && { effects: shape.effects.map(cloneEffect) })
+  };
+
+  if (shape instanceof Rectangle) {
+    // 局部坐标原点从pivot移到中心
+    const offset = {
+      x: (0.5 - shape.transform.pivot.x) * shape.width,
+      y: (0.5 - shape.transform.pivot.y) * shape.height
+    };
+    const center = applyAffine(shape.getLocalMatrix(), offset);
+    return {
+      ...base,
+      type: 'rect',
+      x: center.x,
+      y: center.y,
+      width: shape.width,
+      height: shape.height,
+      cornerRadius: shape.cornerRadius,
+      fill: translateFill(base.fill, { x: -offset.x, y: -offset.y }),
+      ...clipData(shape, offset)
+    };
+  }
+
+  if (shape instanceof Ellipse) {
+    // 局部坐标原点从pivot移到圆心
+    const offset = shape.getCenter();
+    const center = applyAffine(shape.getLocalMatrix(), offset);
+    return {
+      ...base,
+      type: 'ellipse',
+      x: center.x,
+      y: center.y,
+      radiusX: shape.radiusX,
+      radiusY: shape.radiusY,
+      fill: translateFill(base.fill, { x: -offset.x, y: -offset.y }),
+      ...clipData(shape, offset)
+    };
+  }
+
+  if (shape instanceof Image) {
+    // 局部坐标原点从pivot移到图片框中心
+    const frame = shape.getFrame();
+    const offset = { x: frame.x + frame.width / 2, y: frame.y + frame.height / 2 };
+    const center = applyAffine(shape.getLocalMatrix(), offset);
+    return {
+      ...base,
+      type: 'image',
+      x: center.x,
+      y: center.y,
+      assetId: shape.assetId ?? '',
+      width: shape.width,
+      height: shape.height,
+      fit: shape.fit,
+      fill: translateFill(base.fill, { x: -offset.x, y: -offset.y }),
+      ...clipData(shape, offset)
+    };
+  }
+
+  if (shape instanceof Path) {
+    return {
+      ...base,
+      type: 'path',
+      pathData: shape.pathData,
+      ...(shape.fillRule !== 'nonzero' && { fillRule: shape.fillRule }),
+      ...clipData(shape, { x: 0, y: 0 })
+    };
+  }
+
+  if (shape instanceof Text) {
+    // 局部坐标原点从pivot移到文本框左上角
+    const offset = shape.getOrigin();
+    const topLeft = applyAffine(shape.getLocalMatrix(), offset);
+    const hasStyledRuns = shape.runs.some(run => run.fontSize !== undefined || run.fill !== undefined);
+    return {
+      ...base,
+      type: 'text',
+      x: topLeft.x,
+      y: topLeft.y,
+      content: shape.content,
+      ...(hasStyledRuns && {
+        runs: shape.runs.map(run => ({ ...run, fill: run.fill && translateFill(cloneFill(run.fill), { x: -offset.x, y: -offset.y }) }))
+      }),
+      fontSize: shape.fontSize,
+      fontFamily: shape.fontFamily,
+      ...(shape.assetId !== null && { assetId: shape.assetId }),
+      sizing: shape.sizing,
+      width: shape.width,
+      height: shape.height,
+      textAlign: shape.align,
+      verticalAlign: shape.verticalAlign,
+      lineHeight: shape.lineHeight,
+      letterSpacing: shape.letterSpacing,
+      fill: translateFill(base.fill, { x: -offset.x, y: -offset.y }),
+      ...clipData(shape, offset)
+    };
+  }
+
+  if (shape instanceof Group) {
+    return {
+      ...base,
+      type: 'group',
+      children: shape.children.map(fromEngineShape),
+      ...(shape instanceof BooleanGroup && { booleanOperation: shape.operation }),
+      ...clipData(shape, { x: 0, y: 0 })
+    };
+  }
+
+  throw new Error(`无法转换的图形类型: ${shape.constructor.name}`);
+}
+
+/**
+ * 纯数据动画转为引擎动画, 轨道属性路径与引擎图形一致
+ */
+export function toEngineAnimation(data: AnimationData): Animation {
+  const animation = new Animation(data.id, data.name, data.duration);
+  animation.fps = data.fps ?? DEFAULT_ANIMATION_FPS;
+  animation.loop = data.loop;
+  data.tracks.forEach(trackData => {
+    const track = animation.addTrack(trackData.property, trackData.targetId);
+    track.colorSpace = trackData.colorSpace ?? 'srgb';
+    trackData.keyframes.forEach(keyframe => {
+      track.addKeyframe(
+        keyframe.time,
+        keyframe.value,
+        keyframe.easing as EasingFunction,
+        keyframe.interpolation,
+        keyframe.morph
+      );
+    });
+  });
+  return animation;
+}
+
+// ========== 内部工具 ==========
+
+/**
+ * 裁切图形转为纯数据; origin为纯数据中所属图形局部坐标原点在引擎局部坐标下的位置, 裁切图形随之平移
+ */
+function clipData(shape: Shape, origin: Vector2): Pick<ShapeData, 'clipSources' | 'clipInverse'> {
+  if (shape.clipSources.length === 0) return {};
+  return {
+    clipSources: shape.clipSources.map(source => {
+      const data = fromEngineShape(source);
+      return { ...data, x: data.x - origin.x, y: data.y - origin.y };
+    }),
+    clipInverse: shape.clipInverse
+  };
+}
+
+function bindAsset(assets: Asset[], assetId: string | undefined, bind: (asset: Asset) => void): void {
+  const asset = assets.find(candidate => candidate.id === assetId);
+  if (!asset) return;
+  try {
+    bind(asset);
+  } catch (error) {
+    if (!(error instanceof FontError || error instanceof RasterImageError)) throw error;
+  }
+}
+
+function toEngineFill(fill: string | FillData | undefined): Fill {
+  if (fill === undefined) return { type: 'none' };
+  if (typeof fill === 'string') {
+    const color = hexToRgb(fill);
+    return color ? { type: 'solid', color } : { type: 'none' };
+  }
+  return cloneFill(fill);
+}
+
+function toEngineStroke(stroke: StrokeData): Stroke {
+  return {
+    color: { ...stroke.color },
+    width: stroke.width,
+    cap: stroke.cap ?? 'butt',
+    join: stroke.join ?? 'miter',
+    dashArray: stroke.dashArray?.slice(),
+    ...(stroke.dashOffset !== undefined && { dashOffset: stroke.dashOffset }),
+    ...(stroke.trim && { trim: { ...stroke.trim } })
+  };
+}
+
+function toStrokeData(stroke: Stroke): StrokeData {
+  return {
+    ...stroke,
+    color: { ...stroke.color },
+    dashArray: stroke.dashArray?.slice(),
+    trim: stroke.trim && { ...stroke.trim }
+  };
+}
+
+function cloneEffect(effect: Effect): Effect {
+  return effect.type === 'drop-shadow' || effect.type === 'inner-shadow'
+    ? { ...effect, color: { ...effect.color }, offset: { ...effect.offset } }
+    : { ...effect };
+}
+
+function cloneFill(fill: Fill): Fill {
+  return {
+    type: fill.type,
+    color: fill.color ? { ...fill.color } : undefined,
+    gradient: fill.gradient ? cloneGradient(fill.gradient) : undefined
+  };
+}
+
+function cloneGradient(gradient: Gradient): Gradient {
+  return {
+    ...gradient,
+    stops: gradient.stops.map(stop => ({ offset: stop.offset, color: { ...stop.color } })),
+    start: gradient.start ? { ...gradient.start } : undefined,
+    end: gradient.end ? { ...gradient.end } : undefined,
+    center: gradient.center ? { ...gradient.center } : undefined
+  };
+}
+
+function translateFill(fill: Fill, delta: Vector2): Fill {
+  const gradient = fill.gradient;
+  if (!gradient || (delta.x === 0 && delta.y === 0)) return fill;
+
+  const move = (point?: Vector2) => (point ? { x: point.x + delta.x, y: point.y + delta.y } : undefined);
+  return {
+    ...fill,
+    gradient: { ...gradient, start: move(gradient.start), end: move(gradient.end), center: move(gradient.center) }
+  };
+}
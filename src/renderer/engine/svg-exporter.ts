@@ -0,0 +1,405 @@
+// ============================================
+// RIV Editor - SVG 导出器
+// 将画板在指定动画时刻的状态导出为独立的静态SVG
+// ============================================
+
+import {
+  Shape,
+  Rectangle,
+  Ellipse,
+  Path,
+  Group,
+  BooleanGroup,
+  Text,
+  Image,
+  type Animation,
+  type Artboard,
+  type Color,
+  type Fill,
+  type Gradient,
+  type Stroke
+} from './riv-editor-engine';
+import { evaluateArtboardFrame } from './animation-frame';
+import { applyAffine, invertAffine, multiplyAffine, IDENTITY_MATRIX, type AffineTuple } from './matrix';
+import { serializeContours, trimContours } from './path-model';
+import { encodeBase64 } from './asset-manager';
+import { needsLayer, type ShadowEffect } from './effects';
+
+export interface SvgExportOptions {
+  animation?: Animation; // 为空时导出静态图形
+  time?: number; // 毫秒, 默认0
+  precision?: number; // 数值保留的小数位数, 默认3
+  idPrefix?: string; // 元素与渐变ID前缀, 多个SVG内联到同一页面时避免冲突
+}
+
+/**
+ * SVG无法表示、导出时被忽略的内容
+ */
+export interface SvgExportWarning {
+  path: string;
+  message: string;
+}
+
+// ========== SVG导出器 ==========
+
+export class SvgExporter {
+  warnings: SvgExportWarning[] = [];
+  private defs: string[] = [];
+  private gradientCount = 0;
+  private clipCount = 0;
+  private filterCount = 0;
+  private precision = 3;
+  private idPrefix = '';
+  private artboardSize = { width: 0, height: 0 };
+
+  /**
+   * 导出画板为SVG文本
+   */
+  exportArtboard(artboard: Artboard, options: SvgExportOptions = {}): string {
+    this.defs = [];
+    this.gradientCount = 0;
+    this.clipCount = 0;
+    this.filterCount = 0;
+    this.warnings = [];
+    this.precision = options.precision ?? 3;
+    this.idPrefix = options.idPrefix ?? '';
+    this.artboardSize = { width: artboard.width, height: artboard.height };
+
+    const shapes = evaluateArtboardFrame(artboard, options.animation ?? null, options.time ?? 0);
+    const body = shapes.map(shape => this.writeShape(shape, '  ')).filter(Boolean).join('\n');
+
+    const width = this.num(artboard.width);
+    const height = this.num(artboard.height);
+    const lines = [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    ];
+    if (this.defs.length > 0) {
+      lines.push('  <defs>', ...this.defs, '  </defs>');
+    }
+    if (body) lines.push(body);
+    lines.push('</svg>');
+
+    return lines.join('\n') + '\n';
+  }
+
+  private writeShape(shape: Shape, indent: string, parentMatrix: AffineTuple = IDENTITY_MATRIX): string {
+    if (!shape.visible) return '';
+    // 布尔组按当前结果拼合为路径
+    if (shape instanceof BooleanGroup) return this.writeShape(shape.toPath(), indent, parentMatrix);
+    // 文字按字形轮廓导出, 没有字体资源的文本无法导出
+    if (shape instanceof Text) {
+      const outlines = shape.toOutlines();
+      if (outlines) return this.writeShape(outlines, indent, parentMatrix);
+      this.warnings.push({ path: `shapes["${shape.id}"].assetId`, message: '文本没有可用的字体资源, 已跳过' });
+      return '';
+    }
+    if (!needsLayer(shape.blendMode, shape.effects)) return this.writeElement(shape, indent, parentMatrix);
+
+    // 混合模式与效果写在不带变换的外层<g>上, 效果参数即位于父级坐标系
+    const layer: string[] = [];
+    const filter = this.writeFilter(shape, parentMatrix);
+    if (filter) layer.push(`filter="url(#${filter})"`);
+    if (shape.blendMode !== 'normal') layer.push(`style="mix-blend-mode:${shape.blendMode}"`);
+    if (layer.length === 0) return this.writeElement(shape, indent, parentMatrix);
+    const element = this.writeElement(shape, indent + '  ', parentMatrix);
+    if (!element) return '';
+    return [`${indent}<g ${layer.join(' ')}>`, element, `${indent}</g>`].join('\n');
+  }
+
+  private writeElement(shape: Shape, indent: string, parentMatrix: AffineTuple): string {
+    const attributes: string[] = [`id="${escapeXml(this.idPrefix + shape.id)}"`];
+    const transform = this.transformAttribute(shape);
+    if (transform) attributes.push(`transform="${transform}"`);
+    if (shape.opacity < 1) attributes.push(`opacity="${this.num(Math.max(0, shape.opacity))}"`);
+    const matrix = multiplyAffine(parentMatrix, shape.getLocalMatrix());
+    const clip = this.writeClipPath(shape, matrix);
+    if (clip) attributes.push(`clip-path="url(#${clip})"`);
+
+    if (shape instanceof Image) return this.writeImage(shape, attributes, indent);
+
+    if (shape instanceof Group) {
+      const children = shape.children
+        .map(child => this.writeShape(child, indent + '  ', matrix))
+        .filter(Boolean);
+      if (children.length === 0) return `${indent}<g ${attributes.join(' ')}/>`;
+      return [`${indent}<g ${attributes.join(' ')}>`, ...children, `${indent}</g>`].join('\n');
+    }
+
+    let element: string;
+    const geometry: string[] = [];
+    if (shape instanceof Rectangle) {
+      element = 'rect';
+      geometry.push(
+        `x="${this.num(-shape.width * shape.transform.pivot.x)}"`,
+        `y="${this.num(-shape.height * shape.transform.pivot.y)}"`,
+        `width="${this.num(shape.width)}"`,
+        `height="${this.num(shape.height)}"`
+      );
+      if (shape.cornerRadius > 0) {
+        geometry.push(`rx="${this.num(Math.min(shape.cornerRadius, shape.width / 2, shape.height / 2))}"`);
+      }
+    } else if (shape instanceof Ellipse) {
+      element = 'ellipse';
+      const center = shape.getCenter();
+      geometry.push(
+        `cx="${this.num(center.x)}"`,
+        `cy="${this.num(center.y)}"`,
+        `rx="${this.num(shape.radiusX)}"`,
+        `ry="${this.num(shape.radiusY)}"`
+      );
+    } else if (shape instanceof Path) {
+      if (!shape.pathData) return '';
+      element = 'path';
+      geometry.push(`d="${escapeXml(shape.pathData)}"`);
+      if (shape.fillRule === 'evenodd') geometry.push('fill-rule="evenodd"');
+    } else {
+      return '';
+    }
+    geometry.push(...this.fillAttributes(shape.fill));
+
+    const stroke = shape.stroke ? this.strokeAttributes(shape.stroke) : [];
+    if (!shape.stroke?.trim || stroke.length === 0) {
+      return `${indent}<${element} ${[...attributes, ...geometry, ...stroke].join(' ')}/>`;
+    }
+    // SVG没有裁剪路径: 描边按裁剪后的轮廓单独写为<path>, 与填充图形放入同一个<g>
+    const trimmed = serializeContours(trimContours(shape.getContours(), shape.stroke.trim), this.precision);
+    const lines = [`${indent}<g ${attributes.join(' ')}>`, `${indent}  <${element} ${geometry.join(' ')}/>`];
+    if (trimmed) lines.push(`${indent}  <path d="${trimmed}" fill="none" ${stroke.join(' ')}/>`);
+    lines.push(`${indent}</g>`);
+    return lines.join('\n');
+  }
+
+  /**
+   * 图形的裁切区域写入<defs>, 返回clipPath的ID; 裁切坐标与元素自身的transform一致
+   * 反向裁切叠加覆盖画板的多边形, 按奇偶规则取区域之外的部分
+   */
+  private writeClipPath(shape: Shape, matrix: AffineTuple): string | null {
+    const region = shape.getClipRegion();
+    if (!region) return null;
+
+    let d = serializeContours(region.contours, this.precision);
+    let clipRule = region.fillRule;
+    const inverse = shape.clipInverse ? invertAffine(matrix) : null;
+    if (inverse) {
+      const { width, height } = this.artboardSize;
+      const corners = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }]
+        .map(corner => applyAffine(inverse, corner))
+        .map(corner => `${this.num(corner.x)} ${this.num(corner.y)}`);
+      d = `${d} M${corners.join(' L')} Z`.trim();
+      clipRule = 'evenodd';
+    }
+
+    const id = `${this.idPrefix}clip-${this.clipCount++}`;
+    const rule = clipRule === 'evenodd' ? ' clip-rule="evenodd"' : '';
+    this.defs.push(`    <clipPath id="${id}"><path d="${escapeXml(d)}"${rule}/></clipPath>`);
+    return id;
+  }
+
+  /**
+   * 图层效果写为<filter>, 返回filter的ID; 合成顺序与画布一致: 投影在下, 图形叠加内阴影后整体应用图层模糊
+   * 滤镜区域取画板范围, SVG无法表示背景模糊, 记入warnings
+   */
+  private writeFilter(shape: Shape, parentMatrix: AffineTuple): string | null {
+    const inverse = invertAffine(parentMatrix);
+    if (!inverse) return null;
+
+    const primitives: string[] = [];
+    const shadows: string[] = [];
+    let content = 'SourceGraphic';
+    let layerBlur = 0;
+    const shadow = (effect: ShadowEffect, operator: 'in' | 'out', result: string) => [
+      `<feFlood flood-color="${toHex(effect.color)}" flood-opacity="${this.num(Math.max(0, effect.color.a))}"/>`,
+      `<feComposite in2="SourceAlpha" operator="${operator}"/>`,
+      `<feOffset dx="${this.num(effect.offset.x)}" dy="${this.num(effect.offset.y)}"/>`,
+      `<feGaussianBlur stdDeviation="${this.num(Math.max(0, effect.blur))}" result="${result}"/>`
+    ];
+
+    shape.effects.forEach((effect, index) => {
+      if (!effect.visible) return;
+      if (effect.type === 'drop-shadow') {
+        const result = `shadow-${index}`;
+        primitives.push(...shadow(effect, 'in', result));
+        shadows.push(result);
+      } else if (effect.type === 'inner-shadow') {
+        // 图形之外的区域平移、模糊后, 只保留落在图形内的部分
+        primitives.push(...shadow(effect, 'out', `outside-${index}`));
+        primitives.push(`<feComposite in="outside-${index}" in2="${content}" operator="atop" result="inner-${index}"/>`);
+        content = `inner-${index}`;
+      } else if (effect.type === 'layer-blur') {
+        layerBlur += effect.blur ** 2;
+      } else {
+        this.warnings.push({ path: `shapes["${shape.id}"].effects[${index}]`, message: 'SVG不支持背景模糊, 已忽略' });
+      }
+    });
+    if (layerBlur > 0) {
+      primitives.push(`<feGaussianBlur in="${content}" stdDeviation="${this.num(Math.sqrt(layerBlur))}" result="blur"/>`);
+      content = 'blur';
+    }
+    if (primitives.length === 0) return null;
+
+    const { width, height } = this.artboardSize;
+    const corners = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }]
+      .map(corner => applyAffine(inverse, corner));
+    const minX = Math.min(...corners.map(corner => corner.x));
+    const minY = Math.min(...corners.map(corner => corner.y));
+    const maxX = Math.max(...corners.map(corner => corner.x));
+    const maxY = Math.max(...corners.map(corner => corner.y));
+
+    const id = `${this.idPrefix}filter-${this.filterCount++}`;
+    const merge = [...shadows, content].map(name => `<feMergeNode in="${name}"/>`).join('');
+    this.defs.push(
+      `    <filter id="${id}" filterUnits="userSpaceOnUse" x="${this.num(minX)}" y="${this.num(minY)}" ` +
+        `width="${this.num(maxX - minX)}" height="${this.num(maxY - minY)}" color-interpolation-filters="sRGB">`,
+      ...primitives.map(primitive => `      ${primitive}`),
+      `      <feMerge>${merge}</feMerge>`,
+      '    </filter>'
+    );
+    return id;
+  }
+
+  /**
+   * 图片数据内嵌为data URI, 超出图片框的部分(cover/none)用clipPath裁掉; 有描边时与描边框一起放入<g>
+   */
+  private writeImage(shape: Image, attributes: string[], indent: string): string {
+    if (!shape.image) return '';
+
+    const rect = shape.getImageRect();
+    const frame = shape.getFrame();
+    const imageAttributes = [
+      `x="${this.num(rect.x)}"`,
+      `y="${this.num(rect.y)}"`,
+      `width="${this.num(rect.width)}"`,
+      `height="${this.num(rect.height)}"`,
+      'preserveAspectRatio="none"',
+      `href="data:${shape.image.mimeType};base64,${encodeBase64(new Uint8Array(shape.image.data))}"`
+    ];
+    if (shape.overflowsFrame()) {
+      const id = `${this.idPrefix}clip-${this.clipCount++}`;
+      this.defs.push(
+        `    <clipPath id="${id}"><rect x="${this.num(frame.x)}" y="${this.num(frame.y)}" width="${this.num(frame.width)}" height="${this.num(frame.height)}"/></clipPath>`
+      );
+      imageAttributes.push(`clip-path="url(#${id})"`);
+    }
+
+    const strokeAttributes = shape.stroke ? this.strokeAttributes(shape.stroke) : [];
+    // 图片自身的裁切不能与图形裁切写在同一个元素上, 此时与描边框一样放入<g>
+    if (strokeAttributes.length === 0 && !(shape.overflowsFrame() && shape.clipSources.length > 0)) {
+      return `${indent}<image ${[...attributes, ...imageAttributes].join(' ')}/>`;
+    }
+    const lines = [`${indent}<g ${attributes.join(' ')}>`, `${indent}  <image ${imageAttributes.join(' ')}/>`];
+    if (strokeAttributes.length > 0) {
+      const outline = [
+        `x="${this.num(frame.x)}"`,
+        `y="${this.num(frame.y)}"`,
+        `width="${this.num(frame.width)}"`,
+        `height="${this.num(frame.height)}"`,
+        'fill="none"',
+        ...strokeAttributes
+      ];
+      lines.push(`${indent}  <rect ${outline.join(' ')}/>`);
+    }
+    lines.push(`${indent}</g>`);
+    return lines.join('\n');
+  }
+
+  /**
+   * 与画布绘制顺序一致: 平移 → 旋转 → 缩放, 含斜切时直接写出局部矩阵
+   */
+  private transformAttribute(shape: Shape): string {
+    const { position, rotation, scale, skew } = shape.transform;
+    if (skew.x !== 0 || skew.y !== 0) {
+      return `matrix(${shape.getLocalMatrix().map(n => this.num(n)).join(' ')})`;
+    }
+
+    const parts: string[] = [];
+    if (position.x !== 0 || position.y !== 0) {
+      parts.push(`translate(${this.num(position.x)} ${this.num(position.y)})`);
+    }
+    if (rotation !== 0) {
+      parts.push(`rotate(${this.num((rotation * 180) / Math.PI)})`);
+    }
+    if (scale.x !== 1 || scale.y !== 1) {
+      parts.push(`scale(${this.num(scale.x)} ${this.num(scale.y)})`);
+    }
+    return parts.join(' ');
+  }
+
+  private fillAttributes(fill: Fill): string[] {
+    if (fill.type === 'solid' && fill.color) {
+      return this.paintAttributes('fill', fill.color);
+    }
+    if (fill.type === 'gradient' && fill.gradient) {
+      const id = this.writeGradient(fill.gradient);
+      if (id) return [`fill="url(#${id})"`];
+    }
+    return ['fill="none"'];
+  }
+
+  private strokeAttributes(stroke: Stroke): string[] {
+    if (stroke.width <= 0) return [];
+
+    const attributes = this.paintAttributes('stroke', stroke.color);
+    attributes.push(`stroke-width="${this.num(stroke.width)}"`);
+    if (stroke.cap !== 'butt') attributes.push(`stroke-linecap="${stroke.cap}"`);
+    if (stroke.join !== 'miter') attributes.push(`stroke-linejoin="${stroke.join}"`);
+    if (stroke.dashArray && stroke.dashArray.length > 0 && stroke.dashArray.some(n => n > 0)) {
+      attributes.push(`stroke-dasharray="${stroke.dashArray.map(n => this.num(Math.max(0, n))).join(' ')}"`);
+      if (stroke.dashOffset) attributes.push(`stroke-dashoffset="${this.num(stroke.dashOffset)}"`);
+    }
+    return attributes;
+  }
+
+  private paintAttributes(name: 'fill' | 'stroke', color: Color): string[] {
+    const attributes = [`${name}="${toHex(color)}"`];
+    if (color.a < 1) attributes.push(`${name}-opacity="${this.num(Math.max(0, color.a))}"`);
+    return attributes;
+  }
+
+  /**
+   * 渐变坐标位于图形局部坐标系, 用userSpaceOnUse配合元素自身的transform
+   */
+  private writeGradient(gradient: Gradient): string | null {
+    const id = `${this.idPrefix}gradient-${this.gradientCount++}`;
+    const stops = gradient.stops.map(stop => {
+      const opacity = stop.color.a < 1 ? ` stop-opacity="${this.num(Math.max(0, stop.color.a))}"` : '';
+      return `      <stop offset="${this.num(stop.offset)}" stop-color="${toHex(stop.color)}"${opacity}/>`;
+    });
+
+    let open: string;
+    if (gradient.type === 'linear' && gradient.start && gradient.end) {
+      open = `<linearGradient id="${escapeXml(id)}" gradientUnits="userSpaceOnUse" ` +
+        `x1="${this.num(gradient.start.x)}" y1="${this.num(gradient.start.y)}" ` +
+        `x2="${this.num(gradient.end.x)}" y2="${this.num(gradient.end.y)}">`;
+    } else if (gradient.type === 'radial' && gradient.center && gradient.radius) {
+      open = `<radialGradient id="${escapeXml(id)}" gradientUnits="userSpaceOnUse" ` +
+        `cx="${this.num(gradient.center.x)}" cy="${this.num(gradient.center.y)}" r="${this.num(gradient.radius)}">`;
+    } else {
+      return null;
+    }
+
+    const tag = gradient.type === 'linear' ? 'linearGradient' : 'radialGradient';
+    this.defs.push(`    ${open}`, ...stops, `    </${tag}>`);
+    return escapeXml(id);
+  }
+
+  private num(value: number): string {
+    const factor = Math.pow(10, this.precision);
+    const rounded = Math.round(value * factor) / factor;
+    return String(Object.is(rounded, -0) ? 0 : rounded);
+  }
+}
+
+// ========== 内部工具 ==========
+
+function toHex(color: Color): string {
+  const channel = (n: number) => Math.round(Math.max(0, Math.min(255, n))).toString(16).padStart(2, '0');
+  return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,920 @@
+// ============================================
+// RIV Editor - SVG 导入器
+// 将SVG文档转换为引擎的 Path/Rectangle/Ellipse/Group 图形
+// ============================================
+
+import {
+  Shape,
+  Rectangle,
+  Ellipse,
+  Path,
+  Group,
+  type Color,
+  type Fill,
+  type Gradient,
+  type Stroke,
+  type Transform,
+  type Vector2
+} from './riv-editor-engine';
+import {
+  parsePathData,
+  transformPathCommands,
+  serializePathData,
+  PathDataError,
+  type PathCommand
+} from './path-data';
+import {
+  IDENTITY_MATRIX,
+  applyAffine,
+  decomposeMatrix,
+  matrixScale,
+  multiplyAffine,
+  translationMatrix,
+  type AffineTuple
+} from './matrix';
+import { contoursBounds, contoursFromCommands } from './path-model';
+
+// ========== 导入结果 ==========
+
+export interface SvgImportOptions {
+  name?: string; // 根组名称, 默认取<svg>的id
+  idPrefix?: string; // 生成的图形ID前缀
+}
+
+export interface SvgImportResult {
+  root: Group;
+  width: number;
+  height: number;
+  warnings: string[]; // 被忽略或近似处理的特性
+}
+
+export class SvgImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SvgImportError';
+  }
+}
+
+// ========== 内部结构 ==========
+
+/**
+ * 可继承的表现属性
+ */
+interface SvgStyle {
+  fill: string;
+  fillOpacity: number;
+  fillRule: string;
+  stroke: string;
+  strokeOpacity: number;
+  strokeWidth: string;
+  strokeLinecap: Stroke['cap'];
+  strokeLinejoin: Stroke['join'];
+  strokeDasharray: string;
+  color: string;
+  visibility: string;
+}
+
+type Geometry =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; rx: number; ry: number }
+  | { kind: 'ellipse'; cx: number; cy: number; rx: number; ry: number }
+  | { kind: 'path'; commands: PathCommand[] };
+
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface BuiltShape {
+  shape: Shape;
+  toLocal: AffineTuple; // 元素用户坐标 → 图形局部坐标
+  strokeScale: number; // 变换烘焙进几何时描边宽度的缩放
+}
+
+const DEFAULT_STYLE: SvgStyle = {
+  fill: 'black',
+  fillOpacity: 1,
+  fillRule: 'nonzero',
+  stroke: 'none',
+  strokeOpacity: 1,
+  strokeWidth: '1',
+  strokeLinecap: 'butt',
+  strokeLinejoin: 'miter',
+  strokeDasharray: 'none',
+  color: 'black',
+  visibility: 'visible'
+};
+
+// 圆弧的三次贝塞尔近似系数
+const KAPPA = 0.5522847498;
+
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  red: [255, 0, 0],
+  green: [0, 128, 0],
+  lime: [0, 255, 0],
+  blue: [0, 0, 255],
+  yellow: [255, 255, 0],
+  cyan: [0, 255, 255],
+  aqua: [0, 255, 255],
+  magenta: [255, 0, 255],
+  fuchsia: [255, 0, 255],
+  gray: [128, 128, 128],
+  grey: [128, 128, 128],
+  silver: [192, 192, 192],
+  maroon: [128, 0, 0],
+  olive: [128, 128, 0],
+  navy: [0, 0, 128],
+  purple: [128, 0, 128],
+  teal: [0, 128, 128],
+  orange: [255, 165, 0],
+  pink: [255, 192, 203],
+  brown: [165, 42, 42],
+  gold: [255, 215, 0]
+};
+
+const DEFAULT_NAMES: Record<string, string> = {
+  rect: '矩形',
+  circle: '圆形',
+  ellipse: '椭圆',
+  path: '路径',
+  polygon: '多边形',
+  polyline: '折线',
+  line: '直线',
+  g: '组',
+  svg: '组',
+  a: '组',
+  use: '引用'
+};
+
+// 只用于引用或没有可见内容的元素
+const NON_RENDERED = new Set([
+  'defs', 'linearGradient', 'radialGradient', 'clipPath', 'mask', 'pattern', 'marker',
+  'symbol', 'title', 'desc', 'metadata', 'filter', 'script'
+]);
+
+const UNSUPPORTED = new Set(['text', 'image', 'foreignObject', 'switch']);
+
+// ========== 矩阵工具 ==========
+
+/**
+ * 矩阵分解为引擎变换, 不可逆(缩放为0)的矩阵返回null
+ */
+function decompose(m: AffineTuple, pivot: Vector2 = { x: 0, y: 0 }): Transform | null {
+  const components = decomposeMatrix(m);
+  return components && { ...components, pivot };
+}
+
+/**
+ * 解析transform属性, 多个变换按书写顺序依次右乘
+ */
+function parseTransform(value: string | null): AffineTuple {
+  let result = IDENTITY_MATRIX;
+  if (!value) return result;
+
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value))) {
+    const args = match[2].trim().split(/[\s,]+/).filter(Boolean).map(parseFloat);
+    const rad = ((args[0] || 0) * Math.PI) / 180;
+    let m: AffineTuple;
+
+    switch (match[1]) {
+      case 'matrix':
+        m = [args[0], args[1], args[2], args[3], args[4], args[5]];
+        break;
+      case 'translate':
+        m = translationMatrix(args[0] || 0, args[1] || 0);
+        break;
+      case 'scale':
+        m = [args[0], 0, 0, args[1] ?? args[0], 0, 0];
+        break;
+      case 'rotate': {
+        const cx = args[1] || 0;
+        const cy = args[2] || 0;
+        const rotation: AffineTuple = [Math.cos(rad), Math.sin(rad), -Math.sin(rad), Math.cos(rad), 0, 0];
+        m = multiplyAffine(multiplyAffine(translationMatrix(cx, cy), rotation), translationMatrix(-cx, -cy));
+        break;
+      }
+      case 'skewX':
+        m = [1, 0, Math.tan(rad), 1, 0, 0];
+        break;
+      default:
+        m = [1, Math.tan(rad), 0, 1, 0, 0];
+        break;
+    }
+
+    if (m.some(n => !Number.isFinite(n))) continue;
+    result = multiplyAffine(result, m);
+  }
+
+  return result;
+}
+
+// ========== 几何工具 ==========
+
+function geometryToCommands(geometry: Geometry): PathCommand[] {
+  switch (geometry.kind) {
+    case 'path':
+      return geometry.commands;
+
+    case 'ellipse': {
+      const { cx, cy, rx, ry } = geometry;
+      const ox = rx * KAPPA;
+      const oy = ry * KAPPA;
+      return [
+        { type: 'M', x: cx + rx, y: cy },
+        { type: 'C', x1: cx + rx, y1: cy + oy, x2: cx + ox, y2: cy + ry, x: cx, y: cy + ry },
+        { type: 'C', x1: cx - ox, y1: cy + ry, x2: cx - rx, y2: cy + oy, x: cx - rx, y: cy },
+        { type: 'C', x1: cx - rx, y1: cy - oy, x2: cx - ox, y2: cy - ry, x: cx, y: cy - ry },
+        { type: 'C', x1: cx + ox, y1: cy - ry, x2: cx + rx, y2: cy - oy, x: cx + rx, y: cy },
+        { type: 'Z' }
+      ];
+    }
+
+    case 'rect': {
+      const { x, y, width: w, height: h, rx, ry } = geometry;
+      if (rx === 0 || ry === 0) {
+        return [
+          { type: 'M', x, y },
+          { type: 'L', x: x + w, y },
+          { type: 'L', x: x + w, y: y + h },
+          { type: 'L', x, y: y + h },
+          { type: 'Z' }
+        ];
+      }
+      const ox = rx * (1 - KAPPA);
+      const oy = ry * (1 - KAPPA);
+      return [
+        { type: 'M', x: x + rx, y },
+        { type: 'L', x: x + w - rx, y },
+        { type: 'C', x1: x + w - ox, y1: y, x2: x + w, y2: y + oy, x: x + w, y: y + ry },
+        { type: 'L', x: x + w, y: y + h - ry },
+        { type: 'C', x1: x + w, y1: y + h - oy, x2: x + w - ox, y2: y + h, x: x + w - rx, y: y + h },
+        { type: 'L', x: x + rx, y: y + h },
+        { type: 'C', x1: x + ox, y1: y + h, x2: x, y2: y + h - oy, x, y: y + h - ry },
+        { type: 'L', x, y: y + ry },
+        { type: 'C', x1: x, y1: y + oy, x2: x + ox, y2: y, x: x + rx, y },
+        { type: 'Z' }
+      ];
+    }
+  }
+}
+
+/**
+ * 用户坐标系中的紧包围盒, 用于objectBoundingBox渐变
+ */
+function geometryBounds(geometry: Geometry): Bounds {
+  switch (geometry.kind) {
+    case 'rect':
+      return { x: geometry.x, y: geometry.y, width: geometry.width, height: geometry.height };
+    case 'ellipse':
+      return {
+        x: geometry.cx - geometry.rx,
+        y: geometry.cy - geometry.ry,
+        width: geometry.rx * 2,
+        height: geometry.ry * 2
+      };
+    case 'path':
+      return contoursBounds(contoursFromCommands(geometry.commands)) ?? { x: 0, y: 0, width: 0, height: 0 };
+  }
+}
+
+// ========== SVG导入器 ==========
+
+export class SvgImporter {
+  private elementsById = new Map<string, Element>();
+  private warnings = new Set<string>();
+  private activeUses = new Set<Element>();
+  private viewport = { width: 0, height: 0 };
+  private idPrefix = 'svg';
+  private idCounter = 0;
+
+  /**
+   * 解析SVG文本, 返回包含全部图形的根组
+   */
+  importFromString(text: string, options: SvgImportOptions = {}): SvgImportResult {
+    const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+    const parserError = doc.getElementsByTagName('parsererror')[0];
+    if (parserError) {
+      throw new SvgImportError(`SVG解析失败: ${parserError.textContent?.trim() ?? ''}`);
+    }
+
+    const svg = doc.documentElement;
+    if (svg.localName !== 'svg') {
+      throw new SvgImportError(`根元素应为<svg>, 实际为<${svg.localName}>`);
+    }
+
+    this.elementsById.clear();
+    this.warnings.clear();
+    this.activeUses.clear();
+    this.idPrefix = options.idPrefix ?? `svg_${Date.now().toString(36)}`;
+    this.idCounter = 0;
+    doc.querySelectorAll('[id]').forEach(element => {
+      this.elementsById.set(element.getAttribute('id')!, element);
+    });
+
+    // 视口尺寸: 优先width/height, 其次viewBox
+    const viewBox = this.parseViewBox(svg.getAttribute('viewBox'));
+    const width = this.parseAbsoluteLength(svg.getAttribute('width')) ?? viewBox?.width ?? 300;
+    const height = this.parseAbsoluteLength(svg.getAttribute('height')) ?? viewBox?.height ?? 150;
+    this.viewport = viewBox ? { width: viewBox.width, height: viewBox.height } : { width, height };
+
+    const root = new Group(this.nextId(), options.name || svg.getAttribute('id') || 'SVG');
+    const rootMatrix = viewBox
+      ? this.viewBoxMatrix(viewBox, width, height, svg.getAttribute('preserveAspectRatio'))
+      : IDENTITY_MATRIX;
+    const childMatrix = this.applyGroupTransform(root, rootMatrix);
+    root.opacity = this.readOpacity(svg);
+
+    const style = this.readStyle(svg, DEFAULT_STYLE);
+    this.warnUnsupportedAttributes(svg);
+    Array.from(svg.children).forEach(child => this.importElement(child, childMatrix, style, root));
+
+    return { root, width, height, warnings: Array.from(this.warnings) };
+  }
+
+  private importElement(element: Element, matrix: AffineTuple, style: SvgStyle, parent: Group): void {
+    const tag = element.localName;
+    if (this.readDeclarations(element).get('display') === 'none') return;
+
+    if (NON_RENDERED.has(tag)) return;
+    if (tag === 'style') {
+      this.warn('不支持<style>样式表, 仅识别表现属性与style属性');
+      return;
+    }
+    if (UNSUPPORTED.has(tag)) {
+      this.warn(`不支持<${tag}>元素, 已跳过`);
+      return;
+    }
+
+    switch (tag) {
+      case 'g':
+      case 'a':
+        this.importGroup(element, matrix, parseTransform(element.getAttribute('transform')), style, parent);
+        break;
+
+      case 'svg': {
+        // 嵌套<svg>按组处理, x/y为偏移
+        const own = multiplyAffine(
+          translationMatrix(this.readLength(element, 'x', 'width'), this.readLength(element, 'y', 'height')),
+          parseTransform(element.getAttribute('transform'))
+        );
+        this.importGroup(element, matrix, own, style, parent);
+        break;
+      }
+
+      case 'use':
+        this.importUse(element, matrix, style, parent);
+        break;
+
+      case 'rect':
+      case 'circle':
+      case 'ellipse':
+      case 'path':
+      case 'polygon':
+      case 'polyline':
+      case 'line':
+        this.importLeaf(element, matrix, style, parent);
+        break;
+
+      default:
+        this.warn(`未知元素<${tag}>, 已跳过`);
+    }
+  }
+
+  private importGroup(
+    element: Element,
+    matrix: AffineTuple,
+    own: AffineTuple,
+    style: SvgStyle,
+    parent: Group,
+    contents: Element = element
+  ): Group {
+    const group = new Group(this.nextId(), this.nameOf(element));
+    const childMatrix = this.applyGroupTransform(group, multiplyAffine(matrix, own));
+    group.opacity = this.readOpacity(element);
+    this.warnUnsupportedAttributes(element);
+
+    const groupStyle = this.readStyle(element, style);
+    Array.from(contents.children).forEach(child => this.importElement(child, childMatrix, groupStyle, group));
+    parent.addChild(group);
+    return group;
+  }
+
+  /**
+   * <use>展开为组, 被引用元素作为其子节点
+   */
+  private importUse(element: Element, matrix: AffineTuple, style: SvgStyle, parent: Group): void {
+    const href = element.getAttribute('href') ?? element.getAttributeNS('http://www.w3.org/1999/xlink', 'href');
+    const target = href?.startsWith('#') ? this.elementsById.get(href.slice(1)) : undefined;
+    if (!target) {
+      this.warn(`<use>引用的元素 ${href ?? ''} 不存在`);
+      return;
+    }
+    if (this.activeUses.has(target)) {
+      this.warn(`<use>存在循环引用 ${href}`);
+      return;
+    }
+
+    const own = multiplyAffine(
+      parseTransform(element.getAttribute('transform')),
+      translationMatrix(this.readLength(element, 'x', 'width'), this.readLength(element, 'y', 'height'))
+    );
+
+    this.activeUses.add(target);
+    if (target.localName === 'symbol') {
+      this.importGroup(element, matrix, own, style, parent, target);
+    } else {
+      const group = new Group(this.nextId(), this.nameOf(element));
+      const childMatrix = this.applyGroupTransform(group, multiplyAffine(matrix, own));
+      group.opacity = this.readOpacity(element);
+      this.importElement(target, childMatrix, this.readStyle(element, style), group);
+      parent.addChild(group);
+    }
+    this.activeUses.delete(target);
+  }
+
+  private importLeaf(element: Element, matrix: AffineTuple, style: SvgStyle, parent: Group): void {
+    const geometry = this.readGeometry(element);
+    if (!geometry) return;
+
+    const leafStyle = this.readStyle(element, style);
+    const m = multiplyAffine(matrix, parseTransform(element.getAttribute('transform')));
+    const { shape, toLocal, strokeScale } = this.buildShape(geometry, m, this.nameOf(element));
+    const bounds = geometryBounds(geometry);
+
+    shape.fill = this.resolveFill(leafStyle, bounds, toLocal);
+    shape.stroke = this.resolveStroke(leafStyle, strokeScale);
+    shape.opacity = this.readOpacity(element);
+    shape.visible = leafStyle.visibility !== 'hidden' && leafStyle.visibility !== 'collapse';
+    this.warnUnsupportedAttributes(element);
+    if (leafStyle.fillRule === 'evenodd' && shape instanceof Path) {
+      shape.fillRule = 'evenodd';
+    }
+
+    parent.addChild(shape);
+  }
+
+  /**
+   * 保留可编辑的图元与变换(含斜切), 矩阵不可逆时把变换烘焙进路径
+   */
+  private buildShape(geometry: Geometry, m: AffineTuple, name: string): BuiltShape {
+    if (geometry.kind === 'rect' && geometry.rx === geometry.ry) {
+      const transform = decompose(multiplyAffine(m, translationMatrix(geometry.x, geometry.y)));
+      if (transform) {
+        const rect = new Rectangle(this.nextId(), name, geometry.width, geometry.height);
+        rect.cornerRadius = geometry.rx;
+        rect.transform = transform;
+        return { shape: rect, toLocal: translationMatrix(-geometry.x, -geometry.y), strokeScale: 1 };
+      }
+    }
+
+    if (geometry.kind === 'ellipse') {
+      const transform = decompose(multiplyAffine(m, translationMatrix(geometry.cx, geometry.cy)), { x: 0.5, y: 0.5 });
+      if (transform) {
+        const ellipse = new Ellipse(this.nextId(), name, geometry.rx, geometry.ry);
+        ellipse.transform = transform;
+        return { shape: ellipse, toLocal: translationMatrix(-geometry.cx, -geometry.cy), strokeScale: 1 };
+      }
+    }
+
+    const commands = geometryToCommands(geometry);
+    const transform = decompose(m);
+    if (transform) {
+      const path = new Path(this.nextId(), name, serializePathData(commands));
+      path.transform = transform;
+      return { shape: path, toLocal: IDENTITY_MATRIX, strokeScale: 1 };
+    }
+
+    const path = new Path(this.nextId(), name, serializePathData(transformPathCommands(commands, m)));
+    return { shape: path, toLocal: m, strokeScale: matrixScale(m) };
+  }
+
+  private readGeometry(element: Element): Geometry | null {
+    switch (element.localName) {
+      case 'rect': {
+        const width = this.readLength(element, 'width', 'width');
+        const height = this.readLength(element, 'height', 'height');
+        if (width <= 0 || height <= 0) return null;
+        const rxAttr = element.getAttribute('rx');
+        const ryAttr = element.getAttribute('ry');
+        let rx = rxAttr !== null && rxAttr !== 'auto' ? this.readLength(element, 'rx', 'width') : -1;
+        let ry = ryAttr !== null && ryAttr !== 'auto' ? this.readLength(element, 'ry', 'height') : -1;
+        if (rx < 0) rx = Math.max(ry, 0);
+        if (ry < 0) ry = rx;
+        return {
+          kind: 'rect',
+          x: this.readLength(element, 'x', 'width'),
+          y: this.readLength(element, 'y', 'height'),
+          width,
+          height,
+          rx: Math.min(rx, width / 2),
+          ry: Math.min(ry, height / 2)
+        };
+      }
+
+      case 'circle': {
+        const r = this.readLength(element, 'r', 'diagonal');
+        if (r <= 0) return null;
+        return {
+          kind: 'ellipse',
+          cx: this.readLength(element, 'cx', 'width'),
+          cy: this.readLength(element, 'cy', 'height'),
+          rx: r,
+          ry: r
+        };
+      }
+
+      case 'ellipse': {
+        const rxAttr = element.getAttribute('rx');
+        const ryAttr = element.getAttribute('ry');
+        let rx = rxAttr !== null && rxAttr !== 'auto' ? this.readLength(element, 'rx', 'width') : -1;
+        let ry = ryAttr !== null && ryAttr !== 'auto' ? this.readLength(element, 'ry', 'height') : -1;
+        if (rx < 0) rx = ry;
+        if (ry < 0) ry = rx;
+        if (rx <= 0 || ry <= 0) return null;
+        return {
+          kind: 'ellipse',
+          cx: this.readLength(element, 'cx', 'width'),
+          cy: this.readLength(element, 'cy', 'height'),
+          rx,
+          ry
+        };
+      }
+
+      case 'path': {
+        try {
+          const commands = parsePathData(element.getAttribute('d') ?? '');
+          return commands.length > 0 ? { kind: 'path', commands } : null;
+        } catch (error) {
+          if (!(error instanceof PathDataError)) throw error;
+          this.warn(`路径数据无效, 已跳过: ${error.message}`);
+          return null;
+        }
+      }
+
+      case 'polygon':
+      case 'polyline': {
+        const numbers = (element.getAttribute('points') ?? '')
+          .trim()
+          .split(/[\s,]+/)
+          .filter(Boolean)
+          .map(parseFloat);
+        if (numbers.length < 4 || numbers.some(n => !Number.isFinite(n))) return null;
+
+        const commands: PathCommand[] = [];
+        for (let i = 0; i + 1 < numbers.length; i += 2) {
+          commands.push({ type: i === 0 ? 'M' : 'L', x: numbers[i], y: numbers[i + 1] });
+        }
+        if (element.localName === 'polygon') commands.push({ type: 'Z' });
+        return { kind: 'path', commands };
+      }
+
+      case 'line':
+        return {
+          kind: 'path',
+          commands: [
+            { type: 'M', x: this.readLength(element, 'x1', 'width'), y: this.readLength(element, 'y1', 'height') },
+            { type: 'L', x: this.readLength(element, 'x2', 'width'), y: this.readLength(element, 'y2', 'height') }
+          ]
+        };
+
+      default:
+        return null;
+    }
+  }
+
+  // ========== 样式 ==========
+
+  /**
+   * 表现属性与style属性合并, style属性优先
+   */
+  private readDeclarations(element: Element): Map<string, string> {
+    const declarations = new Map<string, string>();
+    Array.from(element.attributes).forEach(attribute => {
+      declarations.set(attribute.localName, attribute.value.trim());
+    });
+
+    (element.getAttribute('style') ?? '').split(';').forEach(declaration => {
+      const colon = declaration.indexOf(':');
+      if (colon < 0) return;
+      const name = declaration.slice(0, colon).trim();
+      const value = declaration.slice(colon + 1).replace(/!important/, '').trim();
+      if (name) declarations.set(name, value);
+    });
+
+    return declarations;
+  }
+
+  private readStyle(element: Element, inherited: SvgStyle): SvgStyle {
+    const declarations = this.readDeclarations(element);
+    const get = (name: string) => {
+      const value = declarations.get(name);
+      return value === undefined || value === 'inherit' ? undefined : value;
+    };
+    const number = (name: string, fallback: number) => {
+      const value = get(name);
+      if (value === undefined) return fallback;
+      const parsed = value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+      return Number.isFinite(parsed) ? Math.max(0, Math.min(1, parsed)) : fallback;
+    };
+
+    const linecap = get('stroke-linecap');
+    const linejoin = get('stroke-linejoin');
+
+    return {
+      fill: get('fill') ?? inherited.fill,
+      fillOpacity: number('fill-opacity', inherited.fillOpacity),
+      fillRule: get('fill-rule') ?? inherited.fillRule,
+      stroke: get('stroke') ?? inherited.stroke,
+      strokeOpacity: number('stroke-opacity', inherited.strokeOpacity),
+      strokeWidth: get('stroke-width') ?? inherited.strokeWidth,
+      strokeLinecap: linecap === 'butt' || linecap === 'round' || linecap === 'square' ? linecap : inherited.strokeLinecap,
+      strokeLinejoin: linejoin === 'miter' || linejoin === 'round' || linejoin === 'bevel' ? linejoin : inherited.strokeLinejoin,
+      strokeDasharray: get('stroke-dasharray') ?? inherited.strokeDasharray,
+      color: get('color') ?? inherited.color,
+      visibility: get('visibility') ?? inherited.visibility
+    };
+  }
+
+  private readOpacity(element: Element): number {
+    const value = this.readDeclarations(element).get('opacity');
+    if (value === undefined) return 1;
+    const parsed = value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+    return Number.isFinite(parsed) ? Math.max(0, Math.min(1, parsed)) : 1;
+  }
+
+  private resolveFill(style: SvgStyle, bounds: Bounds, toLocal: AffineTuple): Fill {
+    const reference = /^url\(\s*['"]?#([^'")]+)['"]?\s*\)\s*(.*)$/.exec(style.fill);
+    if (reference) {
+      const gradient = this.resolveGradient(reference[1], bounds, toLocal, style.fillOpacity);
+      if (gradient) return { type: 'gradient', gradient };
+      // 引用失效时使用后备颜色
+      const fallback = reference[2] ? this.parseColor(reference[2], style.color) : null;
+      return fallback ? { type: 'solid', color: { ...fallback, a: fallback.a * style.fillOpacity } } : { type: 'none' };
+    }
+
+    const color = this.parseColor(style.fill, style.color);
+    if (!color) return { type: 'none' };
+    return { type: 'solid', color: { ...color, a: color.a * style.fillOpacity } };
+  }
+
+  private resolveStroke(style: SvgStyle, scale: number): Stroke | null {
+    const width = this.parseLength(style.strokeWidth, 'diagonal') * scale;
+    if (width <= 0) return null;
+
+    let color: Color | null;
+    const reference = /^url\(\s*['"]?#([^'")]+)['"]?\s*\)/.exec(style.stroke);
+    if (reference) {
+      // 引擎描边只支持纯色, 取渐变第一个色标
+      const gradient = this.resolveGradient(reference[1], { x: 0, y: 0, width: 1, height: 1 }, IDENTITY_MATRIX, 1);
+      color = gradient?.stops[0]?.color ?? null;
+      this.warn('描边不支持渐变, 已使用第一个色标的颜色');
+    } else {
+      color = this.parseColor(style.stroke, style.color);
+    }
+    if (!color) return null;
+
+    const stroke: Stroke = {
+      color: { ...color, a: color.a * style.strokeOpacity },
+      width,
+      cap: style.strokeLinecap,
+      join: style.strokeLinejoin
+    };
+
+    if (style.strokeDasharray !== 'none') {
+      const dashes = style.strokeDasharray
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .map(value => this.parseLength(value, 'diagonal') * scale);
+      // 负值或全零时按实线处理, 奇数个值按规范重复一次
+      if (dashes.length > 0 && dashes.every(n => n >= 0) && dashes.some(n => n > 0)) {
+        stroke.dashArray = dashes.length % 2 === 1 ? [...dashes, ...dashes] : dashes;
+      }
+    }
+
+    return stroke;
+  }
+
+  /**
+   * 解析渐变引用, 坐标换算到图形局部坐标系
+   */
+  private resolveGradient(id: string, bounds: Bounds, toLocal: AffineTuple, opacity: number): Gradient | null {
+    const element = this.elementsById.get(id);
+    if (!element || (element.localName !== 'linearGradient' && element.localName !== 'radialGradient')) {
+      this.warn(`引用的渐变 #${id} 不存在或不受支持`);
+      return null;
+    }
+
+    // 沿href链继承属性与色标
+    const chain: Element[] = [];
+    for (let current: Element | undefined = element; current && !chain.includes(current);) {
+      chain.push(current);
+      const href: string | null = current.getAttribute('href') ?? current.getAttributeNS('http://www.w3.org/1999/xlink', 'href');
+      current = href?.startsWith('#') ? this.elementsById.get(href.slice(1)) : undefined;
+    }
+    const attr = (name: string) => {
+      for (const link of chain) {
+        const value = link.getAttribute(name);
+        if (value !== null) return value;
+      }
+      return null;
+    };
+    const stopSource = chain.find(link => link.getElementsByTagName('stop').length > 0);
+    if (!stopSource) return null;
+
+    const spread = attr('spreadMethod');
+    if (spread && spread !== 'pad') {
+      this.warn(`不支持spreadMethod="${spread}", 已按pad处理`);
+    }
+
+    const userSpace = attr('gradientUnits') === 'userSpaceOnUse';
+    const unitMatrix: AffineTuple = userSpace
+      ? IDENTITY_MATRIX
+      : [bounds.width, 0, 0, bounds.height, bounds.x, bounds.y];
+    const m = multiplyAffine(toLocal, multiplyAffine(unitMatrix, parseTransform(attr('gradientTransform'))));
+    const coordinate = (name: string, fallback: string, axis: 'width' | 'height' | 'diagonal') => {
+      const value = attr(name) ?? fallback;
+      if (!userSpace) {
+        return value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+      }
+      return this.parseLength(value, axis);
+    };
+
+    const stops: Gradient['stops'] = [];
+    Array.from(stopSource.getElementsByTagName('stop')).forEach(stop => {
+      const declarations = this.readDeclarations(stop);
+      const offsetValue = declarations.get('offset') ?? '0';
+      const offset = offsetValue.endsWith('%') ? parseFloat(offsetValue) / 100 : parseFloat(offsetValue);
+      const color = this.parseColor(declarations.get('stop-color') ?? 'black', declarations.get('color') ?? 'black')
+        ?? { r: 0, g: 0, b: 0, a: 0 };
+      const stopOpacity = parseFloat(declarations.get('stop-opacity') ?? '1');
+      const previous = stops.length > 0 ? stops[stops.length - 1].offset : 0;
+      stops.push({
+        // 色标偏移必须单调不减
+        offset: Math.max(previous, Math.min(1, Number.isFinite(offset) ? offset : 0)),
+        color: { ...color, a: color.a * (Number.isFinite(stopOpacity) ? stopOpacity : 1) * opacity }
+      });
+    });
+
+    if (element.localName === 'linearGradient') {
+      return {
+        type: 'linear',
+        stops,
+        start: applyAffine(m, { x: coordinate('x1', '0%', 'width'), y: coordinate('y1', '0%', 'height') }),
+        end: applyAffine(m, { x: coordinate('x2', '100%', 'width'), y: coordinate('y2', '0%', 'height') })
+      };
+    }
+
+    if (attr('fx') !== null || attr('fy') !== null) {
+      this.warn('径向渐变不支持焦点(fx/fy), 已忽略');
+    }
+    return {
+      type: 'radial',
+      stops,
+      center: applyAffine(m, { x: coordinate('cx', '50%', 'width'), y: coordinate('cy', '50%', 'height') }),
+      radius: coordinate('r', '50%', 'diagonal') * Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]))
+    };
+  }
+
+  private parseColor(value: string, currentColor: string): Color | null {
+    const color = value.trim().toLowerCase();
+    if (color === 'none' || color === 'transparent') return null;
+    if (color === 'currentcolor') {
+      return currentColor.trim().toLowerCase() === 'currentcolor' ? null : this.parseColor(currentColor, 'black');
+    }
+
+    const hex = /^#([0-9a-f]{3,8})$/.exec(color);
+    if (hex && [3, 4, 6, 8].includes(hex[1].length)) {
+      const digits = hex[1].length <= 4 ? hex[1].replace(/./g, c => c + c) : hex[1];
+      return {
+        r: parseInt(digits.slice(0, 2), 16),
+        g: parseInt(digits.slice(2, 4), 16),
+        b: parseInt(digits.slice(4, 6), 16),
+        a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1
+      };
+    }
+
+    const rgb = /^rgba?\(([^)]*)\)$/.exec(color);
+    if (rgb) {
+      const parts = rgb[1].split(/[\s,/]+/).filter(Boolean);
+      const channel = (part: string) =>
+        Math.max(0, Math.min(255, part.endsWith('%') ? (parseFloat(part) * 255) / 100 : parseFloat(part)));
+      const alpha = parts[3] === undefined
+        ? 1
+        : parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3]);
+      return { r: channel(parts[0]), g: channel(parts[1]), b: channel(parts[2]), a: Math.max(0, Math.min(1, alpha)) };
+    }
+
+    const named = NAMED_COLORS[color];
+    if (named) return { r: named[0], g: named[1], b: named[2], a: 1 };
+
+    this.warn(`无法识别的颜色 "${value}", 已使用黑色`);
+    return { r: 0, g: 0, b: 0, a: 1 };
+  }
+
+  // ========== 长度与视口 ==========
+
+  private readLength(element: Element, name: string, axis: 'width' | 'height' | 'diagonal'): number {
+    return this.parseLength(element.getAttribute(name) ?? '0', axis);
+  }
+
+  /**
+   * 解析长度, 百分比相对当前视口
+   */
+  private parseLength(value: string, axis: 'width' | 'height' | 'diagonal'): number {
+    const match = /^([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)\s*(%|px|pt|pc|mm|cm|in|em)?$/i.exec(value.trim());
+    if (!match) return 0;
+
+    const number = parseFloat(match[1]);
+    switch ((match[2] ?? '').toLowerCase()) {
+      case '%': {
+        const { width, height } = this.viewport;
+        const reference = axis === 'width' ? width : axis === 'height' ? height : Math.hypot(width, height) / Math.SQRT2;
+        return (number * reference) / 100;
+      }
+      case 'pt': return (number * 4) / 3;
+      case 'pc': return number * 16;
+      case 'mm': return (number * 96) / 25.4;
+      case 'cm': return (number * 96) / 2.54;
+      case 'in': return number * 96;
+      case 'em': return number * 16;
+      default: return number;
+    }
+  }
+
+  private parseAbsoluteLength(value: string | null): number | undefined {
+    if (!value || value.trim().endsWith('%')) return undefined;
+    const length = this.parseLength(value, 'width');
+    return length > 0 ? length : undefined;
+  }
+
+  private parseViewBox(value: string | null): Bounds | null {
+    if (!value) return null;
+    const numbers = value.trim().split(/[\s,]+/).map(parseFloat);
+    if (numbers.length !== 4 || numbers.some(n => !Number.isFinite(n)) || numbers[2] <= 0 || numbers[3] <= 0) {
+      return null;
+    }
+    return { x: numbers[0], y: numbers[1], width: numbers[2], height: numbers[3] };
+  }
+
+  /**
+   * viewBox到视口的映射, 支持none与默认的xMidYMid meet
+   */
+  private viewBoxMatrix(viewBox: Bounds, width: number, height: number, aspect: string | null): AffineTuple {
+    let scaleX = width / viewBox.width;
+    let scaleY = height / viewBox.height;
+    let offsetX = 0;
+    let offsetY = 0;
+
+    if (!aspect?.trim().startsWith('none')) {
+      if (aspect && !aspect.includes('xMidYMid')) {
+        this.warn(`不支持preserveAspectRatio="${aspect}", 已按xMidYMid处理`);
+      }
+      const scale = aspect?.includes('slice') ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+      offsetX = (width - viewBox.width * scale) / 2;
+      offsetY = (height - viewBox.height * scale) / 2;
+      scaleX = scale;
+      scaleY = scale;
+    }
+
+    return [scaleX, 0, 0, scaleY, offsetX - viewBox.x * scaleX, offsetY - viewBox.y * scaleY];
+  }
+
+  // ========== 辅助方法 ==========
+
+  /**
+   * 把组矩阵写入组变换, 不可逆时改为下传给子节点
+   */
+  private applyGroupTransform(group: Group, matrix: AffineTuple): AffineTuple {
+    const transform = decompose(matrix);
+    if (!transform) return matrix;
+    group.transform = transform;
+    return IDENTITY_MATRIX;
+  }
+
+  private warnUnsupportedAttributes(element: Element): void {
+    const declarations = this.readDeclarations(element);
+    ['clip-path', 'mask', 'filter'].forEach(name => {
+      const value = declarations.get(name);
+      if (value && value !== 'none') {
+        this.warn(`不支持${name}属性, 已忽略`);
+      }
+    });
+  }
+
+  private nameOf(element: Element): string {
+    return element.getAttribute('id') || DEFAULT_NAMES[element.localName] || element.localName;
+  }
+
+  private nextId(): string {
+    return `${this.idPrefix}_${this.idCounter++}`;
+  }
+
+  private warn(message: string): void {
+    this.warnings.add(message);
+  }
+}
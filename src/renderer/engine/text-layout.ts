@@ -0,0 +1,246 @@
+// ============================================
+// RIV Editor - 文字排版
+// 文本段 → 字形位置: 换行、自动折行、行高、字间距与对齐
+// ============================================
+
+/**
+ * 尺寸模式
+ * auto-width: 不折行, 宽高随内容
+ * auto-height: 固定宽度折行, 高度随内容
+ * fixed: 固定宽高折行, 内容按垂直对齐放置(超出部分照常绘制)
+ */
+export type TextSizing = 'auto-width' | 'auto-height' | 'fixed';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export type TextVerticalAlign = 'top' | 'middle' | 'bottom';
+
+/**
+ * 字形度量来源, 数值为字体单位
+ */
+export interface GlyphMetrics {
+  unitsPerEm: number;
+  ascender: number;
+  descender: number; // 通常为负数
+  advance(char: string): number;
+}
+
+export interface LayoutRun {
+  text: string;
+  fontSize: number;
+}
+
+export interface TextLayoutOptions {
+  sizing: TextSizing;
+  width: number; // auto-width时忽略
+  height: number; // 只在fixed时使用
+  align: TextAlign;
+  verticalAlign: TextVerticalAlign;
+  lineHeight: number; // 字号的倍数
+  letterSpacing: number; // 像素, 加在每个字符之后
+}
+
+export interface LayoutGlyph {
+  char: string;
+  run: number; // 所属文本段序号
+  fontSize: number;
+  x: number; // 字形原点, 相对文本框左上角
+  baseline: number;
+  advance: number; // 含字间距
+}
+
+export interface LayoutLine {
+  glyphs: LayoutGlyph[];
+  top: number;
+  height: number;
+  width: number; // 不含行尾空白
+}
+
+export interface TextLayout {
+  lines: LayoutLine[];
+  width: number; // 文本框尺寸
+  height: number;
+}
+
+// 可以在任意两个字之间折行的文字: CJK统一表意文字、假名、谚文与全角标点
+const CJK_PATTERN = /[\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF]/;
+
+const WHITESPACE_PATTERN = /\s/;
+
+/**
+ * 排版文本段, 返回字形位置与文本框尺寸
+ */
+export function layoutText(runs: LayoutRun[], metrics: GlyphMetrics, options: TextLayoutOptions): TextLayout {
+  const chars = runs.flatMap((run, index) =>
+    Array.from(run.text, char => ({ char, run: index, fontSize: run.fontSize }))
+  );
+  const fallbackSize = runs[runs.length - 1]?.fontSize ?? 0;
+  const wrapWidth = options.sizing === 'auto-width' ? Infinity : Math.max(options.width, 0);
+  const measure = (char: string, fontSize: number) =>
+    (metrics.advance(char) / metrics.unitsPerEm) * fontSize + options.letterSpacing;
+
+  // 按换行符分段, 段内按断行机会切成不可拆分的片段
+  const rows: PendingGlyph[][] = [];
+  let paragraph: PendingGlyph[] = [];
+  const flushParagraph = (lineSize: number) => {
+    wrapParagraph(paragraph, wrapWidth).forEach(row => rows.push(row.length > 0 ? row : [emptyMarker(lineSize)]));
+    paragraph = [];
+  };
+  chars.forEach(({ char, run, fontSize }) => {
+    if (char === '\n') {
+      flushParagraph(fontSize);
+      return;
+    }
+    paragraph.push({ char, run, fontSize, advance: measure(char, fontSize) });
+  });
+  flushParagraph(chars[chars.length - 1]?.fontSize ?? fallbackSize);
+
+  // 行高取行内最大字号, 上下留出相同的行距
+  const lines: LayoutLine[] = [];
+  let top = 0;
+  rows.forEach(row => {
+    const fontSize = Math.max(...row.map(glyph => glyph.fontSize));
+    const height = fontSize * options.lineHeight;
+    const contentHeight = ((metrics.ascender - metrics.descender) / metrics.unitsPerEm) * fontSize;
+    const baseline = top + (height - contentHeight) / 2 + (metrics.ascender / metrics.unitsPerEm) * fontSize;
+
+    const glyphs: LayoutGlyph[] = [];
+    let x = 0;
+    let width = 0;
+    row.forEach(glyph => {
+      if (glyph.run < 0) return;
+      glyphs.push({ char: glyph.char, run: glyph.run, fontSize: glyph.fontSize, x, baseline, advance: glyph.advance });
+      x += glyph.advance;
+      if (!WHITESPACE_PATTERN.test(glyph.char)) width = x;
+    });
+
+    lines.push({ glyphs, top, height, width });
+    top += height;
+  });
+
+  const contentWidth = Math.max(0, ...lines.map(line => line.width));
+  const width = options.sizing === 'auto-width' ? contentWidth : options.width;
+  const height = options.sizing === 'fixed' ? options.height : top;
+
+  // 对齐
+  const alignFactor = { left: 0, center: 0.5, right: 1 }[options.align];
+  const verticalFactor = options.sizing === 'fixed' ? { top: 0, middle: 0.5, bottom: 1 }[options.verticalAlign] : 0;
+  const offsetY = (height - top) * verticalFactor;
+  lines.forEach(line => {
+    const offsetX = (width - line.width) * alignFactor;
+    line.top += offsetY;
+    line.glyphs.forEach(glyph => {
+      glyph.x += offsetX;
+      glyph.baseline += offsetY;
+    });
+  });
+
+  return { lines, width, height };
+}
+
+/**
+ * 系统字体的近似度量, 用于未指定字体资源时的编辑器预览
+ * 有画布时按measureText测量, 否则按半角0.55em、CJK 1em估算
+ */
+export function systemFontMetrics(fontFamily: string): GlyphMetrics {
+  let metrics = systemMetricsCache.get(fontFamily);
+  if (!metrics) {
+    const context = typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(1, 1).getContext('2d') : null;
+    if (context) context.font = `${SYSTEM_UNITS_PER_EM}px ${fontFamily}`;
+    const widths = new Map<string, number>();
+    metrics = {
+      unitsPerEm: SYSTEM_UNITS_PER_EM,
+      ascender: SYSTEM_UNITS_PER_EM * 0.8,
+      descender: -SYSTEM_UNITS_PER_EM * 0.2,
+      advance: (char: string) => {
+        let width = widths.get(char);
+        if (width === undefined) {
+          width = context
+            ? context.measureText(char).width
+            : SYSTEM_UNITS_PER_EM * (CJK_PATTERN.test(char) ? 1 : 0.55);
+          widths.set(char, width);
+        }
+        return width;
+      }
+    };
+    systemMetricsCache.set(fontFamily, metrics);
+  }
+  return metrics;
+}
+
+// ========== 内部工具 ==========
+
+const SYSTEM_UNITS_PER_EM = 1000;
+
+const systemMetricsCache = new Map<string, GlyphMetrics>();
+
+interface PendingGlyph {
+  char: string;
+  run: number; // 空行占位为-1
+  fontSize: number;
+  advance: number;
+}
+
+/**
+ * 空行用占位字形决定行高
+ */
+function emptyMarker(fontSize: number): PendingGlyph {
+  return { char: '', run: -1, fontSize, advance: 0 };
+}
+
+/**
+ * 贪心折行: 片段放不下时换到下一行, 行尾空白不计入宽度; 单个片段超出整行宽度时按字拆开
+ */
+function wrapParagraph(glyphs: PendingGlyph[], maxWidth: number): PendingGlyph[][] {
+  const rows: PendingGlyph[][] = [[]];
+  let rowWidth = 0;
+
+  const place = (segment: PendingGlyph[]) => {
+    const row = rows[rows.length - 1];
+    const segmentWidth = visibleWidth(segment);
+    if (row.length > 0 && rowWidth + segmentWidth > maxWidth) {
+      rows.push([]);
+      rowWidth = 0;
+      place(segment);
+      return;
+    }
+    if (row.length === 0 && segmentWidth > maxWidth && segment.length > 1) {
+      segment.forEach(glyph => place([glyph]));
+      return;
+    }
+    row.push(...segment);
+    rowWidth += segment.reduce((sum, glyph) => sum + glyph.advance, 0);
+  };
+
+  splitSegments(glyphs).forEach(place);
+  return rows;
+}
+
+/**
+ * 切分为不可拆分的片段: 单词连同其后的空白; CJK文字每个字单独成段
+ */
+function splitSegments(glyphs: PendingGlyph[]): PendingGlyph[][] {
+  const segments: PendingGlyph[][] = [];
+  let current: PendingGlyph[] = [];
+  let trailingSpace = false;
+
+  glyphs.forEach(glyph => {
+    const isSpace = WHITESPACE_PATTERN.test(glyph.char);
+    const isCjk = CJK_PATTERN.test(glyph.char);
+    if (current.length > 0 && !isSpace && (trailingSpace || isCjk || CJK_PATTERN.test(current[current.length - 1].char))) {
+      segments.push(current);
+      current = [];
+      trailingSpace = false;
+    }
+    current.push(glyph);
+    if (isSpace) trailingSpace = true;
+  });
+  if (current.length > 0) segments.push(current);
+  return segments;
+}
+
+function visibleWidth(segment: PendingGlyph[]): number {
+  let end = segment.length;
+  while (end > 0 && WHITESPACE_PATTERN.test(segment[end - 1].char)) end--;
+  return segment.slice(0, end).reduce((sum, glyph) => sum + glyph.advance, 0);
+}
@@ -1,29 +1,16 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
-
-interface Shape {
-  id: string;
-  type: 'rect' | 'ellipse' | 'path' | 'text';
-  x: number;
-  y: number;
-  width?: number;
-  height?: number;
-  radiusX?: number;
-  radiusY?: number;
-  rotation: number;
-  fill: string;
-  stroke?: {
-    color: string;
-    width: number;
-  };
-  opacity?: number;
-  name?: string;
-  pathData?: string;
-}
+import type { Animation, Asset, BooleanOperation, EditorNotice, Shape } from '../types';
+import { serializeContours, type PathContour } from '../engine/path-model';
+import type { VertexRef } from '../engine/path-editing';
+import type { KeyframeRef } from '../engine/keyframe-editing';
+import { DEFAULT_ANIMATION_FPS, booleanPath, flattenShape, type Shape as EngineShape } from '../engine/riv-editor-engine';
+import { toEngineShape, fromEngineShape } from '../engine/shape-document';
 
 interface HistoryState {
   shapes: Shape[];
   selectedShapes: string[];
+  animations: Animation[];
 }
 
 interface EditorState {
@@ -33,10 +20,29 @@ interface EditorState {
 
   // 图形
   shapes: Shape[];
-  addShape: (shape: Shape) => void;
-  updateShape: (id: string, updates: Partial<Shape>) => void;
+  // recordHistory为false时不记录历史, 用于拖动过程中的连续更新, 结束时再调用pushHistory
+  addShape: (shape: Shape, recordHistory?: boolean) => void;
+  updateShape: (id: string, updates: Partial<Shape>, recordHistory?: boolean) => void;
   deleteShape: (id: string) => void;
 
+  // 资源: 图片与字体, 图形通过assetId引用
+  assets: Asset[];
+  addAsset: (asset: Asset) => void; // 已有同ID的资源时忽略
+
+  // 路径编辑
+  penPathId: string | null; // 钢笔工具正在绘制的路径
+  setPenPathId: (id: string | null) => void;
+  selectedVertices: VertexRef[]; // 顶点编辑模式下选中的顶点
+  setSelectedVertices: (refs: VertexRef[]) => void;
+  setPathContours: (id: string, contours: PathContour[], recordHistory?: boolean) => void;
+
+  // 布尔运算: 选中的多个图形合成为布尔组(live)或直接拼合为一条路径
+  applyBooleanOperation: (operation: BooleanOperation, live: boolean) => void;
+  // 选中的布尔组、矩形、椭圆与有字体的文本拼合为路径
+  flattenSelection: () => void;
+  // 裁切: 最上层的选中图形作为裁切图形, 其余选中图形放入被它裁切的新组
+  createClipGroup: (inverse: boolean) => void;
+
   // 选择
   selectedShapes: string[];
   selectShape: (id: string, multiSelect?: boolean) => void;
@@ -48,11 +54,20 @@ interface EditorState {
   pan: { x: number; y: number };
   setPan: (pan: { x: number; y: number }) => void;
 
-  // 时间轴
-  currentFrame: number;
-  setCurrentFrame: (frame: number) => void;
-  isPlaying: boolean;
-  setIsPlaying: (playing: boolean) => void;
+  // 动画: 播放头与播放状态由usePlayback中的播放控制器管理, 时长与循环方式取自当前动画
+  animations: Animation[];
+  activeAnimationId: string | null;
+  setActiveAnimation: (id: string | null) => void;
+  addAnimation: () => void; // 新建动画并设为当前动画
+  // 按ID替换动画, 关键帧拖动中的连续更新不记录历史
+  updateAnimation: (animation: Animation, recordHistory?: boolean) => void;
+  selectedKeyframes: KeyframeRef[]; // 当前动画中选中的关键帧
+  setSelectedKeyframes: (refs: KeyframeRef[]) => void;
+
+  // 提示
+  notices: EditorNotice[];
+  addNotice: (level: EditorNotice['level'], message: string) => void;
+  dismissNotice: (id: string) => void;
 
   // 历史记录
   history: HistoryState[];
@@ -64,16 +79,24 @@ interface EditorState {
   pushHistory: () => void;
 }
 
+// 提示ID计数, 同一时刻的多条提示也不会重复
+let noticeCount = 0;
+
 export const useEditorStore = create<EditorState>()(
   immer((set, get) => ({
     // 初始状态
     currentTool: 'select',
     shapes: [],
+    assets: [],
     selectedShapes: [],
+    penPathId: null,
+    selectedVertices: [],
     zoom: 1,
     pan: { x: 0, y: 0 },
-    currentFrame: 0,
-    isPlaying: false,
+    animations: [],
+    activeAnimationId: null,
+    selectedKeyframes: [],
+    notices: [],
     history: [],
     historyIndex: -1,
     canUndo: false,
@@ -87,28 +110,152 @@ export const useEditorStore = create<EditorState>()(
     },
 
     // 图形操作
-    addShape: (shape) => {
+    addShape: (shape, recordHistory = true) => {
       set((state) => {
         state.shapes.push(shape);
         state.selectedShapes = [shape.id];
       });
-      get().pushHistory();
+      if (recordHistory) get().pushHistory();
     },
 
-    updateShape: (id, updates) => {
+    updateShape: (id, updates, recordHistory = true) => {
       set((state) => {
         const shape = state.shapes.find((s) => s.id === id);
         if (shape) {
           Object.assign(shape, updates);
         }
       });
-      get().pushHistory();
+      if (recordHistory) get().pushHistory();
     },
 
     deleteShape: (id) => {
       set((state) => {
         state.shapes = state.shapes.filter((s) => s.id !== id);
         state.selectedShapes = state.selectedShapes.filter((sid) => sid !== id);
+        if (state.penPathId === id) state.penPathId = null;
+      });
+      get().pushHistory();
+    },
+
+    // 资源操作
+    addAsset: (asset) => {
+      set((state) => {
+        if (!state.assets.some((a) => a.id === asset.id)) state.assets.push(asset);
+      });
+    },
+
+    // 路径编辑操作
+    setPenPathId: (id) => {
+      set((state) => {
+        state.penPathId = id;
+      });
+    },
+
+    setSelectedVertices: (refs) => {
+      set((state) => {
+        state.selectedVertices = refs;
+      });
+    },
+
+    setPathContours: (id, contours, recordHistory = true) => {
+      set((state) => {
+        const shape = state.shapes.find((s) => s.id === id);
+        if (shape?.type === 'path') {
+          shape.pathData = serializeContours(contours);
+        }
+      });
+      if (recordHistory) get().pushHistory();
+    },
+
+    // 布尔运算
+    applyBooleanOperation: (operation, live) => {
+      const { shapes, selectedShapes, assets } = get();
+      const selected = shapes.filter((s) => selectedShapes.includes(s.id));
+      if (selected.length < 2) return;
+
+      const id = `boolean_${Date.now()}`;
+      const name = BOOLEAN_NAMES[operation];
+      let result: Shape;
+      if (live) {
+        const base = selected[0];
+        result = {
+          id,
+          type: 'group',
+          name,
+          x: 0,
+          y: 0,
+          rotation: 0,
+          opacity: 1,
+          visible: true,
+          locked: false,
+          fill: base.fill,
+          stroke: base.stroke,
+          children: selected,
+          booleanOperation: operation,
+        };
+      } else {
+        const engineShapes = selected
+          .map((shape) => toEngineShape(shape, assets))
+          .filter((shape): shape is EngineShape => shape !== null);
+        result = fromEngineShape(booleanPath(engineShapes, operation, id, name));
+      }
+
+      set((state) => {
+        // 结果放在最上层选中图形的位置
+        const lastIndex = state.shapes.findIndex((s) => s.id === selected[selected.length - 1].id);
+        const insertAt = state.shapes.slice(0, lastIndex).filter((s) => !selectedShapes.includes(s.id)).length;
+        state.shapes = state.shapes.filter((s) => !selectedShapes.includes(s.id));
+        state.shapes.splice(insertAt, 0, result);
+        state.selectedShapes = [id];
+      });
+      get().pushHistory();
+    },
+
+    flattenSelection: () => {
+      const { shapes, selectedShapes, assets } = get();
+      const flattened = new Map<string, Shape>();
+      shapes.forEach((shape) => {
+        if (!selectedShapes.includes(shape.id) || shape.type === 'path') return;
+        const engineShape = toEngineShape(shape, assets);
+        const path = engineShape && flattenShape(engineShape);
+        if (path) flattened.set(shape.id, fromEngineShape(path));
+      });
+      if (flattened.size === 0) return;
+
+      set((state) => {
+        state.shapes = state.shapes.map((s) => flattened.get(s.id) ?? s);
+      });
+      get().pushHistory();
+    },
+
+    createClipGroup: (inverse) => {
+      const { shapes, selectedShapes } = get();
+      const selected = shapes.filter((s) => selectedShapes.includes(s.id));
+      if (selected.length < 2) return;
+
+      // 新组没有变换, 裁切图形与子图形保持原有坐标
+      const id = `clip_${Date.now()}`;
+      const group: Shape = {
+        id,
+        type: 'group',
+        name: inverse ? '反向裁切组' : '裁切组',
+        x: 0,
+        y: 0,
+        rotation: 0,
+        opacity: 1,
+        visible: true,
+        locked: false,
+        children: selected.slice(0, -1),
+        clipSources: [selected[selected.length - 1]],
+        clipInverse: inverse,
+      };
+
+      set((state) => {
+        const lastIndex = state.shapes.findIndex((s) => s.id === selected[selected.length - 1].id);
+        const insertAt = state.shapes.slice(0, lastIndex).filter((s) => !selectedShapes.includes(s.id)).length;
+        state.shapes = state.shapes.filter((s) => !selectedShapes.includes(s.id));
+        state.shapes.splice(insertAt, 0, group);
+        state.selectedShapes = [id];
       });
       get().pushHistory();
     },
@@ -147,31 +294,56 @@ export const useEditorStore = create<EditorState>()(
       });
     },
 
-    // 时间轴操作
-    setCurrentFrame: (frame) => {
+    // 动画操作
+    setActiveAnimation: (id) => {
       set((state) => {
-        state.currentFrame = frame;
+        state.activeAnimationId = id !== null && state.animations.some((a) => a.id === id) ? id : null;
+        state.selectedKeyframes = [];
       });
     },
 
-    setIsPlaying: (playing) => {
+    addAnimation: () => {
       set((state) => {
-        state.isPlaying = playing;
+        const id = `animation_${Date.now()}`;
+        state.animations.push({
+          id,
+          name: `动画 ${state.animations.length + 1}`,
+          duration: 1000,
+          fps: DEFAULT_ANIMATION_FPS,
+          tracks: [],
+          loop: 'loop',
+        });
+        state.activeAnimationId = id;
+        state.selectedKeyframes = [];
       });
+      get().pushHistory();
+    },
 
-      // 播放动画
-      if (playing) {
-        const animate = () => {
-          const state = get();
-          if (!state.isPlaying) return;
+    updateAnimation: (animation, recordHistory = true) => {
+      set((state) => {
+        const index = state.animations.findIndex((a) => a.id === animation.id);
+        if (index !== -1) state.animations[index] = animation;
+      });
+      if (recordHistory) get().pushHistory();
+    },
 
-          const nextFrame = (state.currentFrame + 1) % 120;
-          state.setCurrentFrame(nextFrame);
+    setSelectedKeyframes: (refs) => {
+      set((state) => {
+        state.selectedKeyframes = refs;
+      });
+    },
 
-          requestAnimationFrame(animate);
-        };
-        animate();
-      }
+    // 提示操作
+    addNotice: (level, message) => {
+      set((state) => {
+        state.notices.push({ id: `notice_${++noticeCount}`, level, message });
+      });
+    },
+
+    dismissNotice: (id) => {
+      set((state) => {
+        state.notices = state.notices.filter((n) => n.id !== id);
+      });
     },
 
     // 历史记录
@@ -180,6 +352,7 @@ export const useEditorStore = create<EditorState>()(
         const currentState: HistoryState = {
           shapes: JSON.parse(JSON.stringify(state.shapes)),
           selectedShapes: [...state.selectedShapes],
+          animations: JSON.parse(JSON.stringify(state.animations)),
         };
 
         // 删除当前索引之后的历史
@@ -209,6 +382,9 @@ export const useEditorStore = create<EditorState>()(
         
         state.shapes = JSON.parse(JSON.stringify(prevState.shapes));
         state.selectedShapes = [...prevState.selectedShapes];
+        state.animations = JSON.parse(JSON.stringify(prevState.animations));
+        resetPathEditing(state);
+        resetAnimationEditing(state);
 
         state.canUndo = state.historyIndex > 0;
         state.canRedo = true;
@@ -224,6 +400,9 @@ export const useEditorStore = create<EditorState>()(
         
         state.shapes = JSON.parse(JSON.stringify(nextState.shapes));
         state.selectedShapes = [...nextState.selectedShapes];
+        state.animations = JSON.parse(JSON.stringify(nextState.animations));
+        resetPathEditing(state);
+        resetAnimationEditing(state);
 
         state.canUndo = true;
         state.canRedo = state.historyIndex < state.history.length - 1;
@@ -231,3 +410,32 @@ export const useEditorStore = create<EditorState>()(
     },
   }))
 );
+
+// ========== 内部工具 ==========
+
+const BOOLEAN_NAMES: Record<BooleanOperation, string> = {
+  union: '合并',
+  subtract: '减去',
+  intersect: '相交',
+  exclude: '排除',
+};
+
+/**
+ * 撤销/重做后顶点序号可能失效, 钢笔绘制中的路径可能已不存在
+ */
+function resetPathEditing(state: EditorState): void {
+  state.selectedVertices = [];
+  if (state.penPathId && !state.shapes.some((s) => s.id === state.penPathId)) {
+    state.penPathId = null;
+  }
+}
+
+/**
+ * 撤销/重做后关键帧序号可能失效, 当前动画可能已不存在
+ */
+function resetAnimationEditing(state: EditorState): void {
+  state.selectedKeyframes = [];
+  if (state.activeAnimationId && !state.animations.some((a) => a.id === state.activeAnimationId)) {
+    state.activeAnimationId = null;
+  }
+}
@@ -0,0 +1,43 @@
+import { useSyncExternalStore } from 'react';
+import { DEFAULT_PLAYBACK_DURATION, DEFAULT_PLAYBACK_FPS, PlaybackController, type PlaybackState } from '../engine/playback';
+import { useEditorStore } from './useEditorStore';
+
+// 编辑器唯一的播放控制器, 时间轴与画布共同订阅
+export const playback = new PlaybackController();
+
+/**
+ * 订阅播放状态; selector应返回基本类型或状态中已有的对象, 每次返回新对象会导致反复渲染
+ */
+export function usePlayback(): PlaybackState;
+export function usePlayback<T>(selector: (state: PlaybackState) => T): T;
+export function usePlayback<T>(selector?: (state: PlaybackState) => T): T | PlaybackState {
+  return useSyncExternalStore(
+    (listener) => playback.subscribe(listener),
+    () => (selector ? selector(playback.getState()) : playback.getState())
+  );
+}
+
+type EditorSnapshot = ReturnType<typeof useEditorStore.getState>;
+
+/**
+ * 当前动画的时长、帧率与循环方式同步到播放控制器; 只同步变化的值, 编辑关键帧不影响播放
+ */
+function syncPlayback(state: EditorSnapshot, previous: EditorSnapshot | null): void {
+  const settings = (s: EditorSnapshot | null) => {
+    const animation = s?.animations.find((a) => a.id === s.activeAnimationId);
+    return {
+      duration: animation?.duration ?? DEFAULT_PLAYBACK_DURATION,
+      fps: animation?.fps ?? DEFAULT_PLAYBACK_FPS,
+      loop: animation?.loop ?? 'loop',
+    };
+  };
+  const next = settings(state);
+  const last = previous && settings(previous);
+  if (next.duration !== last?.duration) playback.setDuration(next.duration);
+  if (next.fps !== last?.fps) playback.setFps(next.fps);
+  if (next.loop !== last?.loop) playback.setLoop(next.loop);
+}
+
+// 启动时同步一次, 之后随编辑器状态同步
+syncPlayback(useEditorStore.getState(), null);
+useEditorStore.subscribe((state, previous) => syncPlayback(state, previous));
@@ -2,6 +2,8 @@
 // RIV Editor - TypeScript 类型定义
 // ============================================
 
+import type { ColorSpace, KeyframeInterpolation } from '../engine/interpolation';
+
 export interface Vector2 {
   x: number;
   y: number;
@@ -11,6 +13,7 @@ export interface Transform {
   position: Vector2;
   scale: Vector2;
   rotation: number;
+  skew?: Vector2;
   pivot?: Vector2;
 }
 
@@ -42,9 +45,52 @@ export interface Stroke {
   cap?: 'butt' | 'round' | 'square';
   join?: 'miter' | 'round' | 'bevel';
   dashArray?: number[];
+  dashOffset?: number;
+  trim?: TrimPath;
+}
+
+export interface TrimPath {
+  start: number; // 0-1
+  end: number;
+  offset: number;
+  mode: 'sequential' | 'synchronized'; // 全部子路径首尾相接 / 每条子路径分别裁剪
 }
 
-export type ShapeType = 'rect' | 'ellipse' | 'path' | 'text' | 'group';
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity';
+
+export interface ShadowEffect {
+  type: 'drop-shadow' | 'inner-shadow';
+  visible: boolean;
+  color: Color;
+  offset: Vector2; // 父级坐标系
+  blur: number; // 高斯模糊标准差
+}
+
+export interface BlurEffect {
+  type: 'layer-blur' | 'background-blur';
+  visible: boolean;
+  blur: number;
+}
+
+export type Effect = ShadowEffect | BlurEffect;
+
+export type ShapeType = 'rect' | 'ellipse' | 'path' | 'text' | 'image' | 'group';
 
 export interface BaseShape {
   id: string;
@@ -53,11 +99,19 @@ export interface BaseShape {
   x: number;
   y: number;
   rotation: number;
+  scaleX?: number;
+  scaleY?: number;
+  skewX?: number; // 弧度
+  skewY?: number;
   opacity: number;
   visible: boolean;
   locked: boolean;
   fill?: string | Fill;
   stroke?: Stroke;
+  clipSources?: Shape[]; // 裁切图形: 坐标相对于所属图形, 本身不绘制, 填充区域的并集裁切所属图形
+  clipInverse?: boolean; // 反向裁切
+  blendMode?: BlendMode; // 默认normal
+  effects?: Effect[]; // 按顺序叠加的图层效果
 }
 
 export interface RectShape extends BaseShape {
@@ -73,27 +127,62 @@ export interface EllipseShape extends BaseShape {
   radiusY: number;
 }
 
+export type FillRule = 'nonzero' | 'evenodd';
+
 export interface PathShape extends BaseShape {
   type: 'path';
   pathData: string;
+  fillRule?: FillRule;
+}
+
+// 文本段, 未指定的字号与填充沿用所属文本图形
+export interface TextRun {
+  text: string;
+  fontSize?: number;
+  fill?: string | Fill;
 }
 
 export interface TextShape extends BaseShape {
   type: 'text';
   content: string;
+  runs?: TextRun[]; // 设置时优先于content, content为各段文本的拼接
   fontSize: number;
-  fontFamily: string;
+  fontFamily: string; // 没有字体资源时的预览字体
   fontWeight?: number;
+  assetId?: string; // 字体资源ID
+  sizing?: 'auto-width' | 'auto-height' | 'fixed'; // 默认auto-width
+  width?: number; // auto-height与fixed时的文本框宽度
+  height?: number; // fixed时的文本框高度
+  textAlign?: 'left' | 'center' | 'right';
+  verticalAlign?: 'top' | 'middle' | 'bottom';
+  lineHeight?: number; // 字号的倍数, 默认1.2
+  letterSpacing?: number;
 }
 
+export interface ImageShape extends BaseShape {
+  type: 'image';
+  assetId: string; // 图片资源ID
+  width: number; // 图片框尺寸, x/y为图片框中心
+  height: number;
+  fit?: 'fill' | 'contain' | 'cover' | 'none'; // 默认contain
+}
+
+// 布尔组的运算类型, 子图形按绘制顺序参与运算
+export type BooleanOperation = 'union' | 'subtract' | 'intersect' | 'exclude';
+
 export interface GroupShape extends BaseShape {
   type: 'group';
   children: Shape[];
+  booleanOperation?: BooleanOperation; // 设置时为非破坏性布尔组
 }
 
-export type Shape = RectShape | EllipseShape | PathShape | TextShape | GroupShape;
+export type Shape = RectShape | EllipseShape | PathShape | TextShape | ImageShape | GroupShape;
 
 // 动画相关
+export type EasingDirection = 'in' | 'out' | 'in-out';
+
+export type StepJump = 'start' | 'end' | 'none' | 'both';
+
 export type EasingFunction =
   | 'linear'
   | 'ease-in'
@@ -101,23 +190,43 @@ export type EasingFunction =
   | 'ease-in-out'
   | 'bounce'
   | 'elastic'
-  | { bezier: [number, number, number, number] };
+  | { bezier: [number, number, number, number] }
+  | { back: EasingDirection; overshoot?: number }
+  | { elastic: EasingDirection; amplitude?: number; period?: number }
+  | { bounce: EasingDirection }
+  | { steps: number; jump?: StepJump };
+
+// 插值方式与色彩空间由插值模块定义
+export type { ColorSpace, KeyframeInterpolation };
+
+// 路径变形的轮廓对应关系: contour对应下一关键帧的target, startVertex与reversed缺省时自动选择
+export interface MorphCorrespondence {
+  contour: number;
+  target: number;
+  startVertex?: number;
+  reversed?: boolean;
+}
 
 export interface Keyframe<T = any> {
   time: number;
   value: T;
   easing: EasingFunction;
+  interpolation?: KeyframeInterpolation; // 默认curve
+  morph?: MorphCorrespondence[]; // pathData轨道, 缺省时自动对应
 }
 
 export interface AnimationTrack {
   property: string;
+  targetId?: string; // 目标图形ID
   keyframes: Keyframe[];
+  colorSpace?: ColorSpace; // 颜色轨道的插值色彩空间, 默认srgb
 }
 
 export interface Animation {
   id: string;
   name: string;
   duration: number;
+  fps?: number; // 帧率, 默认60
   tracks: AnimationTrack[];
   loop: 'once' | 'loop' | 'pingpong';
 }
@@ -195,8 +304,15 @@ export interface EditorState {
   selectedShapes: string[];
   zoom: number;
   pan: Vector2;
-  currentFrame: number;
-  isPlaying: boolean;
+  animations: Animation[];
+  activeAnimationId: string | null;
+}
+
+// 编辑器提示: 导入等操作的警告与错误, 显示到用户关闭为止
+export interface EditorNotice {
+  id: string;
+  level: 'warning' | 'error';
+  message: string;
 }
 
 // 导出选项
@@ -207,3 +323,21 @@ export interface ExportOptions {
   includeDebugInfo?: boolean;
   compressionLevel?: number;
 }
+
+// Electron预加载脚本暴露的API, 浏览器环境中不存在
+export interface ElectronAPI {
+  openFile: () => Promise<unknown>;
+  saveFile: (data: unknown) => Promise<unknown>;
+  selectDirectory: () => Promise<string | null>;
+  writeFiles: (directory: string, files: Array<{ name: string; data: Uint8Array }>) => Promise<void>;
+  minimizeWindow: () => void;
+  maximizeWindow: () => void;
+  closeWindow: () => void;
+  platform: string;
+}
+
+declare global {
+  interface Window {
+    electronAPI?: ElectronAPI;
+  }
+}
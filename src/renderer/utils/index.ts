@@ -3,6 +3,11 @@
 // ============================================
 
 import type { Vector2, Color, Shape } from '@types/index';
+import { Image, type Asset } from '@engine/riv-editor-engine';
+import { findOrCreateAsset } from '@engine/asset-manager';
+import { fontFromAsset } from '@engine/font';
+import { SvgImporter, type SvgImportResult } from '@engine/svg-importer';
+import { createZip, type ArchiveFile } from '@engine/zip-archive';
 
 // ========== 数学工具 ==========
 
@@ -96,6 +101,7 @@ export function lerpColor(c1: Color, c2: Color, t: number): Color {
 
 /**
  * 检查点是否在矩形内
+ * @deprecated 不考虑旋转、缩放与组变换, 画布拾取请使用 @engine/hit-test
  */
 export function isPointInRect(
   point: Vector2,
@@ -111,6 +117,7 @@ export function isPointInRect(
 
 /**
  * 检查点是否在圆内
+ * @deprecated 不考虑旋转、缩放与组变换, 画布拾取请使用 @engine/hit-test
  */
 export function isPointInCircle(
   point: Vector2,
@@ -157,6 +164,14 @@ export function getShapeBounds(shape: Shape): {
         height: shape.height,
       };
 
+    case 'image':
+      return {
+        x: shape.x - shape.width / 2,
+        y: shape.y - shape.height / 2,
+        width: shape.width,
+        height: shape.height,
+      };
+
     case 'ellipse':
       return {
         x: shape.x - shape.radiusX,
@@ -194,6 +209,22 @@ export function downloadFile(data: Blob | string, filename: string): void {
   URL.revokeObjectURL(url);
 }
 
+/**
+ * 保存一组导出文件: Electron中写入用户选择的文件夹, 浏览器中打包为zip下载
+ * 返回false表示用户取消了目录选择
+ */
+export async function saveFileSet(files: ArchiveFile[], archiveName: string): Promise<boolean> {
+  if (window.electronAPI) {
+    const directory = await window.electronAPI.selectDirectory();
+    if (!directory) return false;
+    await window.electronAPI.writeFiles(directory, files);
+    return true;
+  }
+
+  downloadFile(new Blob([createZip(files).buffer as ArrayBuffer], { type: 'application/zip' }), archiveName);
+  return true;
+}
+
 /**
  * 读取文件为文本
  */
@@ -206,6 +237,14 @@ export function readFileAsText(file: File): Promise<string> {
   });
 }
 
+/**
+ * 读取SVG文件并转换为引擎图形, 根组以文件名命名
+ */
+export async function readSvgFile(file: File): Promise<SvgImportResult> {
+  const text = await readFileAsText(file);
+  return new SvgImporter().importFromString(text, { name: file.name.replace(/\.svg$/i, '') });
+}
+
 /**
  * 读取文件为ArrayBuffer
  */
@@ -218,6 +257,41 @@ export function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
   });
 }
 
+/**
+ * 读取PNG/JPEG/WebP文件, 一步生成图片资源与按原始像素尺寸显示的图片图形
+ * assets中已有相同内容的资源时复用(created为false); 不是可识别的图片时抛出RasterImageError
+ * 返回前完成解码, 图片加入画布后可以立即绘制
+ */
+export async function readImageFile(
+  file: File,
+  assets: Asset[] = []
+): Promise<{ asset: Asset; created: boolean; image: Image }> {
+  const data = await readFileAsArrayBuffer(file);
+  const { asset, created } = await findOrCreateAsset(assets, file.name, 'image', data);
+
+  const image = new Image(generateId('image'), file.name.replace(/\.[^.]*$/, '') || '图片');
+  image.setImage(asset);
+  const { width, height } = image.image!;
+  image.width = width;
+  image.height = height;
+  await image.image!.decode();
+  return { asset, created, image };
+}
+
+/**
+ * 读取TTF文件生成字体资源, assets中已有相同内容的资源时复用(created为false)
+ * 返回前先解析一次, 无法使用的字体抛出FontError, 不会加入资源列表
+ */
+export async function readFontFile(
+  file: File,
+  assets: Asset[] = []
+): Promise<{ asset: Asset; created: boolean }> {
+  const data = await readFileAsArrayBuffer(file);
+  const result = await findOrCreateAsset(assets, file.name, 'font', data);
+  fontFromAsset(result.asset);
+  return result;
+}
+
 // ========== 格式化工具 ==========
 
 /**